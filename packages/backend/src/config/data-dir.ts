@@ -0,0 +1,19 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Get the directory for runtime data (execution jobs etc.), creating it if needed
+ * Defaults to packages/backend/data and can be overridden with DATA_DIR
+ * @param subdirectory - Optional subdirectory inside the data directory
+ */
+export const getDataDir = (subdirectory?: string): string => {
+  const baseDir = process.env.DATA_DIR || path.join(__dirname, '../../data');
+  const dir = subdirectory ? path.join(baseDir, subdirectory) : baseDir;
+
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+    console.log(`📁 Created data directory at ${dir}`);
+  }
+
+  return dir;
+};
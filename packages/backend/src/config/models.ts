@@ -0,0 +1,205 @@
+import type { CostEstimate, LLMProviderName, ModelConfig, ModelSettings, PromptTemplate } from '../types';
+
+const RESPONSE_FORMATS: ModelConfig['responseFormat'][] = ['text', 'json_object'];
+
+const parseNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+/**
+ * Read an environment variable holding a JSON object of model settings, naming the variable when it is invalid
+ */
+const parseModelMap = <T>(name: string, isValid: (value: unknown) => boolean): Record<string, T> => {
+  const value = process.env[name];
+  if (!value) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    throw new Error(`${name} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`${name} must be a JSON object keyed by model name`);
+  }
+  const invalid = Object.keys(parsed).find(model => !isValid((parsed as Record<string, unknown>)[model]));
+  if (invalid !== undefined) {
+    throw new Error(`${name} has an invalid value for model "${invalid}"`);
+  }
+  return parsed as Record<string, T>;
+};
+
+const isPositiveNumber = (value: unknown): boolean => typeof value === 'number' && value > 0;
+
+const isPricing = (value: unknown): boolean => {
+  const { input, output } = (value ?? {}) as Record<string, unknown>;
+  return typeof input === 'number' && input >= 0 && typeof output === 'number' && output >= 0;
+};
+
+export const LLM_PROVIDERS: LLMProviderName[] = ['openai', 'openai-compatible', 'mock'];
+
+/**
+ * Model parameters used for everything a template does not configure
+ * LLM_PROVIDER picks the provider of the environment, e.g. mock for demos
+ */
+export const DEFAULT_MODEL_CONFIG: Required<ModelConfig> = {
+  provider: (process.env.LLM_PROVIDER as LLMProviderName) || 'openai',
+  model: process.env.OPENAI_DEFAULT_MODEL || 'gpt-3.5-turbo',
+  temperature: parseNumber(process.env.OPENAI_DEFAULT_TEMPERATURE, 0.7),
+  maxTokens: parseNumber(process.env.OPENAI_DEFAULT_MAX_TOKENS, 1000),
+  responseFormat: 'text'
+};
+
+export const MAX_TOKENS_LIMIT = parseNumber(process.env.OPENAI_MAX_TOKENS_LIMIT, 4096);
+
+/**
+ * Models templates may use, from OPENAI_ALLOWED_MODELS (comma separated)
+ * The default model is always allowed
+ */
+export const ALLOWED_MODELS: string[] = Array.from(new Set([
+  DEFAULT_MODEL_CONFIG.model,
+  ...(process.env.OPENAI_ALLOWED_MODELS || 'gpt-3.5-turbo,gpt-4o-mini,gpt-4o,gpt-4-turbo')
+    .split(',')
+    .map(model => model.trim())
+    .filter(Boolean)
+]));
+
+/**
+ * USD per million input and output tokens
+ * OPENAI_MODEL_PRICING (JSON, e.g. {"my-model": {"input": 1, "output": 2}}) adds or overrides prices
+ */
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  ...parseModelMap<{ input: number; output: number }>('OPENAI_MODEL_PRICING', isPricing)
+};
+
+/**
+ * Context window (prompt + completion tokens) of each model
+ * OPENAI_MODEL_CONTEXT_WINDOWS (JSON, e.g. {"my-model": 32768}) adds or overrides sizes
+ */
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'gpt-3.5-turbo': 16385,
+  'gpt-4o-mini': 128000,
+  'gpt-4o': 128000,
+  'gpt-4-turbo': 128000,
+  ...parseModelMap<number>('OPENAI_MODEL_CONTEXT_WINDOWS', isPositiveNumber)
+};
+
+// Assumed for models without a known context window
+const DEFAULT_CONTEXT_WINDOW = parseNumber(process.env.OPENAI_DEFAULT_CONTEXT_WINDOW, 8192);
+
+/**
+ * Average characters per token of each model's tokenizer, used to estimate prompt sizes without running it
+ * Kept on the low side since JSON and non-English text need more tokens than English prose
+ */
+export const MODEL_CHARS_PER_TOKEN: Record<string, number> = {
+  'gpt-3.5-turbo': 3.2, // cl100k_base
+  'gpt-4-turbo': 3.2,
+  'gpt-4o-mini': 3.5, // o200k_base
+  'gpt-4o': 3.5
+};
+
+// Assumed for other models, e.g. self-hosted ones with smaller vocabularies
+const DEFAULT_CHARS_PER_TOKEN = 3;
+
+export const getCharsPerToken = (model?: string): number =>
+  (model !== undefined ? MODEL_CHARS_PER_TOKEN[model] : undefined) ?? DEFAULT_CHARS_PER_TOKEN;
+
+/**
+ * Prompt tokens a template may use: its tokenBudget, but never more than the
+ * context window leaves after reserving maxTokens for the answer
+ */
+export const resolveTokenBudget = (template: PromptTemplate, config: Required<ModelConfig>): number => {
+  const available = (MODEL_CONTEXT_WINDOWS[config.model] ?? DEFAULT_CONTEXT_WINDOW) - config.maxTokens;
+  return template.tokenBudget ? Math.min(template.tokenBudget, available) : available;
+};
+
+/**
+ * Check a template's tokenBudget, returning the problem if it is invalid
+ */
+export const validateTokenBudget = (tokenBudget: unknown): string | undefined => {
+  if (tokenBudget === undefined || tokenBudget === null) return undefined;
+  if (!Number.isInteger(tokenBudget) || (tokenBudget as number) < 100) {
+    return 'tokenBudget must be an integer of at least 100';
+  }
+  return undefined;
+};
+
+/**
+ * Estimate the cost of a request, undefined when the price of the model is unknown
+ * The mock provider is free
+ */
+export const estimateCost = (
+  config: Pick<Required<ModelConfig>, 'provider' | 'model'>,
+  promptTokens: number,
+  completionTokens: number
+): CostEstimate | undefined => {
+  const pricing = config.provider === 'mock' ? { input: 0, output: 0 } : MODEL_PRICING[config.model];
+  if (!pricing) return undefined;
+
+  const prompt = (promptTokens * pricing.input) / 1_000_000;
+  const completion = (completionTokens * pricing.output) / 1_000_000;
+  return { currency: 'USD', prompt, completion, total: prompt + completion };
+};
+
+/**
+ * Check a template's model configuration, returning the problem if it is invalid
+ */
+export const validateModelConfig = (config: ModelConfig | undefined): string | undefined => {
+  if (config === undefined || config === null) return undefined;
+  if (typeof config !== 'object' || Array.isArray(config)) {
+    return 'modelConfig must be an object';
+  }
+
+  if (config.provider !== undefined && !LLM_PROVIDERS.includes(config.provider)) {
+    return `provider must be one of: ${LLM_PROVIDERS.join(', ')}`;
+  }
+  if (config.model !== undefined && !ALLOWED_MODELS.includes(config.model)) {
+    return `Model "${config.model}" is not allowed. Allowed models: ${ALLOWED_MODELS.join(', ')}`;
+  }
+  if (config.temperature !== undefined && (typeof config.temperature !== 'number' || config.temperature < 0 || config.temperature > 2)) {
+    return 'temperature must be a number between 0 and 2';
+  }
+  if (config.maxTokens !== undefined && (!Number.isInteger(config.maxTokens) || config.maxTokens < 1 || config.maxTokens > MAX_TOKENS_LIMIT)) {
+    return `maxTokens must be an integer between 1 and ${MAX_TOKENS_LIMIT}`;
+  }
+  if (config.responseFormat !== undefined && !RESPONSE_FORMATS.includes(config.responseFormat)) {
+    return `responseFormat must be one of: ${RESPONSE_FORMATS.join(', ')}`;
+  }
+
+  return undefined;
+};
+
+/**
+ * Fill unset fields of a model configuration with the server defaults
+ */
+export const resolveModelConfig = (config: ModelConfig = {}): Required<ModelConfig> => ({
+  provider: config.provider ?? DEFAULT_MODEL_CONFIG.provider,
+  model: config.model ?? DEFAULT_MODEL_CONFIG.model,
+  temperature: config.temperature ?? DEFAULT_MODEL_CONFIG.temperature,
+  maxTokens: config.maxTokens ?? DEFAULT_MODEL_CONFIG.maxTokens,
+  responseFormat: config.responseFormat ?? DEFAULT_MODEL_CONFIG.responseFormat
+});
+
+/**
+ * Resolve the model configuration of a template
+ * Template files can be edited on disk, so the allow-list is enforced again here
+ */
+export const resolveTemplateModelConfig = (template: PromptTemplate): Required<ModelConfig> => {
+  const error = validateModelConfig(template.modelConfig);
+  if (error) {
+    throw new Error(`Invalid modelConfig in template ${template.id}: ${error}`);
+  }
+  return resolveModelConfig(template.modelConfig);
+};
+
+export const getModelSettings = (): ModelSettings => ({
+  defaults: { ...DEFAULT_MODEL_CONFIG },
+  allowedModels: [...ALLOWED_MODELS],
+  maxTokensLimit: MAX_TOKENS_LIMIT,
+  providers: [...LLM_PROVIDERS]
+});
@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Permission, Role } from '../types';
+
+export const ROLES: Role[] = ['viewer', 'editor', 'operator', 'admin'];
+
+export const PERMISSIONS: Permission[] = [
+  'prompts:read',
+  'templates:write',
+  'personas:write',
+  'system-spec:write',
+  'executions:read',
+  'executions:run',
+  'audit:read',
+  'api-keys:manage'
+];
+
+/**
+ * Permissions of each role unless the roles file changes them; admins always have every permission
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: ['prompts:read', 'executions:read'],
+  editor: ['prompts:read', 'executions:read', 'templates:write', 'personas:write'],
+  operator: ['prompts:read', 'executions:read', 'executions:run'],
+  admin: PERMISSIONS
+};
+
+/**
+ * Contents of the roles file (ROLES_FILE, defaults to roles.json)
+ */
+export interface RoleConfig {
+  permissions: Record<Role, Permission[]>; // Permission matrix
+  users: Record<string, Role[]>; // Roles by uid, used when ROLES_SOURCE is file
+  defaultRoles: Role[]; // Roles of signed-in users without an assignment
+}
+
+const validateRoles = (roles: unknown, context: string): Role[] => {
+  if (!Array.isArray(roles) || roles.some(role => !ROLES.includes(role))) {
+    throw new Error(`${context} must be a list of roles: ${ROLES.join(', ')}`);
+  }
+  return roles;
+};
+
+/**
+ * Check the shape of a roles file, filling in the default permission matrix for roles it leaves out
+ */
+export const parseRoleConfig = (data: any, source: string): RoleConfig => {
+  const permissions = { ...DEFAULT_ROLE_PERMISSIONS };
+  for (const [role, granted] of Object.entries(data?.permissions ?? {})) {
+    if (!ROLES.includes(role as Role)) {
+      throw new Error(`Roles file ${source} has permissions for unknown role "${role}"`);
+    }
+    if (!Array.isArray(granted) || granted.some(permission => !PERMISSIONS.includes(permission))) {
+      throw new Error(`Permissions of role "${role}" in ${source} must be a list of: ${PERMISSIONS.join(', ')}`);
+    }
+    permissions[role as Role] = granted;
+  }
+  // Admins can never lock themselves out
+  permissions.admin = PERMISSIONS;
+
+  const users: Record<string, Role[]> = {};
+  for (const [uid, roles] of Object.entries(data?.users ?? {})) {
+    users[uid] = validateRoles(roles, `Roles of user ${uid} in ${source}`);
+  }
+
+  return {
+    permissions,
+    users,
+    defaultRoles: validateRoles(data?.defaultRoles ?? [], `defaultRoles in ${source}`)
+  };
+};
+
+let cached: { filePath: string; mtimeMs: number; config: RoleConfig } | undefined;
+
+/**
+ * Read the roles file, again whenever it changes; without a file the default matrix applies and nobody has a role
+ */
+export const getRoleConfig = (): RoleConfig => {
+  const filePath = process.env.ROLES_FILE || path.join(__dirname, '../../roles.json');
+  if (!fs.existsSync(filePath)) {
+    return parseRoleConfig({}, filePath);
+  }
+
+  const { mtimeMs } = fs.statSync(filePath);
+  if (cached?.filePath !== filePath || cached.mtimeMs !== mtimeMs) {
+    cached = { filePath, mtimeMs, config: parseRoleConfig(JSON.parse(fs.readFileSync(filePath, 'utf-8')), filePath) };
+    console.log(`🛡️ Loaded roles of ${Object.keys(cached.config.users).length} user(s) from ${filePath}`);
+  }
+  return cached.config;
+};
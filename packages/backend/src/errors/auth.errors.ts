@@ -0,0 +1,34 @@
+import { HttpError } from './http.error';
+import type { Permission, Role } from '../types';
+
+/**
+ * Raised when a request has no valid ID token
+ */
+export class AuthenticationError extends HttpError {
+  constructor(message: string) {
+    super(message, 401);
+  }
+}
+
+/**
+ * Raised when the authenticated user may not access a resource, e.g. another user's data
+ */
+export class ForbiddenError extends HttpError {
+  constructor(message: string) {
+    super(message, 403);
+  }
+}
+
+/**
+ * Raised when none of the caller's roles grants the permission a route needs
+ */
+export class PermissionDeniedError extends ForbiddenError {
+  readonly permission: Permission;
+  readonly roles: Role[];
+
+  constructor(permission: Permission, roles: Role[]) {
+    super(`Missing permission "${permission}"`);
+    this.permission = permission;
+    this.roles = roles;
+  }
+}
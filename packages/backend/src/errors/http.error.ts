@@ -0,0 +1,42 @@
+/**
+ * Base class for errors that map to an HTTP status of our API
+ * The error middleware answers with statusCode and sends Retry-After when retryAfterMs is set
+ */
+export class HttpError extends Error {
+  readonly statusCode: number;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, statusCode: number, retryAfterMs?: number) {
+    super(message);
+    this.name = new.target.name;
+    this.statusCode = statusCode;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Raised when a requested resource, e.g. a template, job or user, does not exist
+ */
+export class NotFoundError extends HttpError {
+  constructor(message: string) {
+    super(message, 404);
+  }
+}
+
+/**
+ * Raised when a request is invalid, e.g. a required field is missing
+ */
+export class BadRequestError extends HttpError {
+  constructor(message: string) {
+    super(message, 400);
+  }
+}
+
+/**
+ * Raised when a request conflicts with the current state of a resource, e.g. resuming a running job
+ */
+export class ConflictError extends HttpError {
+  constructor(message: string) {
+    super(message, 409);
+  }
+}
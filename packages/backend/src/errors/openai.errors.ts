@@ -0,0 +1,142 @@
+import { HttpError } from './http.error';
+
+export type OpenAIErrorType =
+  | 'rate_limit'
+  | 'timeout'
+  | 'context_length_exceeded'
+  | 'authentication'
+  | 'content_filter'
+  | 'server_error'
+  | 'invalid_request'
+  | 'unknown';
+
+/**
+ * Base class for errors raised while calling the OpenAI API
+ * statusCode is the HTTP status our API answers with, not the one OpenAI returned
+ */
+export class OpenAIServiceError extends HttpError {
+  readonly type: OpenAIErrorType;
+  readonly retryable: boolean;
+  readonly upstreamStatus?: number;
+  readonly cause?: unknown;
+
+  constructor(
+    type: OpenAIErrorType,
+    message: string,
+    options: { statusCode: number; retryable?: boolean; retryAfterMs?: number; upstreamStatus?: number; cause?: unknown }
+  ) {
+    // retryAfterMs is how long OpenAI asked us to wait before retrying (from Retry-After)
+    super(`OpenAI API error: ${message}`, options.statusCode, options.retryAfterMs);
+    this.type = type;
+    this.retryable = options.retryable ?? false;
+    this.upstreamStatus = options.upstreamStatus;
+    this.cause = options.cause;
+  }
+}
+
+type ErrorDetails = { retryAfterMs?: number; upstreamStatus?: number; cause?: unknown };
+
+export class OpenAIRateLimitError extends OpenAIServiceError {
+  constructor(message: string, details: ErrorDetails = {}) {
+    super('rate_limit', message, { ...details, statusCode: 429, retryable: true });
+  }
+}
+
+export class OpenAITimeoutError extends OpenAIServiceError {
+  constructor(message: string, details: ErrorDetails = {}) {
+    super('timeout', message, { ...details, statusCode: 504, retryable: true });
+  }
+}
+
+export class OpenAIContextLengthError extends OpenAIServiceError {
+  constructor(message: string, details: ErrorDetails = {}) {
+    super('context_length_exceeded', message, { ...details, statusCode: 413 });
+  }
+}
+
+export class OpenAIAuthenticationError extends OpenAIServiceError {
+  constructor(message: string, details: ErrorDetails = {}) {
+    // Our API key is rejected - a server configuration problem, not the caller's
+    super('authentication', message, { ...details, statusCode: 503 });
+  }
+}
+
+export class OpenAIContentFilterError extends OpenAIServiceError {
+  constructor(message: string, details: ErrorDetails = {}) {
+    super('content_filter', message, { ...details, statusCode: 422 });
+  }
+}
+
+export class OpenAIServerError extends OpenAIServiceError {
+  constructor(message: string, details: ErrorDetails = {}) {
+    super('server_error', message, { ...details, statusCode: 502, retryable: true });
+  }
+}
+
+export class OpenAIInvalidRequestError extends OpenAIServiceError {
+  constructor(message: string, details: ErrorDetails = {}) {
+    super('invalid_request', message, { ...details, statusCode: 400 });
+  }
+}
+
+/**
+ * Parse Retry-After (seconds or HTTP date) and the OpenAI specific retry-after-ms header
+ */
+export const parseRetryAfter = (headers: Record<string, string | null | undefined> | undefined): number | undefined => {
+  if (!headers) return undefined;
+
+  const retryAfterMs = Number(headers['retry-after-ms']);
+  if (headers['retry-after-ms'] && Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = headers['retry-after'];
+  if (!retryAfter) return undefined;
+
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Convert an error thrown by the OpenAI SDK into a typed OpenAIServiceError
+ */
+export const classifyOpenAIError = (error: unknown): OpenAIServiceError => {
+  if (error instanceof OpenAIServiceError) return error;
+
+  const err = (error || {}) as { name?: string; message?: string; status?: number; code?: string | null; headers?: Record<string, string> };
+  const message = err.message || 'Unknown error occurred while calling OpenAI API';
+  const details: ErrorDetails = {
+    upstreamStatus: err.status,
+    retryAfterMs: parseRetryAfter(err.headers),
+    cause: error
+  };
+
+  if (err.name === 'APIConnectionTimeoutError' || (err.status === undefined && /timed? ?out/i.test(message))) {
+    return new OpenAITimeoutError(message, details);
+  }
+  if (err.status === 429) {
+    return new OpenAIRateLimitError(message, details);
+  }
+  if (err.code === 'context_length_exceeded') {
+    return new OpenAIContextLengthError(message, details);
+  }
+  if (err.code === 'content_filter' || err.code === 'content_policy_violation') {
+    return new OpenAIContentFilterError(message, details);
+  }
+  if (err.status === 401 || err.status === 403) {
+    return new OpenAIAuthenticationError(message, details);
+  }
+  if ((err.status !== undefined && err.status >= 500) || err.name === 'APIConnectionError') {
+    return new OpenAIServerError(message, details);
+  }
+  if (err.status !== undefined && err.status >= 400) {
+    return new OpenAIInvalidRequestError(message, details);
+  }
+
+  return new OpenAIServiceError('unknown', message, { ...details, statusCode: 502 });
+};
@@ -0,0 +1,15 @@
+import { HttpError } from './http.error';
+
+/**
+ * Raised when a prompt does not fit the token budget of its template even after trimming the Firebase data
+ */
+export class PromptBudgetError extends HttpError {
+  readonly tokenBudget: number;
+  readonly estimatedTokens: number;
+
+  constructor(tokenBudget: number, estimatedTokens: number) {
+    super(`Prompt needs about ${estimatedTokens} tokens even after trimming the Firebase data, the token budget is ${tokenBudget}`, 413);
+    this.tokenBudget = tokenBudget;
+    this.estimatedTokens = estimatedTokens;
+  }
+}
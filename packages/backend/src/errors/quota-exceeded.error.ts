@@ -0,0 +1,16 @@
+import { HttpError } from './http.error';
+
+/**
+ * Raised when an API key has used up its request or token quota for the current window
+ */
+export class QuotaExceededError extends HttpError {
+  readonly quota: 'requests' | 'tokens';
+  declare readonly retryAfterMs: number;
+
+  constructor(quota: 'requests' | 'tokens', limit: number, retryAfterMs: number) {
+    super(quota === 'requests'
+      ? `API key exceeded its quota of ${limit} requests per minute`
+      : `API key exceeded its quota of ${limit} tokens per day`, 429, retryAfterMs);
+    this.quota = quota;
+  }
+}
@@ -0,0 +1,16 @@
+import { HttpError } from './http.error';
+
+/**
+ * Raised when the model output does not match a template's outputSchema, even after the repair attempt
+ */
+export class StructuredOutputError extends HttpError {
+  readonly validationErrors: string[];
+  readonly rawOutput: string;
+
+  constructor(validationErrors: string[], rawOutput: string) {
+    // The model produced unusable output - an upstream failure, not the caller's
+    super(`Model output does not match the output schema: ${validationErrors.join('; ')}`, 502);
+    this.validationErrors = validationErrors;
+    this.rawOutput = rawOutput;
+  }
+}
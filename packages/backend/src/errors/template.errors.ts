@@ -0,0 +1,25 @@
+import { HttpError } from './http.error';
+
+/**
+ * Raised when a prompt template cannot be parsed, e.g. an unclosed {{#if}} block
+ */
+export class TemplateSyntaxError extends HttpError {
+  readonly line: number;
+
+  constructor(message: string, line: number) {
+    super(`Template syntax error on line ${line}: ${message}`, 400);
+    this.line = line;
+  }
+}
+
+/**
+ * Raised when a template variable is missing or its value does not match the declared type
+ */
+export class TemplateVariableError extends HttpError {
+  readonly variable: string;
+
+  constructor(variable: string, message: string) {
+    super(message, 400);
+    this.variable = variable;
+  }
+}
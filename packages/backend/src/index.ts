@@ -5,12 +5,18 @@ dotenv.config();
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
-import rateLimit from 'express-rate-limit';
 
 import { chatRoutes } from './routes/chat.routes';
 import { promptRoutes } from './routes/prompt.routes';
 import { firebaseRoutes } from './routes/firebase.routes';
+import { auditRoutes } from './routes/audit.routes';
+import { apiKeyRoutes } from './routes/api-key.routes';
 import { errorHandler, notFound } from './middleware/error.middleware';
+import { requestId } from './middleware/request-id.middleware';
+import { identifyCaller } from './middleware/auth.middleware';
+import { principalRateLimit, apiKeyQuota } from './middleware/rate-limit.middleware';
+import { SchedulerService } from './services/scheduler.service';
+import { TemplateExecutionService } from './services/template-execution.service';
 import type { ApiResponse } from './types';
 
 // Debug environment variable loading
@@ -29,17 +35,12 @@ const PORT = process.env.PORT || 3001;
 
 // Security middleware
 app.use(helmet());
+app.use(requestId);
 
-// Rate limiting
-const limiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 100, // limit each IP to 100 requests per windowMs
-  message: {
-    success: false,
-    error: 'Too many requests from this IP, please try again later.',
-  },
-});
-app.use(limiter);
+// Rate limiting per signed-in user (per IP for anonymous requests) and quotas of API keys
+app.use(identifyCaller);
+app.use(principalRateLimit);
+app.use(apiKeyQuota);
 
 // CORS configuration
 app.use(cors({
@@ -70,6 +71,8 @@ app.get('/health', (req, res) => {
 // API routes
 app.use('/api/chat', chatRoutes);
 app.use('/api/prompts', promptRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/keys', apiKeyRoutes);
 app.use('/', firebaseRoutes); // Firebase routes at root level as specified
 
 // Error handling middleware
@@ -83,6 +86,16 @@ if (process.env.NODE_ENV !== 'test') {
     console.log(`📡 Environment: ${process.env.NODE_ENV || 'development'}`);
     console.log(`🔗 CORS enabled for: ${process.env.FRONTEND_URL || 'http://localhost:3000'}`);
   });
+
+  // Jobs that were running when the server stopped can never finish
+  TemplateExecutionService.getInstance().recoverInterruptedJobs().catch(error => {
+    console.error('❌ Failed to recover interrupted execution jobs:', error);
+  });
+
+  // Start running scheduled templates
+  if (process.env.SCHEDULER_ENABLED !== 'false') {
+    SchedulerService.getInstance().start();
+  }
 }
 
 export { app };
\ No newline at end of file
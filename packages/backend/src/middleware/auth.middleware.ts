@@ -0,0 +1,153 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { AuthenticationError, ForbiddenError, PermissionDeniedError } from '../errors/auth.errors';
+import { createTokenVerifier, TokenVerifier } from '../providers/token-verifier.provider';
+import { AccessControlService } from '../services/access-control.service';
+import { ApiKeyService } from '../services/api-key.service';
+import type { ApiResponse, AuthPrincipal, Permission, PermissionDeniedResponse, Role } from '../types';
+
+declare global {
+  namespace Express {
+    interface Request {
+      principal?: AuthPrincipal; // Set once the request is authenticated
+      roles?: Role[]; // Set once the roles of the principal are looked up
+    }
+  }
+}
+
+// Caller of every request when AUTH_MODE is disabled
+const LOCAL_PRINCIPAL: AuthPrincipal = { uid: 'local-admin', admin: true, source: 'disabled' };
+
+let verifier: TokenVerifier | undefined;
+let verifierCreated = false;
+
+const getTokenVerifier = (): TokenVerifier | undefined => {
+  if (!verifierCreated) {
+    verifier = createTokenVerifier();
+    verifierCreated = true;
+    console.log(verifier ? `🔐 ${verifier.mode} ID token authentication enabled` : '⚠️ Authentication is disabled, every request acts as an admin');
+  }
+  return verifier;
+};
+
+/**
+ * Verify the X-API-Key header or Bearer ID token of a request and remember its principal on the request
+ */
+export const authenticateRequest = async (req: Request): Promise<AuthPrincipal> => {
+  if (req.principal) return req.principal;
+
+  // API keys are checked in every AUTH_MODE, so their scopes and quotas also apply locally
+  const apiKey = req.get('X-API-Key');
+  if (apiKey) {
+    req.principal = await ApiKeyService.getInstance().authenticate(apiKey);
+    return req.principal;
+  }
+
+  const tokenVerifier = getTokenVerifier();
+  if (!tokenVerifier) {
+    req.principal = LOCAL_PRINCIPAL;
+    return req.principal;
+  }
+
+  const match = /^Bearer\s+(\S+)$/i.exec(req.get('Authorization')?.trim() || '');
+  if (!match) {
+    throw new AuthenticationError('Missing Authorization header with a Bearer ID token');
+  }
+
+  req.principal = await tokenVerifier.verify(match[1]);
+  return req.principal;
+};
+
+/**
+ * Authenticate requests that carry credentials before they are rate limited, so limits apply per caller
+ * Invalid credentials are left for the route's guard to answer
+ */
+export const identifyCaller = async (req: Request, res: Response, next: NextFunction) => {
+  if (req.get('X-API-Key') || req.get('Authorization')) {
+    try {
+      await authenticateRequest(req);
+    } catch {
+      // Answered with a 401 by the guard
+    }
+  }
+  next();
+};
+
+/**
+ * Roles of the request's principal, looked up once per request
+ */
+const getRequestRoles = async (req: Request, principal: AuthPrincipal): Promise<Role[]> => {
+  if (!req.roles) {
+    req.roles = await AccessControlService.getInstance().getRoles(principal);
+  }
+  return req.roles;
+};
+
+/**
+ * Middleware authenticating the request and then applying an access check to its principal
+ */
+const guard = (check: (req: Request, principal: AuthPrincipal) => void | Promise<void>): RequestHandler =>
+  async (req: Request, res: Response<ApiResponse<never> | PermissionDeniedResponse>, next: NextFunction) => {
+    try {
+      await check(req, await authenticateRequest(req));
+      next();
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+      }
+      if (error instanceof PermissionDeniedError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: 'permission_denied',
+          permission: error.permission,
+          roles: error.roles
+        });
+      }
+      if (error instanceof AuthenticationError || error instanceof ForbiddenError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+
+      console.error('❌ Failed to authenticate request:', error);
+      res.status(500).json({ success: false, error: 'Failed to authenticate request' });
+    }
+  };
+
+/**
+ * Any signed-in user
+ */
+export const requireUser = guard(() => undefined);
+
+/**
+ * Admins: users with the admin custom claim or the admin role
+ */
+export const requireAdmin = guard(async (req, principal) => {
+  if (!(await getRequestRoles(req, principal)).includes('admin')) {
+    throw new ForbiddenError('This operation requires an admin account');
+  }
+});
+
+/**
+ * Users with a role granting the permission, or API keys with the permission as a scope
+ */
+export const requirePermission = (permission: Permission): RequestHandler =>
+  guard(async (req, principal) => {
+    if (principal.apiKey) {
+      if (!principal.apiKey.scopes.includes(permission)) {
+        throw new PermissionDeniedError(permission, []);
+      }
+      return;
+    }
+    AccessControlService.getInstance().checkPermission(await getRequestRoles(req, principal), permission);
+  });
+
+/**
+ * The user whose data is requested, or an admin
+ * @param getUid - Reads the requested uid, e.g. from a route parameter; requests without one are allowed
+ */
+export const requireUserAccess = (getUid: (req: Request) => string | undefined): RequestHandler =>
+  guard(async (req, principal) => {
+    const uid = getUid(req);
+    if (uid !== undefined && uid !== principal.uid && !(await getRequestRoles(req, principal)).includes('admin')) {
+      throw new ForbiddenError(`Access to the data of user ${uid} is not allowed`);
+    }
+  });
@@ -1,5 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 import { ApiResponse } from '../types';
+import { HttpError } from '../errors/http.error';
+
+/**
+ * HTTP status for errors with a known type, e.g. 429 for an OpenAI rate limit
+ */
+export const getErrorStatusCode = (error: unknown, fallback: number = 500): number =>
+  error instanceof HttpError ? error.statusCode : fallback;
 
 export const errorHandler = (
   error: Error,
@@ -14,12 +21,12 @@ export const errorHandler = (
   let message = 'Internal Server Error';
 
   // Handle specific error types
-  if (error.message.includes('OpenAI API error')) {
-    statusCode = 502;
-    message = 'External API error';
-  } else if (error.message.includes('validation')) {
-    statusCode = 400;
-    message = 'Validation error';
+  if (error instanceof HttpError) {
+    statusCode = error.statusCode;
+    message = error.message;
+    if (error.retryAfterMs !== undefined) {
+      res.setHeader('Retry-After', Math.ceil(error.retryAfterMs / 1000).toString());
+    }
   }
 
   res.status(statusCode).json({
@@ -0,0 +1,69 @@
+import { Request, Response, NextFunction } from 'express';
+import rateLimit from 'express-rate-limit';
+import { QuotaExceededError } from '../errors/quota-exceeded.error';
+import { ApiKeyService } from '../services/api-key.service';
+import type { ApiResponse } from '../types';
+
+/**
+ * Rate limit of RATE_LIMIT_MAX_REQUESTS per RATE_LIMIT_WINDOW_MS, counted per signed-in user or per IP otherwise
+ * API keys are skipped, they are limited by their own quotas
+ */
+export const principalRateLimit = rateLimit({
+  windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10), // 15 minutes
+  max: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
+  keyGenerator: req => (req.principal ? `user:${req.principal.uid}` : `ip:${req.ip}`),
+  skip: req => req.principal?.source === 'api-key',
+  message: {
+    success: false,
+    error: 'Too many requests, please try again later.',
+  },
+});
+
+/**
+ * Charge the model tokens of a response to the API key of the request, if any
+ */
+export const chargeTokens = (req: Request, tokens: number | undefined): void => {
+  const apiKey = req.principal?.apiKey;
+  if (apiKey && tokens) {
+    ApiKeyService.getInstance().recordTokens(apiKey.id, tokens);
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+/**
+ * Total tokens of the model usage a JSON response reports in its data, if any
+ */
+const getResponseTokens = (body: unknown): number | undefined => {
+  const data = isObject(body) ? body.data : undefined;
+  const usage = isObject(data) ? data.usage : undefined;
+  const tokens = isObject(usage) ? usage.totalTokens : undefined;
+  return typeof tokens === 'number' ? tokens : undefined;
+};
+
+/**
+ * Enforce the request and token quotas of API keys
+ * Tokens are charged from the usage of JSON responses; streams and batch runs charge them where they finish
+ */
+export const apiKeyQuota = (req: Request, res: Response, next: NextFunction) => {
+  const apiKey = req.principal?.apiKey;
+  if (!apiKey) return next();
+
+  try {
+    ApiKeyService.getInstance().consumeRequest(apiKey);
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      res.setHeader('Retry-After', Math.ceil(error.retryAfterMs / 1000).toString());
+      const response: ApiResponse<null> = { success: false, error: error.message };
+      return res.status(error.statusCode).json(response);
+    }
+    return next(error);
+  }
+
+  const json = res.json.bind(res);
+  res.json = (body: unknown) => {
+    chargeTokens(req, getResponseTokens(body));
+    return json(body);
+  };
+  next();
+};
@@ -0,0 +1,23 @@
+import * as crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+
+declare global {
+  namespace Express {
+    interface Request {
+      requestId?: string;
+    }
+  }
+}
+
+// Request IDs accepted from callers such as a proxy; anything else is replaced with a new ID
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Give every request an ID, taken from the X-Request-Id header or generated, and echo it in the response
+ */
+export const requestId = (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.get('X-Request-Id');
+  req.requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+  res.setHeader('X-Request-Id', req.requestId);
+  next();
+};
@@ -0,0 +1,119 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ExchangeRates } from '../types';
+
+const DEFAULT_CACHE_MS = 60 * 60 * 1000;
+const DEFAULT_TIMEOUT_MS = 5 * 1000;
+
+/**
+ * Source of currency exchange rates
+ */
+export interface ExchangeRateProvider {
+  readonly name: string;
+
+  /**
+   * Get the latest rates: units of each currency per one unit of the base currency
+   */
+  getRates(): Promise<ExchangeRates>;
+}
+
+const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/;
+
+/**
+ * Check the shape of a rates table and make sure the base currency is listed
+ */
+export const parseExchangeRates = (data: any, source: string): ExchangeRates => {
+  if (!data || typeof data.base !== 'string' || !CURRENCY_CODE_PATTERN.test(data.base)) {
+    throw new Error(`Exchange rates from ${source} must have a three-letter "base" currency`);
+  }
+  if (!data.rates || typeof data.rates !== 'object') {
+    throw new Error(`Exchange rates from ${source} must have a "rates" object`);
+  }
+
+  const rates: Record<string, number> = { [data.base]: 1 };
+  for (const [currency, rate] of Object.entries(data.rates)) {
+    if (!CURRENCY_CODE_PATTERN.test(currency) || typeof rate !== 'number' || !(rate > 0)) {
+      throw new Error(`Exchange rates from ${source} have an invalid rate for "${currency}"`);
+    }
+    rates[currency] = rate;
+  }
+
+  return { base: data.base, rates, ...(typeof data.date === 'string' ? { date: data.date } : {}) };
+};
+
+/**
+ * Rates from a local JSON table, read from EXCHANGE_RATES_FILE (defaults to exchange-rates.json)
+ * The file is read again when it changes
+ */
+export class FileExchangeRateProvider implements ExchangeRateProvider {
+  readonly name = 'file';
+  private cached?: { mtimeMs: number; rates: ExchangeRates };
+
+  constructor(private filePath: string = process.env.EXCHANGE_RATES_FILE || path.join(__dirname, '../../exchange-rates.json')) {}
+
+  async getRates(): Promise<ExchangeRates> {
+    const { mtimeMs } = await fs.promises.stat(this.filePath);
+    if (this.cached?.mtimeMs !== mtimeMs) {
+      const data = JSON.parse(await fs.promises.readFile(this.filePath, 'utf-8'));
+      this.cached = { mtimeMs, rates: parseExchangeRates(data, this.filePath) };
+      console.log(`💱 Loaded ${Object.keys(this.cached.rates.rates).length} exchange rate(s) from ${this.filePath}`);
+    }
+    return this.cached.rates;
+  }
+}
+
+/**
+ * Live rates from an HTTP endpoint answering with {"base": "EUR", "date": "...", "rates": {"USD": 1.08, ...}},
+ * e.g. https://api.frankfurter.app/latest; responses are cached for EXCHANGE_RATES_CACHE_MS
+ * Requests give up after EXCHANGE_RATES_TIMEOUT_MS so a hanging endpoint cannot block executions
+ */
+export class HttpExchangeRateProvider implements ExchangeRateProvider {
+  readonly name = 'http';
+  private cached?: { fetchedAt: number; rates: ExchangeRates };
+
+  constructor(
+    private url: string | undefined = process.env.EXCHANGE_RATES_URL,
+    private cacheMs: number = parseInt(process.env.EXCHANGE_RATES_CACHE_MS || String(DEFAULT_CACHE_MS), 10),
+    private timeoutMs: number = parseInt(process.env.EXCHANGE_RATES_TIMEOUT_MS || String(DEFAULT_TIMEOUT_MS), 10)
+  ) {}
+
+  async getRates(): Promise<ExchangeRates> {
+    if (!this.url) {
+      throw new Error('EXCHANGE_RATES_URL is required for the http exchange rate source');
+    }
+    if (this.cached && Date.now() - this.cached.fetchedAt < this.cacheMs) {
+      return this.cached.rates;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(this.url, { signal: AbortSignal.timeout(this.timeoutMs) });
+    } catch (error) {
+      // AbortSignal.timeout rejects with a DOMException named TimeoutError
+      if ((error as { name?: string } | undefined)?.name === 'TimeoutError') {
+        throw new Error(`Exchange rate request to ${this.url} timed out after ${this.timeoutMs}ms`);
+      }
+      throw error;
+    }
+    if (!response.ok) {
+      throw new Error(`Exchange rate request to ${this.url} failed with status ${response.status}`);
+    }
+    const rates = parseExchangeRates(await response.json(), this.url);
+    this.cached = { fetchedAt: Date.now(), rates };
+    console.log(`💱 Fetched ${Object.keys(rates.rates).length} exchange rate(s) from ${this.url}`);
+    return rates;
+  }
+}
+
+export const createExchangeRateProvider = (): ExchangeRateProvider => {
+  const source = process.env.EXCHANGE_RATES_SOURCE || 'file';
+
+  switch (source) {
+    case 'file':
+      return new FileExchangeRateProvider();
+    case 'http':
+      return new HttpExchangeRateProvider();
+    default:
+      throw new Error(`Unknown EXCHANGE_RATES_SOURCE "${source}". Use "file" or "http"`);
+  }
+};
@@ -0,0 +1,57 @@
+import { OpenAIService } from '../services/openai.service';
+import { DEFAULT_MODEL_CONFIG, LLM_PROVIDERS } from '../config/models';
+import type { LLMProviderName } from '../types';
+import type { RetryOptions } from '../utils/retry';
+import type { LLMProvider } from './llm-provider';
+import { MockLLMProvider } from './mock.provider';
+import { OpenAICompatibleProvider } from './openai-compatible.provider';
+
+export type { LLMProvider, StreamMessageOptions, StructuredStreamHandlers } from './llm-provider';
+export { BaseLLMProvider, buildSystemMessage, withOutputSchema } from './llm-provider';
+export { MockLLMProvider } from './mock.provider';
+export { OpenAICompatibleProvider } from './openai-compatible.provider';
+
+const providers = new Map<LLMProviderName, LLMProvider>();
+const nonRetryingProviders = new Map<LLMProviderName, LLMProvider>();
+
+const createProvider = (name: LLMProviderName, retryOptions: Partial<RetryOptions> = {}): LLMProvider => {
+  switch (name) {
+    case 'openai':
+      return new OpenAIService(undefined, retryOptions);
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(undefined, undefined, retryOptions);
+    case 'mock':
+      return new MockLLMProvider();
+  }
+};
+
+const getCachedProvider = (
+  cache: Map<LLMProviderName, LLMProvider>,
+  name: LLMProviderName,
+  retryOptions?: Partial<RetryOptions>
+): LLMProvider => {
+  if (!LLM_PROVIDERS.includes(name)) {
+    throw new Error(`Unknown LLM provider "${name}". Available providers: ${LLM_PROVIDERS.join(', ')}`);
+  }
+
+  let provider = cache.get(name);
+  if (!provider) {
+    provider = createProvider(name, retryOptions);
+    cache.set(name, provider);
+    console.log(`✅ ${name} LLM provider initialized`);
+  }
+  return provider;
+};
+
+/**
+ * Get the shared instance of a provider, by default the one configured with LLM_PROVIDER
+ */
+export const getLLMProvider = (name: LLMProviderName = DEFAULT_MODEL_CONFIG.provider): LLMProvider =>
+  getCachedProvider(providers, name);
+
+/**
+ * Get the shared instance of a provider that fails on the first error instead of retrying,
+ * for callers such as batch executions that back off on their own
+ */
+export const getNonRetryingLLMProvider = (name: LLMProviderName = DEFAULT_MODEL_CONFIG.provider): LLMProvider =>
+  getCachedProvider(nonRetryingProviders, name, { maxRetries: 0 });
@@ -0,0 +1,152 @@
+import type { JsonSchema, LLMProviderName, ModelConfig, OpenAIMessage, OpenAIResponse, SystemSpecification, UserMessage } from '../types';
+import { StructuredOutputError } from '../errors/structured-output.error';
+import { buildRepairPrompt, buildSchemaInstruction, parseStructuredOutput } from '../utils/structured-output';
+
+export interface StreamMessageOptions extends ModelConfig {
+  signal?: AbortSignal; // Aborts the request, e.g. when the client disconnects
+}
+
+export interface StructuredStreamHandlers {
+  onDelta: (content: string) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Converts a SystemSpecification to the system message sent to the model
+ */
+export const buildSystemMessage = (
+  spec: SystemSpecification,
+  responseFormat: ModelConfig['responseFormat'] = 'text'
+): OpenAIMessage => {
+  let content = `
+Role: ${spec.role}
+
+Background: ${spec.background}
+
+Personality: ${spec.personality}
+
+Rules:
+${spec.rules.map((rule: string) => `- ${rule}`).join('\n')}
+
+Please respond according to this specification and maintain consistency throughout the conversation.
+  `.trim();
+
+  if (responseFormat === 'json_object') {
+    // OpenAI rejects JSON mode unless the messages ask for JSON
+    content += '\n\nRespond only with a valid JSON object.';
+  }
+
+  return { role: 'system', content };
+};
+
+/**
+ * System specification asking for JSON that matches a template's outputSchema
+ */
+export const withOutputSchema = (systemSpec: SystemSpecification, outputSchema: JsonSchema): SystemSpecification => ({
+  ...systemSpec,
+  rules: [...systemSpec.rules, buildSchemaInstruction(outputSchema)]
+});
+
+/**
+ * A model backend that answers a system specification and user message
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+
+  isConfigured(): boolean;
+
+  sendMessage(systemSpec: SystemSpecification, userMessage: UserMessage, modelConfig?: string | ModelConfig): Promise<OpenAIResponse>;
+
+  /**
+   * Report the answer piece by piece and resolve with the complete response
+   */
+  streamMessage(
+    systemSpec: SystemSpecification,
+    userMessage: UserMessage,
+    onDelta: (content: string) => void,
+    options?: StreamMessageOptions
+  ): Promise<OpenAIResponse>;
+
+  /**
+   * Request JSON matching a schema, returned as `parsed` next to the raw content
+   */
+  sendStructuredMessage(
+    systemSpec: SystemSpecification,
+    userMessage: UserMessage,
+    outputSchema: JsonSchema,
+    modelConfig?: ModelConfig,
+    stream?: StructuredStreamHandlers
+  ): Promise<OpenAIResponse>;
+
+  /**
+   * Check that the provider accepts our credentials
+   */
+  validateApiKey(): Promise<boolean>;
+}
+
+/**
+ * Provider base with the schema validation and repair logic shared by all providers
+ */
+export abstract class BaseLLMProvider implements LLMProvider {
+  abstract readonly name: LLMProviderName;
+
+  abstract isConfigured(): boolean;
+
+  abstract sendMessage(systemSpec: SystemSpecification, userMessage: UserMessage, modelConfig?: string | ModelConfig): Promise<OpenAIResponse>;
+
+  abstract streamMessage(
+    systemSpec: SystemSpecification,
+    userMessage: UserMessage,
+    onDelta: (content: string) => void,
+    options?: StreamMessageOptions
+  ): Promise<OpenAIResponse>;
+
+  abstract validateApiKey(): Promise<boolean>;
+
+  /**
+   * Sends a message in JSON mode and validates the answer against a JSON Schema
+   * Invalid output gets one repair request; if that is still invalid a StructuredOutputError is thrown
+   */
+  async sendStructuredMessage(
+    systemSpec: SystemSpecification,
+    userMessage: UserMessage,
+    outputSchema: JsonSchema,
+    modelConfig: ModelConfig = {},
+    stream?: StructuredStreamHandlers
+  ): Promise<OpenAIResponse> {
+    const structuredSpec = withOutputSchema(systemSpec, outputSchema);
+    const config: ModelConfig = { ...modelConfig, responseFormat: 'json_object' };
+
+    const response = stream
+      ? await this.streamMessage(structuredSpec, userMessage, stream.onDelta, { ...config, signal: stream.signal })
+      : await this.sendMessage(structuredSpec, userMessage, config);
+
+    const result = parseStructuredOutput(response.content, outputSchema);
+    if (result.errors.length === 0) {
+      return { ...response, parsed: result.value };
+    }
+
+    console.warn(`🔧 Structured output failed validation, requesting a repair: ${result.errors.join('; ')}`);
+    const repairMessage: UserMessage = {
+      ...userMessage,
+      content: buildRepairPrompt(userMessage.content, response.content, result.errors)
+    };
+    const repaired = await this.sendMessage(structuredSpec, repairMessage, config);
+
+    const repairedResult = parseStructuredOutput(repaired.content, outputSchema);
+    if (repairedResult.errors.length > 0) {
+      throw new StructuredOutputError(repairedResult.errors, repaired.content);
+    }
+
+    return {
+      ...repaired,
+      parsed: repairedResult.value,
+      // Both requests are billed
+      usage: response.usage && repaired.usage ? {
+        promptTokens: response.usage.promptTokens + repaired.usage.promptTokens,
+        completionTokens: response.usage.completionTokens + repaired.usage.completionTokens,
+        totalTokens: response.usage.totalTokens + repaired.usage.totalTokens
+      } : repaired.usage ?? response.usage
+    };
+  }
+}
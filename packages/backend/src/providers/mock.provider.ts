@@ -0,0 +1,112 @@
+import fs from 'fs';
+import path from 'path';
+import type { LLMProviderName, ModelConfig, OpenAIResponse, SystemSpecification, UserMessage } from '../types';
+import { BaseLLMProvider, StreamMessageOptions } from './llm-provider';
+import { estimateTokens } from '../utils/token-estimator';
+
+export interface MockResponseRule {
+  match: string; // Text the user prompt contains (case-insensitive), or a /regex/flags
+  response: unknown; // Strings are returned as is, anything else as JSON
+}
+
+export interface MockResponseScript {
+  responses: MockResponseRule[];
+  fallback?: string; // Answer when no rule matches
+}
+
+const DEFAULT_FALLBACK = 'This is a mock response. No scripted answer matched the prompt.';
+
+const toMatcher = (match: string): ((text: string) => boolean) => {
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(match);
+  if (regex) {
+    const pattern = new RegExp(regex[1], regex[2]);
+    return text => pattern.test(text);
+  }
+  return text => text.toLowerCase().includes(match.toLowerCase());
+};
+
+/**
+ * Deterministic LLM provider for tests and demos
+ * Answers with the first scripted response whose rule matches the user prompt, without any network calls
+ * The script is read from LLM_MOCK_RESPONSES_FILE (defaults to mock-responses.json)
+ */
+export class MockLLMProvider extends BaseLLMProvider {
+  readonly name: LLMProviderName = 'mock';
+  private rules: { matches: (text: string) => boolean; content: string }[];
+  private fallback: string;
+
+  constructor(script: MockResponseScript = MockLLMProvider.loadScript()) {
+    super();
+    this.rules = script.responses.map(rule => ({
+      matches: toMatcher(rule.match),
+      content: typeof rule.response === 'string' ? rule.response : JSON.stringify(rule.response)
+    }));
+    this.fallback = script.fallback ?? DEFAULT_FALLBACK;
+  }
+
+  /**
+   * Read the response script, falling back to an empty script when the file is missing
+   */
+  static loadScript(filePath: string = process.env.LLM_MOCK_RESPONSES_FILE || path.join(__dirname, '../../mock-responses.json')): MockResponseScript {
+    try {
+      const script = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as MockResponseScript;
+      console.log(`🎭 Loaded ${script.responses?.length || 0} mock response(s) from ${filePath}`);
+      return { responses: script.responses || [], fallback: script.fallback };
+    } catch (error) {
+      console.warn(`⚠️ Could not load mock responses from ${filePath}:`, error instanceof Error ? error.message : error);
+      return { responses: [] };
+    }
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async sendMessage(
+    systemSpec: SystemSpecification,
+    userMessage: UserMessage,
+    modelConfig: string | ModelConfig = {}
+  ): Promise<OpenAIResponse> {
+    const content = this.findResponse(userMessage.content);
+    const model = typeof modelConfig === 'string' ? modelConfig : modelConfig.model;
+    const promptTokens = estimateTokens(JSON.stringify(systemSpec) + userMessage.content);
+    const completionTokens = estimateTokens(content);
+
+    return {
+      content,
+      timestamp: new Date(),
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      model: model ? `mock:${model}` : 'mock'
+    };
+  }
+
+  /**
+   * Reports the scripted answer word by word, like a streaming model would
+   */
+  async streamMessage(
+    systemSpec: SystemSpecification,
+    userMessage: UserMessage,
+    onDelta: (content: string) => void,
+    options: StreamMessageOptions = {}
+  ): Promise<OpenAIResponse> {
+    const { signal, ...modelConfig } = options;
+    const response = await this.sendMessage(systemSpec, userMessage, modelConfig);
+
+    for (const delta of response.content.match(/\S+\s*|\s+/g) || []) {
+      if (signal?.aborted) {
+        throw new Error('Request was aborted');
+      }
+      onDelta(delta);
+    }
+
+    return response;
+  }
+
+  async validateApiKey(): Promise<boolean> {
+    return true;
+  }
+
+  private findResponse(prompt: string): string {
+    return this.rules.find(rule => rule.matches(prompt))?.content ?? this.fallback;
+  }
+}
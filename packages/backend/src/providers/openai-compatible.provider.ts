@@ -0,0 +1,36 @@
+import { OpenAIService } from '../services/openai.service';
+import type { LLMProviderName } from '../types';
+import type { RetryOptions } from '../utils/retry';
+
+/**
+ * LLM provider for self-hosted servers that implement the OpenAI chat completions API
+ * (vLLM, Ollama, LM Studio, ...), configured with LLM_COMPATIBLE_BASE_URL
+ */
+export class OpenAICompatibleProvider extends OpenAIService {
+  readonly name: LLMProviderName = 'openai-compatible';
+  private baseURL?: string;
+
+  constructor(
+    baseURL: string | undefined = process.env.LLM_COMPATIBLE_BASE_URL,
+    apiKey: string | undefined = process.env.LLM_COMPATIBLE_API_KEY,
+    retryOptions: Partial<RetryOptions> = {}
+  ) {
+    // Most self-hosted servers do not check the key, but the client requires one
+    super(apiKey || 'not-required', retryOptions, baseURL);
+    this.baseURL = baseURL;
+
+    if (!baseURL) {
+      console.log('⚠️ OpenAI-compatible provider initialized without LLM_COMPATIBLE_BASE_URL - requests will fail until it is set');
+    }
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.baseURL) && super.isConfigured();
+  }
+
+  protected ensureConfigured(): void {
+    if (!this.isConfigured()) {
+      throw new Error('OpenAI-compatible provider requires LLM_COMPATIBLE_BASE_URL to be set.');
+    }
+  }
+}
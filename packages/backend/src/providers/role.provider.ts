@@ -0,0 +1,72 @@
+import { getRoleConfig, ROLES } from '../config/rbac';
+import { FirebaseService } from '../services/firebase.service';
+import type { Role } from '../types';
+
+const DEFAULT_CACHE_MS = 60 * 1000;
+
+// Firestore collection with one {roles: [...]} document per uid
+export const ROLES_COLLECTION = 'roles';
+
+/**
+ * Where the roles assigned to users come from
+ */
+export interface RoleProvider {
+  readonly name: string;
+
+  /**
+   * Roles assigned to a user, empty when there are none
+   */
+  getRoles(uid: string): Promise<Role[]>;
+}
+
+/**
+ * Roles from the "users" section of the roles file
+ */
+export class FileRoleProvider implements RoleProvider {
+  readonly name = 'file';
+
+  async getRoles(uid: string): Promise<Role[]> {
+    return getRoleConfig().users[uid] ?? [];
+  }
+}
+
+/**
+ * Roles from the roles collection in Firestore, cached for ROLES_CACHE_MS
+ * Unknown role names in a document are ignored
+ */
+export class FirestoreRoleProvider implements RoleProvider {
+  readonly name = 'firestore';
+  private cache = new Map<string, { fetchedAt: number; roles: Role[] }>();
+
+  constructor(
+    private firebaseService: FirebaseService = FirebaseService.getInstance(),
+    private cacheMs: number = parseInt(process.env.ROLES_CACHE_MS || String(DEFAULT_CACHE_MS), 10)
+  ) {}
+
+  async getRoles(uid: string): Promise<Role[]> {
+    const cached = this.cache.get(uid);
+    if (cached && Date.now() - cached.fetchedAt < this.cacheMs) {
+      return cached.roles;
+    }
+
+    const doc = await this.firebaseService.getFirestore().collection(ROLES_COLLECTION).doc(uid).get();
+    const stored: unknown = doc.exists ? doc.data()?.roles : [];
+    const roles = Array.isArray(stored) ? stored.filter((role): role is Role => ROLES.includes(role)) : [];
+
+    this.cache.set(uid, { fetchedAt: Date.now(), roles });
+    return roles;
+  }
+}
+
+export const createRoleProvider = (): RoleProvider => {
+  const source = process.env.ROLES_SOURCE || 'file';
+
+  switch (source) {
+    case 'file':
+      return new FileRoleProvider();
+    case 'firestore':
+      return new FirestoreRoleProvider();
+    default:
+      throw new Error(`Unknown ROLES_SOURCE "${source}". Use "file" or "firestore"`);
+  }
+};
@@ -0,0 +1,142 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getDataDir } from '../config/data-dir';
+import { AuthenticationError } from '../errors/auth.errors';
+import { FirebaseService } from '../services/firebase.service';
+import { signJwt, verifyJwt } from '../utils/jwt';
+import type { AuthMode, AuthPrincipal } from '../types';
+
+// Issuer and audience of tokens signed with the test key pair
+export const TEST_TOKEN_ISSUER = 'mymonji-test';
+const DEFAULT_TEST_TOKEN_TTL_SECONDS = 60 * 60;
+
+export const AUTH_MODES: AuthMode[] = ['firebase', 'test', 'disabled'];
+
+/**
+ * Turns the ID token of a request into the principal making it
+ */
+export interface TokenVerifier {
+  readonly mode: AuthMode;
+
+  /**
+   * Verify a token, throwing an AuthenticationError when it is not valid
+   */
+  verify(token: string): Promise<AuthPrincipal>;
+}
+
+/**
+ * ID tokens issued by Firebase Authentication (or the Auth emulator of FIREBASE_AUTH_EMULATOR_HOST)
+ */
+export class FirebaseTokenVerifier implements TokenVerifier {
+  readonly mode = 'firebase';
+
+  async verify(token: string): Promise<AuthPrincipal> {
+    try {
+      const decoded = await FirebaseService.getInstance().getAuth().verifyIdToken(token);
+      return { uid: decoded.uid, admin: decoded.admin === true, email: decoded.email, source: this.mode };
+    } catch (error) {
+      const code = (error as { code?: string })?.code;
+      throw new AuthenticationError(code === 'auth/id-token-expired' ? 'Token has expired' : 'Invalid ID token');
+    }
+  }
+}
+
+/**
+ * Files of the test key pair: AUTH_TEST_PUBLIC_KEY_FILE and AUTH_TEST_PRIVATE_KEY_FILE,
+ * by default test-public-key.pem and test-private-key.pem in DATA_DIR/auth
+ */
+export const getTestKeyFiles = (): { publicKeyFile: string; privateKeyFile: string } => ({
+  publicKeyFile: process.env.AUTH_TEST_PUBLIC_KEY_FILE || path.join(getDataDir('auth'), 'test-public-key.pem'),
+  privateKeyFile: process.env.AUTH_TEST_PRIVATE_KEY_FILE || path.join(getDataDir('auth'), 'test-private-key.pem')
+});
+
+/**
+ * Create the test key pair unless it exists
+ */
+export const ensureTestKeyPair = (): { publicKeyFile: string; privateKeyFile: string } => {
+  const files = getTestKeyFiles();
+  if (!fs.existsSync(files.privateKeyFile)) {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    fs.mkdirSync(path.dirname(files.privateKeyFile), { recursive: true });
+    fs.writeFileSync(files.privateKeyFile, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+    fs.writeFileSync(files.publicKeyFile, publicKey.export({ type: 'spki', format: 'pem' }));
+    console.log(`🔑 Created the auth test key pair in ${path.dirname(files.privateKeyFile)}`);
+  }
+  return files;
+};
+
+/**
+ * Sign an ID token with the test key pair, with the same uid, email and admin claims as a Firebase token
+ */
+export const signTestToken = (
+  principal: { uid: string; admin?: boolean; email?: string },
+  { privateKey, expiresInSeconds = DEFAULT_TEST_TOKEN_TTL_SECONDS }: { privateKey: crypto.KeyLike; expiresInSeconds?: number }
+): string => {
+  const now = Math.floor(Date.now() / 1000);
+  return signJwt({
+    iss: TEST_TOKEN_ISSUER,
+    aud: TEST_TOKEN_ISSUER,
+    sub: principal.uid,
+    iat: now,
+    exp: now + expiresInSeconds,
+    ...(principal.email ? { email: principal.email } : {}),
+    ...(principal.admin ? { admin: true } : {})
+  }, privateKey);
+};
+
+/**
+ * ID tokens signed with the local test key pair, for working offline and in tests
+ * The public key comes from AUTH_TEST_PUBLIC_KEY (PEM) or the public key file
+ */
+export class TestKeyTokenVerifier implements TokenVerifier {
+  readonly mode = 'test';
+  private publicKey?: crypto.KeyObject;
+
+  constructor(publicKey: string | undefined = process.env.AUTH_TEST_PUBLIC_KEY) {
+    if (publicKey) {
+      this.publicKey = crypto.createPublicKey(publicKey.replace(/\\n/g, '\n'));
+    }
+  }
+
+  async verify(token: string): Promise<AuthPrincipal> {
+    const claims = verifyJwt(token, this.getPublicKey(), { issuer: TEST_TOKEN_ISSUER, audience: TEST_TOKEN_ISSUER });
+    return {
+      uid: claims.sub!,
+      admin: claims.admin === true,
+      email: typeof claims.email === 'string' ? claims.email : undefined,
+      source: this.mode
+    };
+  }
+
+  private getPublicKey(): crypto.KeyObject {
+    if (!this.publicKey) {
+      const { publicKeyFile } = getTestKeyFiles();
+      if (!fs.existsSync(publicKeyFile)) {
+        throw new Error(`Test public key ${publicKeyFile} not found. Run "yarn auth:token" to create the test key pair`);
+      }
+      this.publicKey = crypto.createPublicKey(fs.readFileSync(publicKeyFile, 'utf-8'));
+    }
+    return this.publicKey;
+  }
+}
+
+/**
+ * Create the verifier of the mode configured with AUTH_MODE (firebase, test or disabled)
+ * Returns undefined for disabled, where every request acts as a local admin
+ */
+export const createTokenVerifier = (mode: string = process.env.AUTH_MODE || 'firebase'): TokenVerifier | undefined => {
+  switch (mode) {
+    case 'firebase':
+      return new FirebaseTokenVerifier();
+    case 'test':
+    case 'disabled':
+      // Never run an unprotected API, or one accepting self-signed tokens, in production by accident
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error(`AUTH_MODE=${mode} is not allowed when NODE_ENV is production`);
+      }
+      return mode === 'test' ? new TestKeyTokenVerifier() : undefined;
+    default:
+      throw new Error(`Unknown AUTH_MODE "${mode}". Use one of: ${AUTH_MODES.join(', ')}`);
+  }
+};
@@ -0,0 +1,153 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as admin from 'firebase-admin';
+import { getDataDir } from '../config/data-dir';
+import { FirebaseService } from '../services/firebase.service';
+import { toDate } from '../utils/date';
+import type { ApiKeyRecord } from '../types';
+
+/**
+ * Storage of API keys; revoked keys are kept so their history stays readable
+ */
+export interface ApiKeyRepository {
+  get(id: string): Promise<ApiKeyRecord | undefined>;
+
+  /**
+   * List keys, newest first
+   */
+  list(): Promise<ApiKeyRecord[]>;
+
+  /**
+   * Create or replace a key
+   */
+  save(record: ApiKeyRecord): Promise<void>;
+}
+
+const reviveRecord = (data: any): ApiKeyRecord => ({
+  ...data,
+  createdAt: toDate(data.createdAt)!,
+  rotatedAt: toDate(data.rotatedAt),
+  revokedAt: toDate(data.revokedAt)
+});
+
+const newestFirst = (a: ApiKeyRecord, b: ApiKeyRecord) => b.createdAt.getTime() - a.createdAt.getTime();
+
+/**
+ * File-based key storage: all keys in api-keys.json in DATA_DIR/api-keys
+ * Keys are kept in memory and read again when the file changes, so keys revoked or rotated
+ * by another instance or by editing the file stop working; every change rewrites the file
+ */
+export class FileApiKeyRepository implements ApiKeyRepository {
+  private filePath: string;
+  private cached?: { mtimeMs: number; records: Map<string, ApiKeyRecord> };
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(dir?: string) {
+    this.filePath = path.join(dir || getDataDir('api-keys'), 'api-keys.json');
+  }
+
+  async get(id: string): Promise<ApiKeyRecord | undefined> {
+    return (await this.load()).get(id);
+  }
+
+  async list(): Promise<ApiKeyRecord[]> {
+    return Array.from((await this.load()).values()).sort(newestFirst);
+  }
+
+  async save(record: ApiKeyRecord): Promise<void> {
+    const records = await this.load();
+    records.set(record.id, record);
+    const content = JSON.stringify(Array.from(records.values()), null, 2);
+
+    // Serialize writes and replace the file atomically so readers never see partial JSON
+    const result = this.writeQueue.then(async () => {
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.promises.writeFile(tmpPath, content, { encoding: 'utf-8', mode: 0o600 });
+      await fs.promises.rename(tmpPath, this.filePath);
+      // Our own write needs no reload, the keys in memory are at least as new as the file
+      const mtimeMs = await this.getModifiedTime();
+      if (this.cached?.records === records) {
+        this.cached.mtimeMs = mtimeMs;
+      }
+    });
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async load(): Promise<Map<string, ApiKeyRecord>> {
+    const mtimeMs = await this.getModifiedTime();
+    if (this.cached?.mtimeMs !== mtimeMs) {
+      let data: any[] = [];
+      try {
+        data = JSON.parse(await fs.promises.readFile(this.filePath, 'utf-8'));
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') throw error;
+      }
+      // Another call may have loaded the same version of the file while this one was reading
+      if (this.cached?.mtimeMs !== mtimeMs) {
+        this.cached = { mtimeMs, records: new Map(data.map(item => [item.id, reviveRecord(item)])) };
+      }
+    }
+    return this.cached!.records;
+  }
+
+  /**
+   * Modification time of the keys file, 0 while it does not exist
+   */
+  private async getModifiedTime(): Promise<number> {
+    try {
+      return (await fs.promises.stat(this.filePath)).mtimeMs;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+      return 0;
+    }
+  }
+}
+
+/**
+ * Firestore key storage in /apiKeys/{id}
+ */
+export class FirestoreApiKeyRepository implements ApiKeyRepository {
+  private static readonly COLLECTION = 'apiKeys';
+  private firebaseService = FirebaseService.getInstance();
+
+  async get(id: string): Promise<ApiKeyRecord | undefined> {
+    const doc = await this.keys().doc(id).get();
+    return doc.exists ? reviveRecord(doc.data()) : undefined;
+  }
+
+  async list(): Promise<ApiKeyRecord[]> {
+    const snapshot = await this.keys().orderBy('createdAt', 'desc').get();
+    return snapshot.docs.map(doc => reviveRecord(doc.data()));
+  }
+
+  async save(record: ApiKeyRecord): Promise<void> {
+    // Firestore rejects undefined values
+    const data = JSON.parse(JSON.stringify(record));
+    data.createdAt = record.createdAt;
+    if (record.rotatedAt) data.rotatedAt = record.rotatedAt;
+    if (record.revokedAt) data.revokedAt = record.revokedAt;
+
+    await this.keys().doc(record.id).set(data);
+  }
+
+  private keys(): admin.firestore.CollectionReference {
+    return this.firebaseService.getFirestore().collection(FirestoreApiKeyRepository.COLLECTION);
+  }
+}
+
+/**
+ * Create the API key repository configured with API_KEY_STORE (file or firestore)
+ */
+export const createApiKeyRepository = (): ApiKeyRepository => {
+  const store = process.env.API_KEY_STORE || 'file';
+
+  switch (store) {
+    case 'file':
+      return new FileApiKeyRepository();
+    case 'firestore':
+      return new FirestoreApiKeyRepository();
+    default:
+      throw new Error(`Unknown API_KEY_STORE "${store}". Use "file" or "firestore"`);
+  }
+};
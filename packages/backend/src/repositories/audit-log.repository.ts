@@ -0,0 +1,126 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as admin from 'firebase-admin';
+import { getDataDir } from '../config/data-dir';
+import { FirebaseService } from '../services/firebase.service';
+import { toDate } from '../utils/date';
+import type { AuditEntry, AuditLogFilter } from '../types';
+
+const DEFAULT_LIST_LIMIT = 100;
+
+/**
+ * Append-only storage of audit entries; entries are never updated or deleted
+ */
+export interface AuditLogRepository {
+  append(entry: AuditEntry): Promise<void>;
+
+  /**
+   * List entries, newest first
+   */
+  list(filter?: AuditLogFilter): Promise<AuditEntry[]>;
+}
+
+const reviveEntry = (data: any): AuditEntry => ({
+  ...data,
+  timestamp: toDate(data.timestamp)!
+});
+
+const matchesFilter = (entry: AuditEntry, filter: AuditLogFilter): boolean => {
+  if (filter.actor && entry.actor.uid !== filter.actor && entry.actor.email !== filter.actor) return false;
+  if (filter.actions && !filter.actions.includes(entry.action)) return false;
+  if (filter.from && entry.timestamp < filter.from) return false;
+  if (filter.to && entry.timestamp > filter.to) return false;
+  return true;
+};
+
+/**
+ * File-based audit log: one JSON line per entry, appended to audit-log.jsonl in DATA_DIR/audit
+ */
+export class FileAuditLogRepository implements AuditLogRepository {
+  private filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(dir?: string) {
+    this.filePath = path.join(dir || getDataDir('audit'), 'audit-log.jsonl');
+  }
+
+  async append(entry: AuditEntry): Promise<void> {
+    // Serialize appends so concurrent entries never interleave within a line
+    const result = this.writeQueue.then(() => fs.promises.appendFile(this.filePath, JSON.stringify(entry) + '\n', 'utf-8'));
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  async list(filter: AuditLogFilter = {}): Promise<AuditEntry[]> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.filePath, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    return content
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => reviveEntry(JSON.parse(line)))
+      .filter(entry => matchesFilter(entry, filter))
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+      .slice(0, filter.limit || DEFAULT_LIST_LIMIT);
+  }
+}
+
+/**
+ * Firestore audit log in /auditLog/{id}
+ * Entries are written with create(), which fails instead of overwriting an existing entry
+ */
+export class FirestoreAuditLogRepository implements AuditLogRepository {
+  private static readonly COLLECTION = 'auditLog';
+  private firebaseService = FirebaseService.getInstance();
+
+  async append(entry: AuditEntry): Promise<void> {
+    // Firestore rejects undefined values
+    const data = JSON.parse(JSON.stringify(entry));
+    data.timestamp = entry.timestamp;
+
+    await this.entries().doc(entry.id).create(data);
+  }
+
+  async list(filter: AuditLogFilter = {}): Promise<AuditEntry[]> {
+    let query: admin.firestore.Query = this.entries();
+
+    if (filter.actions) query = query.where('action', 'in', filter.actions);
+    if (filter.from) query = query.where('timestamp', '>=', filter.from);
+    if (filter.to) query = query.where('timestamp', '<=', filter.to);
+
+    query = query.orderBy('timestamp', 'desc');
+    // The actor can be a uid or an email, which one query cannot match both of, so it is filtered here
+    if (!filter.actor) query = query.limit(filter.limit || DEFAULT_LIST_LIMIT);
+
+    const snapshot = await query.get();
+    return snapshot.docs
+      .map(doc => reviveEntry(doc.data()))
+      .filter(entry => matchesFilter(entry, { actor: filter.actor }))
+      .slice(0, filter.limit || DEFAULT_LIST_LIMIT);
+  }
+
+  private entries(): admin.firestore.CollectionReference {
+    return this.firebaseService.getFirestore().collection(FirestoreAuditLogRepository.COLLECTION);
+  }
+}
+
+/**
+ * Create the audit log repository configured with AUDIT_LOG_STORE (file or firestore)
+ */
+export const createAuditLogRepository = (): AuditLogRepository => {
+  const store = process.env.AUDIT_LOG_STORE || 'file';
+
+  switch (store) {
+    case 'file':
+      return new FileAuditLogRepository();
+    case 'firestore':
+      return new FirestoreAuditLogRepository();
+    default:
+      throw new Error(`Unknown AUDIT_LOG_STORE "${store}". Use "file" or "firestore"`);
+  }
+};
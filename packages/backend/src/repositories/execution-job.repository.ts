@@ -0,0 +1,227 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as admin from 'firebase-admin';
+import { getDataDir } from '../config/data-dir';
+import { FirebaseService } from '../services/firebase.service';
+import { toDate } from '../utils/date';
+import type { TemplateExecutionJob, UserExecutionResult, ExecutionJobFilter } from '../types';
+
+const DEFAULT_LIST_LIMIT = 50;
+const JOB_ID_PATTERN = /^[\w-]+$/;
+
+/**
+ * Storage for template execution jobs and their per-user results
+ */
+export interface ExecutionJobRepository {
+  /**
+   * Create or replace a job record (userResults are stored separately)
+   */
+  save(job: TemplateExecutionJob): Promise<void>;
+
+  /**
+   * Record the outcome of a single user; a later result for the same user replaces the earlier one
+   */
+  saveUserResult(jobId: string, result: UserExecutionResult): Promise<void>;
+
+  /**
+   * Get a job including its per-user results
+   */
+  get(jobId: string): Promise<TemplateExecutionJob | undefined>;
+
+  /**
+   * List jobs, newest first, without per-user results
+   */
+  list(filter?: ExecutionJobFilter): Promise<TemplateExecutionJob[]>;
+}
+
+const reviveJob = (data: any): TemplateExecutionJob => ({
+  ...data,
+  startTime: toDate(data.startTime)!,
+  endTime: toDate(data.endTime)
+});
+
+const reviveUserResult = (data: any): UserExecutionResult => ({
+  ...data,
+  finishedAt: toDate(data.finishedAt)!
+});
+
+const matchesFilter = (job: TemplateExecutionJob, filter: ExecutionJobFilter): boolean => {
+  if (filter.status && job.status !== filter.status) return false;
+  if (filter.templateId && job.templateId !== filter.templateId) return false;
+  if (filter.from && job.startTime < filter.from) return false;
+  if (filter.to && job.startTime > filter.to) return false;
+  return true;
+};
+
+/**
+ * File-based job storage
+ * Each job is stored as {jobId}.json with user results appended to {jobId}.results.jsonl
+ */
+export class FileExecutionJobRepository implements ExecutionJobRepository {
+  private dir: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(dir?: string) {
+    this.dir = dir || getDataDir('executions');
+  }
+
+  async save(job: TemplateExecutionJob): Promise<void> {
+    const { userResults, ...summary } = job;
+    const filePath = this.jobFilePath(job.jobId);
+
+    // Serialize writes and replace the file atomically so readers never see partial JSON
+    await this.enqueue(async () => {
+      const tmpPath = `${filePath}.tmp`;
+      await fs.promises.writeFile(tmpPath, JSON.stringify(summary, null, 2), 'utf-8');
+      await fs.promises.rename(tmpPath, filePath);
+    });
+  }
+
+  async saveUserResult(jobId: string, result: UserExecutionResult): Promise<void> {
+    const filePath = this.resultsFilePath(jobId);
+    await this.enqueue(() => fs.promises.appendFile(filePath, JSON.stringify(result) + '\n', 'utf-8'));
+  }
+
+  async get(jobId: string): Promise<TemplateExecutionJob | undefined> {
+    if (!JOB_ID_PATTERN.test(jobId)) return undefined;
+
+    const job = await this.readJob(`${jobId}.json`);
+    if (!job) return undefined;
+
+    job.userResults = {};
+    try {
+      const lines = (await fs.promises.readFile(this.resultsFilePath(jobId), 'utf-8')).split('\n');
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const result = reviveUserResult(JSON.parse(line));
+        job.userResults[result.uid] = result;
+      }
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+
+    return job;
+  }
+
+  async list(filter: ExecutionJobFilter = {}): Promise<TemplateExecutionJob[]> {
+    const files = (await fs.promises.readdir(this.dir)).filter(file => file.endsWith('.json'));
+    const jobs: TemplateExecutionJob[] = [];
+
+    for (const file of files) {
+      const job = await this.readJob(file);
+      if (job && matchesFilter(job, filter)) {
+        jobs.push(job);
+      }
+    }
+
+    return jobs
+      .sort((a, b) => b.startTime.getTime() - a.startTime.getTime())
+      .slice(0, filter.limit || DEFAULT_LIST_LIMIT);
+  }
+
+  private async readJob(file: string): Promise<TemplateExecutionJob | undefined> {
+    try {
+      const content = await fs.promises.readFile(path.join(this.dir, file), 'utf-8');
+      return reviveJob(JSON.parse(content));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error(`Error loading execution job from ${file}:`, error);
+      }
+      return undefined;
+    }
+  }
+
+  private jobFilePath(jobId: string): string {
+    if (!JOB_ID_PATTERN.test(jobId)) throw new Error(`Invalid job ID ${jobId}`);
+    return path.join(this.dir, `${jobId}.json`);
+  }
+
+  private resultsFilePath(jobId: string): string {
+    if (!JOB_ID_PATTERN.test(jobId)) throw new Error(`Invalid job ID ${jobId}`);
+    return path.join(this.dir, `${jobId}.results.jsonl`);
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const result = this.writeQueue.then(task);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * Firestore job storage
+ * Jobs are stored in /templateExecutions/{jobId} with results in its userResults subcollection
+ */
+export class FirestoreExecutionJobRepository implements ExecutionJobRepository {
+  private static readonly COLLECTION = 'templateExecutions';
+  private firebaseService = FirebaseService.getInstance();
+
+  async save(job: TemplateExecutionJob): Promise<void> {
+    const { userResults, ...summary } = job;
+    // Firestore rejects undefined values
+    const data = JSON.parse(JSON.stringify(summary));
+    data.startTime = job.startTime;
+    if (job.endTime) data.endTime = job.endTime;
+
+    await this.jobs().doc(job.jobId).set(data);
+  }
+
+  async saveUserResult(jobId: string, result: UserExecutionResult): Promise<void> {
+    const data = JSON.parse(JSON.stringify(result));
+    data.finishedAt = result.finishedAt;
+
+    await this.jobs().doc(jobId).collection('userResults').doc(result.uid).set(data);
+  }
+
+  async get(jobId: string): Promise<TemplateExecutionJob | undefined> {
+    const jobRef = this.jobs().doc(jobId);
+    const doc = await jobRef.get();
+    if (!doc.exists) return undefined;
+
+    const job = reviveJob(doc.data());
+    job.userResults = {};
+
+    const results = await jobRef.collection('userResults').get();
+    results.forEach(resultDoc => {
+      job.userResults![resultDoc.id] = reviveUserResult(resultDoc.data());
+    });
+
+    return job;
+  }
+
+  async list(filter: ExecutionJobFilter = {}): Promise<TemplateExecutionJob[]> {
+    let query: admin.firestore.Query = this.jobs();
+
+    if (filter.status) query = query.where('status', '==', filter.status);
+    if (filter.templateId) query = query.where('templateId', '==', filter.templateId);
+    if (filter.from) query = query.where('startTime', '>=', filter.from);
+    if (filter.to) query = query.where('startTime', '<=', filter.to);
+
+    const snapshot = await query
+      .orderBy('startTime', 'desc')
+      .limit(filter.limit || DEFAULT_LIST_LIMIT)
+      .get();
+
+    return snapshot.docs.map(doc => reviveJob(doc.data()));
+  }
+
+  private jobs(): admin.firestore.CollectionReference {
+    return this.firebaseService.getFirestore().collection(FirestoreExecutionJobRepository.COLLECTION);
+  }
+}
+
+/**
+ * Create the job repository configured with EXECUTION_JOB_STORE (file or firestore)
+ */
+export const createExecutionJobRepository = (): ExecutionJobRepository => {
+  const store = process.env.EXECUTION_JOB_STORE || 'file';
+
+  switch (store) {
+    case 'file':
+      return new FileExecutionJobRepository();
+    case 'firestore':
+      return new FirestoreExecutionJobRepository();
+    default:
+      throw new Error(`Unknown EXECUTION_JOB_STORE "${store}". Use "file" or "firestore"`);
+  }
+};
@@ -0,0 +1,120 @@
+import * as admin from 'firebase-admin';
+import { FirebaseService } from '../services/firebase.service';
+import { InMemoryStore, toExpenseTimestamp } from './in-memory.store';
+import { USERS_COLLECTION } from './user.repository';
+import type { ExpenseRecord, ExpenseQuery } from '../types';
+
+/**
+ * Storage of the expenses of a user
+ */
+export interface ExpenseRepository {
+  /**
+   * List the expenses of a user, newest first, optionally within a date range
+   * An empty list is returned for users without expenses
+   */
+  listByUser(uid: string, query?: ExpenseQuery): Promise<ExpenseRecord[]>;
+
+  /**
+   * Add an expense for a user and return its ID
+   */
+  add(uid: string, expense: ExpenseRecord): Promise<string>;
+
+  /**
+   * Create or replace the expense of a user with the given ID
+   */
+  save(uid: string, id: string, expense: ExpenseRecord): Promise<void>;
+}
+
+const rangeStart = (startDate: string): Date => new Date(startDate + 'T00:00:00.000Z');
+const rangeEnd = (endDate: string): Date => new Date(endDate + 'T23:59:59.999Z');
+
+const toExpenseRecord = (data: any): ExpenseRecord => ({
+  amount: data.amount,
+  category: data.category,
+  currencyCode: data.currencyCode,
+  date: data.date,
+  emotion: data.emotion,
+  name: data.name
+});
+
+/**
+ * Expenses stored in /users2/{uid}/expenses
+ * Documents have a 'timestamp' field (Firestore Timestamp) next to their 'date' that ranges are queried on
+ */
+export class FirestoreExpenseRepository implements ExpenseRepository {
+  private firebaseService = FirebaseService.getInstance();
+
+  async listByUser(uid: string, { startDate, endDate }: ExpenseQuery = {}): Promise<ExpenseRecord[]> {
+    console.log('🔍 [DEBUG] Fetching expenses from Firebase:');
+    console.log(`   - User ID: ${uid}`);
+    console.log(`   - Start Date: ${startDate || 'None (all data)'}`);
+    console.log(`   - End Date: ${endDate || 'None (all data)'}`);
+    console.log(`   - Collection Path: ${USERS_COLLECTION}/${uid}/expenses`);
+
+    let query: admin.firestore.Query = this.expenses(uid);
+    if (startDate) {
+      query = query.where('timestamp', '>=', admin.firestore.Timestamp.fromDate(rangeStart(startDate)));
+    }
+    if (endDate) {
+      query = query.where('timestamp', '<=', admin.firestore.Timestamp.fromDate(rangeEnd(endDate)));
+    }
+
+    const expensesSnapshot = await query.orderBy('timestamp', 'desc').get();
+    console.log(`   - Documents found: ${expensesSnapshot.size}`);
+
+    const expenses = expensesSnapshot.docs.map(doc => toExpenseRecord(doc.data()));
+    if (expenses.length === 0) {
+      // A normal situation for new users or specific date ranges
+      const dateInfo = startDate || endDate ? ` between ${startDate || 'start'} and ${endDate || 'end'}` : '';
+      console.log(`⚠️ [DEBUG] No expenses found for user with UID ${uid}${dateInfo} - returning empty array`);
+    } else {
+      console.log(`✅ [DEBUG] Successfully fetched ${expenses.length} expense(s) for user ${uid}`);
+    }
+
+    return expenses;
+  }
+
+  async add(uid: string, expense: ExpenseRecord): Promise<string> {
+    const docRef = await this.expenses(uid).add(this.toDocument(expense));
+    return docRef.id;
+  }
+
+  async save(uid: string, id: string, expense: ExpenseRecord): Promise<void> {
+    await this.expenses(uid).doc(id).set(this.toDocument(expense));
+  }
+
+  private toDocument(expense: ExpenseRecord): admin.firestore.DocumentData {
+    return { ...expense, timestamp: admin.firestore.Timestamp.fromDate(toExpenseTimestamp(expense)) };
+  }
+
+  private expenses(uid: string): admin.firestore.CollectionReference {
+    return this.firebaseService.getFirestore().collection(USERS_COLLECTION).doc(uid).collection('expenses');
+  }
+}
+
+/**
+ * Expenses kept in the in-memory store
+ */
+export class InMemoryExpenseRepository implements ExpenseRepository {
+  constructor(private store: InMemoryStore = InMemoryStore.getInstance()) {}
+
+  async listByUser(uid: string, { startDate, endDate }: ExpenseQuery = {}): Promise<ExpenseRecord[]> {
+    const expenses = Array.from(this.store.getUser(uid)?.expenses.values() ?? []);
+
+    return expenses
+      .filter(expense => !startDate || expense.timestamp >= rangeStart(startDate))
+      .filter(expense => !endDate || expense.timestamp <= rangeEnd(endDate))
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+      .map(expense => toExpenseRecord(structuredClone(expense)));
+  }
+
+  async add(uid: string, expense: ExpenseRecord): Promise<string> {
+    const id = this.store.generateId();
+    await this.save(uid, id, expense);
+    return id;
+  }
+
+  async save(uid: string, id: string, expense: ExpenseRecord): Promise<void> {
+    this.store.ensureUser(uid).expenses.set(id, { ...structuredClone(expense), id, timestamp: toExpenseTimestamp(expense) });
+  }
+}
@@ -0,0 +1,110 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { toDate } from '../utils/date';
+import type { ExpenseRecord, PromptResponseRecord } from '../types';
+
+/**
+ * JSON fixture with the users2 data of the in-memory store
+ */
+export interface DataFixture {
+  users: Array<{
+    uid: string;
+    profile?: any; // Omitted for users that only have subcollections
+    expenses?: Array<ExpenseRecord & { id?: string; timestamp?: string }>;
+    recommendations?: PromptResponseRecord[];
+  }>;
+}
+
+export interface StoredExpense extends ExpenseRecord {
+  id: string;
+  timestamp: Date; // What date ranges are filtered on, like the Firestore timestamp field
+}
+
+export interface StoredUser {
+  profile?: any;
+  expenses: Map<string, StoredExpense>;
+  recommendations: Map<string, PromptResponseRecord & { id: string; createdAt: string }>;
+}
+
+/**
+ * Expense time from an explicit timestamp or its date
+ */
+export const toExpenseTimestamp = (expense: { date?: any; timestamp?: any }): Date =>
+  toDate(expense.timestamp ?? expense.date) ?? new Date(0);
+
+/**
+ * Process-wide data of the in-memory repositories
+ * Starts with the fixture from FIXTURES_FILE (defaults to fixtures/dev-data.json) when the file exists
+ */
+export class InMemoryStore {
+  private static instance: InMemoryStore;
+  private users = new Map<string, StoredUser>();
+
+  private constructor() {}
+
+  public static getInstance(): InMemoryStore {
+    if (!InMemoryStore.instance) {
+      InMemoryStore.instance = new InMemoryStore();
+      const filePath = process.env.FIXTURES_FILE || path.join(__dirname, '../../fixtures/dev-data.json');
+      if (fs.existsSync(filePath)) {
+        InMemoryStore.instance.reset(InMemoryStore.loadFixture(filePath));
+        console.log(`🧪 Loaded ${InMemoryStore.instance.users.size} user(s) into the in-memory store from ${filePath}`);
+      }
+    }
+    return InMemoryStore.instance;
+  }
+
+  static loadFixture(filePath: string): DataFixture {
+    const fixture = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as DataFixture;
+    if (!Array.isArray(fixture?.users)) {
+      throw new Error(`Fixture ${filePath} must have a "users" array`);
+    }
+    return fixture;
+  }
+
+  /**
+   * Replace all data with the fixture
+   */
+  reset(fixture: DataFixture = { users: [] }): void {
+    this.users.clear();
+
+    for (const { uid, profile, expenses = [], recommendations = [] } of fixture.users) {
+      const user = this.ensureUser(uid);
+      if (profile !== undefined) user.profile = structuredClone(profile);
+      for (const { id = this.generateId(), timestamp, ...expense } of expenses) {
+        user.expenses.set(id, { ...structuredClone(expense), id, timestamp: toExpenseTimestamp({ date: expense.date, timestamp }) });
+      }
+      for (const { id = this.generateId(), createdAt = new Date().toISOString(), ...recommendation } of recommendations) {
+        user.recommendations.set(id, { ...structuredClone(recommendation), id, createdAt });
+      }
+    }
+  }
+
+  getUser(uid: string): StoredUser | undefined {
+    return this.users.get(uid);
+  }
+
+  listUsers(): Array<[string, StoredUser]> {
+    return Array.from(this.users);
+  }
+
+  /**
+   * Get a user, creating an entry without profile like a Firestore subcollection write would
+   */
+  ensureUser(uid: string): StoredUser {
+    let user = this.users.get(uid);
+    if (!user) {
+      user = { expenses: new Map(), recommendations: new Map() };
+      this.users.set(uid, user);
+    }
+    return user;
+  }
+
+  /**
+   * Random document ID in the style of Firestore auto IDs
+   */
+  generateId(): string {
+    return crypto.randomBytes(10).toString('hex');
+  }
+}
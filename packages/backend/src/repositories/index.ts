@@ -0,0 +1,73 @@
+import { FirebaseService } from '../services/firebase.service';
+import { FirestoreUserRepository, InMemoryUserRepository, UserRepository } from './user.repository';
+import { FirestoreExpenseRepository, InMemoryExpenseRepository, ExpenseRepository } from './expense.repository';
+import {
+  FirestoreRecommendationRepository,
+  InMemoryRecommendationRepository,
+  RecommendationRepository
+} from './recommendation.repository';
+
+export type { UserRepository } from './user.repository';
+export type { ExpenseRepository } from './expense.repository';
+export type { RecommendationRepository } from './recommendation.repository';
+export { FirestoreUserRepository, InMemoryUserRepository, USERS_COLLECTION } from './user.repository';
+export { FirestoreExpenseRepository, InMemoryExpenseRepository } from './expense.repository';
+export { FirestoreRecommendationRepository, InMemoryRecommendationRepository } from './recommendation.repository';
+export { InMemoryStore } from './in-memory.store';
+export type { DataFixture } from './in-memory.store';
+
+export type DataSource = 'firestore' | 'memory';
+
+/**
+ * Repositories of the user data, all backed by the same data source
+ */
+export interface Repositories {
+  source: DataSource;
+  users: UserRepository;
+  expenses: ExpenseRepository;
+  recommendations: RecommendationRepository;
+
+  /**
+   * Whether the data source can be used, e.g. Firebase credentials are set
+   */
+  isConfigured(): boolean;
+}
+
+/**
+ * Create the repositories of the data source configured with DATA_SOURCE (firestore or memory)
+ */
+export const createRepositories = (source: string = process.env.DATA_SOURCE || 'firestore'): Repositories => {
+  switch (source) {
+    case 'firestore':
+      return {
+        source,
+        users: new FirestoreUserRepository(),
+        expenses: new FirestoreExpenseRepository(),
+        recommendations: new FirestoreRecommendationRepository(),
+        isConfigured: () => FirebaseService.getInstance().isConfigured()
+      };
+    case 'memory':
+      return {
+        source,
+        users: new InMemoryUserRepository(),
+        expenses: new InMemoryExpenseRepository(),
+        recommendations: new InMemoryRecommendationRepository(),
+        isConfigured: () => true
+      };
+    default:
+      throw new Error(`Unknown DATA_SOURCE "${source}". Use "firestore" or "memory"`);
+  }
+};
+
+let repositories: Repositories | undefined;
+
+/**
+ * Get the shared repositories of the configured data source
+ */
+export const getRepositories = (): Repositories => {
+  if (!repositories) {
+    repositories = createRepositories();
+    console.log(`✅ ${repositories.source} repositories initialized`);
+  }
+  return repositories;
+};
@@ -0,0 +1,106 @@
+import * as admin from 'firebase-admin';
+import { FirebaseService } from '../services/firebase.service';
+import { InMemoryStore } from './in-memory.store';
+import { USERS_COLLECTION } from './user.repository';
+import type { PromptResponseRecord } from '../types';
+
+const DEFAULT_LIST_LIMIT = 50;
+
+/**
+ * Storage of the model responses saved for a user
+ */
+export interface RecommendationRepository {
+  /**
+   * Save a model response for a user and return its ID
+   */
+  add(uid: string, record: PromptResponseRecord): Promise<string>;
+
+  /**
+   * Create or replace the saved response of a user with the given ID
+   */
+  save(uid: string, id: string, record: PromptResponseRecord): Promise<void>;
+
+  /**
+   * List the saved responses of a user, newest first
+   */
+  listByUser(uid: string, limit?: number): Promise<PromptResponseRecord[]>;
+}
+
+/**
+ * Firestore rejects undefined values
+ */
+const withoutUndefined = (record: PromptResponseRecord): PromptResponseRecord =>
+  Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined)) as PromptResponseRecord;
+
+/**
+ * Responses stored in /users2/{uid}/recommendations
+ */
+export class FirestoreRecommendationRepository implements RecommendationRepository {
+  private firebaseService = FirebaseService.getInstance();
+
+  async add(uid: string, record: PromptResponseRecord): Promise<string> {
+    const docRef = await this.recommendations(uid).add(this.toDocument(record));
+
+    console.log(`✅ Saved prompt response for user ${uid} to /${USERS_COLLECTION}/${uid}/recommendations/${docRef.id}`);
+    return docRef.id;
+  }
+
+  async save(uid: string, id: string, record: PromptResponseRecord): Promise<void> {
+    await this.recommendations(uid).doc(id).set(this.toDocument(record));
+  }
+
+  async listByUser(uid: string, limit: number = DEFAULT_LIST_LIMIT): Promise<PromptResponseRecord[]> {
+    const snapshot = await this.recommendations(uid).orderBy('createdAt', 'desc').limit(limit).get();
+
+    return snapshot.docs.map(doc => {
+      const { timestamp, ...data } = doc.data();
+      return { ...data, id: doc.id } as PromptResponseRecord;
+    });
+  }
+
+  private toDocument(record: PromptResponseRecord): admin.firestore.DocumentData {
+    // The ID is the document's, not a field
+    const { id: _id, ...data } = withoutUndefined(record);
+    return {
+      ...data,
+      timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      createdAt: record.createdAt ?? new Date().toISOString()
+    };
+  }
+
+  private recommendations(uid: string): admin.firestore.CollectionReference {
+    return this.firebaseService.getFirestore().collection(USERS_COLLECTION).doc(uid).collection('recommendations');
+  }
+}
+
+/**
+ * Responses kept in the in-memory store
+ */
+export class InMemoryRecommendationRepository implements RecommendationRepository {
+  constructor(private store: InMemoryStore = InMemoryStore.getInstance()) {}
+
+  async add(uid: string, record: PromptResponseRecord): Promise<string> {
+    const id = this.store.generateId();
+    await this.save(uid, id, record);
+    return id;
+  }
+
+  async save(uid: string, id: string, record: PromptResponseRecord): Promise<void> {
+    this.store.ensureUser(uid).recommendations.set(id, {
+      ...structuredClone(withoutUndefined(record)),
+      id,
+      createdAt: record.createdAt ?? new Date().toISOString()
+    });
+  }
+
+  async listByUser(uid: string, limit: number = DEFAULT_LIST_LIMIT): Promise<PromptResponseRecord[]> {
+    const recommendations = Array.from(this.store.getUser(uid)?.recommendations.values() ?? []);
+
+    // Saved in order, so the newest come last when createdAt is equal
+    return recommendations
+      .map((recommendation, index) => ({ recommendation, index }))
+      .sort((a, b) => b.recommendation.createdAt.localeCompare(a.recommendation.createdAt) || b.index - a.index)
+      .slice(0, limit)
+      .map(({ recommendation }) => structuredClone(recommendation));
+  }
+}
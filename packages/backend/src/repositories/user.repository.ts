@@ -0,0 +1,79 @@
+import * as admin from 'firebase-admin';
+import { FirebaseService } from '../services/firebase.service';
+import { InMemoryStore } from './in-memory.store';
+import type { UserRecord } from '../types';
+
+// Root collection of the MyMonji app: /users2/{uid} with expenses and recommendations subcollections
+export const USERS_COLLECTION = 'users2';
+
+/**
+ * Storage of user profiles
+ */
+export interface UserRepository {
+  /**
+   * Get the profile of a user, undefined when the user does not exist
+   */
+  get(uid: string): Promise<any | undefined>;
+
+  /**
+   * List all users with their profiles
+   */
+  list(): Promise<UserRecord[]>;
+
+  /**
+   * Create or replace the profile of a user
+   */
+  save(uid: string, data: any): Promise<void>;
+}
+
+/**
+ * Profiles stored in /users2/{uid}
+ */
+export class FirestoreUserRepository implements UserRepository {
+  private firebaseService = FirebaseService.getInstance();
+
+  async get(uid: string): Promise<any | undefined> {
+    const userDoc = await this.users().doc(uid).get();
+    if (!userDoc.exists) return undefined;
+
+    // Extract and return only the data, not the full DocumentSnapshot
+    const userData = userDoc.data();
+    console.log(`✅ Fetched user data for ${uid}:`, JSON.stringify(userData, null, 2));
+    return userData;
+  }
+
+  async list(): Promise<UserRecord[]> {
+    const usersSnapshot = await this.users().get();
+    return usersSnapshot.docs.map(doc => ({ uid: doc.id, data: doc.data() }));
+  }
+
+  async save(uid: string, data: any): Promise<void> {
+    await this.users().doc(uid).set(data);
+  }
+
+  private users(): admin.firestore.CollectionReference {
+    return this.firebaseService.getFirestore().collection(USERS_COLLECTION);
+  }
+}
+
+/**
+ * Profiles kept in the in-memory store
+ */
+export class InMemoryUserRepository implements UserRepository {
+  constructor(private store: InMemoryStore = InMemoryStore.getInstance()) {}
+
+  async get(uid: string): Promise<any | undefined> {
+    const profile = this.store.getUser(uid)?.profile;
+    return profile === undefined ? undefined : structuredClone(profile);
+  }
+
+  async list(): Promise<UserRecord[]> {
+    return this.store.listUsers()
+      .filter(([, user]) => user.profile !== undefined)
+      .map(([uid, user]) => ({ uid, data: structuredClone(user.profile) }));
+  }
+
+  async save(uid: string, data: any): Promise<void> {
+    this.store.ensureUser(uid).profile = structuredClone(data);
+  }
+}
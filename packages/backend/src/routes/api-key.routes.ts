@@ -0,0 +1,218 @@
+import { Router, Request, Response } from 'express';
+import { requirePermission } from '../middleware/auth.middleware';
+import { PERMISSIONS } from '../config/rbac';
+import { AccessControlService } from '../services/access-control.service';
+import { ApiKeyService } from '../services/api-key.service';
+import { AuditService, getAuditContext } from '../services/audit.service';
+import type { ApiKey, ApiKeyUsage, ApiKeyWithSecret, ApiResponse, CreateApiKeyRequest, Permission } from '../types';
+
+const router = Router();
+const apiKeyService = ApiKeyService.getInstance();
+const auditService = AuditService.getInstance();
+
+const MAX_NAME_LENGTH = 100;
+
+const validateCreateApiKeyRequest = (body: Partial<CreateApiKeyRequest> = {}): string | undefined => {
+  if (typeof body.name !== 'string' || !body.name.trim()) {
+    return 'name is required';
+  }
+  if (body.name.length > MAX_NAME_LENGTH) {
+    return `name must be at most ${MAX_NAME_LENGTH} characters`;
+  }
+  if (!Array.isArray(body.scopes) || body.scopes.length === 0 || body.scopes.some(scope => !PERMISSIONS.includes(scope))) {
+    return `scopes must be a non-empty list of: ${PERMISSIONS.join(', ')}`;
+  }
+  if (body.quotas !== undefined) {
+    if (typeof body.quotas !== 'object' || body.quotas === null) {
+      return 'quotas must be an object';
+    }
+    for (const quota of ['requestsPerMinute', 'tokensPerDay'] as const) {
+      const value = body.quotas[quota];
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        return `quotas.${quota} must be a positive integer`;
+      }
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Permissions the caller may pass on to a key: its own, so a key never grants more than its creator has
+ */
+const getGrantablePermissions = async (req: Request): Promise<Permission[]> => {
+  const principal = req.principal!;
+  if (principal.apiKey) {
+    return principal.apiKey.scopes;
+  }
+  const accessControl = AccessControlService.getInstance();
+  return accessControl.getPermissions(req.roles ?? await accessControl.getRoles(principal));
+};
+
+/**
+ * Scopes the caller does not have; keys holding any of them can neither be granted nor rotated or revoked by the caller
+ */
+const getScopesNotGrantable = async (req: Request, scopes: Permission[]): Promise<Permission[]> => {
+  const grantable = await getGrantablePermissions(req);
+  return scopes.filter(scope => !grantable.includes(scope));
+};
+
+/**
+ * GET /api/keys
+ * List all keys, newest first, with their usage in the current quota windows
+ */
+router.get('/', requirePermission('api-keys:manage'), async (req: Request, res: Response<ApiResponse<(ApiKey & { usage: ApiKeyUsage })[]>>) => {
+  try {
+    const apiKeys = await apiKeyService.list();
+
+    res.json({
+      success: true,
+      data: apiKeys.map(apiKey => ({ ...apiKey, usage: apiKeyService.getUsage(apiKey.id) })),
+      message: 'API keys retrieved successfully'
+    });
+  } catch (error) {
+    console.error('Error listing API keys:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list API keys'
+    });
+  }
+});
+
+/**
+ * POST /api/keys
+ * Issue a new key; the key is only returned in this response
+ */
+router.post('/', requirePermission('api-keys:manage'), async (req: Request, res: Response<ApiResponse<ApiKeyWithSecret>>) => {
+  try {
+    const validationError = validateCreateApiKeyRequest(req.body);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError
+      });
+    }
+
+    const { name, scopes, quotas }: CreateApiKeyRequest = req.body;
+    const notGrantable = await getScopesNotGrantable(req, scopes);
+    if (notGrantable.length > 0) {
+      return res.status(403).json({
+        success: false,
+        error: `Cannot grant scopes you do not have: ${notGrantable.join(', ')}`
+      });
+    }
+
+    const created = await apiKeyService.create(
+      {
+        name: name.trim(),
+        scopes,
+        quotas: { requestsPerMinute: quotas?.requestsPerMinute, tokensPerDay: quotas?.tokensPerDay }
+      },
+      req.principal!.uid
+    );
+    await auditService.record(getAuditContext(req), 'api-key.create', { type: 'api-key', id: created.apiKey.id }, { after: created.apiKey });
+
+    res.status(201).json({
+      success: true,
+      data: created,
+      message: 'API key created successfully. Store the key now, it cannot be shown again'
+    });
+  } catch (error) {
+    console.error('Error creating API key:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create API key'
+    });
+  }
+});
+
+/**
+ * POST /api/keys/:id/rotate
+ * Replace the secret of a key; the previous key stops working immediately
+ */
+router.post('/:id/rotate', requirePermission('api-keys:manage'), async (req: Request, res: Response<ApiResponse<ApiKeyWithSecret>>) => {
+  try {
+    const before = await apiKeyService.get(req.params.id);
+    if (!before) {
+      return res.status(404).json({
+        success: false,
+        error: 'API key not found'
+      });
+    }
+    const notGrantable = await getScopesNotGrantable(req, before.scopes);
+    if (notGrantable.length > 0) {
+      return res.status(403).json({
+        success: false,
+        error: `Cannot rotate a key with scopes you do not have: ${notGrantable.join(', ')}`
+      });
+    }
+    if (before.revokedAt) {
+      return res.status(409).json({
+        success: false,
+        error: 'Revoked API keys cannot be rotated'
+      });
+    }
+
+    const rotated = await apiKeyService.rotate(before.id);
+    if (!rotated) {
+      return res.status(409).json({
+        success: false,
+        error: 'API key was revoked while rotating'
+      });
+    }
+    await auditService.record(getAuditContext(req), 'api-key.rotate', { type: 'api-key', id: before.id }, { before, after: rotated.apiKey });
+
+    res.json({
+      success: true,
+      data: rotated,
+      message: 'API key rotated successfully. Store the new key now, it cannot be shown again'
+    });
+  } catch (error) {
+    console.error('Error rotating API key:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to rotate API key'
+    });
+  }
+});
+
+/**
+ * POST /api/keys/:id/revoke
+ * Revoke a key for good
+ */
+router.post('/:id/revoke', requirePermission('api-keys:manage'), async (req: Request, res: Response<ApiResponse<ApiKey>>) => {
+  try {
+    const before = await apiKeyService.get(req.params.id);
+    if (!before) {
+      return res.status(404).json({
+        success: false,
+        error: 'API key not found'
+      });
+    }
+    const notGrantable = await getScopesNotGrantable(req, before.scopes);
+    if (notGrantable.length > 0) {
+      return res.status(403).json({
+        success: false,
+        error: `Cannot revoke a key with scopes you do not have: ${notGrantable.join(', ')}`
+      });
+    }
+
+    const revoked = await apiKeyService.revoke(before.id);
+    if (!before.revokedAt) {
+      await auditService.record(getAuditContext(req), 'api-key.revoke', { type: 'api-key', id: before.id }, { before, after: revoked });
+    }
+
+    res.json({
+      success: true,
+      data: revoked,
+      message: 'API key revoked successfully'
+    });
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to revoke API key'
+    });
+  }
+});
+
+export { router as apiKeyRoutes };
@@ -0,0 +1,86 @@
+import { Router, Request, Response } from 'express';
+import { requirePermission } from '../middleware/auth.middleware';
+import { AUDIT_ACTIONS, AuditService } from '../services/audit.service';
+import type { ApiResponse, AuditAction, AuditEntry, AuditLogFilter } from '../types';
+
+const router = Router();
+const auditService = AuditService.getInstance();
+
+/**
+ * Actions matching an action filter: a full action such as template.update or a type such as template
+ */
+const resolveActions = (value: string): AuditAction[] | undefined => {
+  const actions = new Set<AuditAction>();
+  for (const name of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const matching = AUDIT_ACTIONS.filter(action => action === name || action.startsWith(`${name}.`));
+    if (matching.length === 0) return undefined;
+    matching.forEach(action => actions.add(action));
+  }
+  return Array.from(actions);
+};
+
+/**
+ * GET /api/audit
+ * List audit entries, newest first
+ * Query: actor (uid or email), action (comma separated actions or types), from, to (ISO dates), limit
+ */
+router.get('/', requirePermission('audit:read'), async (req: Request, res: Response<ApiResponse<AuditEntry[]>>) => {
+  try {
+    const { actor, action, from, to, limit } = req.query as Record<string, string | undefined>;
+    const filter: AuditLogFilter = {};
+
+    if (actor) {
+      filter.actor = actor;
+    }
+
+    if (action) {
+      const actions = resolveActions(action);
+      if (!actions) {
+        return res.status(400).json({
+          success: false,
+          error: `action must be one or more of ${AUDIT_ACTIONS.join(', ')} or their types (e.g. template)`
+        });
+      }
+      filter.actions = actions;
+    }
+
+    for (const [key, value] of Object.entries({ from, to })) {
+      if (!value) continue;
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid ${key} date`
+        });
+      }
+      filter[key as 'from' | 'to'] = date;
+    }
+
+    if (limit) {
+      const parsedLimit = parseInt(limit, 10);
+      if (isNaN(parsedLimit) || parsedLimit < 1 || parsedLimit > 500) {
+        return res.status(400).json({
+          success: false,
+          error: 'limit must be a number between 1 and 500'
+        });
+      }
+      filter.limit = parsedLimit;
+    }
+
+    const entries = await auditService.list(filter);
+
+    res.json({
+      success: true,
+      data: entries,
+      message: 'Audit entries retrieved successfully'
+    });
+  } catch (error) {
+    console.error('Error listing audit entries:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list audit entries'
+    });
+  }
+});
+
+export { router as auditRoutes };
@@ -1,67 +1,152 @@
 import { Router, Request, Response } from 'express';
-import { OpenAIService } from '../services/openai.service';
+import { getLLMProvider, LLMProvider } from '../providers';
 import { PromptService } from '../services/prompt.service';
-import { TemplateExecutionService } from '../services/template-execution.service';
+import { PersonaService } from '../services/persona.service';
+import { TemplateExecutionService, TemplateStreamHandlers } from '../services/template-execution.service';
 import { 
   SystemSpecification, 
   UserMessage, 
   OpenAIRequest, 
   ApiResponse, 
   OpenAIResponse,
-  ChatWithTemplateRequest 
+  ChatWithTemplateRequest,
+  PromptTemplate
 } from '../types';
+import { getErrorStatusCode } from '../middleware/error.middleware';
+import { requireAdmin, requireUser, requireUserAccess } from '../middleware/auth.middleware';
+import { chargeTokens } from '../middleware/rate-limit.middleware';
+import { openEventStream, sendEvent } from '../utils/sse';
+import { resolveTemplateModelConfig } from '../config/models';
 
 const router = Router();
 const promptService = PromptService.getInstance();
+const personaService = PersonaService.getInstance();
 const templateExecutionService = TemplateExecutionService.getInstance();
 
-// Initialize OpenAI service with error handling
-let openAIService: OpenAIService;
+// Initialize the provider configured with LLM_PROVIDER, templates may choose their own
+let llmProvider: LLMProvider;
 try {
-  openAIService = new OpenAIService();
-  console.log('✅ OpenAI service initialized successfully');
+  llmProvider = getLLMProvider();
+  console.log(`✅ ${llmProvider.name} LLM provider ready for chat`);
 } catch (error) {
-  console.error('❌ Failed to initialize OpenAI service:', error instanceof Error ? error.message : 'Unknown error');
-  // Service will be undefined, and endpoints will return appropriate errors
+  console.error('❌ Failed to initialize LLM provider:', error instanceof Error ? error.message : 'Unknown error');
+  // Provider will be undefined, and endpoints will return appropriate errors
 }
 
+/**
+ * Validate the body of a send-message request, returning the error for invalid input
+ */
+const validateSendMessageRequest = (body: Partial<OpenAIRequest> = {}): string | undefined => {
+  const { systemSpec, userMessage } = body;
+
+  if (!systemSpec || !userMessage) {
+    return 'Both systemSpec and userMessage are required';
+  }
+
+  if (!systemSpec.role || !systemSpec.background || !systemSpec.personality) {
+    return 'SystemSpec must include role, background, and personality';
+  }
+
+  if (!userMessage.content || userMessage.content.trim().length === 0) {
+    return 'User message content cannot be empty';
+  }
+
+  return undefined;
+};
+
+/**
+ * Send a message using a prompt template, streaming the answer when handlers are given
+ */
+const sendWithTemplate = async (
+  template: PromptTemplate,
+  { variables, userId, includeDebugInfo }: ChatWithTemplateRequest,
+  stream?: TemplateStreamHandlers
+): Promise<OpenAIResponse> => {
+  // If userId is provided and template has Firebase data config, use template execution service
+  if (userId && template.firebaseData?.enabled) {
+    return templateExecutionService.executeTemplateForUser(template.id, userId, variables, includeDebugInfo || false, stream);
+  }
+
+  // Simple template execution without Firebase data
+  const modelConfig = resolveTemplateModelConfig(template);
+  const provider = getLLMProvider(modelConfig.provider);
+  const systemSpec = personaService.resolveSystemSpec(template.personaId);
+  const userMessageContent = promptService.renderPrompt(template, promptService.resolveVariables(template, variables));
+
+  const userMessage: UserMessage = {
+    content: userMessageContent,
+    timestamp: new Date(),
+    userId
+  };
+
+  let openAIResponse: OpenAIResponse;
+  if (template.outputSchema) {
+    openAIResponse = await provider.sendStructuredMessage(systemSpec, userMessage, template.outputSchema, modelConfig, stream);
+  } else {
+    openAIResponse = stream
+      ? await provider.streamMessage(systemSpec, userMessage, stream.onDelta, { ...modelConfig, signal: stream.signal })
+      : await provider.sendMessage(systemSpec, userMessage, modelConfig);
+  }
+
+  // Add debug info if requested
+  if (includeDebugInfo) {
+    openAIResponse.debug = {
+      promptSentToOpenAI: userMessageContent,
+      systemSpecUsed: systemSpec
+    };
+  }
+
+  return openAIResponse;
+};
+
+/**
+ * Stream a response as Server-Sent Events: delta events while the answer is generated,
+ * then a done event with the complete response or an error event
+ */
+const streamResponse = async (
+  res: Response,
+  run: (stream: TemplateStreamHandlers) => Promise<OpenAIResponse>
+): Promise<void> => {
+  const signal = openEventStream(res);
+
+  try {
+    const response = await run({
+      onDelta: content => sendEvent(res, { event: 'delta', data: { content } }),
+      signal
+    });
+    chargeTokens(res.req, response.usage?.totalTokens);
+    sendEvent(res, { event: 'done', data: response });
+  } catch (error) {
+    if (!signal.aborted) {
+      console.error('Error while streaming response:', error);
+      sendEvent(res, { event: 'error', data: { error: error instanceof Error ? error.message : 'Unknown error occurred' } });
+    }
+  } finally {
+    res.end();
+  }
+};
+
 /**
  * POST /api/chat/send-message
  * Sends a message to OpenAI with system specification
  */
-router.post('/send-message', async (req: Request, res: Response<ApiResponse<OpenAIResponse>>) => {
+router.post('/send-message', requireUser, async (req: Request, res: Response<ApiResponse<OpenAIResponse>>) => {
   try {
-    // Check if OpenAI service is available
-    if (!openAIService) {
+    // Check if the LLM provider is available
+    if (!llmProvider) {
       return res.status(503).json({
         success: false,
-        error: 'OpenAI service is not available. Please check your API key configuration.',
+        error: 'LLM provider is not available. Please check your provider configuration.',
       });
     }
 
     const { systemSpec, userMessage }: OpenAIRequest = req.body;
 
-    // Validate input
-    if (!systemSpec || !userMessage) {
-      return res.status(400).json({
-        success: false,
-        error: 'Both systemSpec and userMessage are required',
-      });
-    }
-
-    // Validate system specification
-    if (!systemSpec.role || !systemSpec.background || !systemSpec.personality) {
+    const validationError = validateSendMessageRequest(req.body);
+    if (validationError) {
       return res.status(400).json({
         success: false,
-        error: 'SystemSpec must include role, background, and personality',
-      });
-    }
-
-    // Validate user message
-    if (!userMessage.content || userMessage.content.trim().length === 0) {
-      return res.status(400).json({
-        success: false,
-        error: 'User message content cannot be empty',
+        error: validationError,
       });
     }
 
@@ -72,7 +157,7 @@ router.post('/send-message', async (req: Request, res: Response<ApiResponse<Open
     };
 
     // Send message to OpenAI
-    const openAIResponse = await openAIService.sendMessage(systemSpec, processedUserMessage);
+    const openAIResponse = await llmProvider.sendMessage(systemSpec, processedUserMessage);
 
     res.json({
       success: true,
@@ -84,29 +169,60 @@ router.post('/send-message', async (req: Request, res: Response<ApiResponse<Open
     
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
     
-    res.status(500).json({
+    res.status(getErrorStatusCode(error)).json({
       success: false,
       error: errorMessage,
     });
   }
 });
 
+/**
+ * POST /api/chat/send-message/stream
+ * Streaming variant of send-message using Server-Sent Events
+ */
+router.post('/send-message/stream', requireUser, async (req: Request, res: Response) => {
+  if (!llmProvider) {
+    return res.status(503).json({
+      success: false,
+      error: 'LLM provider is not available. Please check your provider configuration.',
+    });
+  }
+
+  const validationError = validateSendMessageRequest(req.body);
+  if (validationError) {
+    return res.status(400).json({
+      success: false,
+      error: validationError,
+    });
+  }
+
+  const { systemSpec, userMessage }: OpenAIRequest = req.body;
+  const processedUserMessage: UserMessage = {
+    ...userMessage,
+    timestamp: userMessage.timestamp || new Date(),
+  };
+
+  await streamResponse(res, ({ onDelta, signal }) =>
+    llmProvider.streamMessage(systemSpec, processedUserMessage, onDelta, { signal })
+  );
+});
+
 /**
  * POST /api/chat/validate-key
  * Validates OpenAI API key
  */
-router.post('/validate-key', async (req: Request, res: Response<ApiResponse<boolean>>) => {
+router.post('/validate-key', requireAdmin, async (req: Request, res: Response<ApiResponse<boolean>>) => {
   try {
-    // Check if OpenAI service is available
-    if (!openAIService) {
+    // Check if the LLM provider is available
+    if (!llmProvider) {
       return res.json({
         success: true,
         data: false,
-        message: 'OpenAI service is not available. Please check your API key configuration.',
+        message: 'LLM provider is not available. Please check your provider configuration.',
       });
     }
 
-    const isValid = await openAIService.validateApiKey();
+    const isValid = await llmProvider.validateApiKey();
     
     res.json({
       success: true,
@@ -127,28 +243,27 @@ router.post('/validate-key', async (req: Request, res: Response<ApiResponse<bool
  * POST /api/chat/send-with-template
  * Sends a message using a prompt template with optional Firebase data integration
  */
-router.post('/send-with-template', async (req: Request, res: Response<ApiResponse<OpenAIResponse>>) => {
+router.post('/send-with-template', requireUserAccess(req => req.body?.userId), async (req: Request, res: Response<ApiResponse<OpenAIResponse>>) => {
   try {
-    // Check if OpenAI service is available
-    if (!openAIService) {
+    // Check if the LLM provider is available
+    if (!llmProvider) {
       return res.status(503).json({
         success: false,
-        error: 'OpenAI service is not available. Please check your API key configuration.',
+        error: 'LLM provider is not available. Please check your provider configuration.',
       });
     }
 
-    const { templateId, variables, userId, includeDebugInfo }: ChatWithTemplateRequest = req.body;
+    const request: ChatWithTemplateRequest = req.body;
 
     // Validate input
-    if (!templateId) {
+    if (!request.templateId) {
       return res.status(400).json({
         success: false,
         error: 'templateId is required',
       });
     }
 
-    // If userId is provided and template has Firebase data config, use template execution service
-    const template = promptService.getTemplate(templateId);
+    const template = promptService.getTemplate(request.templateId);
     if (!template) {
       return res.status(404).json({
         success: false,
@@ -156,32 +271,7 @@ router.post('/send-with-template', async (req: Request, res: Response<ApiRespons
       });
     }
 
-    let openAIResponse: OpenAIResponse;
-
-    if (userId && template.firebaseData?.enabled) {
-      // Use template execution service for Firebase data integration
-      openAIResponse = await templateExecutionService.executeTemplateForUser(templateId, userId, variables, includeDebugInfo || false);
-    } else {
-      // Simple template execution without Firebase data
-      const systemSpec = promptService.getSystemSpec();
-      const userMessageContent = promptService.applyVariables(template.userPrompt, variables);
-
-      const userMessage: UserMessage = {
-        content: userMessageContent,
-        timestamp: new Date(),
-        userId
-      };
-
-      openAIResponse = await openAIService.sendMessage(systemSpec, userMessage);
-      
-      // Add debug info if requested
-      if (includeDebugInfo) {
-        openAIResponse.debug = {
-          promptSentToOpenAI: userMessageContent,
-          systemSpecUsed: systemSpec
-        };
-      }
-    }
+    const openAIResponse = await sendWithTemplate(template, request);
 
     res.json({
       success: true,
@@ -193,13 +283,44 @@ router.post('/send-with-template', async (req: Request, res: Response<ApiRespons
     
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
     
-    res.status(500).json({
+    res.status(getErrorStatusCode(error)).json({
       success: false,
       error: errorMessage,
     });
   }
 });
 
+/**
+ * POST /api/chat/send-with-template/stream
+ * Streaming variant of send-with-template using Server-Sent Events
+ */
+router.post('/send-with-template/stream', requireUserAccess(req => req.body?.userId), async (req: Request, res: Response) => {
+  if (!llmProvider) {
+    return res.status(503).json({
+      success: false,
+      error: 'LLM provider is not available. Please check your provider configuration.',
+    });
+  }
+
+  const request: ChatWithTemplateRequest = req.body || {};
+  if (!request.templateId) {
+    return res.status(400).json({
+      success: false,
+      error: 'templateId is required',
+    });
+  }
+
+  const template = promptService.getTemplate(request.templateId);
+  if (!template) {
+    return res.status(404).json({
+      success: false,
+      error: 'Prompt template not found',
+    });
+  }
+
+  await streamResponse(res, stream => sendWithTemplate(template, request, stream));
+});
+
 /**
  * GET /api/chat/health
  * Health check endpoint
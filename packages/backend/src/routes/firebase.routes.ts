@@ -1,20 +1,40 @@
 import express from 'express';
 import type { Request, Response } from 'express';
-import { FirebaseService } from '../services/firebase.service';
-import type { ApiResponse } from '../types';
+import { getRepositories } from '../repositories';
+import { RecommendationService } from '../services/recommendation.service';
+import { AuditService, getAuditContext } from '../services/audit.service';
+import { getErrorStatusCode } from '../middleware/error.middleware';
+import { NotFoundError } from '../errors/http.error';
+import { requireAdmin, requireUserAccess } from '../middleware/auth.middleware';
+import type {
+  ApiResponse,
+  UserRecommendationsRequest,
+  UserRecommendationsResponse,
+  BatchJobRequest,
+  BatchJobResponse,
+  BatchJobStatusResponse
+} from '../types';
 
 const router = express.Router();
 
+/**
+ * Validate an optional YYYY-MM-DD date
+ */
+const isValidDate = (value?: string): boolean => {
+  if (value === undefined) return true;
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value + 'T00:00:00.000Z').getTime());
+};
+
 /**
  * GET /users/all
  * Get all users from Firebase
  */
-router.get('/users/all', async (req: Request, res: Response) => {
+router.get('/users/all', requireAdmin, async (req: Request, res: Response) => {
   try {
-    const firebaseService = FirebaseService.getInstance();
+    const repositories = getRepositories();
 
     // Validate Firebase connection
-    if (!firebaseService.isConfigured()) {
+    if (!repositories.isConfigured()) {
       const response: ApiResponse<null> = {
         success: false,
         error: 'Firebase is not properly configured',
@@ -24,7 +44,7 @@ router.get('/users/all', async (req: Request, res: Response) => {
     }
 
     // Fetch all users
-    const users = await firebaseService.getAllUsers();
+    const users = await repositories.users.list();
 
     const response: ApiResponse<any[]> = {
       success: true,
@@ -46,4 +66,173 @@ router.get('/users/all', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /user/:uid/recommendations
+ * Generate spending recommendations for a user from their expense data
+ */
+router.post('/user/:uid/recommendations', requireUserAccess(req => req.params.uid), async (req: Request, res: Response) => {
+  try {
+    const { uid } = req.params;
+    const { startDate, endDate, includeDebugInfo }: UserRecommendationsRequest = req.body || {};
+
+    if (!isValidDate(startDate)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Invalid startDate format. Use YYYY-MM-DD',
+        message: 'Bad Request'
+      };
+      return res.status(400).json(response);
+    }
+
+    if (!isValidDate(endDate)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Invalid endDate format. Use YYYY-MM-DD',
+        message: 'Bad Request'
+      };
+      return res.status(400).json(response);
+    }
+
+    if (startDate && endDate && startDate > endDate) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'startDate must not be after endDate',
+        message: 'Bad Request'
+      };
+      return res.status(400).json(response);
+    }
+
+    const repositories = getRepositories();
+
+    // Validate Firebase connection
+    if (!repositories.isConfigured()) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Firebase is not properly configured',
+        message: 'Service Unavailable'
+      };
+      return res.status(503).json(response);
+    }
+
+    const recommendationService = RecommendationService.getInstance();
+    const result = await recommendationService.generateUserRecommendations(uid, {
+      startDate,
+      endDate,
+      includeDebugInfo
+    });
+
+    const response: ApiResponse<UserRecommendationsResponse> = {
+      success: true,
+      data: result,
+      message: 'Recommendations generated successfully'
+    };
+
+    res.status(200).json(response);
+  } catch (error: any) {
+    console.error('Error in /user/:uid/recommendations:', error);
+
+    const statusCode = getErrorStatusCode(error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error.message || 'Failed to generate recommendations',
+      message: error instanceof NotFoundError ? 'User not found' : statusCode === 500 ? 'Internal Server Error' : 'External API error'
+    };
+
+    res.status(statusCode).json(response);
+  }
+});
+
+/**
+ * POST /batch/run
+ * Start generating recommendations for all users
+ */
+router.post('/batch/run', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const request: BatchJobRequest = req.body || {};
+
+    if (!isValidDate(request.startDate) || !isValidDate(request.endDate)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Invalid ${isValidDate(request.startDate) ? 'endDate' : 'startDate'} format. Use YYYY-MM-DD`,
+        message: 'Bad Request'
+      };
+      return res.status(400).json(response);
+    }
+
+    if (request.startDate && request.endDate && request.startDate > request.endDate) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'startDate must not be after endDate',
+        message: 'Bad Request'
+      };
+      return res.status(400).json(response);
+    }
+
+    const repositories = getRepositories();
+
+    // Validate Firebase connection
+    if (!repositories.isConfigured()) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Firebase is not properly configured',
+        message: 'Service Unavailable'
+      };
+      return res.status(503).json(response);
+    }
+
+    const recommendationService = RecommendationService.getInstance();
+    const result = await recommendationService.startBatchJob(request);
+    await AuditService.getInstance().record(getAuditContext(req), 'batch.start', { type: 'batch', id: result.jobId }, { after: request });
+
+    const response: ApiResponse<BatchJobResponse> = {
+      success: true,
+      data: result,
+      message: 'Batch job started successfully'
+    };
+
+    res.status(200).json(response);
+  } catch (error: any) {
+    console.error('Error in /batch/run:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error.message || 'Failed to start batch job',
+      message: 'Internal Server Error'
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * GET /batch/:jobId/status
+ * Get the status of a recommendation batch job
+ */
+router.get('/batch/:jobId/status', requireAdmin, (req: Request, res: Response) => {
+  try {
+    const { jobId } = req.params;
+
+    const recommendationService = RecommendationService.getInstance();
+    const status = recommendationService.getBatchJobStatus(jobId);
+
+    const response: ApiResponse<BatchJobStatusResponse> = {
+      success: true,
+      data: status,
+      message: 'Batch job status retrieved successfully'
+    };
+
+    res.status(200).json(response);
+  } catch (error: any) {
+    console.error('Error in /batch/:jobId/status:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error.message || 'Failed to get batch job status',
+      message: error instanceof NotFoundError ? 'Batch job not found' : 'Internal Server Error'
+    };
+
+    res.status(getErrorStatusCode(error)).json(response);
+  }
+});
+
 export { router as firebaseRoutes };
\ No newline at end of file
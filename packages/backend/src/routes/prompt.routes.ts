@@ -1,26 +1,112 @@
 import { Router, Request, Response } from 'express';
 import { PromptService } from '../services/prompt.service';
-import { TemplateExecutionService } from '../services/template-execution.service';
+import { PersonaService } from '../services/persona.service';
+import { TemplateExecutionService, MAX_BATCH_CONCURRENCY } from '../services/template-execution.service';
+import { SchedulerService } from '../services/scheduler.service';
+import { AuditService, getAuditContext } from '../services/audit.service';
+import { getErrorStatusCode } from '../middleware/error.middleware';
+import { requirePermission, requireUserAccess } from '../middleware/auth.middleware';
+import { chargeTokens } from '../middleware/rate-limit.middleware';
+import { getModelSettings, validateModelConfig, validateTokenBudget } from '../config/models';
+import { validateOutputSchema } from '../utils/structured-output';
+import { validateTemplateSyntax, validateVariableDefinitions } from '../utils/template-engine';
+import { EXPENSE_DATA_FORMATS } from '../utils/expense-analytics';
 import { 
   ApiResponse, 
   PromptConfig, 
   PromptTemplate,
   SystemSpecification,
+  FirebaseDataConfig,
   CreatePromptTemplateRequest,
   UpdatePromptTemplateRequest,
   ExecuteTemplateForAllUsersRequest,
-  ExecuteTemplateForAllUsersResponse
+  ExecuteTemplateForAllUsersResponse,
+  TemplateScheduleInfo,
+  TemplateExecutionJob,
+  TemplateExecutionJobStatus,
+  ExecutionJobFilter,
+  ModelSettings,
+  SystemSpecVersion,
+  Persona,
+  CreatePersonaRequest,
+  UpdatePersonaRequest,
+  PromptTemplateVersion,
+  PromptTemplateDiff,
+  TemplatePreview,
+  TemplatePreviewRequest
 } from '../types';
 
+const EXECUTION_JOB_STATUSES: TemplateExecutionJobStatus[] = [
+  'pending',
+  'running',
+  'completed',
+  'partially_completed',
+  'failed',
+  'cancelled'
+];
+
 const router = Router();
 const promptService = PromptService.getInstance();
+const personaService = PersonaService.getInstance();
+const auditService = AuditService.getInstance();
 const templateExecutionService = TemplateExecutionService.getInstance();
 
+/**
+ * Name recorded in the change history: the signed-in user, or the X-Author header when authentication is disabled
+ */
+const getAuthor = (req: Request): string => {
+  if (req.principal && req.principal.source !== 'disabled') {
+    return req.principal.email || req.principal.uid;
+  }
+  return req.get('X-Author')?.trim() || 'anonymous';
+};
+
+/**
+ * Validate a system specification, returning the error for invalid input
+ */
+const validateSystemSpec = (spec?: Partial<SystemSpecification>): string | undefined => {
+  if (!spec?.role || !spec.background || !spec.personality) {
+    return 'SystemSpec must include role, background, and personality';
+  }
+  if (!Array.isArray(spec.rules)) {
+    return 'SystemSpec rules must be an array';
+  }
+  return undefined;
+};
+
+/**
+ * Parse a template version from a route or query parameter
+ */
+const parseVersion = (value: unknown): number | undefined => {
+  const version = Number(value);
+  return Number.isInteger(version) && version >= 1 ? version : undefined;
+};
+
+/**
+ * Check that a template's personaId refers to an existing persona, returning the error if not
+ */
+const validatePersonaId = (personaId?: string | null): string | undefined => {
+  if (personaId && !personaService.getPersona(personaId)) {
+    return `Unknown personaId "${personaId}"`;
+  }
+  return undefined;
+};
+
+/**
+ * Check a template's Firebase data settings, returning the error for invalid input
+ */
+const validateFirebaseData = (config?: FirebaseDataConfig): string | undefined => {
+  if (config?.expenseFormat !== undefined && !EXPENSE_DATA_FORMATS.includes(config.expenseFormat)) {
+    return `firebaseData.expenseFormat must be one of: ${EXPENSE_DATA_FORMATS.join(', ')}`;
+  }
+  return undefined;
+};
+
 /**
  * GET /api/prompts/config
  * Get the complete prompt configuration (system spec + all templates)
  */
-router.get('/config', (req: Request, res: Response<ApiResponse<PromptConfig>>) => {
+router.get('/config', requirePermission('prompts:read'), (req: Request, res: Response<ApiResponse<PromptConfig>>) => {
   try {
     const config = promptService.getConfig();
     res.json({
@@ -41,7 +127,7 @@ router.get('/config', (req: Request, res: Response<ApiResponse<PromptConfig>>) =
  * GET /api/prompts/system-spec
  * Get the current system specification
  */
-router.get('/system-spec', (req: Request, res: Response<ApiResponse<SystemSpecification>>) => {
+router.get('/system-spec', requirePermission('prompts:read'), (req: Request, res: Response<ApiResponse<SystemSpecification>>) => {
   try {
     const systemSpec = promptService.getSystemSpec();
     res.json({
@@ -62,36 +148,257 @@ router.get('/system-spec', (req: Request, res: Response<ApiResponse<SystemSpecif
  * PUT /api/prompts/system-spec
  * Update the system specification
  */
-router.put('/system-spec', (req: Request, res: Response<ApiResponse<SystemSpecification>>) => {
+router.put('/system-spec', requirePermission('system-spec:write'), async (req: Request, res: Response<ApiResponse<SystemSpecification>>) => {
   try {
     const systemSpec: SystemSpecification = req.body;
 
     // Validate system specification
-    if (!systemSpec.role || !systemSpec.background || !systemSpec.personality) {
+    const validationError = validateSystemSpec(systemSpec);
+    if (validationError) {
       return res.status(400).json({
         success: false,
-        error: 'SystemSpec must include role, background, and personality'
+        error: validationError
       });
     }
 
-    if (!Array.isArray(systemSpec.rules)) {
+    const before = promptService.getSystemSpec();
+    const updated = promptService.updateSystemSpec(systemSpec, getAuthor(req));
+    await auditService.record(getAuditContext(req), 'system-spec.update', { type: 'system-spec' }, { before, after: updated });
+    res.json({
+      success: true,
+      data: updated,
+      message: 'System specification updated successfully'
+    });
+  } catch (error) {
+    console.error('Error updating system spec:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update system specification'
+    });
+  }
+});
+
+/**
+ * GET /api/prompts/system-spec/history
+ * Get all saved versions of the system specification, newest first
+ */
+router.get('/system-spec/history', requirePermission('prompts:read'), (req: Request, res: Response<ApiResponse<SystemSpecVersion[]>>) => {
+  try {
+    const history = promptService.getSystemSpecHistory();
+    res.json({
+      success: true,
+      data: history,
+      message: 'System specification history retrieved successfully'
+    });
+  } catch (error) {
+    console.error('Error getting system spec history:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get system specification history'
+    });
+  }
+});
+
+/**
+ * POST /api/prompts/system-spec/restore/:version
+ * Make an older version the active system specification again
+ */
+router.post('/system-spec/restore/:version', requirePermission('system-spec:write'), async (req: Request, res: Response<ApiResponse<SystemSpecification>>) => {
+  try {
+    const version = parseVersion(req.params.version);
+    if (version === undefined) {
       return res.status(400).json({
         success: false,
-        error: 'SystemSpec rules must be an array'
+        error: 'version must be a positive integer'
       });
     }
 
-    const updated = promptService.updateSystemSpec(systemSpec);
+    const before = promptService.getSystemSpec();
+    const restored = promptService.restoreSystemSpec(version, getAuthor(req));
+    await auditService.record(getAuditContext(req), 'system-spec.restore', { type: 'system-spec' }, { before, after: restored });
+    res.json({
+      success: true,
+      data: restored,
+      message: `System specification restored to version ${version}`
+    });
+  } catch (error) {
+    console.error('Error restoring system spec:', error);
+    res.status(getErrorStatusCode(error)).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to restore system specification'
+    });
+  }
+});
+
+/**
+ * GET /api/prompts/models
+ * Get the default model parameters and the models templates may use
+ */
+router.get('/models', requirePermission('prompts:read'), (req: Request, res: Response<ApiResponse<ModelSettings>>) => {
+  res.json({
+    success: true,
+    data: getModelSettings(),
+    message: 'Model settings retrieved successfully'
+  });
+});
+
+/**
+ * GET /api/prompts/personas
+ * Get all personas
+ */
+router.get('/personas', requirePermission('prompts:read'), (req: Request, res: Response<ApiResponse<Persona[]>>) => {
+  try {
+    const personas = personaService.getAllPersonas();
+    res.json({
+      success: true,
+      data: personas,
+      message: 'Personas retrieved successfully'
+    });
+  } catch (error) {
+    console.error('Error getting personas:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get personas'
+    });
+  }
+});
+
+/**
+ * GET /api/prompts/personas/:id
+ * Get a specific persona
+ */
+router.get('/personas/:id', requirePermission('prompts:read'), (req: Request, res: Response<ApiResponse<Persona>>) => {
+  try {
+    const persona = personaService.getPersona(req.params.id);
+
+    if (!persona) {
+      return res.status(404).json({
+        success: false,
+        error: 'Persona not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: persona,
+      message: 'Persona retrieved successfully'
+    });
+  } catch (error) {
+    console.error('Error getting persona:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get persona'
+    });
+  }
+});
+
+/**
+ * POST /api/prompts/personas
+ * Create a new persona
+ */
+router.post('/personas', requirePermission('personas:write'), async (req: Request, res: Response<ApiResponse<Persona>>) => {
+  try {
+    const request: CreatePersonaRequest = req.body;
+
+    if (!request.name) {
+      return res.status(400).json({
+        success: false,
+        error: 'name is required'
+      });
+    }
+
+    const validationError = validateSystemSpec(request.systemSpec);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError
+      });
+    }
+
+    const persona = personaService.createPersona(request);
+    await auditService.record(getAuditContext(req), 'persona.create', { type: 'persona', id: persona.id }, { after: persona });
+    res.status(201).json({
+      success: true,
+      data: persona,
+      message: 'Persona created successfully'
+    });
+  } catch (error) {
+    console.error('Error creating persona:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create persona'
+    });
+  }
+});
+
+/**
+ * PUT /api/prompts/personas/:id
+ * Update an existing persona
+ */
+router.put('/personas/:id', requirePermission('personas:write'), async (req: Request, res: Response<ApiResponse<Persona>>) => {
+  try {
+    const request: UpdatePersonaRequest = req.body;
+
+    const validationError = request.systemSpec !== undefined ? validateSystemSpec(request.systemSpec) : undefined;
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError
+      });
+    }
+
+    const before = personaService.getPersona(req.params.id);
+    const updated = personaService.updatePersona(req.params.id, request);
+
+    if (!updated) {
+      return res.status(404).json({
+        success: false,
+        error: 'Persona not found'
+      });
+    }
+    await auditService.record(getAuditContext(req), 'persona.update', { type: 'persona', id: updated.id }, { before, after: updated });
+
     res.json({
       success: true,
       data: updated,
-      message: 'System specification updated successfully'
+      message: 'Persona updated successfully'
     });
   } catch (error) {
-    console.error('Error updating system spec:', error);
+    console.error('Error updating persona:', error);
     res.status(500).json({
       success: false,
-      error: error instanceof Error ? error.message : 'Failed to update system specification'
+      error: error instanceof Error ? error.message : 'Failed to update persona'
+    });
+  }
+});
+
+/**
+ * DELETE /api/prompts/personas/:id
+ * Delete a persona; templates using it fall back to the global system spec
+ */
+router.delete('/personas/:id', requirePermission('personas:write'), async (req: Request, res: Response<ApiResponse<{ deleted: boolean }>>) => {
+  try {
+    const before = personaService.getPersona(req.params.id);
+    const deleted = personaService.deletePersona(req.params.id);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Persona not found'
+      });
+    }
+    await auditService.record(getAuditContext(req), 'persona.delete', { type: 'persona', id: req.params.id }, { before });
+
+    res.json({
+      success: true,
+      data: { deleted: true },
+      message: 'Persona deleted successfully'
+    });
+  } catch (error) {
+    console.error('Error deleting persona:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete persona'
     });
   }
 });
@@ -100,7 +407,7 @@ router.put('/system-spec', (req: Request, res: Response<ApiResponse<SystemSpecif
  * GET /api/prompts/templates
  * Get all prompt templates
  */
-router.get('/templates', (req: Request, res: Response<ApiResponse<PromptTemplate[]>>) => {
+router.get('/templates', requirePermission('prompts:read'), (req: Request, res: Response<ApiResponse<PromptTemplate[]>>) => {
   try {
     const templates = promptService.getAllTemplates();
     res.json({
@@ -121,7 +428,7 @@ router.get('/templates', (req: Request, res: Response<ApiResponse<PromptTemplate
  * GET /api/prompts/templates/:id
  * Get a specific prompt template
  */
-router.get('/templates/:id', (req: Request, res: Response<ApiResponse<PromptTemplate>>) => {
+router.get('/templates/:id', requirePermission('prompts:read'), (req: Request, res: Response<ApiResponse<PromptTemplate>>) => {
   try {
     const { id } = req.params;
     const template = promptService.getTemplate(id);
@@ -151,7 +458,7 @@ router.get('/templates/:id', (req: Request, res: Response<ApiResponse<PromptTemp
  * POST /api/prompts/templates
  * Create a new prompt template
  */
-router.post('/templates', (req: Request, res: Response<ApiResponse<PromptTemplate>>) => {
+router.post('/templates', requirePermission('templates:write'), async (req: Request, res: Response<ApiResponse<PromptTemplate>>) => {
   try {
     const request: CreatePromptTemplateRequest = req.body;
 
@@ -163,7 +470,22 @@ router.post('/templates', (req: Request, res: Response<ApiResponse<PromptTemplat
       });
     }
 
-    const template = promptService.createTemplate(request);
+    const configError = validateModelConfig(request.modelConfig)
+      || validateOutputSchema(request.outputSchema)
+      || validatePersonaId(request.personaId)
+      || validateFirebaseData(request.firebaseData)
+      || validateVariableDefinitions(request.variables)
+      || validateTokenBudget(request.tokenBudget)
+      || validateTemplateSyntax(request.userPrompt);
+    if (configError) {
+      return res.status(400).json({
+        success: false,
+        error: configError
+      });
+    }
+
+    const template = promptService.createTemplate(request, getAuthor(req));
+    await auditService.record(getAuditContext(req), 'template.create', { type: 'template', id: template.id }, { after: template });
     res.status(201).json({
       success: true,
       data: template,
@@ -182,12 +504,27 @@ router.post('/templates', (req: Request, res: Response<ApiResponse<PromptTemplat
  * PUT /api/prompts/templates/:id
  * Update an existing prompt template
  */
-router.put('/templates/:id', (req: Request, res: Response<ApiResponse<PromptTemplate>>) => {
+router.put('/templates/:id', requirePermission('templates:write'), async (req: Request, res: Response<ApiResponse<PromptTemplate>>) => {
   try {
     const { id } = req.params;
     const request: UpdatePromptTemplateRequest = req.body;
 
-    const updated = promptService.updateTemplate(id, request);
+    const configError = validateModelConfig(request.modelConfig)
+      || validateOutputSchema(request.outputSchema)
+      || validatePersonaId(request.personaId)
+      || validateFirebaseData(request.firebaseData)
+      || validateVariableDefinitions(request.variables)
+      || validateTokenBudget(request.tokenBudget)
+      || validateTemplateSyntax(request.userPrompt);
+    if (configError) {
+      return res.status(400).json({
+        success: false,
+        error: configError
+      });
+    }
+
+    const before = promptService.getTemplate(id);
+    const updated = promptService.updateTemplate(id, request, getAuthor(req));
 
     if (!updated) {
       return res.status(404).json({
@@ -195,6 +532,7 @@ router.put('/templates/:id', (req: Request, res: Response<ApiResponse<PromptTemp
         error: 'Prompt template not found'
       });
     }
+    await auditService.record(getAuditContext(req), 'template.update', { type: 'template', id }, { before, after: updated });
 
     res.json({
       success: true,
@@ -210,13 +548,122 @@ router.put('/templates/:id', (req: Request, res: Response<ApiResponse<PromptTemp
   }
 });
 
+/**
+ * GET /api/prompts/templates/:id/versions
+ * Get all versions of a template, newest first
+ */
+router.get('/templates/:id/versions', requirePermission('prompts:read'), (req: Request, res: Response<ApiResponse<PromptTemplateVersion[]>>) => {
+  try {
+    const versions = promptService.getTemplateVersions(req.params.id);
+
+    if (!versions) {
+      return res.status(404).json({
+        success: false,
+        error: 'Prompt template not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: versions,
+      message: 'Template versions retrieved successfully'
+    });
+  } catch (error) {
+    console.error('Error getting template versions:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get template versions'
+    });
+  }
+});
+
+/**
+ * GET /api/prompts/templates/:id/diff?from=1&to=2
+ * Compare two versions of a template; `to` defaults to the current version
+ */
+router.get('/templates/:id/diff', requirePermission('prompts:read'), (req: Request, res: Response<ApiResponse<PromptTemplateDiff>>) => {
+  try {
+    const { id } = req.params;
+    const versions = promptService.getTemplateVersions(id);
+
+    if (!versions) {
+      return res.status(404).json({
+        success: false,
+        error: 'Prompt template not found'
+      });
+    }
+
+    const from = parseVersion(req.query.from);
+    const to = req.query.to === undefined ? versions[0].version : parseVersion(req.query.to);
+    if (from === undefined || to === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: 'from and to must be positive integers'
+      });
+    }
+
+    const diff = promptService.diffTemplateVersions(id, from, to);
+    res.json({
+      success: true,
+      data: diff,
+      message: `Template versions ${from} and ${to} compared successfully`
+    });
+  } catch (error) {
+    console.error('Error comparing template versions:', error);
+    res.status(getErrorStatusCode(error)).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to compare template versions'
+    });
+  }
+});
+
+/**
+ * POST /api/prompts/templates/:id/rollback/:version
+ * Make an older version the current template again, saved as a new version
+ */
+router.post('/templates/:id/rollback/:version', requirePermission('templates:write'), async (req: Request, res: Response<ApiResponse<PromptTemplate>>) => {
+  try {
+    const version = parseVersion(req.params.version);
+    if (version === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: 'version must be a positive integer'
+      });
+    }
+
+    const before = promptService.getTemplate(req.params.id);
+    const restored = promptService.rollbackTemplate(req.params.id, version, getAuthor(req));
+
+    if (!restored) {
+      return res.status(404).json({
+        success: false,
+        error: 'Prompt template not found'
+      });
+    }
+    await auditService.record(getAuditContext(req), 'template.rollback', { type: 'template', id: req.params.id }, { before, after: restored });
+
+    res.json({
+      success: true,
+      data: restored,
+      message: `Template rolled back to version ${version}`
+    });
+  } catch (error) {
+    console.error('Error rolling back template:', error);
+    res.status(getErrorStatusCode(error)).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to roll back template'
+    });
+  }
+});
+
 /**
  * DELETE /api/prompts/templates/:id
  * Delete a prompt template
  */
-router.delete('/templates/:id', (req: Request, res: Response<ApiResponse<{ deleted: boolean }>>) => {
+router.delete('/templates/:id', requirePermission('templates:write'), async (req: Request, res: Response<ApiResponse<{ deleted: boolean }>>) => {
   try {
     const { id } = req.params;
+    const before = promptService.getTemplate(id);
     const deleted = promptService.deleteTemplate(id);
 
     if (!deleted) {
@@ -225,6 +672,7 @@ router.delete('/templates/:id', (req: Request, res: Response<ApiResponse<{ delet
         error: 'Prompt template not found'
       });
     }
+    await auditService.record(getAuditContext(req), 'template.delete', { type: 'template', id }, { before });
 
     res.json({
       success: true,
@@ -240,15 +688,46 @@ router.delete('/templates/:id', (req: Request, res: Response<ApiResponse<{ delet
   }
 });
 
+/**
+ * GET /api/prompts/schedules
+ * Get all scheduled templates with their next run times
+ */
+router.get('/schedules', requirePermission('prompts:read'), (req: Request, res: Response<ApiResponse<TemplateScheduleInfo[]>>) => {
+  try {
+    const schedules = SchedulerService.getInstance().getSchedules();
+    res.json({
+      success: true,
+      data: schedules,
+      message: 'Template schedules retrieved successfully'
+    });
+  } catch (error) {
+    console.error('Error getting template schedules:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get template schedules'
+    });
+  }
+});
+
 /**
  * POST /api/prompts/templates/:id/execute-all
  * Execute a template for all users (batch execution)
  */
-router.post('/templates/:id/execute-all', async (req: Request, res: Response<ApiResponse<ExecuteTemplateForAllUsersResponse>>) => {
+router.post('/templates/:id/execute-all', requirePermission('executions:run'), async (req: Request, res: Response<ApiResponse<ExecuteTemplateForAllUsersResponse>>) => {
   try {
     const { id } = req.params;
+    const { concurrency }: Partial<ExecuteTemplateForAllUsersRequest> = req.body || {};
+
+    if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_BATCH_CONCURRENCY)) {
+      return res.status(400).json({
+        success: false,
+        error: `concurrency must be an integer between 1 and ${MAX_BATCH_CONCURRENCY}`
+      });
+    }
 
-    const result = await templateExecutionService.executeTemplateForAllUsers(id);
+    // Tokens of the whole batch count towards the quota of the API key that started it
+    const result = await templateExecutionService.executeTemplateForAllUsers(id, 'manual', concurrency, tokens => chargeTokens(req, tokens));
+    await auditService.record(getAuditContext(req), 'execution.start', { type: 'template', id }, { after: result });
 
     res.status(202).json({
       success: true,
@@ -257,22 +736,85 @@ router.post('/templates/:id/execute-all', async (req: Request, res: Response<Api
     });
   } catch (error) {
     console.error('Error executing template for all users:', error);
-    res.status(500).json({
+    res.status(getErrorStatusCode(error)).json({
       success: false,
       error: error instanceof Error ? error.message : 'Failed to execute template for all users'
     });
   }
 });
 
+/**
+ * GET /api/prompts/executions
+ * List template execution jobs, newest first
+ * Query parameters: status, templateId, from, to (ISO dates), limit
+ */
+router.get('/executions', requirePermission('executions:read'), async (req: Request, res: Response<ApiResponse<TemplateExecutionJob[]>>) => {
+  try {
+    const { status, templateId, from, to, limit } = req.query as Record<string, string | undefined>;
+    const filter: ExecutionJobFilter = {};
+
+    if (status) {
+      if (!EXECUTION_JOB_STATUSES.includes(status as TemplateExecutionJobStatus)) {
+        return res.status(400).json({
+          success: false,
+          error: `status must be one of ${EXECUTION_JOB_STATUSES.join(', ')}`
+        });
+      }
+      filter.status = status as TemplateExecutionJobStatus;
+    }
+
+    if (templateId) {
+      filter.templateId = templateId;
+    }
+
+    for (const [key, value] of Object.entries({ from, to })) {
+      if (!value) continue;
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid ${key} date`
+        });
+      }
+      filter[key as 'from' | 'to'] = date;
+    }
+
+    if (limit) {
+      const parsedLimit = parseInt(limit, 10);
+      if (isNaN(parsedLimit) || parsedLimit < 1 || parsedLimit > 200) {
+        return res.status(400).json({
+          success: false,
+          error: 'limit must be a number between 1 and 200'
+        });
+      }
+      filter.limit = parsedLimit;
+    }
+
+    const jobs = await templateExecutionService.listExecutionJobs(filter);
+
+    res.json({
+      success: true,
+      data: jobs,
+      message: 'Execution jobs retrieved successfully'
+    });
+  } catch (error) {
+    console.error('Error listing execution jobs:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list execution jobs'
+    });
+  }
+});
+
 /**
  * GET /api/prompts/executions/:jobId
  * Get status of a template execution job
  */
-router.get('/executions/:jobId', async (req: Request, res: Response<ApiResponse<any>>) => {
+router.get('/executions/:jobId', requirePermission('executions:read'), async (req: Request, res: Response<ApiResponse<TemplateExecutionJob>>) => {
   try {
     const { jobId } = req.params;
 
-    const status = templateExecutionService.getExecutionJobStatus(jobId);
+    const status = await templateExecutionService.getExecutionJobStatus(jobId);
 
     res.json({
       success: true,
@@ -281,21 +823,118 @@ router.get('/executions/:jobId', async (req: Request, res: Response<ApiResponse<
     });
   } catch (error) {
     console.error('Error getting execution job status:', error);
-    
-    const statusCode = error instanceof Error && error.message.includes('not found') ? 404 : 500;
-    
-    res.status(statusCode).json({
+    res.status(getErrorStatusCode(error)).json({
       success: false,
       error: error instanceof Error ? error.message : 'Failed to get execution job status'
     });
   }
 });
 
+/**
+ * POST /api/prompts/executions/:jobId/cancel
+ * Cancel a running template execution job
+ */
+router.post('/executions/:jobId/cancel', requirePermission('executions:run'), async (req: Request, res: Response<ApiResponse<TemplateExecutionJob>>) => {
+  try {
+    const { jobId } = req.params;
+
+    const job = await templateExecutionService.cancelExecutionJob(jobId);
+    await auditService.record(getAuditContext(req), 'execution.cancel', { type: 'execution', id: jobId }, { after: { status: job.status } });
+
+    res.json({
+      success: true,
+      data: job,
+      message: 'Execution job cancellation requested'
+    });
+  } catch (error) {
+    console.error('Error cancelling execution job:', error);
+
+    res.status(getErrorStatusCode(error)).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to cancel execution job'
+    });
+  }
+});
+
+/**
+ * POST /api/prompts/executions/:jobId/resume
+ * Resume a failed, cancelled or partially completed job, retrying only users that did not succeed
+ */
+router.post('/executions/:jobId/resume', requirePermission('executions:run'), async (req: Request, res: Response<ApiResponse<TemplateExecutionJob>>) => {
+  try {
+    const { jobId } = req.params;
+
+    // Like execute-all, the resumed run counts towards the quota of the API key resuming it
+    const job = await templateExecutionService.resumeExecutionJob(jobId, tokens => chargeTokens(req, tokens));
+    await auditService.record(getAuditContext(req), 'execution.resume', { type: 'execution', id: jobId }, { after: { status: job.status } });
+
+    res.status(202).json({
+      success: true,
+      data: job,
+      message: 'Execution job resumed'
+    });
+  } catch (error) {
+    console.error('Error resuming execution job:', error);
+
+    res.status(getErrorStatusCode(error)).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to resume execution job'
+    });
+  }
+});
+
+/**
+ * POST /api/prompts/templates/:id/preview
+ * Render the prompt a template would send for a user, with token and cost estimates
+ * Nothing is sent to the model and nothing is saved; previews with another user's data require an admin
+ */
+router.post('/templates/:id/preview', requirePermission('templates:write'), requireUserAccess(req => req.body?.userId), async (req: Request, res: Response<ApiResponse<TemplatePreview>>) => {
+  try {
+    const { id } = req.params;
+    const { userId, variables }: TemplatePreviewRequest = req.body || {};
+
+    if (userId !== undefined && (typeof userId !== 'string' || !userId.trim())) {
+      return res.status(400).json({
+        success: false,
+        error: 'userId must be a non-empty string'
+      });
+    }
+
+    const template = promptService.getTemplate(id);
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        error: 'Prompt template not found'
+      });
+    }
+    if (template.firebaseData?.enabled && !userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'userId is required to preview templates with Firebase data'
+      });
+    }
+
+    const preview = await templateExecutionService.previewTemplate(id, userId, variables);
+
+    res.json({
+      success: true,
+      data: preview,
+      message: 'Template preview rendered successfully'
+    });
+  } catch (error) {
+    console.error('Error previewing template:', error);
+    res.status(getErrorStatusCode(error)).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to preview template'
+    });
+  }
+});
+
 /**
  * POST /api/prompts/templates/:id/execute/:userId
  * Execute a template for a single user
  */
-router.post('/templates/:id/execute/:userId', async (req: Request, res: Response<ApiResponse<any>>) => {
+router.post('/templates/:id/execute/:userId', requireUserAccess(req => req.params.userId), async (req: Request, res: Response<ApiResponse<any>>) => {
   try {
     const { id, userId } = req.params;
     const { variables } = req.body || {};
@@ -309,8 +948,7 @@ router.post('/templates/:id/execute/:userId', async (req: Request, res: Response
     });
   } catch (error) {
     console.error('Error executing template for user:', error);
-    const statusCode = error instanceof Error && error.message.includes('not found') ? 404 : 500;
-    res.status(statusCode).json({
+    res.status(getErrorStatusCode(error)).json({
       success: false,
       error: error instanceof Error ? error.message : 'Failed to execute template for user'
     });
@@ -0,0 +1,60 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import * as fs from 'fs';
+import { ensureTestKeyPair, signTestToken } from '../providers/token-verifier.provider';
+
+const USAGE = `Usage: yarn auth:token --uid demo-user [--admin] [--email demo@example.com] [--expires 3600]
+
+Prints an ID token signed with the test key pair (created on first use) for a backend running with AUTH_MODE=test`;
+
+const main = (): void => {
+  // Only the token goes to stdout, so it can be captured with TOKEN=$(yarn -s auth:token ...)
+  const printToken = console.log;
+  console.log = console.error;
+
+  const options: { uid?: string; admin: boolean; email?: string; expires?: string } = { admin: false };
+  const args = process.argv.slice(2);
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--admin':
+        options.admin = true;
+        break;
+      case '--uid':
+      case '--email':
+      case '--expires':
+        options[args[i].slice(2) as 'uid' | 'email' | 'expires'] = args[++i];
+        break;
+      default:
+        throw new Error(`Unexpected argument "${args[i]}"`);
+    }
+  }
+
+  if (!options.uid) {
+    throw new Error('--uid is required');
+  }
+  const expiresInSeconds = options.expires === undefined ? undefined : parseInt(options.expires, 10);
+  if (expiresInSeconds !== undefined && !(expiresInSeconds > 0)) {
+    throw new Error('--expires must be a positive number of seconds');
+  }
+
+  const { privateKeyFile } = ensureTestKeyPair();
+  const token = signTestToken(
+    { uid: options.uid, admin: options.admin, email: options.email },
+    { privateKey: fs.readFileSync(privateKeyFile, 'utf-8'), expiresInSeconds }
+  );
+
+  console.error(`🔑 Token for ${options.uid}${options.admin ? ' (admin)' : ''}:`);
+  printToken(token);
+};
+
+if (require.main === module) {
+  try {
+    main();
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    console.error(USAGE);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,98 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createRepositories, DataFixture, Repositories } from '../repositories';
+import { FirebaseService } from '../services/firebase.service';
+import { generateSyntheticData } from '../utils/synthetic-data';
+
+const USAGE = `Usage: yarn seed [--target memory|emulator] [--users 5] [--days 30] [--seed 42] [--out fixtures/synthetic-data.json]
+
+  memory    writes the data to a fixture file for the in-memory store (DATA_SOURCE=memory with FIXTURES_FILE)
+  emulator  writes the data to the Firestore emulator of FIRESTORE_EMULATOR_HOST`;
+
+/**
+ * Write the users, expenses and recommendations of a fixture through the repositories
+ * Documents are written with their fixture IDs, or IDs derived from their position, so seeding again replaces them
+ */
+export const seedRepositories = async (repositories: Repositories, fixture: DataFixture): Promise<{ users: number; expenses: number; recommendations: number }> => {
+  const counts = { users: 0, expenses: 0, recommendations: 0 };
+
+  for (const { uid, profile, expenses = [], recommendations = [] } of fixture.users) {
+    if (profile !== undefined) {
+      await repositories.users.save(uid, profile);
+    }
+    for (const [index, { id = `${uid}-expense-${index + 1}`, ...expense }] of expenses.entries()) {
+      await repositories.expenses.save(uid, id, expense);
+    }
+    for (const [index, { id = `${uid}-recommendation-${index + 1}`, ...recommendation }] of recommendations.entries()) {
+      await repositories.recommendations.save(uid, id, recommendation);
+    }
+
+    counts.users++;
+    counts.expenses += expenses.length;
+    counts.recommendations += recommendations.length;
+  }
+
+  return counts;
+};
+
+const parseArgs = (args: string[]): Record<string, string> => {
+  const options: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith('--') || args[i + 1] === undefined) {
+      throw new Error(`Unexpected argument "${args[i]}"`);
+    }
+    options[args[i].slice(2)] = args[++i];
+  }
+  return options;
+};
+
+const parseCount = (value: string | undefined, name: string): number | undefined => {
+  if (value === undefined) return undefined;
+  const count = parseInt(value, 10);
+  if (isNaN(count) || count < 1) {
+    throw new Error(`--${name} must be a positive number`);
+  }
+  return count;
+};
+
+const main = async (): Promise<void> => {
+  const options = parseArgs(process.argv.slice(2));
+  const target = options.target || 'memory';
+  const fixture = generateSyntheticData({
+    users: parseCount(options.users, 'users'),
+    days: parseCount(options.days, 'days'),
+    seed: parseCount(options.seed, 'seed')
+  });
+
+  switch (target) {
+    case 'memory': {
+      const filePath = path.resolve(options.out || path.join(__dirname, '../../fixtures/synthetic-data.json'));
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, JSON.stringify(fixture, null, 2) + '\n');
+      console.log(`✅ Wrote ${fixture.users.length} synthetic user(s) to ${filePath}; start the backend with DATA_SOURCE=memory and FIXTURES_FILE=${filePath} to use them`);
+      break;
+    }
+    case 'emulator': {
+      // Never seed synthetic data into a real Firebase project
+      if (!FirebaseService.usesEmulator()) {
+        throw new Error('FIRESTORE_EMULATOR_HOST must be set to seed the Firestore emulator');
+      }
+      const counts = await seedRepositories(createRepositories('firestore'), fixture);
+      console.log(`✅ Seeded ${counts.users} user(s), ${counts.expenses} expense(s) and ${counts.recommendations} recommendation(s) into the Firestore emulator`);
+      break;
+    }
+    default:
+      throw new Error(`Unknown target "${target}". Use "memory" or "emulator"`);
+  }
+};
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error(`❌ Seeding failed: ${error instanceof Error ? error.message : error}`);
+    console.error(USAGE);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,53 @@
+import { getRoleConfig } from '../config/rbac';
+import { PermissionDeniedError } from '../errors/auth.errors';
+import { createRoleProvider, RoleProvider } from '../providers/role.provider';
+import type { AuthPrincipal, Permission, Role } from '../types';
+
+/**
+ * Roles of the signed-in users and the permissions they grant
+ * Roles come from ROLES_SOURCE (file or firestore); the admin custom claim always makes a user an admin
+ */
+export class AccessControlService {
+  private static instance: AccessControlService;
+  private roleProvider: RoleProvider;
+
+  private constructor() {
+    this.roleProvider = createRoleProvider();
+    console.log(`🛡️ ${this.roleProvider.name} role assignments enabled`);
+  }
+
+  public static getInstance(): AccessControlService {
+    if (!AccessControlService.instance) {
+      AccessControlService.instance = new AccessControlService();
+    }
+    return AccessControlService.instance;
+  }
+
+  async getRoles(principal: AuthPrincipal): Promise<Role[]> {
+    // API keys act with their scopes only
+    if (principal.apiKey) {
+      return [];
+    }
+
+    if (principal.admin) {
+      return ['admin'];
+    }
+
+    const assigned = await this.roleProvider.getRoles(principal.uid);
+    return Array.from(new Set([...getRoleConfig().defaultRoles, ...assigned]));
+  }
+
+  getPermissions(roles: Role[]): Permission[] {
+    const { permissions } = getRoleConfig();
+    return Array.from(new Set(roles.flatMap(role => permissions[role])));
+  }
+
+  /**
+   * Throw a PermissionDeniedError unless one of the roles grants the permission
+   */
+  checkPermission(roles: Role[], permission: Permission): void {
+    if (!this.getPermissions(roles).includes(permission)) {
+      throw new PermissionDeniedError(permission, roles);
+    }
+  }
+}
@@ -0,0 +1,191 @@
+import * as crypto from 'crypto';
+import { AuthenticationError } from '../errors/auth.errors';
+import { QuotaExceededError } from '../errors/quota-exceeded.error';
+import { createApiKeyRepository, ApiKeyRepository } from '../repositories/api-key.repository';
+import type { ApiKey, ApiKeyRecord, ApiKeyUsage, ApiKeyWithSecret, AuthPrincipal, CreateApiKeyRequest } from '../types';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const DEFAULT_REQUESTS_PER_MINUTE = 60;
+
+// mk_<12 hex characters of the key ID>_<secret>
+const KEY_PATTERN = /^mk_([a-f0-9]{12})_([\w-]{32,})$/;
+
+interface UsageWindow {
+  minute: number; // Start of the current minute
+  requests: number;
+  day: number; // Start of the current UTC day
+  tokens: number;
+}
+
+const hashSecret = (secret: string): string => crypto.createHash('sha256').update(secret).digest('hex');
+
+const readLimit = (value: string | undefined): number | undefined => {
+  const limit = value ? parseInt(value, 10) : NaN;
+  return Number.isInteger(limit) && limit > 0 ? limit : undefined;
+};
+
+/**
+ * Key metadata without the secret hash
+ */
+const toApiKey = ({ secretHash, ...apiKey }: ApiKeyRecord): ApiKey => apiKey;
+
+/**
+ * API keys of machine clients, stored in API_KEY_STORE with only a hash of their secret
+ * Request and token usage is counted in memory per process, in fixed minute and UTC day windows,
+ * so it starts over after a restart and is not shared between instances
+ */
+export class ApiKeyService {
+  private static instance: ApiKeyService;
+  private repository: ApiKeyRepository;
+  private usage = new Map<string, UsageWindow>();
+
+  private constructor() {
+    this.repository = createApiKeyRepository();
+  }
+
+  public static getInstance(): ApiKeyService {
+    if (!ApiKeyService.instance) {
+      ApiKeyService.instance = new ApiKeyService();
+    }
+    return ApiKeyService.instance;
+  }
+
+  async list(): Promise<ApiKey[]> {
+    return (await this.repository.list()).map(toApiKey);
+  }
+
+  async get(id: string): Promise<ApiKey | undefined> {
+    const record = await this.repository.get(id);
+    return record ? toApiKey(record) : undefined;
+  }
+
+  /**
+   * Issue a new key; the returned secret key cannot be shown again
+   */
+  async create(request: CreateApiKeyRequest, createdBy: string): Promise<ApiKeyWithSecret> {
+    const id = crypto.randomBytes(6).toString('hex');
+    const secret = crypto.randomBytes(24).toString('base64url');
+    const record: ApiKeyRecord = {
+      id,
+      name: request.name,
+      scopes: Array.from(new Set(request.scopes)),
+      quotas: { ...request.quotas },
+      createdAt: new Date(),
+      createdBy,
+      secretHash: hashSecret(secret)
+    };
+
+    await this.repository.save(record);
+    console.log(`🔑 Created API key ${id} (${record.name}) with scopes ${record.scopes.join(', ') || 'none'}`);
+    return { apiKey: toApiKey(record), key: `mk_${id}_${secret}` };
+  }
+
+  /**
+   * Replace the secret of a key, keeping its ID, scopes and quotas; the old secret stops working at once
+   */
+  async rotate(id: string): Promise<ApiKeyWithSecret | undefined> {
+    const record = await this.repository.get(id);
+    if (!record || record.revokedAt) return undefined;
+
+    const secret = crypto.randomBytes(24).toString('base64url');
+    const rotated: ApiKeyRecord = { ...record, secretHash: hashSecret(secret), rotatedAt: new Date() };
+
+    await this.repository.save(rotated);
+    console.log(`🔑 Rotated API key ${id} (${record.name})`);
+    return { apiKey: toApiKey(rotated), key: `mk_${id}_${secret}` };
+  }
+
+  /**
+   * Revoke a key for good; revoked keys are kept for their history
+   */
+  async revoke(id: string): Promise<ApiKey | undefined> {
+    const record = await this.repository.get(id);
+    if (!record) return undefined;
+    if (record.revokedAt) return toApiKey(record);
+
+    const revoked: ApiKeyRecord = { ...record, revokedAt: new Date() };
+    await this.repository.save(revoked);
+    this.usage.delete(id);
+    console.log(`🔑 Revoked API key ${id} (${record.name})`);
+    return toApiKey(revoked);
+  }
+
+  /**
+   * Principal of a request authenticated with an API key
+   */
+  async authenticate(key: string): Promise<AuthPrincipal> {
+    const match = KEY_PATTERN.exec(key.trim());
+    const record = match ? await this.repository.get(match[1]) : undefined;
+
+    const expected = Buffer.from(record?.secretHash ?? '', 'hex');
+    const actual = Buffer.from(hashSecret(match?.[2] ?? ''), 'hex');
+    if (!record || record.revokedAt || expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      throw new AuthenticationError('Invalid API key');
+    }
+
+    return {
+      uid: `api-key:${record.id}`,
+      admin: false,
+      source: 'api-key',
+      apiKey: { id: record.id, scopes: record.scopes, quotas: record.quotas }
+    };
+  }
+
+  /**
+   * Count a request of a key, throwing a QuotaExceededError when it is over its request or token quota
+   */
+  consumeRequest(apiKey: NonNullable<AuthPrincipal['apiKey']>, now: number = Date.now()): void {
+    const window = this.getWindow(apiKey.id, now);
+    const requestsPerMinute = apiKey.quotas.requestsPerMinute
+      ?? readLimit(process.env.API_KEY_DEFAULT_REQUESTS_PER_MINUTE)
+      ?? DEFAULT_REQUESTS_PER_MINUTE;
+    const tokensPerDay = apiKey.quotas.tokensPerDay ?? readLimit(process.env.API_KEY_DEFAULT_TOKENS_PER_DAY);
+
+    // Token usage is only known after a response, so the quota stops requests once it is used up
+    if (tokensPerDay !== undefined && window.tokens >= tokensPerDay) {
+      throw new QuotaExceededError('tokens', tokensPerDay, window.day + DAY_MS - now);
+    }
+    if (window.requests >= requestsPerMinute) {
+      throw new QuotaExceededError('requests', requestsPerMinute, window.minute + MINUTE_MS - now);
+    }
+    window.requests++;
+  }
+
+  /**
+   * Charge model tokens used on behalf of a key
+   */
+  recordTokens(id: string, tokens: number, now: number = Date.now()): void {
+    if (tokens > 0) {
+      this.getWindow(id, now).tokens += tokens;
+    }
+  }
+
+  getUsage(id: string, now: number = Date.now()): ApiKeyUsage {
+    const window = this.getWindow(id, now);
+    return { requestsThisMinute: window.requests, tokensToday: window.tokens };
+  }
+
+  /**
+   * Usage counters of a key, reset when a new minute or UTC day has started
+   */
+  private getWindow(id: string, now: number): UsageWindow {
+    const minute = now - (now % MINUTE_MS);
+    const day = now - (now % DAY_MS);
+
+    let window = this.usage.get(id);
+    if (!window) {
+      window = { minute, requests: 0, day, tokens: 0 };
+      this.usage.set(id, window);
+    }
+    if (window.minute !== minute) {
+      window.minute = minute;
+      window.requests = 0;
+    }
+    if (window.day !== day) {
+      window.day = day;
+      window.tokens = 0;
+    }
+    return window;
+  }
+}
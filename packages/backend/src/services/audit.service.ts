@@ -0,0 +1,95 @@
+import * as crypto from 'crypto';
+import type { Request } from 'express';
+import { createAuditLogRepository, AuditLogRepository } from '../repositories/audit-log.repository';
+import type { AuditAction, AuditEntry, AuditLogFilter } from '../types';
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'system-spec.update',
+  'system-spec.restore',
+  'template.create',
+  'template.update',
+  'template.delete',
+  'template.rollback',
+  'persona.create',
+  'persona.update',
+  'persona.delete',
+  'execution.start',
+  'execution.cancel',
+  'execution.resume',
+  'batch.start',
+  'api-key.create',
+  'api-key.rotate',
+  'api-key.revoke'
+];
+
+/**
+ * Who made a change and from where
+ */
+export interface AuditContext {
+  actor: AuditEntry['actor'];
+  ip?: string;
+  requestId?: string;
+}
+
+// Actor of template runs started by the scheduler
+export const SCHEDULER_AUDIT_CONTEXT: AuditContext = { actor: { uid: 'system:scheduler' } };
+
+/**
+ * Audit context of an authenticated request
+ */
+export const getAuditContext = (req: Request): AuditContext => ({
+  actor: { uid: req.principal?.uid ?? 'anonymous', ...(req.principal?.email ? { email: req.principal.email } : {}) },
+  ip: req.ip,
+  requestId: req.requestId
+});
+
+/**
+ * Audit trail of administrative changes and batch runs, stored in AUDIT_LOG_STORE
+ */
+export class AuditService {
+  private static instance: AuditService;
+  private repository: AuditLogRepository;
+
+  private constructor() {
+    this.repository = createAuditLogRepository();
+  }
+
+  public static getInstance(): AuditService {
+    if (!AuditService.instance) {
+      AuditService.instance = new AuditService();
+    }
+    return AuditService.instance;
+  }
+
+  /**
+   * Record a change that has already been made
+   * A failing store is logged rather than thrown, so the change is still answered as a success
+   */
+  async record(
+    context: AuditContext,
+    action: AuditAction,
+    target: AuditEntry['target'],
+    snapshots: { before?: unknown; after?: unknown } = {}
+  ): Promise<void> {
+    const entry: AuditEntry = {
+      id: crypto.randomUUID(),
+      timestamp: new Date(),
+      ...context,
+      action,
+      target,
+      ...(snapshots.before !== undefined ? { before: structuredClone(snapshots.before) } : {}),
+      ...(snapshots.after !== undefined ? { after: structuredClone(snapshots.after) } : {})
+    };
+
+    try {
+      await this.repository.append(entry);
+      console.log(`📝 Audit: ${entry.actor.email || entry.actor.uid} ${action} ${target.type}${target.id ? ` ${target.id}` : ''}`);
+    } catch (error) {
+      console.error(`❌ Failed to record audit entry ${action} by ${entry.actor.uid}:`, error);
+    }
+  }
+
+  list(filter?: AuditLogFilter): Promise<AuditEntry[]> {
+    return this.repository.list(filter);
+  }
+}
@@ -0,0 +1,61 @@
+import { createExchangeRateProvider, ExchangeRateProvider } from '../providers/exchange-rate.provider';
+import { convertAmount, getHomeCurrency, normalizeExpenses } from '../utils/currency';
+import type { ExchangeRates } from '../types';
+
+export interface UserNormalizedExpenses {
+  expenses: any[];
+  homeCurrency?: string; // Unset when the expenses were left in their own currencies
+}
+
+/**
+ * Service for converting amounts between currencies with rates from the configured EXCHANGE_RATES_SOURCE
+ */
+export class CurrencyService {
+  private static instance: CurrencyService;
+  private rateProvider: ExchangeRateProvider;
+
+  private constructor() {
+    this.rateProvider = createExchangeRateProvider();
+    console.log(`✅ Currency service initialized with the ${this.rateProvider.name} exchange rate source`);
+  }
+
+  public static getInstance(): CurrencyService {
+    if (!CurrencyService.instance) {
+      CurrencyService.instance = new CurrencyService();
+    }
+    return CurrencyService.instance;
+  }
+
+  async getRates(): Promise<ExchangeRates> {
+    return this.rateProvider.getRates();
+  }
+
+  async convert(amount: number, from: string, to: string): Promise<number> {
+    return convertAmount(amount, from.toUpperCase(), to.toUpperCase(), await this.getRates());
+  }
+
+  /**
+   * Convert a user's expenses to the home currency of their profile
+   * Without a home currency or rates the expenses are returned unchanged, so totals stay per currency
+   */
+  async normalizeUserExpenses(expenses: any[], userData: any): Promise<UserNormalizedExpenses> {
+    const homeCurrency = getHomeCurrency(userData);
+    if (!homeCurrency || expenses.length === 0) {
+      return { expenses };
+    }
+
+    let rates: ExchangeRates;
+    try {
+      rates = await this.getRates();
+    } catch (error) {
+      console.warn(`⚠️ Could not load exchange rates, keeping expenses in their own currencies:`, error instanceof Error ? error.message : error);
+      return { expenses };
+    }
+
+    const normalized = normalizeExpenses(expenses, homeCurrency, rates);
+    if (normalized.unconvertedCurrencies.length > 0) {
+      console.warn(`⚠️ No exchange rate to ${homeCurrency} for ${normalized.unconvertedCurrencies.join(', ')} - those expenses keep their currency`);
+    }
+    return { expenses: normalized.expenses, homeCurrency };
+  }
+}
@@ -1,5 +1,11 @@
 import * as admin from 'firebase-admin';
 
+// Project of the Firestore emulator when FIREBASE_PROJECT_ID is not set; "demo-" projects never reach production
+const DEFAULT_EMULATOR_PROJECT_ID = 'demo-mymonji';
+
+/**
+ * Connection to Firebase; the users2 data is read and written through the repositories
+ */
 export class FirebaseService {
   private static instance: FirebaseService;
   private db?: admin.firestore.Firestore;
@@ -21,7 +27,13 @@ export class FirebaseService {
 
     try {
       // Check if Firebase is already initialized
-      if (admin.apps.length === 0) {
+      if (admin.apps.length === 0 && FirebaseService.usesEmulator()) {
+        // The Admin SDK connects Firestore to FIRESTORE_EMULATOR_HOST by itself, no service account is needed
+        const projectId = process.env.FIREBASE_PROJECT_ID || DEFAULT_EMULATOR_PROJECT_ID;
+        admin.initializeApp({ projectId });
+
+        console.log(`🧪 Firebase Admin initialized for the Firestore emulator at ${process.env.FIRESTORE_EMULATOR_HOST} (project ${projectId})`);
+      } else if (admin.apps.length === 0) {
         // Check if we have required environment variables
         if (!process.env.FIREBASE_PROJECT_ID) {
           throw new Error('FIREBASE_PROJECT_ID environment variable is required');
@@ -65,212 +77,29 @@ export class FirebaseService {
   }
 
   /**
-   * Get expense data from Firebase with optional date filtering
-   * @param uid - User ID
-   * @param startDate - Optional start date for filtering (YYYY-MM-DD format)
-   * @param endDate - Optional end date for filtering (YYYY-MM-DD format)
-   * @returns Array of expenses
+   * Whether Firestore is served by the local emulator configured with FIRESTORE_EMULATOR_HOST
    */
-  async getExpenseData(uid: string, startDate?: string, endDate?: string): Promise<any> {
-    try {
-      this.initializeFirebase();
-      if (!this.db) throw new Error('Firestore not initialized');
-
-      console.log('🔍 [DEBUG] Fetching expenses from Firebase:');
-      console.log(`   - User ID: ${uid}`);
-      console.log(`   - Start Date: ${startDate || 'None (all data)'}`);
-      console.log(`   - End Date: ${endDate || 'None (all data)'}`);
-      console.log(`   - Collection Path: users2/${uid}/expenses`);
-
-      // Build the query with optional date filtering
-      let query: admin.firestore.Query = this.db.collection('users2').doc(uid).collection('expenses');
-
-      // Apply date filtering if provided
-      // Note: Firebase expenses have 'timestamp' field (Firestore Timestamp) and 'date' field (string)
-      // We query on 'timestamp' for proper date range filtering
-      if (startDate) {
-        const startTimestamp = admin.firestore.Timestamp.fromDate(new Date(startDate + 'T00:00:00.000Z'));
-        console.log(`   - Start Timestamp: ${startTimestamp.toDate().toISOString()}`);
-        query = query.where('timestamp', '>=', startTimestamp);
-      }
-
-      if (endDate) {
-        const endTimestamp = admin.firestore.Timestamp.fromDate(new Date(endDate + 'T23:59:59.999Z'));
-        console.log(`   - End Timestamp: ${endTimestamp.toDate().toISOString()}`);
-        query = query.where('timestamp', '<=', endTimestamp);
-      }
-
-      // Order by timestamp for consistent results (timestamp is the Firestore Timestamp field)
-      query = query.orderBy('timestamp', 'desc');
-
-      const expensesSnapshot = await query.get();
-      console.log(`   - Documents found: ${expensesSnapshot.size}`);
-      
-      const expenses: Array<{
-        amount: number;
-        category: string,
-        currencyCode: string,
-        date: any,
-        emotion: number,
-        name: string
-      }> = [];
-
-      let index = 0;
-      expensesSnapshot.forEach((doc: admin.firestore.QueryDocumentSnapshot) => {
-        index++;
-        const data = doc.data();
-        console.log(`   - Document ${index}:`, {
-          id: doc.id,
-          amount: data.amount,
-          category: data.category,
-          date: data.date?.toDate?.() || data.date,
-          emotion: data.emotion,
-          name: data.name
-        });
-        expenses.push({
-          amount: data.amount,
-          category: data.category,
-          currencyCode: data.currencyCode,
-          date: data.date,
-          emotion: data.emotion,
-          name: data.name
-        });
-      });
-
-      // Return empty array instead of throwing error when no expenses found
-      // This is a normal situation for new users or specific date ranges
-      if (expenses.length === 0) {
-        const dateInfo = startDate || endDate ? ` between ${startDate || 'start'} and ${endDate || 'end'}` : '';
-        console.log(`⚠️ [DEBUG] No expenses found for user with UID ${uid}${dateInfo} - returning empty array`);
-      } else {
-        console.log(`✅ [DEBUG] Successfully fetched ${expenses.length} expense(s) for user ${uid}`);
-      }
-
-      return expenses;
-    } catch (error) {
-      const errorMessage = `Error fetching expense data for UID ${uid}: ${error instanceof Error ? error.message : String(error)}`;
-      console.error(errorMessage);
-      console.error('Full error details:', error);
-      
-      // Re-throw with more context
-      if (error instanceof Error) {
-        error.message = errorMessage;
-      }
-      throw error;
-    }
+  static usesEmulator(): boolean {
+    return !!process.env.FIRESTORE_EMULATOR_HOST;
   }
 
-
-
-
   /**
-   * Get user data from Firebase
-   * @param uid - User ID
-   * @returns User data from Firestore
+   * Get the Firestore instance, initializing Firebase if needed
+   * @returns Firestore instance
    */
-  async getUserData(uid: string): Promise<any> {
-    try {
-      this.initializeFirebase();
-      if (!this.db) throw new Error('Firestore not initialized');
-
-      const userDoc = await this.db.collection('users2').doc(uid).get();
-
-      if (!userDoc.exists) {
-        throw new Error(`User with UID ${uid} not found`);
-      }
-
-      // Extract and return only the data, not the full QueryDocumentSnapshot
-      const userData = userDoc.data();
-      console.log(`✅ Fetched user data for ${uid}:`, JSON.stringify(userData, null, 2));
-      
-      return userData;
-    } catch (error) {
-      const errorMessage = `Error fetching user data for UID ${uid}: ${error instanceof Error ? error.message : String(error)}`;
-      console.error(errorMessage);
-      console.error('Full error details:', error);
-      
-      // Re-throw with more context
-      if (error instanceof Error) {
-        error.message = errorMessage;
-      }
-      throw error;
-    }
-  }
-
-  /**
-   * Get all users from Firebase
-   * @returns Array of all users
-   */
-  async getAllUsers(): Promise < Array < { uid: string; data: any } >> {
-  try {
+  getFirestore(): admin.firestore.Firestore {
     this.initializeFirebase();
-    if(!this.db) throw new Error('Firestore not initialized');
-
-    const usersSnapshot = await this.db.collection('users2').get();
-    const users: Array<{ uid: string; data: any }> =[];
-
-  usersSnapshot.forEach(doc => {
-    users.push({
-      uid: doc.id,
-      data: doc.data()
-    });
-  });
-
-  return users;
-} catch (error) {
-  console.error('Error fetching all users:', error);
-  throw error;
-}
+    if (!this.db) throw new Error('Firestore not initialized');
+    return this.db;
   }
 
   /**
-   * Save prompt response to Firebase
-   * Saves the OpenAI response to /users2/{uid}/recommendations collection
-   * @param uid - User ID
-   * @param templateId - Template ID used
-   * @param templateName - Template name
-   * @param prompt - The prompt that was sent to OpenAI
-   * @param response - The OpenAI response
-   * @returns Document ID of saved response
+   * Get Firebase Authentication, initializing Firebase if needed
+   * Verifies ID tokens against FIREBASE_AUTH_EMULATOR_HOST when that is set
    */
-  async savePromptResponse(
-    uid: string,
-    templateId: string,
-    templateName: string,
-    prompt: string,
-    response: string
-  ): Promise<string> {
+  getAuth(): admin.auth.Auth {
     this.initializeFirebase();
-
-    if (!this.db) {
-      throw new Error('Firestore is not initialized');
-    }
-
-    try {
-      const promptData = {
-        templateId,
-        templateName,
-        prompt,
-        response,
-        timestamp: admin.firestore.FieldValue.serverTimestamp(),
-        createdAt: new Date().toISOString()
-      };
-
-      // Save to /users2/{uid}/prompts collection
-      const docRef = await this.db
-        .collection('users2')
-        .doc(uid)
-        .collection('recommendations')
-        .add(promptData);
-
-      console.log(`✅ Saved prompt response for user ${uid} to /users2/${uid}/recommendations/${docRef.id}`);
-
-      return docRef.id;
-    } catch (error) {
-      const errorMessage = `Error saving prompt response for user ${uid}: ${error instanceof Error ? error.message : String(error)}`;
-      console.error(errorMessage);
-      throw new Error(errorMessage);
-    }
+    return admin.auth();
   }
 
 /**
@@ -280,7 +109,7 @@ export class FirebaseService {
 isConfigured(): boolean {
   try {
     // Check if required environment variables are present
-    if (!process.env.FIREBASE_PROJECT_ID) {
+    if (!process.env.FIREBASE_PROJECT_ID && !FirebaseService.usesEmulator()) {
       return false;
     }
 
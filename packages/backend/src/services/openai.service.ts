@@ -1,11 +1,29 @@
 import OpenAI from 'openai';
-import { SystemSpecification, UserMessage, OpenAIMessage, OpenAIResponse } from '../types';
+import { SystemSpecification, UserMessage, OpenAIMessage, OpenAIResponse, ModelConfig, LLMProviderName } from '../types';
+import { resolveModelConfig } from '../config/models';
+import { OpenAIContentFilterError, OpenAIServiceError, classifyOpenAIError } from '../errors/openai.errors';
+import { BaseLLMProvider, StreamMessageOptions, buildSystemMessage } from '../providers/llm-provider';
+import { RetryOptions, getBackoffDelay, sleep } from '../utils/retry';
 
-export class OpenAIService {
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: parseInt(process.env.OPENAI_MAX_RETRIES || '3', 10),
+  baseDelayMs: parseInt(process.env.OPENAI_RETRY_BASE_DELAY_MS || '1000', 10),
+  maxDelayMs: parseInt(process.env.OPENAI_RETRY_MAX_DELAY_MS || '60000', 10)
+};
+
+/**
+ * LLM provider for the OpenAI API
+ * baseURL points the client at another server speaking the same API
+ */
+export class OpenAIService extends BaseLLMProvider {
+  readonly name: LLMProviderName = 'openai';
   private openai: OpenAI | null = null;
   private apiKey: string | null = null;
+  private retryOptions: RetryOptions;
 
-  constructor(apiKey?: string) {
+  constructor(apiKey?: string, retryOptions: Partial<RetryOptions> = {}, baseURL?: string) {
+    super();
+    this.retryOptions = { ...DEFAULT_RETRY_OPTIONS, ...retryOptions };
     const key = apiKey || process.env.OPENAI_API_KEY;
     
     if (key && key !== 'test_key_placeholder' && key !== 'your_openai_api_key_here' && key.trim() !== '') {
@@ -17,6 +35,9 @@ export class OpenAIService {
       
       this.openai = new OpenAI({
         apiKey: key,
+        baseURL,
+        // Retries are handled in sendMessage so they can be classified and logged
+        maxRetries: 0,
       });
     } else {
       console.log('⚠️ OpenAI service initialized without API key - requests will fail until key is provided');
@@ -31,77 +52,180 @@ export class OpenAIService {
   }
 
   /**
-   * Converts SystemSpecification to OpenAI system message
+   * Sends a message to OpenAI and returns the response
+   * Rate limits, timeouts and server errors are retried with jittered exponential backoff
+   * Unset model parameters fall back to the server defaults
+   */
+  async sendMessage(
+    systemSpec: SystemSpecification,
+    userMessage: UserMessage,
+    modelConfig: string | ModelConfig = {}
+  ): Promise<OpenAIResponse> {
+    this.ensureConfigured();
+    const config = resolveModelConfig(typeof modelConfig === 'string' ? { model: modelConfig } : modelConfig);
+    return this.withRetries(() => this.createCompletion(systemSpec, userMessage, config));
+  }
+
+  /**
+   * Sends a message to OpenAI and reports the answer piece by piece as it is generated
+   * Resolves with the complete response, including usage, once the stream ends
+   * Failures are only retried before the first delta was reported
    */
-  private buildSystemMessage(spec: SystemSpecification): OpenAIMessage {
-    const systemContent = `
-Role: ${spec.role}
+  async streamMessage(
+    systemSpec: SystemSpecification,
+    userMessage: UserMessage,
+    onDelta: (content: string) => void,
+    options: StreamMessageOptions = {}
+  ): Promise<OpenAIResponse> {
+    this.ensureConfigured();
+
+    let streamed = false;
+    const reportDelta = (content: string) => {
+      streamed = true;
+      onDelta(content);
+    };
+
+    const { signal, ...modelConfig } = options;
+    const config = resolveModelConfig(modelConfig);
+
+    return this.withRetries(
+      () => this.createStreamingCompletion(systemSpec, userMessage, config, reportDelta, signal),
+      () => !streamed && !signal?.aborted
+    );
+  }
+
+  protected ensureConfigured(): void {
+    if (!this.isConfigured() || !this.openai) {
+      throw new Error('OpenAI API key is required. Set OPENAI_API_KEY environment variable with a valid API key.');
+    }
+  }
 
-Background: ${spec.background}
+  /**
+   * Run an OpenAI request, retrying retryable errors while canRetry allows it
+   */
+  private async withRetries<T>(request: () => Promise<T>, canRetry: () => boolean = () => true): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        const classified = classifyOpenAIError(error);
+        if (!classified.retryable || attempt >= this.retryOptions.maxRetries || !canRetry()) {
+          throw classified;
+        }
 
-Personality: ${spec.personality}
+        const delay = getBackoffDelay(attempt, this.retryOptions, classified.retryAfterMs);
+        console.warn(`⏳ ${classified.message} - retrying in ${Math.round(delay)}ms (attempt ${attempt + 1} of ${this.retryOptions.maxRetries})`);
+        await sleep(delay);
+      }
+    }
+  }
 
-Rules:
-${spec.rules.map((rule: string) => `- ${rule}`).join('\n')}
+  /**
+   * Build the request parameters shared by regular and streaming completions
+   */
+  private buildCompletionParams(systemSpec: SystemSpecification, userMessage: UserMessage, config: Required<ModelConfig>) {
+    const systemMessage = buildSystemMessage(systemSpec, config.responseFormat);
 
-Please respond according to this specification and maintain consistency throughout the conversation.
-    `.trim();
+    const messages: OpenAIMessage[] = [
+      systemMessage,
+      {
+        role: 'user',
+        content: userMessage.content
+      }
+    ];
 
     return {
-      role: 'system',
-      content: systemContent
+      model: config.model,
+      messages,
+      temperature: config.temperature,
+      max_tokens: config.maxTokens,
+      ...(config.responseFormat === 'json_object' ? { response_format: { type: 'json_object' as const } } : {})
     };
   }
 
   /**
-   * Sends a message to OpenAI and returns the response
+   * Send a single chat completion request
    */
-  async sendMessage(
+  private async createCompletion(
     systemSpec: SystemSpecification,
     userMessage: UserMessage,
-    model: string = 'gpt-3.5-turbo'
+    config: Required<ModelConfig>
   ): Promise<OpenAIResponse> {
-    if (!this.isConfigured() || !this.openai) {
-      throw new Error('OpenAI API key is required. Set OPENAI_API_KEY environment variable with a valid API key.');
+    const completion = await this.openai!.chat.completions.create(
+      this.buildCompletionParams(systemSpec, userMessage, config)
+    );
+
+    const choice = completion.choices[0];
+    if (!choice || !choice.message) {
+      throw new OpenAIServiceError('unknown', 'No response received from OpenAI', { statusCode: 502 });
     }
 
-    try {
-      const messages: OpenAIMessage[] = [
-        this.buildSystemMessage(systemSpec),
-        {
-          role: 'user',
-          content: userMessage.content
-        }
-      ];
+    if (choice.finish_reason === 'content_filter') {
+      throw new OpenAIContentFilterError('Response was blocked by the content filter');
+    }
 
-      const completion = await this.openai.chat.completions.create({
-        model,
-        messages,
-        temperature: 0.7,
-        max_tokens: 1000,
-      });
+    return {
+      content: choice.message.content || '',
+      timestamp: new Date(),
+      usage: completion.usage ? {
+        promptTokens: completion.usage.prompt_tokens,
+        completionTokens: completion.usage.completion_tokens,
+        totalTokens: completion.usage.total_tokens
+      } : undefined,
+      model: completion.model
+    };
+  }
+
+  /**
+   * Send a single streaming chat completion request
+   */
+  private async createStreamingCompletion(
+    systemSpec: SystemSpecification,
+    userMessage: UserMessage,
+    config: Required<ModelConfig>,
+    onDelta: (content: string) => void,
+    signal?: AbortSignal
+  ): Promise<OpenAIResponse> {
+    const stream = await this.openai!.chat.completions.create({
+      ...this.buildCompletionParams(systemSpec, userMessage, config),
+      stream: true,
+      stream_options: { include_usage: true },
+    }, { signal });
+
+    let content = '';
+    let finishReason: string | null | undefined;
+    const response: OpenAIResponse = { content, timestamp: new Date(), model: config.model };
 
-      const choice = completion.choices[0];
-      if (!choice || !choice.message) {
-        throw new Error('No response received from OpenAI');
+    for await (const chunk of stream) {
+      response.model = chunk.model || response.model;
+
+      // The last chunk carries the usage of the whole request and no choices
+      if (chunk.usage) {
+        response.usage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+          totalTokens: chunk.usage.total_tokens
+        };
       }
 
-      return {
-        content: choice.message.content || '',
-        timestamp: new Date(),
-        usage: completion.usage ? {
-          promptTokens: completion.usage.prompt_tokens,
-          completionTokens: completion.usage.completion_tokens,
-          totalTokens: completion.usage.total_tokens
-        } : undefined,
-        model: completion.model
-      };
-    } catch (error) {
-      if (error instanceof Error) {
-        throw new Error(`OpenAI API error: ${error.message}`);
+      const choice = chunk.choices[0];
+      if (!choice) continue;
+
+      const delta = choice.delta?.content;
+      if (delta) {
+        content += delta;
+        onDelta(delta);
       }
-      throw new Error('Unknown error occurred while calling OpenAI API');
+      finishReason = choice.finish_reason || finishReason;
     }
+
+    if (finishReason === 'content_filter') {
+      throw new OpenAIContentFilterError('Response was blocked by the content filter');
+    }
+
+    response.content = content;
+    response.timestamp = new Date();
+    return response;
   }
 
   /**
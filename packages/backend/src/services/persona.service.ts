@@ -0,0 +1,158 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PromptService } from './prompt.service';
+import {
+  Persona,
+  CreatePersonaRequest,
+  UpdatePersonaRequest,
+  SystemSpecification
+} from '../types';
+
+/**
+ * Service for managing personas - named system specifications templates can choose
+ * Uses file-based storage with JSON files in the personas directory
+ */
+export class PersonaService {
+  private static instance: PersonaService;
+  private personasDir: string;
+  private promptService: PromptService;
+
+  private constructor() {
+    this.promptService = PromptService.getInstance();
+    this.personasDir = path.join(__dirname, '../../personas');
+
+    if (!fs.existsSync(this.personasDir)) {
+      fs.mkdirSync(this.personasDir, { recursive: true });
+      console.log(`📁 Created personas directory at ${this.personasDir}`);
+    }
+  }
+
+  public static getInstance(): PersonaService {
+    if (!PersonaService.instance) {
+      PersonaService.instance = new PersonaService();
+    }
+    return PersonaService.instance;
+  }
+
+  /**
+   * Get all personas from files
+   */
+  public getAllPersonas(): Persona[] {
+    try {
+      return fs.readdirSync(this.personasDir)
+        .filter(file => file.endsWith('.json'))
+        .map(file => this.loadPersonaFromFile(file))
+        .filter((persona): persona is Persona => persona !== null);
+    } catch (error) {
+      console.error('Error loading personas:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get a specific persona by ID from file
+   */
+  public getPersona(id: string): Persona | undefined {
+    // Only plain IDs, so a request can not read files outside the personas directory
+    if (!/^[\w-]+$/.test(id)) {
+      return undefined;
+    }
+    return this.loadPersonaFromFile(`${id}.json`) || undefined;
+  }
+
+  /**
+   * Create a new persona and save to file
+   */
+  public createPersona(request: CreatePersonaRequest): Persona {
+    const now = new Date();
+    const persona: Persona = {
+      id: `persona-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      name: request.name,
+      description: request.description,
+      systemSpec: request.systemSpec,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.savePersonaToFile(persona);
+    return persona;
+  }
+
+  /**
+   * Update an existing persona and save to file
+   */
+  public updatePersona(id: string, request: UpdatePersonaRequest): Persona | undefined {
+    const existing = this.getPersona(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const updated: Persona = {
+      ...existing,
+      name: request.name ?? existing.name,
+      description: request.description ?? existing.description,
+      systemSpec: request.systemSpec ?? existing.systemSpec,
+      updatedAt: new Date()
+    };
+
+    this.savePersonaToFile(updated);
+    return updated;
+  }
+
+  /**
+   * Delete a persona file
+   * Templates still referencing it fall back to the global system spec
+   */
+  public deletePersona(id: string): boolean {
+    if (!this.getPersona(id)) {
+      return false;
+    }
+
+    fs.unlinkSync(path.join(this.personasDir, `${id}.json`));
+    console.log(`🗑️ Deleted persona file ${id}.json`);
+    return true;
+  }
+
+  /**
+   * System specification for a template's persona, or the global one when it has none
+   */
+  public resolveSystemSpec(personaId?: string): SystemSpecification {
+    if (personaId) {
+      const persona = this.getPersona(personaId);
+      if (persona) {
+        return { ...persona.systemSpec };
+      }
+      console.warn(`⚠️ Persona ${personaId} not found - using the global system specification`);
+    }
+    return this.promptService.getSystemSpec();
+  }
+
+  private loadPersonaFromFile(filename: string): Persona | null {
+    const filePath = path.join(this.personasDir, filename);
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    try {
+      const persona = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      persona.createdAt = new Date(persona.createdAt);
+      persona.updatedAt = new Date(persona.updatedAt);
+      return persona as Persona;
+    } catch (error) {
+      console.error(`Error loading persona from ${filename}:`, error);
+      return null;
+    }
+  }
+
+  private savePersonaToFile(persona: Persona): void {
+    const filename = `${persona.id}.json`;
+    const personaToSave = {
+      ...persona,
+      createdAt: persona.createdAt.toISOString(),
+      updatedAt: persona.updatedAt.toISOString()
+    };
+
+    fs.writeFileSync(path.join(this.personasDir, filename), JSON.stringify(personaToSave, null, 2), 'utf-8');
+    console.log(`💾 Saved persona to ${filename}`);
+  }
+}
@@ -1,35 +1,69 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { getDataDir } from '../config/data-dir';
+import { NotFoundError } from '../errors/http.error';
+import { diffLines } from '../utils/diff';
+import { renderTemplate, resolveTemplateVariables } from '../utils/template-engine';
 import { 
   SystemSpecification, 
+  SystemSpecVersion,
   PromptTemplate, 
+  PromptTemplateVersion,
+  PromptTemplateDiff,
+  TemplateFieldChange,
   PromptConfig, 
   CreatePromptTemplateRequest,
-  UpdatePromptTemplateRequest 
+  UpdatePromptTemplateRequest,
+  TemplateVariableValues
 } from '../types';
 
+const DEFAULT_SYSTEM_SPEC: SystemSpecification = {
+  role: 'Helpful AI Assistant',
+  background: 'You are a knowledgeable and helpful AI assistant designed to provide accurate information and assistance to users.',
+  rules: [
+    'Be polite and respectful',
+    'Provide accurate and helpful information',
+    'Ask for clarification when needed',
+    'Stay on topic and be concise'
+  ],
+  personality: 'Friendly, professional, and knowledgeable'
+};
+
+// Fields compared by the template diff
+const TEMPLATE_DIFF_FIELDS: (keyof PromptTemplate)[] = [
+  'name',
+  'description',
+  'userPrompt',
+  'category',
+  'personaId',
+  'firebaseData',
+  'schedule',
+  'modelConfig',
+  'outputSchema',
+  'variables',
+  'tokenBudget'
+];
+
+export type TemplateChangeType = 'created' | 'updated' | 'deleted';
+export type TemplateChangeListener = (type: TemplateChangeType, templateId: string) => void;
+
 /**
  * Service for managing prompt templates and system configuration
  * Uses file-based storage with JSON files in the templates directory
+ * System specification versions are stored as {version}.json in the system-spec data directory,
+ * template revisions as template-versions/{templateId}/{version}.json
  */
 export class PromptService {
   private static instance: PromptService;
   private systemSpec: SystemSpecification;
   private templatesDir: string;
+  private systemSpecDir: string;
+  private changeListeners: TemplateChangeListener[] = [];
 
   private constructor() {
-    // Initialize with default system specification
-    this.systemSpec = {
-      role: 'Helpful AI Assistant',
-      background: 'You are a knowledgeable and helpful AI assistant designed to provide accurate information and assistance to users.',
-      rules: [
-        'Be polite and respectful',
-        'Provide accurate and helpful information',
-        'Ask for clarification when needed',
-        'Stay on topic and be concise'
-      ],
-      personality: 'Friendly, professional, and knowledgeable'
-    };
+    // Load the newest saved system specification
+    this.systemSpecDir = getDataDir('system-spec');
+    this.systemSpec = this.loadSystemSpec();
 
     // Set templates directory path
     this.templatesDir = path.join(__dirname, '../../templates');
@@ -99,6 +133,93 @@ export class PromptService {
     }
   }
 
+  /**
+   * Directory with the saved versions of a template
+   */
+  private getTemplateVersionsDir(templateId: string): string {
+    return getDataDir(path.join('template-versions', templateId));
+  }
+
+  private loadTemplateVersions(templateId: string): PromptTemplateVersion[] {
+    const dir = this.getTemplateVersionsDir(templateId);
+    const versions: PromptTemplateVersion[] = [];
+
+    for (const file of fs.readdirSync(dir)) {
+      if (!file.endsWith('.json')) continue;
+
+      try {
+        const version = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8'));
+        version.createdAt = new Date(version.createdAt);
+        version.template.createdAt = new Date(version.template.createdAt);
+        version.template.updatedAt = new Date(version.template.updatedAt);
+        versions.push(version as PromptTemplateVersion);
+      } catch (error) {
+        console.error(`Error loading version ${file} of template ${templateId}:`, error);
+      }
+    }
+
+    return versions.sort((a, b) => b.version - a.version);
+  }
+
+  /**
+   * Current content of a template without saved versions, e.g. the default templates
+   */
+  private toInitialVersion(template: PromptTemplate): PromptTemplateVersion {
+    return {
+      version: template.version ?? 1,
+      template: { ...template, version: template.version ?? 1 },
+      author: 'system',
+      createdAt: template.updatedAt
+    };
+  }
+
+  private getLatestTemplateVersion(template: PromptTemplate): number {
+    const [latest] = this.loadTemplateVersions(template.id);
+    return Math.max(latest?.version ?? 0, template.version ?? 1);
+  }
+
+  /**
+   * Save the current content of a template without saved versions before it changes
+   */
+  private ensureInitialVersion(template: PromptTemplate): void {
+    if (this.loadTemplateVersions(template.id).length === 0) {
+      this.writeTemplateVersion(this.toInitialVersion(template));
+    }
+  }
+
+  /**
+   * Save a template as a version
+   */
+  private saveTemplateVersion(template: PromptTemplate, author: string, restoredFromVersion?: number): void {
+    this.writeTemplateVersion({
+      version: template.version ?? 1,
+      template,
+      author,
+      createdAt: new Date(),
+      ...(restoredFromVersion !== undefined ? { restoredFromVersion } : {})
+    });
+    console.log(`💾 Saved version ${template.version ?? 1} of template ${template.id} by ${author}`);
+  }
+
+  private writeTemplateVersion(entry: PromptTemplateVersion): void {
+    const toSave = {
+      ...entry,
+      template: {
+        ...entry.template,
+        createdAt: entry.template.createdAt.toISOString(),
+        updatedAt: entry.template.updatedAt.toISOString()
+      },
+      createdAt: entry.createdAt.toISOString()
+    };
+
+    // 'wx' never overwrites an existing version
+    fs.writeFileSync(
+      path.join(this.getTemplateVersionsDir(entry.template.id), `${entry.version}.json`),
+      JSON.stringify(toSave, null, 2),
+      { encoding: 'utf-8', flag: 'wx' }
+    );
+  }
+
   public static getInstance(): PromptService {
     if (!PromptService.instance) {
       PromptService.instance = new PromptService();
@@ -106,6 +227,30 @@ export class PromptService {
     return PromptService.instance;
   }
 
+  /**
+   * Register a listener that is notified whenever a template is created, updated or deleted
+   * @returns Function that removes the listener
+   */
+  public onTemplateChange(listener: TemplateChangeListener): () => void {
+    this.changeListeners.push(listener);
+    return () => {
+      this.changeListeners = this.changeListeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Notify listeners about a template change
+   */
+  private notifyTemplateChange(type: TemplateChangeType, templateId: string): void {
+    for (const listener of this.changeListeners) {
+      try {
+        listener(type, templateId);
+      } catch (error) {
+        console.error(`Template change listener failed for ${templateId}:`, error);
+      }
+    }
+  }
+
   /**
    * Get the current system specification
    */
@@ -114,13 +259,98 @@ export class PromptService {
   }
 
   /**
-   * Update the system specification
+   * Update the system specification and save it as a new version
+   * Saving an unchanged specification does not create a version
+   */
+  public updateSystemSpec(spec: SystemSpecification, author: string = 'anonymous'): SystemSpecification {
+    const { role, background, rules, personality } = spec;
+    const next: SystemSpecification = { role, background, rules: [...rules], personality };
+
+    if (JSON.stringify(next) !== JSON.stringify(this.systemSpec)) {
+      this.saveSystemSpecVersion(next, author);
+      this.systemSpec = next;
+    }
+    return this.getSystemSpec();
+  }
+
+  /**
+   * Get all saved versions of the system specification, newest first
+   */
+  public getSystemSpecHistory(): SystemSpecVersion[] {
+    const versions: SystemSpecVersion[] = [];
+
+    try {
+      for (const file of fs.readdirSync(this.systemSpecDir)) {
+        if (!file.endsWith('.json')) continue;
+
+        try {
+          const version = JSON.parse(fs.readFileSync(path.join(this.systemSpecDir, file), 'utf-8'));
+          version.createdAt = new Date(version.createdAt);
+          versions.push(version as SystemSpecVersion);
+        } catch (error) {
+          console.error(`Error loading system specification version from ${file}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading system specification history:', error);
+    }
+
+    return versions.sort((a, b) => b.version - a.version);
+  }
+
+  /**
+   * Make an older version the active system specification again
+   * The restore is saved as a new version so the history stays complete
    */
-  public updateSystemSpec(spec: SystemSpecification): SystemSpecification {
-    this.systemSpec = { ...spec };
+  public restoreSystemSpec(version: number, author: string = 'anonymous'): SystemSpecification {
+    const entry = this.getSystemSpecHistory().find(v => v.version === version);
+    if (!entry) {
+      throw new NotFoundError(`System specification version ${version} not found`);
+    }
+
+    this.saveSystemSpecVersion(entry.spec, author, version);
+    this.systemSpec = { ...entry.spec };
     return this.getSystemSpec();
   }
 
+  /**
+   * Load the newest saved system specification, saving the default as version 1 on first start
+   */
+  private loadSystemSpec(): SystemSpecification {
+    const [latest] = this.getSystemSpecHistory();
+    if (latest) {
+      console.log(`📋 Loaded system specification version ${latest.version}`);
+      return latest.spec;
+    }
+
+    this.saveSystemSpecVersion(DEFAULT_SYSTEM_SPEC, 'system');
+    return { ...DEFAULT_SYSTEM_SPEC };
+  }
+
+  /**
+   * Save a system specification as the next version
+   */
+  private saveSystemSpecVersion(spec: SystemSpecification, author: string, restoredFromVersion?: number): SystemSpecVersion {
+    const [latest] = this.getSystemSpecHistory();
+    const entry: SystemSpecVersion = {
+      version: (latest?.version ?? 0) + 1,
+      spec,
+      author,
+      createdAt: new Date(),
+      ...(restoredFromVersion !== undefined ? { restoredFromVersion } : {})
+    };
+
+    // 'wx' never overwrites an existing version
+    const filename = `${entry.version}.json`;
+    fs.writeFileSync(
+      path.join(this.systemSpecDir, filename),
+      JSON.stringify({ ...entry, createdAt: entry.createdAt.toISOString() }, null, 2),
+      { encoding: 'utf-8', flag: 'wx' }
+    );
+    console.log(`💾 Saved system specification version ${entry.version} by ${author}`);
+    return entry;
+  }
+
   /**
    * Get all prompt templates from files
    */
@@ -156,7 +386,7 @@ export class PromptService {
   /**
    * Create a new prompt template and save to file
    */
-  public createTemplate(request: CreatePromptTemplateRequest): PromptTemplate {
+  public createTemplate(request: CreatePromptTemplateRequest, author: string = 'anonymous'): PromptTemplate {
     const now = new Date();
     const id = this.generateId();
     
@@ -168,19 +398,28 @@ export class PromptService {
       category: request.category,
       firebaseData: request.firebaseData,
       schedule: request.schedule,
+      modelConfig: request.modelConfig,
+      outputSchema: request.outputSchema,
+      personaId: request.personaId,
+      variables: request.variables,
+      tokenBudget: request.tokenBudget,
+      version: 1,
       createdAt: now,
       updatedAt: now
     };
 
     // Save to file immediately
     this.saveTemplateToFile(template);
+    this.saveTemplateVersion(template, author);
+    this.notifyTemplateChange('created', id);
     return template;
   }
 
   /**
    * Update an existing prompt template and save to file
+   * Every update is kept as a new version
    */
-  public updateTemplate(id: string, request: UpdatePromptTemplateRequest): PromptTemplate | undefined {
+  public updateTemplate(id: string, request: UpdatePromptTemplateRequest, author: string = 'anonymous'): PromptTemplate | undefined {
     const existing = this.getTemplate(id);
     if (!existing) {
       return undefined;
@@ -194,14 +433,101 @@ export class PromptService {
       category: request.category ?? existing.category,
       firebaseData: request.firebaseData ?? existing.firebaseData,
       schedule: request.schedule ?? existing.schedule,
+      modelConfig: request.modelConfig ?? existing.modelConfig,
+      outputSchema: request.outputSchema === null ? undefined : request.outputSchema ?? existing.outputSchema,
+      personaId: request.personaId === null ? undefined : request.personaId ?? existing.personaId,
+      variables: request.variables ?? existing.variables,
+      tokenBudget: request.tokenBudget === null ? undefined : request.tokenBudget ?? existing.tokenBudget,
+      version: this.getLatestTemplateVersion(existing) + 1,
       updatedAt: new Date()
     };
 
     // Save updated template to file immediately
+    this.ensureInitialVersion(existing);
     this.saveTemplateToFile(updated);
+    this.saveTemplateVersion(updated, author);
+    this.notifyTemplateChange('updated', id);
     return updated;
   }
 
+  /**
+   * Get all versions of a template, newest first
+   * Templates created before versioning have their current content as version 1
+   */
+  public getTemplateVersions(id: string): PromptTemplateVersion[] | undefined {
+    const template = this.getTemplate(id);
+    if (!template) {
+      return undefined;
+    }
+
+    const versions = this.loadTemplateVersions(id);
+    return versions.length > 0 ? versions : [this.toInitialVersion(template)];
+  }
+
+  /**
+   * Compare two versions of a template field by field
+   */
+  public diffTemplateVersions(id: string, fromVersion: number, toVersion: number): PromptTemplateDiff | undefined {
+    const versions = this.getTemplateVersions(id);
+    if (!versions) {
+      return undefined;
+    }
+
+    const find = (version: number): PromptTemplate => {
+      const entry = versions.find(v => v.version === version);
+      if (!entry) {
+        throw new NotFoundError(`Version ${version} of template ${id} not found`);
+      }
+      return entry.template;
+    };
+    const from = find(fromVersion);
+    const to = find(toVersion);
+
+    const changes: TemplateFieldChange[] = [];
+    for (const field of TEMPLATE_DIFF_FIELDS) {
+      if (JSON.stringify(from[field]) === JSON.stringify(to[field])) continue;
+
+      const change: TemplateFieldChange = { field, from: from[field], to: to[field] };
+      if (typeof from[field] === 'string' && typeof to[field] === 'string') {
+        change.lines = diffLines(from[field] as string, to[field] as string);
+      }
+      changes.push(change);
+    }
+
+    return { templateId: id, fromVersion, toVersion, changes };
+  }
+
+  /**
+   * Make an older version the current template again
+   * The rollback is saved as a new version so the history stays complete
+   */
+  public rollbackTemplate(id: string, version: number, author: string = 'anonymous'): PromptTemplate | undefined {
+    const existing = this.getTemplate(id);
+    const versions = this.getTemplateVersions(id);
+    if (!existing || !versions) {
+      return undefined;
+    }
+
+    const entry = versions.find(v => v.version === version);
+    if (!entry) {
+      throw new NotFoundError(`Version ${version} of template ${id} not found`);
+    }
+
+    const restored: PromptTemplate = {
+      ...entry.template,
+      id,
+      version: this.getLatestTemplateVersion(existing) + 1,
+      createdAt: existing.createdAt,
+      updatedAt: new Date()
+    };
+
+    this.ensureInitialVersion(existing);
+    this.saveTemplateToFile(restored);
+    this.saveTemplateVersion(restored, author, version);
+    this.notifyTemplateChange('updated', id);
+    return restored;
+  }
+
   /**
    * Delete a prompt template file
    */
@@ -212,6 +538,7 @@ export class PromptService {
     }
     
     this.deleteTemplateFile(id);
+    this.notifyTemplateChange('deleted', id);
     return true;
   }
 
@@ -233,18 +560,25 @@ export class PromptService {
   }
 
   /**
-   * Apply variables to a prompt template
+   * Convert the supplied values to the types the template declares, applying defaults
+   * Throws a TemplateVariableError when a required variable is missing or invalid
    */
-  public applyVariables(template: string, variables?: Record<string, string>): string {
-    if (!variables) {
-      return template;
-    }
+  public resolveVariables(template: PromptTemplate, variables?: TemplateVariableValues): Record<string, unknown> {
+    return resolveTemplateVariables(template.variables, variables);
+  }
 
-    let result = template;
-    Object.entries(variables).forEach(([key, value]) => {
-      result = result.replace(new RegExp(`{{${key}}}`, 'g'), value);
-    });
+  /**
+   * Render the user prompt of a template with resolved variables and data such as expenses
+   * Data takes precedence over variables of the same name
+   */
+  public renderPrompt(template: PromptTemplate, variables: Record<string, unknown>, data: Record<string, unknown> = {}): string {
+    return renderTemplate(template.userPrompt, { ...variables, ...data });
+  }
 
-    return result;
+  /**
+   * Apply variables to a prompt template
+   */
+  public applyVariables(template: string, variables?: TemplateVariableValues): string {
+    return renderTemplate(template, { ...variables });
   }
 }
@@ -0,0 +1,316 @@
+import { CurrencyService } from './currency.service';
+import { getLLMProvider, LLMProvider } from '../providers';
+import { getRepositories, Repositories } from '../repositories';
+import { NotFoundError } from '../errors/http.error';
+import type {
+  SystemSpecification,
+  Recommendation,
+  UserRecommendationsRequest,
+  UserRecommendationsResponse,
+  BatchJobRequest,
+  BatchJobResponse,
+  BatchJobStatusResponse,
+  BatchJobStatus
+} from '../types';
+
+// Identifies recommendations in /users2/{uid}/recommendations that were not produced by a prompt template
+const RECOMMENDATION_SOURCE_ID = 'user-recommendations';
+const RECOMMENDATION_SOURCE_NAME = 'User Recommendations';
+const DEFAULT_RANGE_DAYS = 7;
+// How long the status of a finished batch job stays available
+const FINISHED_BATCH_JOB_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+const RECOMMENDATION_SYSTEM_SPEC: SystemSpecification = {
+  role: 'Personal Finance Coach',
+  background: 'You analyze the expenses of a MyMonji user, including the emotion (1 = very negative, 5 = very positive) they felt for each purchase, and give short, actionable advice.',
+  rules: [
+    'Base every recommendation on the provided expense data',
+    'Give at most 5 recommendations, each focused on one spending category',
+    'Keep each piece of advice to one or two sentences',
+    'Respond only with JSON in the format {"recommendations": [{"category": "...", "advice": "..."}]}'
+  ],
+  personality: 'Supportive, concrete and non-judgmental'
+};
+
+/**
+ * Service for generating spending recommendations from a user's Firebase expense data
+ */
+export class RecommendationService {
+  private static instance: RecommendationService;
+  private repositories: Repositories;
+  private currencyService: CurrencyService;
+  private llmProvider: LLMProvider;
+  private batchJobs = new Map<string, BatchJobStatus>();
+
+  private constructor() {
+    this.repositories = getRepositories();
+    this.currencyService = CurrencyService.getInstance();
+    this.llmProvider = getLLMProvider();
+  }
+
+  public static getInstance(): RecommendationService {
+    if (!RecommendationService.instance) {
+      RecommendationService.instance = new RecommendationService();
+    }
+    return RecommendationService.instance;
+  }
+
+  /**
+   * Generate recommendations for a user based on their expenses in the given date range
+   * Defaults to the last 7 days when no range is given
+   */
+  async generateUserRecommendations(
+    uid: string,
+    request: UserRecommendationsRequest = {}
+  ): Promise<UserRecommendationsResponse> {
+    const startTime = Date.now();
+    const { startDate, endDate } = this.resolveDateRange(request.startDate, request.endDate);
+
+    console.log(`💡 Generating recommendations for user ${uid} (${startDate} - ${endDate})`);
+
+    const userData = await this.repositories.users.get(uid);
+    if (userData === undefined) {
+      throw new NotFoundError(`User with UID ${uid} not found`);
+    }
+    const { expenses, homeCurrency } = await this.currencyService.normalizeUserExpenses(
+      await this.repositories.expenses.listByUser(uid, { startDate, endDate }),
+      userData
+    );
+
+    const result: UserRecommendationsResponse = {
+      uid,
+      recommendations: []
+    };
+
+    const debug: NonNullable<UserRecommendationsResponse['debug']> = {
+      firebaseData: { userData, expenses },
+      firebaseUserData: userData,
+      firebaseExpenseData: expenses
+    };
+
+    // Skip the OpenAI call when there is nothing to analyze
+    if (expenses.length === 0) {
+      console.log(`⚠️ No expenses found for user ${uid} - skipping OpenAI call`);
+    } else {
+      const prompt = this.buildRecommendationPrompt(expenses, startDate, endDate, homeCurrency);
+      const response = await this.llmProvider.sendMessage(RECOMMENDATION_SYSTEM_SPEC, {
+        content: prompt,
+        timestamp: new Date(),
+        userId: uid
+      });
+
+      result.recommendations = this.parseRecommendations(response.content);
+
+      debug.openaiInput = { systemSpec: RECOMMENDATION_SYSTEM_SPEC, prompt };
+      debug.openaiResponse = response.content;
+      debug.openaiUsage = response.usage;
+
+      try {
+        await this.repositories.recommendations.add(uid, {
+          templateId: RECOMMENDATION_SOURCE_ID,
+          templateName: RECOMMENDATION_SOURCE_NAME,
+          prompt,
+          response: response.content
+        });
+      } catch (error) {
+        console.error(`Failed to save recommendations to Firebase for user ${uid}:`, error);
+        // Don't throw - the recommendations are still returned to the caller
+      }
+    }
+
+    debug.processingTime = Date.now() - startTime;
+    if (request.includeDebugInfo) {
+      result.debug = debug;
+    }
+
+    console.log(`✅ Generated ${result.recommendations.length} recommendation(s) for user ${uid}`);
+    return result;
+  }
+
+  /**
+   * Start generating recommendations for all users in the background
+   */
+  async startBatchJob(request: BatchJobRequest = {}): Promise<BatchJobResponse> {
+    this.pruneFinishedBatchJobs();
+    const jobId = `batch_${Date.now()}`;
+
+    const job: BatchJobStatus = {
+      jobId,
+      status: 'pending',
+      startTime: new Date(),
+      processedUsers: 0,
+      totalUsers: 0,
+      includeDebugInfo: request.includeDebugInfo,
+      debug: {
+        processingErrors: []
+      }
+    };
+    this.batchJobs.set(jobId, job);
+
+    // Execute asynchronously
+    setImmediate(() => {
+      this.runBatchJob(job, request).catch(error => {
+        console.error(`Batch job ${jobId} crashed:`, error);
+      });
+    });
+
+    return {
+      status: 'started',
+      jobId
+    };
+  }
+
+  /**
+   * Get status of a recommendation batch job
+   * Finished jobs are forgotten a day after they ended
+   */
+  getBatchJobStatus(jobId: string): BatchJobStatusResponse {
+    const job = this.batchJobs.get(jobId);
+    if (!job) {
+      throw new NotFoundError(`Batch job ${jobId} not found`);
+    }
+
+    const end = job.endTime || new Date();
+    const { processingErrors, ...sample } = job.debug || {};
+
+    return {
+      jobId: job.jobId,
+      status: job.status,
+      processedUsers: job.processedUsers,
+      durationSec: Math.round((end.getTime() - job.startTime.getTime()) / 1000),
+      debug: {
+        ...(job.includeDebugInfo ? sample : {}),
+        totalUsers: job.totalUsers,
+        processingErrors: processingErrors || []
+      }
+    };
+  }
+
+  /**
+   * Generate recommendations for every user, recording progress on the job
+   */
+  private async runBatchJob(job: BatchJobStatus, request: BatchJobRequest): Promise<void> {
+    job.status = 'running';
+    const processingErrors = job.debug!.processingErrors!;
+
+    try {
+      const users = await this.repositories.users.list();
+      job.totalUsers = users.length;
+      console.log(`📦 Batch job ${job.jobId} started for ${users.length} user(s)`);
+
+      for (const user of users) {
+        try {
+          const result = await this.generateUserRecommendations(user.uid, {
+            startDate: request.startDate,
+            endDate: request.endDate,
+            includeDebugInfo: true
+          });
+
+          // Keep the first user that reached OpenAI as the debug sample
+          if (!job.debug!.sampleOpenaiResponse && result.debug?.openaiResponse) {
+            job.debug = {
+              ...job.debug,
+              sampleFirebaseData: result.debug.firebaseData,
+              sampleFirebaseUserData: result.debug.firebaseUserData,
+              sampleFirebaseExpenseData: result.debug.firebaseExpenseData,
+              sampleOpenaiInput: result.debug.openaiInput,
+              sampleOpenaiResponse: result.debug.openaiResponse,
+              sampleOpenaiUsage: result.debug.openaiUsage
+            };
+          }
+        } catch (error) {
+          const errorMsg = `Error processing user ${user.uid}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          console.error(errorMsg);
+          processingErrors.push(errorMsg);
+        }
+        job.processedUsers++;
+      }
+
+      job.status = 'completed';
+      console.log(`✅ Batch job ${job.jobId} completed: ${job.processedUsers} user(s), ${processingErrors.length} error(s)`);
+    } catch (error) {
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : 'Unknown error';
+      processingErrors.push(job.error);
+      console.error(`❌ Batch job ${job.jobId} failed:`, error);
+    } finally {
+      job.endTime = new Date();
+    }
+  }
+
+  /**
+   * Forget batch jobs that finished longer ago than the retention period
+   */
+  private pruneFinishedBatchJobs(): void {
+    const cutoff = Date.now() - FINISHED_BATCH_JOB_RETENTION_MS;
+    for (const [jobId, job] of this.batchJobs) {
+      if (job.endTime && job.endTime.getTime() < cutoff) {
+        this.batchJobs.delete(jobId);
+      }
+    }
+  }
+
+  /**
+   * Fill in missing dates of the requested range
+   */
+  private resolveDateRange(startDate?: string, endDate?: string): { startDate: string; endDate: string } {
+    const end = endDate ? new Date(endDate + 'T00:00:00.000Z') : new Date();
+    const start = startDate
+      ? new Date(startDate + 'T00:00:00.000Z')
+      : new Date(end.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+
+    return {
+      startDate: start.toISOString().split('T')[0],
+      endDate: end.toISOString().split('T')[0]
+    };
+  }
+
+  /**
+   * Build the prompt that asks the model for structured recommendations
+   */
+  private buildRecommendationPrompt(expenses: any[], startDate: string, endDate: string, homeCurrency?: string): string {
+    return [
+      `Here are my expenses between ${startDate} and ${endDate} (${expenses.length} transactions).`,
+      'Each expense has an amount, currency, category, name and the emotion I felt (1-5).',
+      ...(homeCurrency ? [`Amounts are converted to ${homeCurrency}, with the original amount and currency of foreign expenses.`] : []),
+      'Give me recommendations per category on how to improve my spending and emotional well-being.',
+      '',
+      JSON.stringify(expenses)
+    ].join('\n');
+  }
+
+  /**
+   * Parse the model output into recommendations
+   * Accepts JSON (optionally wrapped in a code block) and falls back to "Category: advice" lines
+   */
+  private parseRecommendations(content: string): Recommendation[] {
+    const json = content.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+
+    try {
+      const parsed = JSON.parse(json);
+      const items = Array.isArray(parsed) ? parsed : parsed?.recommendations;
+
+      if (Array.isArray(items)) {
+        return items
+          .filter((item: any) => item && typeof item.category === 'string' && typeof item.advice === 'string')
+          .map((item: any) => ({ category: item.category.trim(), advice: item.advice.trim() }));
+      }
+    } catch {
+      // Not JSON - fall through to line parsing
+    }
+
+    const recommendations: Recommendation[] = [];
+    for (const line of content.split('\n')) {
+      const match = line.match(/^\s*(?:[-*•]|\d+[.)])?\s*\**([^:*]{1,50})\**\s*:\s*(.+)$/);
+      if (match) {
+        recommendations.push({ category: match[1].trim(), advice: match[2].trim() });
+      }
+    }
+
+    if (recommendations.length === 0 && content.trim()) {
+      recommendations.push({ category: 'General', advice: content.trim() });
+    }
+
+    return recommendations;
+  }
+}
@@ -0,0 +1,255 @@
+import parser from 'cron-parser';
+import { PromptService } from './prompt.service';
+import { TemplateExecutionService } from './template-execution.service';
+import { AuditService, SCHEDULER_AUDIT_CONTEXT } from './audit.service';
+import type { PromptTemplate, TemplateScheduleInfo } from '../types';
+
+// setTimeout cannot wait longer than ~24.8 days; longer delays are re-armed in steps
+const MAX_TIMER_DELAY_MS = 2_147_483_647;
+const DEFAULT_TIMEZONE = 'UTC';
+
+interface ScheduledTemplate {
+  info: TemplateScheduleInfo;
+  signature: string;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Service that runs prompt templates according to their schedule configuration
+ * Templates are re-synced whenever PromptService reports a change and periodically
+ * to pick up template files that were edited on disk
+ */
+export class SchedulerService {
+  private static instance: SchedulerService;
+  private promptService: PromptService;
+  private scheduled = new Map<string, ScheduledTemplate>();
+  private resyncTimer?: NodeJS.Timeout;
+  private unsubscribe?: () => void;
+  private running = false;
+
+  private constructor() {
+    this.promptService = PromptService.getInstance();
+  }
+
+  public static getInstance(): SchedulerService {
+    if (!SchedulerService.instance) {
+      SchedulerService.instance = new SchedulerService();
+    }
+    return SchedulerService.instance;
+  }
+
+  /**
+   * Start scheduling all templates with an enabled schedule
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    this.unsubscribe = this.promptService.onTemplateChange((type, templateId) => {
+      if (type === 'deleted') {
+        this.unscheduleTemplate(templateId);
+        return;
+      }
+
+      const template = this.promptService.getTemplate(templateId);
+      if (template) {
+        this.syncTemplate(template);
+      }
+    });
+
+    this.sync();
+
+    const resyncIntervalMs = parseInt(process.env.SCHEDULER_RESYNC_INTERVAL_MS || '60000', 10);
+    this.resyncTimer = setInterval(() => this.sync(), resyncIntervalMs);
+    this.resyncTimer.unref();
+
+    console.log(`⏰ Scheduler started with ${this.scheduled.size} scheduled template(s)`);
+  }
+
+  /**
+   * Stop all timers and forget scheduled templates
+   */
+  stop(): void {
+    if (!this.running) return;
+    this.running = false;
+
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+
+    if (this.resyncTimer) {
+      clearInterval(this.resyncTimer);
+      this.resyncTimer = undefined;
+    }
+
+    for (const templateId of Array.from(this.scheduled.keys())) {
+      this.unscheduleTemplate(templateId);
+    }
+  }
+
+  /**
+   * Reconcile scheduled timers with the templates currently stored
+   */
+  sync(): void {
+    const templates = this.promptService.getAllTemplates();
+    const templateIds = new Set(templates.map(t => t.id));
+
+    for (const templateId of Array.from(this.scheduled.keys())) {
+      if (!templateIds.has(templateId)) {
+        this.unscheduleTemplate(templateId);
+      }
+    }
+
+    for (const template of templates) {
+      this.syncTemplate(template);
+    }
+  }
+
+  /**
+   * Get all scheduled templates ordered by their next run
+   */
+  getSchedules(): TemplateScheduleInfo[] {
+    return Array.from(this.scheduled.values())
+      .map(entry => ({ ...entry.info }))
+      .sort((a, b) => {
+        if (!a.nextRun) return 1;
+        if (!b.nextRun) return -1;
+        return a.nextRun.getTime() - b.nextRun.getTime();
+      });
+  }
+
+  /**
+   * Calculate the next run of a cron expression in the given timezone
+   */
+  static getNextRun(cronExpression: string, timezone: string = DEFAULT_TIMEZONE, from: Date = new Date()): Date {
+    try {
+      // Intl throws a RangeError for unknown timezones, cron-parser does not report them clearly
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    } catch {
+      throw new Error(`Invalid timezone "${timezone}"`);
+    }
+
+    try {
+      const interval = parser.parseExpression(cronExpression, { currentDate: from, tz: timezone });
+      return interval.next().toDate();
+    } catch (error) {
+      throw new Error(`Invalid cron expression "${cronExpression}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Schedule, reschedule or unschedule a single template based on its configuration
+   */
+  private syncTemplate(template: PromptTemplate): void {
+    const schedule = template.schedule;
+    if (!schedule?.enabled || !schedule.cronExpression) {
+      this.unscheduleTemplate(template.id);
+      return;
+    }
+
+    const timezone = schedule.timezone || DEFAULT_TIMEZONE;
+    const runForAllUsers = schedule.runForAllUsers !== false;
+    const signature = `${schedule.cronExpression}|${timezone}|${runForAllUsers}`;
+
+    const existing = this.scheduled.get(template.id);
+    if (existing && existing.signature === signature) {
+      existing.info.templateName = template.name;
+      return;
+    }
+
+    this.unscheduleTemplate(template.id);
+
+    const entry: ScheduledTemplate = {
+      signature,
+      info: {
+        templateId: template.id,
+        templateName: template.name,
+        cronExpression: schedule.cronExpression,
+        timezone,
+        runForAllUsers,
+        lastRun: existing?.info.lastRun,
+        lastJobId: existing?.info.lastJobId
+      }
+    };
+    this.scheduled.set(template.id, entry);
+    this.armTimer(entry);
+  }
+
+  /**
+   * Remove a template from the schedule
+   */
+  private unscheduleTemplate(templateId: string): void {
+    const entry = this.scheduled.get(templateId);
+    if (!entry) return;
+
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+    }
+    this.scheduled.delete(templateId);
+  }
+
+  /**
+   * Compute the next run of a scheduled template and set a timer for it
+   */
+  private armTimer(entry: ScheduledTemplate): void {
+    const { info } = entry;
+
+    try {
+      info.nextRun = SchedulerService.getNextRun(info.cronExpression, info.timezone);
+      info.error = undefined;
+    } catch (error) {
+      info.nextRun = undefined;
+      info.error = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ Could not schedule template ${info.templateId}: ${info.error}`);
+      return;
+    }
+
+    this.setTimer(entry, info.nextRun);
+  }
+
+  private setTimer(entry: ScheduledTemplate, runAt: Date): void {
+    const delay = Math.max(0, runAt.getTime() - Date.now());
+
+    entry.timer = setTimeout(() => {
+      if (this.scheduled.get(entry.info.templateId) !== entry) return;
+
+      if (delay > MAX_TIMER_DELAY_MS) {
+        this.setTimer(entry, runAt);
+        return;
+      }
+
+      this.runTemplate(entry).finally(() => {
+        if (this.running && this.scheduled.get(entry.info.templateId) === entry) {
+          this.armTimer(entry);
+        }
+      });
+    }, Math.min(delay, MAX_TIMER_DELAY_MS));
+    entry.timer.unref();
+  }
+
+  /**
+   * Trigger a scheduled run of a template
+   */
+  private async runTemplate(entry: ScheduledTemplate): Promise<void> {
+    const { info } = entry;
+    info.lastRun = new Date();
+
+    if (!info.runForAllUsers) {
+      info.error = 'Scheduled runs are only supported for all users';
+      console.warn(`⚠️ Skipping scheduled run of template ${info.templateId}: ${info.error}`);
+      return;
+    }
+
+    console.log(`⏰ Running scheduled template ${info.templateId} (${info.cronExpression} ${info.timezone})`);
+
+    try {
+      const result = await TemplateExecutionService.getInstance().executeTemplateForAllUsers(info.templateId, 'schedule');
+      info.lastJobId = result.jobId;
+      info.error = undefined;
+      await AuditService.getInstance().record(SCHEDULER_AUDIT_CONTEXT, 'execution.start', { type: 'template', id: info.templateId }, { after: result });
+      console.log(`✅ Scheduled execution job ${result.jobId} started for template ${info.templateId}`);
+    } catch (error) {
+      info.error = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ Scheduled run of template ${info.templateId} failed:`, error);
+    }
+  }
+}
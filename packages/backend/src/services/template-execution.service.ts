@@ -1,33 +1,108 @@
 import { PromptService } from './prompt.service';
-import { FirebaseService } from './firebase.service';
-import { OpenAIService } from './openai.service';
+import { PersonaService } from './persona.service';
+import { CurrencyService } from './currency.service';
+import { getLLMProvider, getNonRetryingLLMProvider, buildSystemMessage, withOutputSchema, LLMProvider } from '../providers';
+import { ExecutionJobRepository, createExecutionJobRepository } from '../repositories/execution-job.repository';
+import { getRepositories, Repositories } from '../repositories';
+import { RateLimiter } from '../utils/rate-limiter';
+import { AdaptiveWorkerPool } from '../utils/worker-pool';
+import { estimatePromptTokens } from '../utils/token-estimator';
+import { enrichPromptWithinBudget } from '../utils/prompt-budget';
+import { analyzeExpenses } from '../utils/expense-analytics';
+import { OpenAIRateLimitError, OpenAIServiceError } from '../errors/openai.errors';
+import { RetryOptions, getBackoffDelay, sleep } from '../utils/retry';
+import { BadRequestError, ConflictError, NotFoundError } from '../errors/http.error';
+import { estimateCost, resolveTemplateModelConfig, resolveTokenBudget } from '../config/models';
 import type { 
   PromptTemplate,
   FirebaseDataConfig,
   ExecuteTemplateForAllUsersResponse,
-  OpenAIResponse
+  OpenAIResponse,
+  TemplateExecutionJob,
+  TemplateExecutionJobStatus,
+  UserExecutionResult,
+  ExecutionJobFilter,
+  TemplateVariableValues,
+  TemplatePreview,
+  SystemSpecification,
+  ModelConfig,
+  PromptBudgetReport
 } from '../types';
 
+// Pause after a 429 when OpenAI does not send Retry-After
+const RATE_LIMIT_PAUSE_MS = 20 * 1000;
+// Model call retries of a batch user, made here since batches use providers that do not retry themselves
+const BATCH_RETRY_OPTIONS: RetryOptions = { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 60 * 1000 };
+
+export const DEFAULT_BATCH_CONCURRENCY = parseInt(process.env.BATCH_DEFAULT_CONCURRENCY || '4', 10);
+export const MAX_BATCH_CONCURRENCY = parseInt(process.env.BATCH_MAX_CONCURRENCY || '20', 10);
+
+const optionalNumber = (value?: string): number | undefined => (value ? parseInt(value, 10) : undefined);
+
+const RESUMABLE_STATUSES: TemplateExecutionJobStatus[] = ['failed', 'cancelled', 'partially_completed'];
+
+/**
+ * Rendered input of a template execution
+ */
+interface TemplatePrompt {
+  systemSpec: SystemSpecification;
+  modelConfig: Required<ModelConfig>;
+  systemMessage: string; // As sent to the model
+  userPrompt: string;
+  firebaseData: any;
+  hasNoExpenses: boolean; // Execution stops without calling the model
+  promptBudget?: PromptBudgetReport; // Set when Firebase data was added
+}
+
+/**
+ * Callbacks for streaming the model output of a single template execution
+ */
+export interface TemplateStreamHandlers {
+  onDelta: (content: string) => void;
+  signal?: AbortSignal;
+}
+
+interface TemplateUserExecution {
+  response: OpenAIResponse;
+  recommendationId?: string; // Unset when nothing was saved to Firebase
+}
+
 /**
  * Service for executing prompt templates with Firebase data integration
  */
 export class TemplateExecutionService {
   private static instance: TemplateExecutionService;
   private promptService: PromptService;
-  private firebaseService: FirebaseService;
-  private openAIService: OpenAIService;
-  private executionJobs = new Map<string, any>();
+  private personaService: PersonaService;
+  private repositories: Repositories;
+  private currencyService: CurrencyService;
+  private jobRepository: ExecutionJobRepository;
+  // Jobs currently executing in this process; everything else is read from the repository
+  private activeJobs = new Map<string, TemplateExecutionJob>();
+  private cancelRequests = new Set<string>();
+  // Jobs being prepared for resuming, claimed before the first await so concurrent requests cannot both resume them
+  private resumingJobs = new Set<string>();
+  // Callbacks charging the model tokens of a running job, e.g. to the API key that started it
+  private tokenListeners = new Map<string, (tokens: number) => void>();
+  // Pending saves per job so concurrent workers persist the latest state in order
+  private jobSaves = new Map<string, { promise: Promise<void>; queued: boolean }>();
+  // Budgets are shared by all jobs since they belong to the same API key and project
+  private openAILimiter: RateLimiter;
+  private firestoreLimiter: RateLimiter;
 
   private constructor() {
     this.promptService = PromptService.getInstance();
-    this.firebaseService = FirebaseService.getInstance();
-    try {
-      this.openAIService = new OpenAIService();
-      console.log('✅ OpenAI service initialized in TemplateExecutionService');
-    } catch (error) {
-      console.error('❌ Failed to initialize OpenAI service in TemplateExecutionService:', error);
-      throw error;
-    }
+    this.personaService = PersonaService.getInstance();
+    this.repositories = getRepositories();
+    this.currencyService = CurrencyService.getInstance();
+    this.jobRepository = createExecutionJobRepository();
+    this.openAILimiter = new RateLimiter({
+      requestsPerMinute: optionalNumber(process.env.OPENAI_REQUESTS_PER_MINUTE),
+      tokensPerMinute: optionalNumber(process.env.OPENAI_TOKENS_PER_MINUTE)
+    });
+    this.firestoreLimiter = new RateLimiter({
+      requestsPerMinute: optionalNumber(process.env.FIRESTORE_READS_PER_MINUTE)
+    });
   }
 
   public static getInstance(): TemplateExecutionService {
@@ -43,84 +118,159 @@ export class TemplateExecutionService {
   async executeTemplateForUser(
     templateId: string,
     userId: string,
-    variables?: Record<string, string>,
-    includeDebugInfo: boolean = false
+    variables?: TemplateVariableValues,
+    includeDebugInfo: boolean = false,
+    stream?: TemplateStreamHandlers
   ): Promise<OpenAIResponse> {
+    const { response } = await this.runTemplateForUser(templateId, userId, variables, includeDebugInfo, stream);
+    return response;
+  }
+
+  /**
+   * Render what executing a template for a user would send to the model, with token and cost estimates
+   * Neither calls the model nor saves a recommendation
+   */
+  async previewTemplate(templateId: string, userId?: string, variables?: TemplateVariableValues): Promise<TemplatePreview> {
+    const template = this.promptService.getTemplate(templateId);
+    if (!template) {
+      throw new NotFoundError(`Template with ID ${templateId} not found`);
+    }
+    if (template.firebaseData?.enabled) {
+      if (!userId) {
+        throw new BadRequestError('userId is required to preview templates with Firebase data');
+      }
+      // Executions render missing users with empty data, a preview points out the typo instead
+      if ((await this.repositories.users.get(userId)) === undefined) {
+        throw new NotFoundError(`User with UID ${userId} not found`);
+      }
+    }
+
+    const { modelConfig, systemMessage, userPrompt, firebaseData, hasNoExpenses, promptBudget } =
+      await this.buildPrompt(template, userId, variables);
+
+    // Without expenses the execution stops before calling the model
+    const promptTokens = hasNoExpenses ? 0 : estimatePromptTokens(systemMessage, userPrompt, modelConfig.model);
+    const completionTokens = hasNoExpenses ? 0 : modelConfig.maxTokens;
+
+    return {
+      templateId: template.id,
+      templateVersion: template.version ?? 1,
+      userId,
+      provider: modelConfig.provider,
+      model: modelConfig.model,
+      systemMessage,
+      userPrompt,
+      firebaseData: firebaseData ? {
+        userData: firebaseData.userData || null,
+        expenses: firebaseData.expenses || [],
+        analytics: firebaseData.analytics
+      } : undefined,
+      willCallModel: !hasNoExpenses,
+      promptBudget,
+      estimatedTokens: {
+        prompt: promptTokens,
+        completion: completionTokens,
+        total: promptTokens + completionTokens
+      },
+      estimatedCost: estimateCost(modelConfig, promptTokens, completionTokens)
+    };
+  }
+
+  /**
+   * Execute a template for a user and report where the response was saved
+   */
+  private async runTemplateForUser(
+    templateId: string,
+    userId: string,
+    variables?: TemplateVariableValues,
+    includeDebugInfo: boolean = false,
+    stream?: TemplateStreamHandlers
+  ): Promise<TemplateUserExecution> {
+    const { template, prompt } = await this.prepareTemplateExecution(templateId, userId, variables);
+    const provider = getLLMProvider(prompt.modelConfig.provider);
+    return this.completeTemplateExecution(template, userId, prompt, provider, includeDebugInfo, stream);
+  }
+
+  /**
+   * Look up a template and render its prompt for a user, including the Firebase data
+   */
+  private async prepareTemplateExecution(
+    templateId: string,
+    userId: string,
+    variables?: TemplateVariableValues
+  ): Promise<{ template: PromptTemplate; prompt: TemplatePrompt }> {
     console.log(`🚀 [DEBUG] Starting template execution for user ${userId}, template ${templateId}`);
     
     const template = this.promptService.getTemplate(templateId);
     if (!template) {
-      throw new Error(`Template with ID ${templateId} not found`);
+      throw new NotFoundError(`Template with ID ${templateId} not found`);
     }
 
     console.log(`✅ [DEBUG] Template found: ${template.name}`);
 
-    // Get system specification
-    const systemSpec = this.promptService.getSystemSpec();
-    console.log(`✅ [DEBUG] System spec loaded`);
+    return { template, prompt: await this.buildPrompt(template, userId, variables) };
+  }
 
-    // Build the user prompt with Firebase data if configured
-    let userPrompt = this.promptService.applyVariables(template.userPrompt, variables);
-    let firebaseData: any = null;
+  /**
+   * Send a rendered prompt to the model and save the response for the user
+   */
+  private async completeTemplateExecution(
+    template: PromptTemplate,
+    userId: string,
+    prompt: TemplatePrompt,
+    provider: LLMProvider,
+    includeDebugInfo: boolean = false,
+    stream?: TemplateStreamHandlers
+  ): Promise<TemplateUserExecution> {
+    const { systemSpec, modelConfig, systemMessage, userPrompt, firebaseData, hasNoExpenses, promptBudget } = prompt;
+
+    // Check if no expenses were found - skip OpenAI call to save costs
+    if (hasNoExpenses) {
+      console.log(`⚠️ No expenses found for user ${userId} - skipping OpenAI call to save costs`);
+
+      // Return a user-friendly response instead of throwing an error
+      const noDataResponse: OpenAIResponse = {
+        content: `No expense data found for the specified period. Please check:\n\n1. Your date range settings - Currently looking for expenses between ${template.firebaseData?.dateRange?.startDate || 'the calculated start date'} and ${template.firebaseData?.dateRange?.endDate || 'today'}\n2. Make sure you have expenses recorded in Firebase for this period\n3. Verify the expenses are in the correct collection path: users2/${userId}/expenses\n\nNote: No OpenAI API call was made, saving costs.`,
+        timestamp: new Date(),
+      };
 
-    // If Firebase data is enabled, fetch and append it to the prompt
-    if (template.firebaseData?.enabled) {
-      console.log(`🔍 [DEBUG] Firebase data is enabled for template "${template.name}"`);
-      console.log(`   - Date Range Type: ${template.firebaseData.dateRange?.type || 'none'}`);
-      console.log(`   - Date Range Value: ${template.firebaseData.dateRange?.value || 'none'}`);
-      console.log(`   - Custom Start Date: ${template.firebaseData.dateRange?.startDate || 'none'}`);
-      console.log(`   - Custom End Date: ${template.firebaseData.dateRange?.endDate || 'none'}`);
-      
-      try {
-        firebaseData = await this.fetchFirebaseData(userId, template.firebaseData);
-      } catch (error) {
-        console.error(`❌ [ERROR] Failed to fetch Firebase data:`, error);
-        throw new Error(`Failed to fetch Firebase data: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
-      
-      console.log(`🔍 [DEBUG] Firebase data fetched:`, {
-        hasUserData: !!firebaseData.userData,
-        expenseCount: firebaseData.expenses?.length || 0
-      });
-      
-      if (firebaseData.expenses && firebaseData.expenses.length > 0) {
-        console.log(`   - Sample expense data (first):`, firebaseData.expenses[0]);
-      }
-      
-      // Check if no expenses were found - skip OpenAI call to save costs
-      if (firebaseData.expenses && firebaseData.expenses.length === 0) {
-        console.log(`⚠️ No expenses found for user ${userId} - skipping OpenAI call to save costs`);
-        
-        // Return a user-friendly response instead of throwing an error
-        const noDataResponse: OpenAIResponse = {
-          content: `No expense data found for the specified period. Please check:\n\n1. Your date range settings - Currently looking for expenses between ${template.firebaseData?.dateRange?.startDate || 'the calculated start date'} and ${template.firebaseData?.dateRange?.endDate || 'today'}\n2. Make sure you have expenses recorded in Firebase for this period\n3. Verify the expenses are in the correct collection path: users2/${userId}/expenses\n\nNote: No OpenAI API call was made, saving costs.`,
-          tokensUsed: 0,
+      if (includeDebugInfo) {
+        noDataResponse.debug = {
+          firebaseData,
+          promptSentToOpenAI: userPrompt,
+          systemSpecUsed: systemSpec,
         };
-        
-        if (includeDebugInfo) {
-          noDataResponse.debug = {
-            firebaseData,
-            promptSentToOpenAI: userPrompt,
-            systemSpecUsed: systemSpec,
-          };
-        }
-        
-        return noDataResponse;
       }
-      
-      userPrompt = this.enrichPromptWithFirebaseData(userPrompt, firebaseData);
-      console.log(`✅ [DEBUG] Prompt enriched with Firebase data`);
+
+      return { response: noDataResponse };
     }
 
-    // Send to OpenAI
-    const response = await this.openAIService.sendMessage(
-      systemSpec,
-      {
+    // Send to the template's provider within the requests/tokens per minute budget
+    const estimatedTokens = estimatePromptTokens(systemMessage, userPrompt, modelConfig.model) + modelConfig.maxTokens;
+    await this.openAILimiter.acquire(estimatedTokens);
+
+    let response: OpenAIResponse;
+    try {
+      const userMessage = {
         content: userPrompt,
         timestamp: new Date(),
         userId
+      };
+      if (template.outputSchema) {
+        response = await provider.sendStructuredMessage(systemSpec, userMessage, template.outputSchema, modelConfig, stream);
+      } else {
+        response = stream
+          ? await provider.streamMessage(systemSpec, userMessage, stream.onDelta, { ...modelConfig, signal: stream.signal })
+          : await provider.sendMessage(systemSpec, userMessage, modelConfig);
       }
-    );
+    } catch (error) {
+      this.openAILimiter.recordUsage(estimatedTokens, 0);
+      if (error instanceof OpenAIRateLimitError) {
+        this.openAILimiter.pause(error.retryAfterMs ?? RATE_LIMIT_PAUSE_MS);
+      }
+      throw error;
+    }
+    this.openAILimiter.recordUsage(estimatedTokens, response.usage?.totalTokens ?? estimatedTokens);
 
     // Add debug information if requested
     if (includeDebugInfo) {
@@ -132,10 +282,12 @@ export class TemplateExecutionService {
       response.debug = {
         firebaseData: firebaseData ? {
           userData: firebaseData.userData || null,
-          expenses: firebaseData.expenses || []
+          expenses: firebaseData.expenses || [],
+          analytics: firebaseData.analytics
         } : undefined,
         promptSentToOpenAI: userPrompt,
-        systemSpecUsed: systemSpec
+        systemSpecUsed: systemSpec,
+        promptBudget
       };
       console.log(`🔍 [BACKEND DEBUG] Debug object created:`, {
         hasFirebaseData: !!response.debug.firebaseData,
@@ -147,40 +299,55 @@ export class TemplateExecutionService {
       console.log(`⚠️ [BACKEND DEBUG] includeDebugInfo is false, skipping debug data`);
     }
 
-    // Save the response to Firebase at /users2/{userId}/prompts
+    // Save the response to Firebase at /users2/{userId}/recommendations
+    let recommendationId: string | undefined;
     try {
-      await this.firebaseService.savePromptResponse(
-        userId,
-        template.id,
-        template.name,
-        userPrompt,
-        response.content
-      );
+      recommendationId = await this.repositories.recommendations.add(userId, {
+        templateId: template.id,
+        templateName: template.name,
+        prompt: userPrompt,
+        response: response.content,
+        parsed: response.parsed,
+        templateVersion: template.version ?? 1
+      });
       console.log(`💾 Saved prompt response to Firebase for user ${userId}`);
     } catch (error) {
       console.error(`Failed to save prompt response to Firebase for user ${userId}:`, error);
       // Don't throw - we still want to return the response even if saving fails
     }
 
-    return response;
+    return { response, recommendationId };
   }
 
   /**
    * Execute a template for all users (batch execution)
+   * @param onTokens - Called with the tokens of every model response of the job while it runs in this process
    */
-  async executeTemplateForAllUsers(templateId: string): Promise<ExecuteTemplateForAllUsersResponse> {
+  async executeTemplateForAllUsers(
+    templateId: string,
+    trigger: TemplateExecutionJob['trigger'] = 'manual',
+    concurrency: number = DEFAULT_BATCH_CONCURRENCY,
+    onTokens?: (tokens: number) => void
+  ): Promise<ExecuteTemplateForAllUsersResponse> {
+    if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_BATCH_CONCURRENCY) {
+      throw new Error(`concurrency must be an integer between 1 and ${MAX_BATCH_CONCURRENCY}`);
+    }
+
     const template = this.promptService.getTemplate(templateId);
     if (!template) {
-      throw new Error(`Template with ID ${templateId} not found`);
+      throw new NotFoundError(`Template with ID ${templateId} not found`);
     }
 
     const jobId = `exec-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+    if (onTokens) {
+      this.tokenListeners.set(jobId, onTokens);
+    }
     
     // Start execution in background
-    this.startBatchExecution(jobId, template);
+    await this.startBatchExecution(jobId, template, trigger, concurrency);
 
     // Get user count for response
-    const users = await this.firebaseService.getAllUsers();
+    const users = await this.repositories.users.list();
 
     return {
       jobId,
@@ -192,14 +359,232 @@ export class TemplateExecutionService {
   /**
    * Get status of a batch execution job
    */
-  getExecutionJobStatus(jobId: string): any {
-    const job = this.executionJobs.get(jobId);
+  async getExecutionJobStatus(jobId: string): Promise<TemplateExecutionJob> {
+    const job = this.activeJobs.get(jobId) || await this.jobRepository.get(jobId);
     if (!job) {
-      throw new Error(`Job with ID ${jobId} not found`);
+      throw new NotFoundError(`Job with ID ${jobId} not found`);
     }
     return job;
   }
 
+  /**
+   * List past and running batch execution jobs, newest first
+   */
+  async listExecutionJobs(filter: ExecutionJobFilter = {}): Promise<TemplateExecutionJob[]> {
+    // Let pending saves finish so the status filter sees the current state of active jobs
+    await Promise.all(Array.from(this.jobSaves.values(), entry => entry.promise));
+    const jobs = await this.jobRepository.list(filter);
+
+    // Prefer the live counters of jobs running in this process
+    return jobs.map(job => {
+      const active = this.activeJobs.get(job.jobId);
+      if (!active) return job;
+      const { userResults, ...summary } = active;
+      return { ...summary };
+    });
+  }
+
+  /**
+   * Cancel a batch execution job
+   * A running job stops after the users currently being processed
+   */
+  async cancelExecutionJob(jobId: string): Promise<TemplateExecutionJob> {
+    const job = await this.getExecutionJobStatus(jobId);
+    if (job.status !== 'pending' && job.status !== 'running') {
+      throw new ConflictError(`Job with ID ${jobId} cannot be cancelled because it is ${job.status}`);
+    }
+
+    if (this.activeJobs.has(jobId)) {
+      this.cancelRequests.add(jobId);
+      console.log(`🛑 Cancellation requested for execution job ${jobId}`);
+      return job;
+    }
+
+    // Left behind by a process that stopped - nothing is executing it
+    job.status = 'cancelled';
+    job.endTime = new Date();
+    await this.jobRepository.save(job);
+    return job;
+  }
+
+  /**
+   * Resume a failed, cancelled or partially completed job
+   * Users that already succeeded are skipped, failed and unprocessed users are retried
+   * @param onTokens - Called with the tokens of every model response of the resumed run
+   */
+  async resumeExecutionJob(jobId: string, onTokens?: (tokens: number) => void): Promise<TemplateExecutionJob> {
+    const active = this.activeJobs.get(jobId);
+    if (active && (active.status === 'pending' || active.status === 'running')) {
+      throw new ConflictError(`Job with ID ${jobId} cannot be resumed because it is ${active.status}`);
+    }
+    if (this.resumingJobs.has(jobId)) {
+      throw new ConflictError(`Job with ID ${jobId} cannot be resumed because it is already being resumed`);
+    }
+    this.resumingJobs.add(jobId);
+
+    try {
+      // A job that just finished may still be saving its final state
+      await this.jobSaves.get(jobId)?.promise;
+
+      const job = await this.getExecutionJobStatus(jobId);
+      if (!RESUMABLE_STATUSES.includes(job.status)) {
+        throw new ConflictError(`Job with ID ${jobId} cannot be resumed because it is ${job.status}`);
+      }
+
+      const template = this.promptService.getTemplate(job.templateId);
+      if (!template) {
+        throw new NotFoundError(`Template with ID ${job.templateId} not found`);
+      }
+
+      const succeeded = Object.values(job.userResults || {}).filter(result => result.status === 'succeeded');
+
+      job.status = 'running';
+      job.resumeCount = (job.resumeCount || 0) + 1;
+      job.endTime = undefined;
+      job.error = undefined;
+      job.errors = [];
+      job.processedUsers = succeeded.length;
+      job.succeededUsers = succeeded.length;
+      job.failedUsers = 0;
+
+      if (onTokens) {
+        this.tokenListeners.set(jobId, onTokens);
+      }
+      this.activeJobs.set(jobId, job);
+      await this.persistJob(job);
+
+      console.log(`🔁 Resuming execution job ${jobId}, skipping ${succeeded.length} user(s) that already succeeded`);
+      setImmediate(() => this.runBatchExecution(job, template));
+
+      return job;
+    } finally {
+      // From here on the running entry in activeJobs keeps other requests out
+      this.resumingJobs.delete(jobId);
+    }
+  }
+
+  /**
+   * Mark jobs that were still running when the process stopped as failed
+   * Their per-user results show which users were already processed
+   */
+  async recoverInterruptedJobs(): Promise<number> {
+    const interrupted = [
+      ...await this.jobRepository.list({ status: 'running', limit: 1000 }),
+      ...await this.jobRepository.list({ status: 'pending', limit: 1000 })
+    ].filter(job => !this.activeJobs.has(job.jobId));
+
+    for (const job of interrupted) {
+      job.status = 'failed';
+      job.error = 'Job was interrupted by a server restart';
+      job.endTime = job.endTime || new Date();
+      await this.jobRepository.save(job);
+      console.warn(`⚠️ Marked interrupted execution job ${job.jobId} as failed`);
+    }
+
+    return interrupted.length;
+  }
+
+  /**
+   * Render the system spec and user prompt of a template for a user, with the Firebase data enriched
+   */
+  private async buildPrompt(
+    template: PromptTemplate,
+    userId: string | undefined,
+    variables?: TemplateVariableValues
+  ): Promise<TemplatePrompt> {
+    // Get the system specification of the template's persona, or the global one
+    const systemSpec = this.personaService.resolveSystemSpec(template.personaId);
+    console.log(`✅ [DEBUG] System spec loaded${template.personaId ? ` (persona ${template.personaId})` : ''}`);
+
+    // Structured templates are sent in JSON mode with the schema as an extra rule
+    const modelConfig = resolveTemplateModelConfig(template);
+    const systemMessage = template.outputSchema
+      ? buildSystemMessage(withOutputSchema(systemSpec, template.outputSchema), 'json_object').content
+      : buildSystemMessage(systemSpec, modelConfig.responseFormat).content;
+    const prompt = { systemSpec, modelConfig, systemMessage, firebaseData: null, hasNoExpenses: false };
+
+    // Check the declared variables before fetching any data
+    const templateVariables = this.promptService.resolveVariables(template, variables);
+
+    if (!template.firebaseData?.enabled || !userId) {
+      return { ...prompt, userPrompt: this.promptService.renderPrompt(template, templateVariables) };
+    }
+
+    // Firebase data is enabled, fetch it and append it to the prompt
+    console.log(`🔍 [DEBUG] Firebase data is enabled for template "${template.name}"`);
+    console.log(`   - Date Range Type: ${template.firebaseData.dateRange?.type || 'none'}`);
+    console.log(`   - Date Range Value: ${template.firebaseData.dateRange?.value || 'none'}`);
+    console.log(`   - Custom Start Date: ${template.firebaseData.dateRange?.startDate || 'none'}`);
+    console.log(`   - Custom End Date: ${template.firebaseData.dateRange?.endDate || 'none'}`);
+
+    let firebaseData: any;
+    try {
+      firebaseData = await this.fetchFirebaseData(userId, template.firebaseData);
+    } catch (error) {
+      console.error(`❌ [ERROR] Failed to fetch Firebase data:`, error);
+      throw new Error(`Failed to fetch Firebase data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    console.log(`🔍 [DEBUG] Firebase data fetched:`, {
+      hasUserData: !!firebaseData.userData,
+      expenseCount: firebaseData.expenses?.length || 0
+    });
+
+    if (firebaseData.expenses && firebaseData.expenses.length > 0) {
+      console.log(`   - Sample expense data (first):`, firebaseData.expenses[0]);
+    }
+
+    // Compute the statistics here rather than leaving the arithmetic to the model
+    if (firebaseData.expenses) {
+      firebaseData.analytics = analyzeExpenses(firebaseData.expenses, this.calculateDateRange(template.firebaseData.dateRange));
+    }
+
+    // Templates can loop over the expenses and use the user profile and analytics
+    const userPrompt = this.promptService.renderPrompt(template, templateVariables, {
+      user: firebaseData.userData ?? null,
+      expenses: firebaseData.expenses ?? [],
+      analytics: firebaseData.analytics ?? null,
+      homeCurrency: firebaseData.homeCurrency ?? null
+    });
+
+    if (firebaseData.expenses && firebaseData.expenses.length === 0) {
+      return { ...prompt, userPrompt, firebaseData, hasNoExpenses: true };
+    }
+
+    // Trim the data when the prompt would not fit the template's token budget
+    const tokenBudget = resolveTokenBudget(template, modelConfig);
+    const expenseFormat = template.firebaseData.expenseFormat ?? 'raw';
+    const budgeted = enrichPromptWithinBudget(
+      userPrompt,
+      {
+        userData: firebaseData.userData,
+        expenses: firebaseData.expenses,
+        analytics: expenseFormat === 'raw' ? undefined : firebaseData.analytics,
+        listExpenses: expenseFormat !== 'analytics'
+      },
+      tokenBudget,
+      enriched => estimatePromptTokens(systemMessage, enriched, modelConfig.model)
+    );
+    if (budgeted.steps.length > 0) {
+      console.log(`✂️ Trimmed Firebase data from ~${budgeted.originalTokens} to ~${budgeted.finalTokens} tokens (${budgeted.steps.join(', ')}) to fit the budget of ${tokenBudget}`);
+    }
+
+    console.log(`✅ [DEBUG] Prompt enriched with Firebase data`);
+    return {
+      ...prompt,
+      userPrompt: budgeted.prompt,
+      firebaseData,
+      promptBudget: {
+        model: modelConfig.model,
+        tokenBudget,
+        originalTokens: budgeted.originalTokens,
+        finalTokens: budgeted.finalTokens,
+        steps: budgeted.steps,
+        ...(budgeted.omittedExpenses ? { omittedExpenses: budgeted.omittedExpenses } : {})
+      }
+    };
+  }
+
   /**
    * Fetch Firebase data based on configuration
    */
@@ -209,7 +594,8 @@ export class TemplateExecutionService {
     // Fetch user data if requested
     if (config.includeUserData) {
       try {
-        data.userData = await this.firebaseService.getUserData(userId);
+        await this.firestoreLimiter.acquire();
+        data.userData = (await this.repositories.users.get(userId)) ?? null;
       } catch (error) {
         console.warn(`Could not fetch user data for ${userId}:`, error);
         data.userData = null;
@@ -221,7 +607,8 @@ export class TemplateExecutionService {
       const { startDate, endDate } = this.calculateDateRange(config.dateRange);
       
       try {
-        data.expenses = await this.firebaseService.getExpenseData(userId, startDate, endDate);
+        await this.firestoreLimiter.acquire();
+        data.expenses = await this.repositories.expenses.listByUser(userId, { startDate, endDate });
         
         // Filter to include only emotion data if specified
         if (!config.includeEmotions && data.expenses) {
@@ -236,6 +623,22 @@ export class TemplateExecutionService {
       }
     }
 
+    // Convert the amounts to the user's home currency so totals do not mix currencies
+    if (config.normalizeCurrency !== false && data.expenses?.length > 0) {
+      let profile = data.userData;
+      if (!config.includeUserData) {
+        try {
+          await this.firestoreLimiter.acquire();
+          profile = await this.repositories.users.get(userId);
+        } catch (error) {
+          console.warn(`Could not fetch the home currency of ${userId}:`, error);
+        }
+      }
+      const normalized = await this.currencyService.normalizeUserExpenses(data.expenses, profile);
+      data.expenses = normalized.expenses;
+      data.homeCurrency = normalized.homeCurrency;
+    }
+
     return data;
   }
 
@@ -278,66 +681,168 @@ export class TemplateExecutionService {
   }
 
   /**
-   * Enrich the user prompt with Firebase data
+   * Persist the current state of a job without interrupting the execution on storage errors
    */
-  private enrichPromptWithFirebaseData(prompt: string, firebaseData: any): string {
-    let enrichedPrompt = prompt + '\n\n--- USER DATA ---\n';
-
-    if (firebaseData.userData) {
-      enrichedPrompt += `User Information: ${JSON.stringify(firebaseData.userData, null, 2)}\n\n`;
+  private persistJob(job: TemplateExecutionJob): Promise<void> {
+    // Saves of a job run one after another; a save that has not started yet
+    // will write the latest state anyway, so further requests join it
+    const pending = this.jobSaves.get(job.jobId);
+    if (pending?.queued) {
+      return pending.promise;
     }
 
-    if (firebaseData.expenses && firebaseData.expenses.length > 0) {
-      enrichedPrompt += `Expense Data (${firebaseData.expenses.length} transactions):\n`;
-      enrichedPrompt += JSON.stringify(firebaseData.expenses, null, 2);
-    } else {
-      enrichedPrompt += 'No expense data available for the specified period.';
-    }
+    const entry = { promise: Promise.resolve(), queued: true };
+    entry.promise = (pending?.promise ?? Promise.resolve()).then(async () => {
+      entry.queued = false;
+      try {
+        await this.jobRepository.save(job);
+      } catch (error) {
+        console.error(`Failed to persist execution job ${job.jobId}:`, error);
+      }
+      if (this.jobSaves.get(job.jobId) === entry) {
+        this.jobSaves.delete(job.jobId);
+      }
+    });
+    this.jobSaves.set(job.jobId, entry);
+    return entry.promise;
+  }
 
-    return enrichedPrompt;
+  /**
+   * Persist the outcome of a single user of a job
+   */
+  private async recordUserResult(job: TemplateExecutionJob, result: UserExecutionResult): Promise<void> {
+    job.userResults = job.userResults || {};
+    job.userResults[result.uid] = result;
+    try {
+      await this.jobRepository.saveUserResult(job.jobId, result);
+    } catch (error) {
+      console.error(`Failed to persist result of user ${result.uid} for execution job ${job.jobId}:`, error);
+    }
   }
 
   /**
    * Start batch execution in the background
    */
-  private async startBatchExecution(jobId: string, template: PromptTemplate): Promise<void> {
-    const job: any = {
+  private async startBatchExecution(
+    jobId: string,
+    template: PromptTemplate,
+    trigger: TemplateExecutionJob['trigger'],
+    concurrency: number
+  ): Promise<void> {
+    const job: TemplateExecutionJob = {
       jobId,
       templateId: template.id,
       templateName: template.name,
       status: 'running',
+      trigger,
+      concurrency,
       startTime: new Date(),
-      processedUsers: 0,
       totalUsers: 0,
-      errors: [] as string[]
+      processedUsers: 0,
+      succeededUsers: 0,
+      failedUsers: 0,
+      errors: [],
+      userResults: {}
     };
 
-    this.executionJobs.set(jobId, job);
+    this.activeJobs.set(jobId, job);
+    await this.persistJob(job);
 
     // Execute asynchronously
-    setImmediate(async () => {
-      try {
-        const users = await this.firebaseService.getAllUsers();
-        job.totalUsers = users.length;
-
-        for (const user of users) {
-          try {
-            await this.executeTemplateForUser(template.id, user.uid);
-            job.processedUsers++;
-          } catch (error) {
-            const errorMsg = `Error processing user ${user.uid}: ${error instanceof Error ? error.message : 'Unknown error'}`;
-            console.error(errorMsg);
-            job.errors.push(errorMsg);
+    setImmediate(() => this.runBatchExecution(job, template));
+  }
+
+  /**
+   * Execute the template for every user that has not succeeded yet
+   */
+  private async runBatchExecution(job: TemplateExecutionJob, template: PromptTemplate): Promise<void> {
+    const { jobId } = job;
+    const pool = new AdaptiveWorkerPool({ maxConcurrency: job.concurrency || DEFAULT_BATCH_CONCURRENCY });
+
+    try {
+      const users = await this.repositories.users.list();
+      job.totalUsers = users.length;
+      await this.persistJob(job);
+
+      const pendingUsers = users.filter(user => job.userResults?.[user.uid]?.status !== 'succeeded');
+
+      await pool.run(
+        pendingUsers,
+        user => this.executeBatchUser(job, template, user.uid, pool),
+        () => this.cancelRequests.has(jobId)
+      );
+
+      if (this.cancelRequests.has(jobId)) {
+        job.status = 'cancelled';
+        console.log(`🛑 Execution job ${jobId} cancelled after ${job.processedUsers} of ${job.totalUsers} user(s)`);
+      } else {
+        job.status = job.failedUsers > 0 ? 'partially_completed' : 'completed';
+      }
+      job.endTime = new Date();
+    } catch (error) {
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : 'Unknown error';
+      job.endTime = new Date();
+    } finally {
+      await this.persistJob(job);
+      this.activeJobs.delete(jobId);
+      this.cancelRequests.delete(jobId);
+      this.tokenListeners.delete(jobId);
+    }
+  }
+
+  /**
+   * Execute the template for one user of a batch job
+   * The prompt is built once; only the model call is retried, with rate limits slowing down the whole pool
+   */
+  private async executeBatchUser(
+    job: TemplateExecutionJob,
+    template: PromptTemplate,
+    uid: string,
+    pool: AdaptiveWorkerPool
+  ): Promise<void> {
+    let result: UserExecutionResult;
+
+    try {
+      const { template: current, prompt } = await this.prepareTemplateExecution(template.id, uid);
+      // The provider does not retry on its own, so 429s reach the pool right away
+      const provider = getNonRetryingLLMProvider(prompt.modelConfig.provider);
+
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const { response, recommendationId } = await this.completeTemplateExecution(current, uid, prompt, provider);
+          this.tokenListeners.get(job.jobId)?.(response.usage?.totalTokens ?? 0);
+          result = { uid, status: 'succeeded', recommendationId, finishedAt: new Date() };
+          job.succeededUsers++;
+          pool.reportSuccess();
+          break;
+        } catch (error) {
+          if (!(error instanceof OpenAIServiceError) || !error.retryable || attempt >= BATCH_RETRY_OPTIONS.maxRetries) {
+            throw error;
           }
-        }
 
-        job.status = 'completed';
-        job.endTime = new Date();
-      } catch (error) {
-        job.status = 'failed';
-        job.error = error instanceof Error ? error.message : 'Unknown error';
-        job.endTime = new Date();
+          if (error instanceof OpenAIRateLimitError) {
+            // The shared limiter is paused, so the next attempt waits for it
+            pool.reportRateLimited();
+            job.rateLimitHits = (job.rateLimitHits || 0) + 1;
+            console.warn(`⏳ Rate limited while processing user ${uid}, reducing concurrency of job ${job.jobId} to ${pool.concurrency}`);
+          } else {
+            const delay = getBackoffDelay(attempt, BATCH_RETRY_OPTIONS, error.retryAfterMs);
+            console.warn(`⏳ ${error.message} while processing user ${uid} - retrying in ${Math.round(delay)}ms`);
+            await sleep(delay);
+          }
+        }
       }
-    });
+    } catch (error) {
+      const errorMsg = `Error processing user ${uid}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      console.error(errorMsg);
+      job.errors.push(errorMsg);
+      result = { uid, status: 'failed', error: errorMsg, finishedAt: new Date() };
+      job.failedUsers++;
+    }
+
+    job.processedUsers++;
+    await this.recordUserResult(job, result);
+    await this.persistJob(job);
   }
 }
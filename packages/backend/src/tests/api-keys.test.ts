@@ -0,0 +1,148 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import request from 'supertest';
+import { bearer } from './helpers/auth';
+
+process.env.RATE_LIMIT_MAX_REQUESTS = '30';
+
+import { app } from '../index';
+import { ApiKeyService } from '../services/api-key.service';
+import { FileApiKeyRepository } from '../repositories/api-key.repository';
+import { QuotaExceededError } from '../errors/quota-exceeded.error';
+
+const admin = bearer('root', true);
+
+const createKey = async (body: object) => {
+  const response = await request(app).post('/api/keys').set(admin).send(body);
+  expect(response.status).toBe(201);
+  return response.body.data as { apiKey: { id: string }; key: string };
+};
+
+describe('API keys', () => {
+  it('should issue keys that are only stored hashed', async () => {
+    const { apiKey, key } = await createKey({ name: 'cron box', scopes: ['executions:read'] });
+
+    expect(key).toMatch(new RegExp(`^mk_${apiKey.id}_[\\w-]{32}$`));
+    const stored = fs.readFileSync(path.join(process.env.DATA_DIR!, 'api-keys', 'api-keys.json'), 'utf-8');
+    expect(stored).toContain(apiKey.id);
+    expect(stored).not.toContain(key.split('_')[2]);
+
+    const list = await request(app).get('/api/keys').set(admin);
+    const listed = list.body.data.find((item: any) => item.id === apiKey.id);
+    expect(listed).toMatchObject({ name: 'cron box', scopes: ['executions:read'], createdBy: 'root', usage: { requestsThisMinute: 0 } });
+    expect(listed.secretHash).toBeUndefined();
+  });
+
+  it('should let keys act with their scopes only', async () => {
+    const { key } = await createKey({ name: 'reader', scopes: ['executions:read'] });
+
+    expect((await request(app).get('/api/prompts/executions').set('X-API-Key', key)).status).toBe(200);
+
+    const denied = await request(app).get('/api/prompts/templates').set('X-API-Key', key);
+    expect(denied.status).toBe(403);
+    expect(denied.body).toMatchObject({ code: 'permission_denied', permission: 'prompts:read', roles: [] });
+
+    expect((await request(app).get('/users/all').set('X-API-Key', key)).status).toBe(403);
+    expect((await request(app).get('/api/prompts/executions').set('X-API-Key', `${key}x`)).status).toBe(401);
+  });
+
+  it('should reject invalid requests and scopes the caller cannot grant', async () => {
+    expect((await request(app).post('/api/keys').set(admin).send({ name: 'x', scopes: ['everything'] })).status).toBe(400);
+    expect((await request(app).post('/api/keys').set(admin).send({ name: 'x', scopes: ['audit:read'], quotas: { tokensPerDay: 0 } })).status).toBe(400);
+    expect((await request(app).post('/api/keys').set(bearer('ada')).send({ name: 'x', scopes: ['audit:read'] })).status).toBe(403);
+
+    const { key } = await createKey({ name: 'manager', scopes: ['api-keys:manage', 'prompts:read'] });
+    const escalation = await request(app).post('/api/keys').set('X-API-Key', key).send({ name: 'x', scopes: ['templates:write'] });
+    expect(escalation.status).toBe(403);
+    expect(escalation.body.error).toContain('templates:write');
+  });
+
+  it('should rotate and revoke keys and audit both', async () => {
+    const { apiKey, key } = await createKey({ name: 'rotating', scopes: ['executions:read'] });
+
+    const rotation = await request(app).post(`/api/keys/${apiKey.id}/rotate`).set(admin);
+    expect(rotation.status).toBe(200);
+    const rotatedKey = rotation.body.data.key;
+    expect(rotatedKey).not.toBe(key);
+    expect((await request(app).get('/api/prompts/executions').set('X-API-Key', key)).status).toBe(401);
+    expect((await request(app).get('/api/prompts/executions').set('X-API-Key', rotatedKey)).status).toBe(200);
+
+    const revocation = await request(app).post(`/api/keys/${apiKey.id}/revoke`).set(admin);
+    expect(revocation.status).toBe(200);
+    expect(revocation.body.data.revokedAt).toBeDefined();
+    expect((await request(app).get('/api/prompts/executions').set('X-API-Key', rotatedKey)).status).toBe(401);
+    expect((await request(app).post(`/api/keys/${apiKey.id}/rotate`).set(admin)).status).toBe(409);
+    expect((await request(app).post('/api/keys/000000000000/revoke').set(admin)).status).toBe(404);
+
+    const audit = await request(app).get('/api/audit').set(admin).query({ action: 'api-key' });
+    const actions = audit.body.data.filter((entry: any) => entry.target.id === apiKey.id).map((entry: any) => entry.action);
+    expect(actions).toEqual(['api-key.revoke', 'api-key.rotate', 'api-key.create']);
+    expect(JSON.stringify(audit.body.data)).not.toContain(rotatedKey);
+  });
+
+  it('should not let keys rotate or revoke keys with scopes they do not have', async () => {
+    const { key } = await createKey({ name: 'manager', scopes: ['api-keys:manage'] });
+    const privileged = await createKey({ name: 'deployer', scopes: ['system-spec:write', 'executions:run'] });
+
+    const rotation = await request(app).post(`/api/keys/${privileged.apiKey.id}/rotate`).set('X-API-Key', key);
+    expect(rotation.status).toBe(403);
+    expect(rotation.body.error).toBe('Cannot rotate a key with scopes you do not have: system-spec:write, executions:run');
+    expect(rotation.body.data).toBeUndefined();
+
+    const revocation = await request(app).post(`/api/keys/${privileged.apiKey.id}/revoke`).set('X-API-Key', key);
+    expect(revocation.status).toBe(403);
+    expect((await request(app).get('/api/prompts/executions').set('X-API-Key', privileged.key)).status).toBe(403);
+
+    const peer = await createKey({ name: 'peer', scopes: ['api-keys:manage'] });
+    expect((await request(app).post(`/api/keys/${peer.apiKey.id}/rotate`).set('X-API-Key', key)).status).toBe(200);
+  });
+
+  it('should stop accepting keys revoked by another instance', async () => {
+    const { apiKey, key } = await createKey({ name: 'shared', scopes: ['executions:read'] });
+    expect((await request(app).get('/api/prompts/executions').set('X-API-Key', key)).status).toBe(200);
+
+    // A second instance writing to the same keys file
+    const otherInstance = new FileApiKeyRepository();
+    const record = await otherInstance.get(apiKey.id);
+    await otherInstance.save({ ...record!, revokedAt: new Date() });
+
+    expect((await request(app).get('/api/prompts/executions').set('X-API-Key', key)).status).toBe(401);
+  });
+
+  it('should enforce the request quota of each key separately', async () => {
+    const limited = await createKey({ name: 'limited', scopes: ['executions:read'], quotas: { requestsPerMinute: 2 } });
+    const other = await createKey({ name: 'other', scopes: ['executions:read'] });
+
+    await request(app).get('/api/prompts/executions').set('X-API-Key', limited.key).expect(200);
+    await request(app).get('/api/prompts/executions').set('X-API-Key', limited.key).expect(200);
+    const rejected = await request(app).get('/api/prompts/executions').set('X-API-Key', limited.key);
+
+    expect(rejected.status).toBe(429);
+    expect(rejected.body.error).toBe('API key exceeded its quota of 2 requests per minute');
+    expect(Number(rejected.headers['retry-after'])).toBeGreaterThan(0);
+    await request(app).get('/api/prompts/executions').set('X-API-Key', other.key).expect(200);
+  });
+
+  it('should stop a key once its token quota for the day is used up', () => {
+    const service = ApiKeyService.getInstance();
+    const apiKey = { id: 'tokens00test', scopes: [], quotas: { tokensPerDay: 1000 } };
+    const now = Date.UTC(2025, 0, 1, 23, 0);
+
+    service.consumeRequest(apiKey, now);
+    service.recordTokens(apiKey.id, 1200, now);
+
+    expect(() => service.consumeRequest(apiKey, now)).toThrow(QuotaExceededError);
+    expect(() => service.consumeRequest(apiKey, now)).toThrow('API key exceeded its quota of 1000 tokens per day');
+    expect(service.getUsage(apiKey.id, now)).toEqual({ requestsThisMinute: 1, tokensToday: 1200 });
+    expect(() => service.consumeRequest(apiKey, Date.UTC(2025, 0, 2, 0, 0))).not.toThrow();
+  });
+
+  it('should rate limit signed-in users by uid rather than by IP', async () => {
+    for (let i = 0; i < 30; i++) {
+      await request(app).get('/health').set(bearer('busy'));
+    }
+
+    expect((await request(app).get('/health').set(bearer('busy'))).status).toBe(429);
+    expect((await request(app).get('/health').set(bearer('calm'))).status).toBe(200);
+  });
+});
@@ -0,0 +1,80 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import request from 'supertest';
+import { bearer } from './helpers/auth';
+import { app } from '../index';
+import { FileAuditLogRepository } from '../repositories/audit-log.repository';
+
+const admin = bearer('root', true, 'root@example.com');
+const spec = (role: string) => ({ role, background: 'Finance', personality: 'Calm', rules: [] });
+
+describe('Audit log', () => {
+  it('should record who changed the system specification and what changed', async () => {
+    await request(app).put('/api/prompts/system-spec').set(admin).send(spec('Coach')).expect(200);
+    const update = await request(app).put('/api/prompts/system-spec').set(admin).set('X-Request-Id', 'req-42').send(spec('Mentor'));
+    expect(update.headers['x-request-id']).toBe('req-42');
+
+    const response = await request(app).get('/api/audit').set(admin).query({ action: 'system-spec.update', limit: 1 });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toHaveLength(1);
+    expect(response.body.data[0]).toMatchObject({
+      actor: { uid: 'root', email: 'root@example.com' },
+      action: 'system-spec.update',
+      target: { type: 'system-spec' },
+      before: { role: 'Coach' },
+      after: { role: 'Mentor' },
+      requestId: 'req-42'
+    });
+    expect(response.body.data[0].ip).toBeDefined();
+  });
+
+  it('should filter by actor, action type and time range', async () => {
+    await request(app).put('/api/prompts/system-spec').set(admin).send(spec('Planner')).expect(200);
+
+    const byType = await request(app).get('/api/audit').set(admin).query({ action: 'system-spec' });
+    expect(byType.body.data.length).toBeGreaterThan(0);
+    expect(byType.body.data.every((entry: any) => entry.action.startsWith('system-spec.'))).toBe(true);
+
+    const byOtherActor = await request(app).get('/api/audit').set(admin).query({ actor: 'someone-else' });
+    expect(byOtherActor.body.data).toEqual([]);
+
+    const byEmail = await request(app).get('/api/audit').set(admin).query({ actor: 'root@example.com' });
+    expect(byEmail.body.data.length).toBeGreaterThan(0);
+
+    const future = await request(app).get('/api/audit').set(admin).query({ from: new Date(Date.now() + 60000).toISOString() });
+    expect(future.body.data).toEqual([]);
+
+    const invalid = await request(app).get('/api/audit').set(admin).query({ action: 'everything' });
+    expect(invalid.status).toBe(400);
+  });
+
+  it('should only show the audit log to users with the audit:read permission', async () => {
+    const user = bearer('ada');
+    const response = await request(app).get('/api/audit').set(user);
+
+    expect(response.status).toBe(403);
+    expect(response.body.permission).toBe('audit:read');
+  });
+
+  it('should only ever append to the log file', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mymonji-audit-'));
+    const repository = new FileAuditLogRepository(dir);
+    const entry = (id: string, minutes: number) => ({
+      id,
+      timestamp: new Date(Date.UTC(2025, 0, 1, 12, minutes)),
+      actor: { uid: 'root' },
+      action: 'template.delete' as const,
+      target: { type: 'template' as const, id: 'old' }
+    });
+
+    await Promise.all([repository.append(entry('a', 0)), repository.append(entry('b', 1))]);
+    const firstLines = fs.readFileSync(path.join(dir, 'audit-log.jsonl'), 'utf-8');
+    await repository.append(entry('c', 2));
+
+    expect(fs.readFileSync(path.join(dir, 'audit-log.jsonl'), 'utf-8').startsWith(firstLines)).toBe(true);
+    expect((await repository.list()).map(e => e.id)).toEqual(['c', 'b', 'a']);
+    expect((await repository.list({ to: new Date(Date.UTC(2025, 0, 1, 12, 1)) })).map(e => e.id)).toEqual(['b', 'a']);
+  });
+});
@@ -0,0 +1,110 @@
+import * as crypto from 'crypto';
+import request from 'supertest';
+import { privateKey, tokenFor } from './helpers/auth';
+
+process.env.DATA_SOURCE = 'memory';
+
+import { app } from '../index';
+import { InMemoryStore } from '../repositories';
+import { createTokenVerifier, signTestToken } from '../providers/token-verifier.provider';
+import { signJwt } from '../utils/jwt';
+
+describe('Authentication', () => {
+  beforeEach(() => {
+    InMemoryStore.getInstance().reset({
+      users: [{ uid: 'ada', profile: { name: 'Ada' } }, { uid: 'bob', profile: { name: 'Bob' } }]
+    });
+  });
+
+  it('should reject requests without a token', async () => {
+    const response = await request(app).get('/users/all');
+
+    expect(response.status).toBe(401);
+    expect(response.headers['www-authenticate']).toBe('Bearer');
+    expect(response.body).toEqual({ success: false, error: 'Missing Authorization header with a Bearer ID token' });
+  });
+
+  it('should reject tokens that are expired, unsigned or signed with another key', async () => {
+    const otherKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+    const now = Math.floor(Date.now() / 1000);
+    const unsignedToken = [
+      Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString('base64url'),
+      Buffer.from(JSON.stringify({ iss: 'mymonji-test', aud: 'mymonji-test', sub: 'ada', exp: now + 60, admin: true })).toString('base64url'),
+      ''
+    ].join('.');
+    const rs256Header = Buffer.from(JSON.stringify({ alg: 'RS256', typ: 'JWT' })).toString('base64url');
+    const nullPayload = Buffer.from('null').toString('base64url');
+    const signSegments = (input: string) => `${input}.${crypto.sign('RSA-SHA256', Buffer.from(input), privateKey).toString('base64url')}`;
+
+    const cases: Array<[string, string]> = [
+      [signTestToken({ uid: 'ada', admin: true }, { privateKey, expiresInSeconds: -1 }), 'Token has expired'],
+      [unsignedToken, 'Token must be signed with RS256'],
+      [signTestToken({ uid: 'ada', admin: true }, { privateKey: otherKey }), 'Invalid token signature'],
+      [signJwt({ iss: 'elsewhere', aud: 'elsewhere', sub: 'ada', exp: now + 60 }, privateKey), 'Token was issued for another project'],
+      ['not-a-token', 'Malformed token'],
+      [`${nullPayload}.${nullPayload}.`, 'Malformed token'],
+      [signSegments(`${rs256Header}.${nullPayload}`), 'Malformed token']
+    ];
+
+    for (const [token, error] of cases) {
+      const response = await request(app).get('/users/all').set('Authorization', `Bearer ${token}`);
+      expect(response.status).toBe(401);
+      expect(response.body.error).toBe(error);
+    }
+  });
+
+  it('should only let admins list all users', async () => {
+    const forbidden = await request(app).get('/users/all').set('Authorization', `Bearer ${tokenFor('ada')}`);
+    expect(forbidden.status).toBe(403);
+    expect(forbidden.body.error).toBe('This operation requires an admin account');
+
+    const allowed = await request(app).get('/users/all').set('Authorization', `Bearer ${tokenFor('root', true)}`);
+    expect(allowed.status).toBe(200);
+    expect(allowed.body.data).toHaveLength(2);
+  });
+
+  it('should only let users reach their own uid', async () => {
+    // An invalid date is answered by the route itself, so a 400 shows the request got past authentication
+    const body = { startDate: 'yesterday' };
+
+    const own = await request(app).post('/user/ada/recommendations').set('Authorization', `Bearer ${tokenFor('ada')}`).send(body);
+    expect(own.status).toBe(400);
+
+    const other = await request(app).post('/user/bob/recommendations').set('Authorization', `Bearer ${tokenFor('ada')}`).send(body);
+    expect(other.status).toBe(403);
+    expect(other.body.error).toBe('Access to the data of user bob is not allowed');
+
+    const execute = await request(app).post('/api/prompts/templates/any/execute/bob').set('Authorization', `Bearer ${tokenFor('ada')}`);
+    expect(execute.status).toBe(403);
+
+    const admin = await request(app).post('/user/bob/recommendations').set('Authorization', `Bearer ${tokenFor('root', true)}`).send(body);
+    expect(admin.status).toBe(400);
+  });
+
+  it('should require an admin for template management', async () => {
+    const response = await request(app).get('/api/prompts/templates').set('Authorization', `Bearer ${tokenFor('ada')}`);
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should record the signed-in admin as the author of changes', async () => {
+    const token = tokenFor('root', true, 'root@example.com');
+    const spec = { role: 'Coach', background: 'Finance', personality: 'Calm', rules: [] };
+
+    await request(app).put('/api/prompts/system-spec').set('Authorization', `Bearer ${token}`).set('X-Author', 'someone else').send(spec).expect(200);
+    const history = await request(app).get('/api/prompts/system-spec/history').set('Authorization', `Bearer ${token}`);
+
+    expect(history.body.data[0].author).toBe('root@example.com');
+  });
+
+  it('should refuse to disable authentication or accept test tokens in production', () => {
+    const nodeEnv = process.env.NODE_ENV;
+    process.env.NODE_ENV = 'production';
+    try {
+      expect(() => createTokenVerifier('disabled')).toThrow('AUTH_MODE=disabled is not allowed when NODE_ENV is production');
+      expect(() => createTokenVerifier('test')).toThrow('AUTH_MODE=test is not allowed when NODE_ENV is production');
+    } finally {
+      process.env.NODE_ENV = nodeEnv;
+    }
+  });
+});
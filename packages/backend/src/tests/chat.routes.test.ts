@@ -1,6 +1,7 @@
 import request from 'supertest';
 import { app } from '../index';
 import { OpenAIService } from '../services/openai.service';
+import { getLLMProvider } from '../providers';
 
 // Mock the OpenAI service
 jest.mock('../services/openai.service');
@@ -12,7 +13,10 @@ describe('Chat Routes', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
-    mockOpenAIService = new MockedOpenAIService() as jest.Mocked<OpenAIService>;
+    // The routes send through the shared provider instance
+    mockOpenAIService = getLLMProvider('openai') as jest.Mocked<OpenAIService>;
+    mockOpenAIService.sendMessage.mockReset();
+    mockOpenAIService.validateApiKey.mockReset();
   });
 
   describe('POST /api/chat/send-message', () => {
@@ -181,6 +185,108 @@ describe('Chat Routes', () => {
     });
   });
 
+  describe('streaming', () => {
+    // The routes use their own service instance, so stub the shared prototype
+    const streamMessage = MockedOpenAIService.prototype.streamMessage as jest.Mock;
+
+    const parseEvents = (text: string) =>
+      text.trim().split('\n\n').map(block => {
+        const [eventLine, dataLine] = block.split('\n');
+        return { event: eventLine.replace('event: ', ''), data: JSON.parse(dataLine.replace('data: ', '')) };
+      });
+
+    const validRequest = {
+      systemSpec: {
+        role: 'Test Assistant',
+        background: 'Test background',
+        rules: ['Rule 1'],
+        personality: 'Helpful'
+      },
+      userMessage: { content: 'Hello, test message' }
+    };
+
+    beforeEach(() => {
+      streamMessage.mockReset().mockImplementation(async (_spec, _message, onDelta: (content: string) => void) => {
+        onDelta('Hello');
+        onDelta(' there!');
+        return {
+          content: 'Hello there!',
+          timestamp: new Date(),
+          usage: { promptTokens: 10, completionTokens: 3, totalTokens: 13 }
+        };
+      });
+    });
+
+    it('should stream deltas and finish with the complete response', async () => {
+      const response = await request(app)
+        .post('/api/chat/send-message/stream')
+        .send(validRequest)
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('text/event-stream');
+      expect(parseEvents(response.text)).toEqual([
+        { event: 'delta', data: { content: 'Hello' } },
+        { event: 'delta', data: { content: ' there!' } },
+        {
+          event: 'done',
+          data: expect.objectContaining({
+            content: 'Hello there!',
+            usage: { promptTokens: 10, completionTokens: 3, totalTokens: 13 }
+          })
+        }
+      ]);
+    });
+
+    it('should validate the request before opening the stream', async () => {
+      const response = await request(app)
+        .post('/api/chat/send-message/stream')
+        .send({ userMessage: { content: 'Hello' } })
+        .expect(400);
+
+      expect(response.body).toEqual({
+        success: false,
+        error: 'Both systemSpec and userMessage are required'
+      });
+      expect(streamMessage).not.toHaveBeenCalled();
+    });
+
+    it('should end the stream with an error event when OpenAI fails', async () => {
+      streamMessage.mockImplementation(async (_spec, _message, onDelta: (content: string) => void) => {
+        onDelta('Partial');
+        throw new Error('OpenAI API error: Connection reset');
+      });
+
+      const response = await request(app)
+        .post('/api/chat/send-message/stream')
+        .send(validRequest)
+        .expect(200);
+
+      expect(parseEvents(response.text)).toEqual([
+        { event: 'delta', data: { content: 'Partial' } },
+        { event: 'error', data: { error: 'OpenAI API error: Connection reset' } }
+      ]);
+    });
+
+    it('should stream template responses with debug info in the done event', async () => {
+      const response = await request(app)
+        .post('/api/chat/send-with-template/stream')
+        .send({ templateId: 'greeting', includeDebugInfo: true })
+        .expect(200);
+
+      const events = parseEvents(response.text);
+      expect(events.map(e => e.event)).toEqual(['delta', 'delta', 'done']);
+      expect(events[2].data.debug.promptSentToOpenAI).toBe('Hello! How can you help me today?');
+      expect(streamMessage.mock.calls[0][1].content).toBe('Hello! How can you help me today?');
+    });
+
+    it('should return 404 for unknown templates', async () => {
+      await request(app)
+        .post('/api/chat/send-with-template/stream')
+        .send({ templateId: 'does-not-exist' })
+        .expect(404);
+    });
+  });
+
   describe('POST /api/chat/validate-key', () => {
     it('should return true for valid API key', async () => {
       mockOpenAIService.validateApiKey.mockResolvedValue(true);
@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { convertAmount, getHomeCurrency, normalizeExpenses } from '../utils/currency';
+import { FileExchangeRateProvider, HttpExchangeRateProvider, parseExchangeRates } from '../providers/exchange-rate.provider';
+
+describe('Currency conversion', () => {
+  const rates = { base: 'EUR', rates: { EUR: 1, USD: 1.25, GBP: 0.8 } };
+
+  it('should convert between currencies through the base currency', () => {
+    expect(convertAmount(10, 'EUR', 'USD', rates)).toBe(12.5);
+    expect(convertAmount(10, 'USD', 'EUR', rates)).toBe(8);
+    expect(convertAmount(10, 'GBP', 'USD', rates)).toBe(15.63);
+    expect(() => convertAmount(10, 'JPY', 'EUR', rates)).toThrow('No exchange rate from JPY to EUR');
+  });
+
+  it('should normalise expenses to the home currency and keep the originals', () => {
+    const { expenses, unconvertedCurrencies } = normalizeExpenses([
+      { name: 'Hotel', amount: 100, currencyCode: 'USD' },
+      { name: 'Coffee', amount: 3, currencyCode: 'EUR' },
+      { name: 'Snack', amount: 2 },
+      { name: 'Sushi', amount: 1500, currencyCode: 'JPY' }
+    ], 'EUR', rates);
+
+    expect(expenses).toEqual([
+      { name: 'Hotel', amount: 80, currencyCode: 'EUR', originalAmount: 100, originalCurrencyCode: 'USD', exchangeRate: 0.8 },
+      { name: 'Coffee', amount: 3, currencyCode: 'EUR' },
+      { name: 'Snack', amount: 2, currencyCode: 'EUR' },
+      { name: 'Sushi', amount: 1500, currencyCode: 'JPY' }
+    ]);
+    expect(unconvertedCurrencies).toEqual(['JPY']);
+  });
+
+  it('should take the home currency from the user profile', () => {
+    const defaultCurrency = process.env.DEFAULT_HOME_CURRENCY;
+    try {
+      delete process.env.DEFAULT_HOME_CURRENCY;
+      expect(getHomeCurrency({ homeCurrency: 'chf', currencyCode: 'EUR' })).toBe('CHF');
+      expect(getHomeCurrency({ currency: 'gbp' })).toBe('GBP');
+      expect(getHomeCurrency({ name: 'Ada' })).toBeUndefined();
+
+      process.env.DEFAULT_HOME_CURRENCY = 'EUR';
+      expect(getHomeCurrency(null)).toBe('EUR');
+    } finally {
+      if (defaultCurrency === undefined) delete process.env.DEFAULT_HOME_CURRENCY;
+      else process.env.DEFAULT_HOME_CURRENCY = defaultCurrency;
+    }
+  });
+
+  it('should read the rates table file and reject invalid rates', async () => {
+    const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'rates-')), 'rates.json');
+    fs.writeFileSync(filePath, JSON.stringify({ base: 'USD', date: '2024-06-28', rates: { EUR: 0.93 } }));
+
+    await expect(new FileExchangeRateProvider(filePath).getRates()).resolves.toEqual({
+      base: 'USD',
+      date: '2024-06-28',
+      rates: { USD: 1, EUR: 0.93 }
+    });
+    expect(() => parseExchangeRates({ base: 'USD', rates: { EUR: -1 } }, 'test')).toThrow('invalid rate for "EUR"');
+    expect(() => parseExchangeRates({ rates: {} }, 'test')).toThrow('three-letter "base" currency');
+  });
+
+  it('should give up on an exchange rate endpoint that does not answer', async () => {
+    // Never answers, only rejects once the request is aborted
+    const fetchSpy = jest.spyOn(global, 'fetch').mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+    }));
+    try {
+      const provider = new HttpExchangeRateProvider('https://rates.example.com/latest', 1000, 20);
+      await expect(provider.getRates()).rejects.toThrow('timed out after 20ms');
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,78 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileExecutionJobRepository } from '../repositories/execution-job.repository';
+import type { TemplateExecutionJob } from '../types';
+
+const createJob = (overrides: Partial<TemplateExecutionJob> = {}): TemplateExecutionJob => ({
+  jobId: 'exec-1',
+  templateId: 'monthly-summary',
+  templateName: 'Monthly Summary',
+  status: 'running',
+  trigger: 'manual',
+  startTime: new Date('2025-01-01T00:00:00.000Z'),
+  totalUsers: 2,
+  processedUsers: 0,
+  succeededUsers: 0,
+  failedUsers: 0,
+  errors: [],
+  ...overrides
+});
+
+describe('FileExecutionJobRepository', () => {
+  let dir: string;
+  let repository: FileExecutionJobRepository;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'execution-jobs-'));
+    repository = new FileExecutionJobRepository(dir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should save and load a job with dates restored', async () => {
+    await repository.save(createJob({ endTime: new Date('2025-01-01T00:05:00.000Z') }));
+
+    const job = await repository.get('exec-1');
+
+    expect(job).toEqual(expect.objectContaining({
+      jobId: 'exec-1',
+      status: 'running',
+      userResults: {}
+    }));
+    expect(job?.startTime).toEqual(new Date('2025-01-01T00:00:00.000Z'));
+    expect(job?.endTime).toEqual(new Date('2025-01-01T00:05:00.000Z'));
+  });
+
+  it('should keep the latest result per user', async () => {
+    await repository.save(createJob());
+    await repository.saveUserResult('exec-1', { uid: 'user-1', status: 'failed', error: 'Timeout', finishedAt: new Date() });
+    await repository.saveUserResult('exec-1', { uid: 'user-2', status: 'succeeded', recommendationId: 'rec-2', finishedAt: new Date() });
+    await repository.saveUserResult('exec-1', { uid: 'user-1', status: 'succeeded', recommendationId: 'rec-1', finishedAt: new Date() });
+
+    const job = await repository.get('exec-1');
+
+    expect(Object.keys(job?.userResults || {})).toHaveLength(2);
+    expect(job?.userResults?.['user-1']).toEqual(expect.objectContaining({ status: 'succeeded', recommendationId: 'rec-1' }));
+    expect(job?.userResults?.['user-1'].finishedAt).toBeInstanceOf(Date);
+  });
+
+  it('should return undefined for unknown or invalid job IDs', async () => {
+    expect(await repository.get('exec-unknown')).toBeUndefined();
+    expect(await repository.get('../secrets')).toBeUndefined();
+  });
+
+  it('should list jobs newest first and apply filters', async () => {
+    await repository.save(createJob({ jobId: 'exec-1', status: 'completed', startTime: new Date('2025-01-01T00:00:00.000Z') }));
+    await repository.save(createJob({ jobId: 'exec-2', status: 'failed', startTime: new Date('2025-02-01T00:00:00.000Z') }));
+    await repository.save(createJob({ jobId: 'exec-3', status: 'completed', templateId: 'greeting', startTime: new Date('2025-03-01T00:00:00.000Z') }));
+
+    expect((await repository.list()).map(job => job.jobId)).toEqual(['exec-3', 'exec-2', 'exec-1']);
+    expect((await repository.list({ status: 'completed' })).map(job => job.jobId)).toEqual(['exec-3', 'exec-1']);
+    expect((await repository.list({ templateId: 'monthly-summary' })).map(job => job.jobId)).toEqual(['exec-2', 'exec-1']);
+    expect((await repository.list({ from: new Date('2025-01-15T00:00:00.000Z'), to: new Date('2025-02-15T00:00:00.000Z') })).map(job => job.jobId)).toEqual(['exec-2']);
+    expect(await repository.list({ limit: 1 })).toHaveLength(1);
+  });
+});
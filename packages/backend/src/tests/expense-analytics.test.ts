@@ -0,0 +1,68 @@
+import { analyzeExpenses } from '../utils/expense-analytics';
+
+describe('Expense analytics', () => {
+  const expenses = [
+    { name: 'Rent', amount: 900, category: 'Housing', currencyCode: 'EUR', date: '2024-01-01', emotion: 2 },
+    { name: 'Coffee Bar', amount: 4, category: 'Food', currencyCode: 'EUR', date: '2024-01-02', emotion: 4 },
+    { name: 'Coffee Bar', amount: 6, category: 'Food', currencyCode: 'EUR', date: '2024-01-03', emotion: 5 },
+    { name: 'Supermarket', amount: 90, category: 'Food', currencyCode: 'EUR', date: '2024-01-05', emotion: 3 },
+    { name: 'Train', amount: 20, category: 'Transport', currencyCode: 'USD', date: { _seconds: Date.UTC(2024, 0, 7) / 1000 } }
+  ];
+
+  it('should compute totals and averages per currency over the period', () => {
+    const analytics = analyzeExpenses(expenses, { startDate: '2024-01-01', endDate: '2024-01-14' });
+
+    expect(analytics.expenseCount).toBe(5);
+    expect(analytics).toEqual(expect.objectContaining({ from: '2024-01-01', to: '2024-01-14', dayCount: 14 }));
+    expect(analytics.totals).toEqual([
+      { currencyCode: 'EUR', count: 4, total: 1000, averageExpense: 250, dailyAverage: 71.43, weeklyAverage: 500 },
+      { currencyCode: 'USD', count: 1, total: 20, averageExpense: 20, dailyAverage: 1.43, weeklyAverage: 10 }
+    ]);
+  });
+
+  it('should widen the period to the expense dates', () => {
+    const analytics = analyzeExpenses(expenses, { startDate: '2024-01-03' });
+
+    expect(analytics).toEqual(expect.objectContaining({ from: '2024-01-01', to: '2024-01-07', dayCount: 7 }));
+  });
+
+  it('should rank categories and merchants by total', () => {
+    const analytics = analyzeExpenses(expenses, { topMerchants: 2 });
+
+    expect(analytics.categories.map(({ category, total, share }) => ({ category, total, share }))).toEqual([
+      { category: 'Housing', total: 900, share: 90 },
+      { category: 'Food', total: 100, share: 10 },
+      { category: 'Transport', total: 20, share: 100 }
+    ]);
+    expect(analytics.topMerchants).toEqual([
+      { name: 'Rent', currencyCode: 'EUR', count: 1, total: 900 },
+      { name: 'Supermarket', currencyCode: 'EUR', count: 1, total: 90 }
+    ]);
+  });
+
+  it('should describe the emotions and how they relate to categories', () => {
+    const { emotions } = analyzeExpenses(expenses);
+
+    expect(emotions?.count).toBe(4);
+    expect(emotions?.average).toBe(3.5);
+    expect(emotions?.distribution).toEqual([
+      { emotion: 2, count: 1, share: 25 },
+      { emotion: 3, count: 1, share: 25 },
+      { emotion: 4, count: 1, share: 25 },
+      { emotion: 5, count: 1, share: 25 }
+    ]);
+    expect(emotions?.amountCorrelation).toBeLessThan(0);
+    expect(emotions?.byCategory).toEqual([
+      { category: 'Housing', count: 1, averageEmotion: 2, difference: -1.5, correlation: -0.77 },
+      { category: 'Food', count: 3, averageEmotion: 4, difference: 0.5, correlation: 0.77 }
+    ]);
+  });
+
+  it('should leave out emotions when the expenses have none', () => {
+    const analytics = analyzeExpenses([{ name: 'Taxi', amount: 12 }]);
+
+    expect(analytics.emotions).toBeUndefined();
+    expect(analytics.dayCount).toBe(0);
+    expect(analytics.totals).toEqual([{ count: 1, total: 12, averageExpense: 12, dailyAverage: 0, weeklyAverage: 0 }]);
+  });
+});
@@ -28,6 +28,7 @@ jest.mock('../services/recommendation.service', () => ({
 
 import { FirebaseService } from '../services/firebase.service';
 import { RecommendationService } from '../services/recommendation.service';
+import { NotFoundError } from '../errors/http.error';
 
 describe('Firebase Routes Integration', () => {
   let mockFirebaseService: any;
@@ -40,8 +41,6 @@ describe('Firebase Routes Integration', () => {
     process.env.FIREBASE_PROJECT_ID = 'test-project';
     
     mockFirebaseService = {
-      getUserData: jest.fn(),
-      getAllUsers: jest.fn(),
       isConfigured: jest.fn().mockReturnValue(true)
     };
     
@@ -66,10 +65,11 @@ describe('Firebase Routes Integration', () => {
         .expect(200);
 
       expect(response.body).toEqual({
-        status: 'ok',
-        uptime: expect.any(Number)
+        success: true,
+        data: { status: 'ok', uptime: expect.any(Number) },
+        message: 'Health check completed successfully'
       });
-      expect(response.body.uptime).toBeGreaterThanOrEqual(0);
+      expect(response.body.data.uptime).toBeGreaterThanOrEqual(0);
     });
   });
 
@@ -192,6 +192,21 @@ describe('Firebase Routes Integration', () => {
       expect(response.body.success).toBe(true);
       expect(mockRecommendationService.startBatchJob).toHaveBeenCalledWith(requestBody);
     });
+
+    it('should return 400 when startDate is after endDate', async () => {
+      mockRecommendationService.startBatchJob.mockClear();
+
+      const response = await request(app)
+        .post('/batch/run')
+        .send({ startDate: '2025-08-31', endDate: '2025-08-25' })
+        .expect(400);
+
+      expect(response.body).toMatchObject({
+        success: false,
+        error: 'startDate must not be after endDate'
+      });
+      expect(mockRecommendationService.startBatchJob).not.toHaveBeenCalled();
+    });
   });
 
   describe('GET /batch/:jobId/status', () => {
@@ -219,7 +234,7 @@ describe('Firebase Routes Integration', () => {
 
     it('should return 404 for non-existent job', async () => {
       mockRecommendationService.getBatchJobStatus.mockImplementation(() => {
-        throw new Error('Batch job batch_nonexistent not found');
+        throw new NotFoundError('Batch job batch_nonexistent not found');
       });
 
       const response = await request(app)
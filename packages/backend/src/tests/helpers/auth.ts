@@ -0,0 +1,18 @@
+import * as crypto from 'crypto';
+import { signTestToken } from '../../providers/token-verifier.provider';
+
+// Verify tokens with a key pair of the test file instead of Firebase
+// Import this before the app so AUTH_MODE=test is set when the app reads it
+export const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+process.env.AUTH_MODE = 'test';
+process.env.AUTH_TEST_PUBLIC_KEY = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+/**
+ * ID token of a user, signed with the test key pair
+ */
+export const tokenFor = (uid: string, admin = false, email?: string): string => signTestToken({ uid, admin, email }, { privateKey });
+
+/**
+ * Authorization header carrying the ID token of a user
+ */
+export const bearer = (uid: string, admin = false, email?: string) => ({ Authorization: `Bearer ${tokenFor(uid, admin, email)}` });
@@ -0,0 +1,86 @@
+import { getLLMProvider, MockLLMProvider, OpenAICompatibleProvider } from '../providers';
+import { StructuredOutputError } from '../errors/structured-output.error';
+import type { SystemSpecification, UserMessage } from '../types';
+
+const systemSpec: SystemSpecification = {
+  role: 'Test Assistant',
+  background: 'Test background',
+  rules: ['Rule 1'],
+  personality: 'Helpful'
+};
+
+const message = (content: string): UserMessage => ({ content, timestamp: new Date() });
+
+describe('LLM providers', () => {
+  describe('MockLLMProvider', () => {
+    const provider = new MockLLMProvider({
+      responses: [
+        { match: '/^summari[sz]e/i', response: 'Here is your summary.' },
+        { match: 'advice', response: { result: [{ category: 'Food', advice: 'Cook more' }] } }
+      ],
+      fallback: 'No idea.'
+    });
+
+    it('should answer with the first response whose rule matches the prompt', async () => {
+      expect((await provider.sendMessage(systemSpec, message('Summarize my week'))).content).toBe('Here is your summary.');
+      expect((await provider.sendMessage(systemSpec, message('Give me ADVICE'))).content).toBe('{"result":[{"category":"Food","advice":"Cook more"}]}');
+      expect((await provider.sendMessage(systemSpec, message('Something else'))).content).toBe('No idea.');
+    });
+
+    it('should report usage and the requested model', async () => {
+      const response = await provider.sendMessage(systemSpec, message('Summarize'), { model: 'gpt-4o' });
+
+      expect(response.model).toBe('mock:gpt-4o');
+      expect(response.usage?.totalTokens).toBe((response.usage?.promptTokens || 0) + (response.usage?.completionTokens || 0));
+    });
+
+    it('should stream the answer in pieces', async () => {
+      const deltas: string[] = [];
+
+      const response = await provider.streamMessage(systemSpec, message('Summarize'), delta => deltas.push(delta));
+
+      expect(deltas).toEqual(['Here ', 'is ', 'your ', 'summary.']);
+      expect(response.content).toBe('Here is your summary.');
+    });
+
+    it('should validate structured output like any other provider', async () => {
+      const schema = { type: 'array', items: { type: 'object', required: ['category', 'advice'] } };
+
+      const response = await provider.sendStructuredMessage(systemSpec, message('advice please'), schema);
+      expect(response.parsed).toEqual([{ category: 'Food', advice: 'Cook more' }]);
+
+      await expect(provider.sendStructuredMessage(systemSpec, message('Summarize'), schema)).rejects.toBeInstanceOf(StructuredOutputError);
+    });
+
+    it('should load the bundled response script', async () => {
+      const bundled = new MockLLMProvider();
+
+      const response = await bundled.sendMessage(systemSpec, message('Hello! How can you help me today?'));
+      expect(response.content).toContain('MyMonji assistant');
+    });
+  });
+
+  describe('OpenAICompatibleProvider', () => {
+    it('should not be configured without a base URL', async () => {
+      const provider = new OpenAICompatibleProvider(undefined, undefined);
+
+      expect(provider.isConfigured()).toBe(false);
+      await expect(provider.sendMessage(systemSpec, message('Hello'))).rejects.toThrow('LLM_COMPATIBLE_BASE_URL');
+    });
+
+    it('should be configured with a base URL and no API key', () => {
+      expect(new OpenAICompatibleProvider('http://localhost:11434/v1', undefined).isConfigured()).toBe(true);
+    });
+  });
+
+  describe('getLLMProvider', () => {
+    it('should return one shared instance per provider', () => {
+      expect(getLLMProvider('mock')).toBe(getLLMProvider('mock'));
+      expect(getLLMProvider('mock').name).toBe('mock');
+    });
+
+    it('should reject unknown providers', () => {
+      expect(() => getLLMProvider('unknown' as any)).toThrow('Unknown LLM provider "unknown"');
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import {
+  ALLOWED_MODELS,
+  DEFAULT_MODEL_CONFIG,
+  MAX_TOKENS_LIMIT,
+  estimateCost,
+  resolveTokenBudget,
+  resolveModelConfig,
+  resolveTemplateModelConfig,
+  validateModelConfig
+} from '../config/models';
+import { estimatePromptTokens, estimateTokens } from '../utils/token-estimator';
+import type { PromptTemplate } from '../types';
+
+describe('model configuration', () => {
+  it('should always allow the default model', () => {
+    expect(ALLOWED_MODELS).toContain(DEFAULT_MODEL_CONFIG.model);
+  });
+
+  it('should accept valid configurations', () => {
+    expect(validateModelConfig(undefined)).toBeUndefined();
+    expect(validateModelConfig({ model: 'gpt-4o', temperature: 0, maxTokens: 2000, responseFormat: 'json_object' })).toBeUndefined();
+  });
+
+  it.each([
+    [{ provider: 'anthropic' }, 'provider must be one of: openai, openai-compatible, mock'],
+    [{ model: 'gpt-unknown' }, 'Model "gpt-unknown" is not allowed'],
+    [{ temperature: 3 }, 'temperature must be a number between 0 and 2'],
+    [{ maxTokens: 0 }, 'maxTokens must be an integer'],
+    [{ maxTokens: MAX_TOKENS_LIMIT + 1 }, 'maxTokens must be an integer'],
+    [{ responseFormat: 'xml' }, 'responseFormat must be one of: text, json_object']
+  ])('should reject %p', (config, error) => {
+    expect(validateModelConfig(config as any)).toContain(error);
+  });
+
+  it('should fill unset fields with the server defaults', () => {
+    expect(resolveModelConfig({ maxTokens: 200 })).toEqual({ ...DEFAULT_MODEL_CONFIG, maxTokens: 200 });
+  });
+
+  it('should reject templates whose file contains a model that is not allowed', () => {
+    const template = { id: 'edited-on-disk', modelConfig: { model: 'gpt-unknown' } } as PromptTemplate;
+    expect(() => resolveTemplateModelConfig(template)).toThrow('Invalid modelConfig in template edited-on-disk');
+  });
+
+  it('should estimate the cost of known models', () => {
+    expect(estimateCost({ provider: 'openai', model: 'gpt-4o' }, 1_000_000, 100_000)).toEqual({
+      currency: 'USD',
+      prompt: 2.5,
+      completion: 1,
+      total: 3.5
+    });
+    expect(estimateCost({ provider: 'mock', model: 'gpt-4o' }, 1000, 1000)?.total).toBe(0);
+    expect(estimateCost({ provider: 'openai-compatible', model: 'llama3' }, 1000, 1000)).toBeUndefined();
+  });
+
+  it('should limit the token budget to what the context window leaves for the prompt', () => {
+    const config = resolveModelConfig({ model: 'gpt-3.5-turbo', maxTokens: 1000 });
+
+    expect(resolveTokenBudget({} as PromptTemplate, config)).toBe(16385 - 1000);
+    expect(resolveTokenBudget({ tokenBudget: 4000 } as PromptTemplate, config)).toBe(4000);
+    expect(resolveTokenBudget({ tokenBudget: 100000 } as PromptTemplate, config)).toBe(16385 - 1000);
+  });
+
+  it('should name the environment variable holding invalid model settings', () => {
+    const loadWith = (name: string, value: string) => {
+      const previous = process.env[name];
+      process.env[name] = value;
+      try {
+        jest.isolateModules(() => require('../config/models'));
+      } finally {
+        if (previous === undefined) delete process.env[name];
+        else process.env[name] = previous;
+      }
+    };
+
+    expect(() => loadWith('OPENAI_MODEL_PRICING', '{"my-model": ')).toThrow('OPENAI_MODEL_PRICING is not valid JSON');
+    expect(() => loadWith('OPENAI_MODEL_PRICING', '{"my-model": {"input": 1}}')).toThrow('OPENAI_MODEL_PRICING has an invalid value for model "my-model"');
+    expect(() => loadWith('OPENAI_MODEL_CONTEXT_WINDOWS', '[32768]')).toThrow('OPENAI_MODEL_CONTEXT_WINDOWS must be a JSON object');
+    expect(() => loadWith('OPENAI_MODEL_CONTEXT_WINDOWS', '{"my-model": 32768}')).not.toThrow();
+  });
+
+  it('should estimate tokens with the ratio of the model and a safety margin', () => {
+    const text = 'x'.repeat(700);
+
+    expect(estimateTokens(text, 'gpt-4o')).toBe(200);
+    expect(estimateTokens(text, 'gpt-3.5-turbo')).toBe(219);
+    expect(estimateTokens(text, 'llama3')).toBe(234);
+    // 200 tokens per message plus 11 for the chat formatting, with a 10% margin
+    expect(estimatePromptTokens(text, text, 'gpt-4o')).toBe(Math.ceil(411 * 1.1));
+  });
+});
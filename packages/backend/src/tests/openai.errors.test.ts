@@ -0,0 +1,97 @@
+import express from 'express';
+import request from 'supertest';
+import {
+  OpenAIAuthenticationError,
+  OpenAIContextLengthError,
+  OpenAIInvalidRequestError,
+  OpenAIRateLimitError,
+  OpenAIServerError,
+  OpenAITimeoutError,
+  classifyOpenAIError,
+  parseRetryAfter
+} from '../errors/openai.errors';
+import { HttpError } from '../errors/http.error';
+import { errorHandler, getErrorStatusCode } from '../middleware/error.middleware';
+
+const apiError = (status: number | undefined, message: string, extra: Record<string, any> = {}) =>
+  Object.assign(new Error(message), { status, headers: {}, ...extra });
+
+describe('OpenAI errors', () => {
+  describe('classifyOpenAIError', () => {
+    it.each([
+      [apiError(429, 'Rate limit reached'), OpenAIRateLimitError, 429, true],
+      [Object.assign(new Error('Request timed out.'), { name: 'APIConnectionTimeoutError' }), OpenAITimeoutError, 504, true],
+      [apiError(400, 'Too long', { code: 'context_length_exceeded' }), OpenAIContextLengthError, 413, false],
+      [apiError(401, 'Incorrect API key provided'), OpenAIAuthenticationError, 503, false],
+      [apiError(500, 'The server had an error'), OpenAIServerError, 502, true],
+      [apiError(404, 'The model does not exist'), OpenAIInvalidRequestError, 400, false]
+    ])('should classify %p', (error, errorClass, statusCode, retryable) => {
+      const classified = classifyOpenAIError(error);
+
+      expect(classified).toBeInstanceOf(errorClass);
+      expect(classified.statusCode).toBe(statusCode);
+      expect(classified.retryable).toBe(retryable);
+      expect(classified.message).toBe(`OpenAI API error: ${error.message}`);
+    });
+
+    it('should keep the Retry-After delay', () => {
+      const classified = classifyOpenAIError(apiError(429, 'Rate limit reached', { headers: { 'retry-after': '7' } }));
+      expect(classified.retryAfterMs).toBe(7000);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should prefer retry-after-ms over retry-after', () => {
+      expect(parseRetryAfter({ 'retry-after-ms': '1500', 'retry-after': '2' })).toBe(1500);
+    });
+
+    it('should accept HTTP dates', () => {
+      const date = new Date(Date.now() + 10_000).toUTCString();
+      expect(parseRetryAfter({ 'retry-after': date })).toBeGreaterThan(8000);
+    });
+
+    it('should ignore missing or invalid values', () => {
+      expect(parseRetryAfter(undefined)).toBeUndefined();
+      expect(parseRetryAfter({ 'retry-after': 'soon' })).toBeUndefined();
+    });
+  });
+
+  describe('errorHandler', () => {
+    const appThrowing = (error: Error) => {
+      const app = express();
+      app.get('/fail', () => {
+        throw error;
+      });
+      app.use(errorHandler);
+      return app;
+    };
+
+    it('should map typed OpenAI errors to their HTTP status', async () => {
+      const response = await request(appThrowing(new OpenAIRateLimitError('Rate limit reached', { retryAfterMs: 2500 }))).get('/fail');
+
+      expect(response.status).toBe(429);
+      expect(response.headers['retry-after']).toBe('3');
+      expect(response.body).toEqual({ success: false, error: 'OpenAI API error: Rate limit reached' });
+    });
+
+    it('should map any HttpError to its status', async () => {
+      class TeapotError extends HttpError {
+        constructor() {
+          super('I am a teapot', 418);
+        }
+      }
+      const response = await request(appThrowing(new TeapotError())).get('/fail');
+
+      expect(response.status).toBe(418);
+      expect(response.body).toEqual({ success: false, error: 'I am a teapot' });
+      expect(getErrorStatusCode(new TeapotError())).toBe(418);
+    });
+
+    it('should answer other errors with 500', async () => {
+      const response = await request(appThrowing(new Error('Something broke'))).get('/fail');
+
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual({ success: false, error: 'Internal Server Error' });
+    });
+  });
+});
@@ -1,5 +1,7 @@
 import { OpenAIService } from '../services/openai.service';
 import { SystemSpecification, UserMessage } from '../types';
+import { OpenAIContentFilterError, OpenAIContextLengthError, OpenAIRateLimitError } from '../errors/openai.errors';
+import { StructuredOutputError } from '../errors/structured-output.error';
 
 // Mock OpenAI
 jest.mock('openai');
@@ -63,9 +65,15 @@ describe('OpenAIService', () => {
       expect(service).toBeInstanceOf(OpenAIService);
     });
 
-    it('should throw error when no API key is provided', () => {
+    it('should start without API key and reject requests until one is provided', async () => {
       delete process.env.OPENAI_API_KEY;
-      expect(() => new OpenAIService()).toThrow('OpenAI API key is required');
+      const service = new OpenAIService();
+
+      expect(service.isConfigured()).toBe(false);
+      await expect(service.sendMessage(
+        { role: 'Assistant', background: 'Test', rules: [], personality: 'Helpful' },
+        { content: 'Hello', timestamp: new Date() }
+      )).rejects.toThrow('OpenAI API key is required');
     });
   });
 
@@ -135,6 +143,29 @@ describe('OpenAIService', () => {
       );
     });
 
+    it('should apply the model configuration', async () => {
+      mockOpenAI.chat.completions.create.mockResolvedValue({
+        choices: [{ message: { content: '{"total": 42}' } }],
+        model: 'gpt-4o'
+      });
+
+      await openAIService.sendMessage(mockSystemSpec, mockUserMessage, {
+        model: 'gpt-4o',
+        temperature: 0.2,
+        maxTokens: 2500,
+        responseFormat: 'json_object'
+      });
+
+      const params = mockOpenAI.chat.completions.create.mock.calls[0][0];
+      expect(params).toEqual(expect.objectContaining({
+        model: 'gpt-4o',
+        temperature: 0.2,
+        max_tokens: 2500,
+        response_format: { type: 'json_object' }
+      }));
+      expect(params.messages[0].content).toContain('valid JSON object');
+    });
+
     it('should handle OpenAI API errors', async () => {
       const error = new Error('API rate limit exceeded');
       mockOpenAI.chat.completions.create.mockRejectedValue(error);
@@ -178,6 +209,158 @@ describe('OpenAIService', () => {
     });
   });
 
+  describe('retries', () => {
+    const successResponse = {
+      choices: [{ message: { content: 'Recovered' }, finish_reason: 'stop' }],
+      model: 'gpt-3.5-turbo'
+    };
+
+    const apiError = (status: number, message: string, extra: Record<string, any> = {}) =>
+      Object.assign(new Error(message), { status, headers: {}, ...extra });
+
+    beforeEach(() => {
+      openAIService = new OpenAIService('test-api-key', { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 10 });
+    });
+
+    it('should retry rate limits and server errors until the request succeeds', async () => {
+      mockOpenAI.chat.completions.create
+        .mockRejectedValueOnce(apiError(429, 'Rate limit reached', { headers: { 'retry-after-ms': '5' } }))
+        .mockRejectedValueOnce(apiError(503, 'Service unavailable'))
+        .mockResolvedValueOnce(successResponse);
+
+      const result = await openAIService.sendMessage(mockSystemSpec, mockUserMessage);
+
+      expect(result.content).toBe('Recovered');
+      expect(mockOpenAI.chat.completions.create).toHaveBeenCalledTimes(3);
+    });
+
+    it('should throw a typed error once retries are exhausted', async () => {
+      mockOpenAI.chat.completions.create.mockRejectedValue(apiError(429, 'Rate limit reached'));
+
+      await expect(openAIService.sendMessage(mockSystemSpec, mockUserMessage)).rejects.toBeInstanceOf(OpenAIRateLimitError);
+      expect(mockOpenAI.chat.completions.create).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry errors that cannot succeed on a retry', async () => {
+      mockOpenAI.chat.completions.create.mockRejectedValue(
+        apiError(400, 'This model\'s maximum context length is 4097 tokens', { code: 'context_length_exceeded' })
+      );
+
+      await expect(openAIService.sendMessage(mockSystemSpec, mockUserMessage)).rejects.toBeInstanceOf(OpenAIContextLengthError);
+      expect(mockOpenAI.chat.completions.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report responses stopped by the content filter', async () => {
+      mockOpenAI.chat.completions.create.mockResolvedValue({
+        choices: [{ message: { content: '' }, finish_reason: 'content_filter' }],
+        model: 'gpt-3.5-turbo'
+      });
+
+      await expect(openAIService.sendMessage(mockSystemSpec, mockUserMessage)).rejects.toBeInstanceOf(OpenAIContentFilterError);
+    });
+  });
+
+  describe('streamMessage', () => {
+    const chunks = (...items: any[]) => ({
+      async *[Symbol.asyncIterator]() {
+        yield* items;
+      }
+    });
+
+    it('should report deltas and return the complete response with usage', async () => {
+      mockOpenAI.chat.completions.create.mockResolvedValue(chunks(
+        { model: 'gpt-3.5-turbo', choices: [{ delta: { role: 'assistant', content: 'Hello' } }] },
+        { model: 'gpt-3.5-turbo', choices: [{ delta: { content: ' world' }, finish_reason: 'stop' }] },
+        { model: 'gpt-3.5-turbo', choices: [], usage: { prompt_tokens: 12, completion_tokens: 2, total_tokens: 14 } }
+      ));
+      const deltas: string[] = [];
+
+      const result = await openAIService.streamMessage(mockSystemSpec, mockUserMessage, delta => deltas.push(delta));
+
+      expect(deltas).toEqual(['Hello', ' world']);
+      expect(result).toEqual({
+        content: 'Hello world',
+        timestamp: expect.any(Date),
+        usage: { promptTokens: 12, completionTokens: 2, totalTokens: 14 },
+        model: 'gpt-3.5-turbo'
+      });
+      expect(mockOpenAI.chat.completions.create).toHaveBeenCalledWith(
+        expect.objectContaining({ stream: true, stream_options: { include_usage: true } }),
+        expect.anything()
+      );
+    });
+
+    it('should not retry once part of the answer was streamed', async () => {
+      openAIService = new OpenAIService('test-api-key', { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 10 });
+      mockOpenAI.chat.completions.create.mockResolvedValue({
+        async *[Symbol.asyncIterator]() {
+          yield { choices: [{ delta: { content: 'Partial' } }] };
+          throw Object.assign(new Error('Server error'), { status: 500 });
+        }
+      });
+
+      await expect(openAIService.streamMessage(mockSystemSpec, mockUserMessage, () => undefined)).rejects.toThrow('OpenAI API error: Server error');
+      expect(mockOpenAI.chat.completions.create).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('sendStructuredMessage', () => {
+    const schema = {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          category: { type: 'string' },
+          advice: { type: 'string' },
+          priority: { type: 'string', enum: ['high', 'medium', 'low'] }
+        },
+        required: ['category', 'advice', 'priority']
+      }
+    };
+    const completion = (content: string, totalTokens: number) => ({
+      choices: [{ message: { content } }],
+      usage: { prompt_tokens: totalTokens - 5, completion_tokens: 5, total_tokens: totalTokens },
+      model: 'gpt-3.5-turbo'
+    });
+    const advice = [{ category: 'Food', advice: 'Cook at home more often', priority: 'high' }];
+
+    it('should request JSON mode and return the validated value', async () => {
+      mockOpenAI.chat.completions.create.mockResolvedValue(completion(JSON.stringify({ result: advice }), 30));
+
+      const result = await openAIService.sendStructuredMessage(mockSystemSpec, mockUserMessage, schema);
+
+      expect(result.parsed).toEqual(advice);
+      expect(mockOpenAI.chat.completions.create).toHaveBeenCalledTimes(1);
+      const params = mockOpenAI.chat.completions.create.mock.calls[0][0];
+      expect(params.response_format).toEqual({ type: 'json_object' });
+      expect(params.messages[0].content).toContain(JSON.stringify(schema));
+    });
+
+    it('should repair invalid output once', async () => {
+      mockOpenAI.chat.completions.create
+        .mockResolvedValueOnce(completion(JSON.stringify({ result: [{ category: 'Food' }] }), 30))
+        .mockResolvedValueOnce(completion(JSON.stringify({ result: advice }), 50));
+
+      const result = await openAIService.sendStructuredMessage(mockSystemSpec, mockUserMessage, schema);
+
+      expect(result.parsed).toEqual(advice);
+      expect(result.usage?.totalTokens).toBe(80);
+      const repairPrompt = mockOpenAI.chat.completions.create.mock.calls[1][0].messages[1].content;
+      expect(repairPrompt).toContain(mockUserMessage.content);
+      expect(repairPrompt).toContain("must have required property 'advice'");
+    });
+
+    it('should fail when the repaired output is still invalid', async () => {
+      mockOpenAI.chat.completions.create.mockResolvedValue(completion('not json', 30));
+
+      const request = openAIService.sendStructuredMessage(mockSystemSpec, mockUserMessage, schema);
+
+      await expect(request).rejects.toBeInstanceOf(StructuredOutputError);
+      await expect(request).rejects.toThrow('Output is not valid JSON');
+      expect(mockOpenAI.chat.completions.create).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('validateApiKey', () => {
     it('should return true for valid API key', async () => {
       mockOpenAI.models.list.mockResolvedValue({ data: [] });
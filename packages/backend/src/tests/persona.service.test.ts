@@ -0,0 +1,56 @@
+import { PersonaService } from '../services/persona.service';
+import { PromptService } from '../services/prompt.service';
+import { SystemSpecification } from '../types';
+
+describe('PersonaService', () => {
+  const personaService = PersonaService.getInstance();
+  const createdIds: string[] = [];
+
+  const systemSpec: SystemSpecification = {
+    role: 'Test Persona',
+    background: 'Test background',
+    rules: ['Rule 1'],
+    personality: 'Calm'
+  };
+
+  afterAll(() => {
+    createdIds.forEach(id => personaService.deletePersona(id));
+  });
+
+  it('should include the default personas', () => {
+    const ids = personaService.getAllPersonas().map(persona => persona.id);
+
+    expect(ids).toEqual(expect.arrayContaining(['gentle-coach', 'terse-accountant']));
+    expect(personaService.getPersona('terse-accountant')?.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should create, update and delete a persona', () => {
+    const created = personaService.createPersona({ name: 'Tester', systemSpec });
+    createdIds.push(created.id);
+
+    expect(created.id).toMatch(/^persona-/);
+    expect(personaService.getPersona(created.id)?.systemSpec).toEqual(systemSpec);
+
+    const updated = personaService.updatePersona(created.id, { name: 'Renamed' });
+    expect(updated).toEqual(expect.objectContaining({ name: 'Renamed', systemSpec }));
+
+    expect(personaService.deletePersona(created.id)).toBe(true);
+    expect(personaService.getPersona(created.id)).toBeUndefined();
+    expect(personaService.deletePersona(created.id)).toBe(false);
+    expect(personaService.updatePersona(created.id, { name: 'Gone' })).toBeUndefined();
+  });
+
+  it('should not read files outside the personas directory', () => {
+    expect(personaService.getPersona('../templates/greeting')).toBeUndefined();
+  });
+
+  it('should resolve the persona system spec and fall back to the global one', () => {
+    const created = personaService.createPersona({ name: 'Resolver', systemSpec });
+    createdIds.push(created.id);
+    const globalSpec = PromptService.getInstance().getSystemSpec();
+
+    expect(personaService.resolveSystemSpec(created.id)).toEqual(systemSpec);
+    expect(personaService.resolveSystemSpec('missing-persona')).toEqual(globalSpec);
+    expect(personaService.resolveSystemSpec(undefined)).toEqual(globalSpec);
+  });
+});
@@ -0,0 +1,86 @@
+import { enrichPromptWithinBudget } from '../utils/prompt-budget';
+import { summarizeExpenses } from '../utils/expense-summary';
+import { estimateTokens } from '../utils/token-estimator';
+import { PromptBudgetError } from '../errors/prompt-budget.error';
+
+describe('Prompt token budget', () => {
+  // 60 expenses over 30 days, newest first like Firestore returns them
+  const expenses = Array.from({ length: 60 }, (_, index) => ({
+    name: `Expense number ${index}`,
+    amount: 10 + index,
+    category: index % 2 === 0 ? 'Food' : 'Transport',
+    currencyCode: 'EUR',
+    date: new Date(Date.UTC(2024, 0, 31 - Math.floor(index / 2))).toISOString(),
+    emotion: index % 5
+  }));
+  const data = { userData: { name: 'Ada', country: 'DE' }, expenses };
+  const countTokens = (prompt: string) => estimateTokens(prompt);
+
+  const fullTokens = enrichPromptWithinBudget('Analyse', data, Infinity, countTokens).originalTokens;
+
+  it('should keep the pretty-printed data when it fits', () => {
+    const result = enrichPromptWithinBudget('Analyse', data, fullTokens, countTokens);
+
+    expect(result.steps).toEqual([]);
+    expect(result.prompt).toContain('Expense Data (60 transactions):\n[\n  {');
+    expect(result.finalTokens).toBe(fullTokens);
+  });
+
+  it('should drop pretty-printing first', () => {
+    const result = enrichPromptWithinBudget('Analyse', data, fullTokens - 1, countTokens);
+
+    expect(result.steps).toEqual(['compact_json']);
+    expect(result.prompt).toContain('Expense Data (60 transactions):\n[{');
+    expect(result.omittedExpenses).toBeUndefined();
+  });
+
+  it('should list only the newest expenses and summarise the older ones', () => {
+    const compactTokens = enrichPromptWithinBudget('Analyse', data, fullTokens - 1, countTokens).finalTokens;
+    const result = enrichPromptWithinBudget('Analyse', data, Math.floor(compactTokens * 0.8), countTokens);
+
+    expect(result.steps).toEqual(['compact_json', 'truncate_old_expenses']);
+    expect(result.omittedExpenses).toBeGreaterThan(0);
+    expect(result.prompt).toContain(`most recent of 60 transactions`);
+    expect(result.prompt).toContain(`Summary of the ${result.omittedExpenses} older transactions by category`);
+    // The newest expense is kept, the oldest is not listed
+    expect(result.prompt).toContain('"Expense number 0"');
+    expect(result.prompt).not.toContain('"Expense number 59"');
+    expect(result.finalTokens).toBeLessThanOrEqual(Math.floor(compactTokens * 0.8));
+  });
+
+  it('should fall back to totals by category and day', () => {
+    const result = enrichPromptWithinBudget('Analyse', data, 1000, countTokens);
+
+    expect(result.steps).toEqual(['compact_json', 'summarize_expenses']);
+    expect(result.omittedExpenses).toBe(60);
+    expect(result.prompt).toContain('Expense Summary (60 transactions');
+    expect(result.prompt).not.toContain('Expense number');
+  });
+
+  it('should fail when even the summary does not fit', () => {
+    expect(() => enrichPromptWithinBudget('Analyse', data, 50, countTokens)).toThrow(PromptBudgetError);
+  });
+
+  it('should summarise expenses by category and day per currency', () => {
+    const summary = summarizeExpenses([
+      { amount: 10, category: 'Food', currencyCode: 'EUR', date: '2024-01-02', emotion: 2 },
+      { amount: 5.5, category: 'Food', currencyCode: 'EUR', date: '2024-01-01', emotion: 4 },
+      { amount: 20, category: 'Food', currencyCode: 'USD', date: '2024-01-01' },
+      { amount: 3, category: 'Fun', currencyCode: 'EUR', date: { _seconds: Date.UTC(2024, 0, 2) / 1000 } }
+    ]);
+
+    expect(summary.expenseCount).toBe(4);
+    expect(summary.from).toBe('2024-01-01');
+    expect(summary.to).toBe('2024-01-02');
+    expect(summary.byCategory).toEqual([
+      { category: 'Food', currencyCode: 'USD', count: 1, total: 20 },
+      { category: 'Food', currencyCode: 'EUR', count: 2, total: 15.5, averageEmotion: 3 },
+      { category: 'Fun', currencyCode: 'EUR', count: 1, total: 3 }
+    ]);
+    expect(summary.byDay).toEqual([
+      { date: '2024-01-01', currencyCode: 'EUR', count: 1, total: 5.5, averageEmotion: 4 },
+      { date: '2024-01-01', currencyCode: 'USD', count: 1, total: 20 },
+      { date: '2024-01-02', currencyCode: 'EUR', count: 2, total: 13, averageEmotion: 2 }
+    ]);
+  });
+});
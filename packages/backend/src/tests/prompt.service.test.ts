@@ -1,4 +1,5 @@
 import { PromptService } from '../services/prompt.service';
+import { NotFoundError } from '../errors/http.error';
 import { SystemSpecification, CreatePromptTemplateRequest, UpdatePromptTemplateRequest } from '../types';
 
 describe('PromptService', () => {
@@ -54,6 +55,104 @@ describe('PromptService', () => {
     });
   });
 
+  describe('System Specification History', () => {
+    const spec = (role: string): SystemSpecification => ({
+      role,
+      background: 'History background',
+      rules: ['Rule 1'],
+      personality: 'Precise'
+    });
+
+    it('should save every change as a version with its author', () => {
+      const before = promptService.getSystemSpecHistory()[0].version;
+
+      promptService.updateSystemSpec(spec('Versioned Assistant'), 'alice');
+      promptService.updateSystemSpec(spec('Versioned Assistant'), 'alice');
+
+      const [latest] = promptService.getSystemSpecHistory();
+      expect(latest).toEqual(expect.objectContaining({
+        version: before + 1,
+        spec: spec('Versioned Assistant'),
+        author: 'alice',
+        createdAt: expect.any(Date)
+      }));
+    });
+
+    it('should restore an older version as a new version', () => {
+      promptService.updateSystemSpec(spec('First'), 'alice');
+      const first = promptService.getSystemSpecHistory()[0].version;
+      promptService.updateSystemSpec(spec('Second'), 'bob');
+
+      const restored = promptService.restoreSystemSpec(first, 'carol');
+
+      expect(restored.role).toBe('First');
+      expect(promptService.getSystemSpecHistory()[0]).toEqual(expect.objectContaining({
+        version: first + 2,
+        author: 'carol',
+        restoredFromVersion: first
+      }));
+      expect(() => promptService.restoreSystemSpec(9999)).toThrow('System specification version 9999 not found');
+      expect(() => promptService.restoreSystemSpec(9999)).toThrow(NotFoundError);
+    });
+
+    it('should load the newest version on startup', () => {
+      promptService.updateSystemSpec(spec('Persisted Assistant'), 'alice');
+
+      (PromptService as any).instance = undefined;
+      promptService = PromptService.getInstance();
+
+      expect(promptService.getSystemSpec().role).toBe('Persisted Assistant');
+    });
+  });
+
+  describe('Template Versioning', () => {
+    it('should treat templates without saved versions as version 1', () => {
+      const [version] = promptService.getTemplateVersions('greeting')!;
+
+      expect(version).toEqual(expect.objectContaining({ version: 1, author: 'system' }));
+      expect(version.template.id).toBe('greeting');
+      expect(promptService.getTemplateVersions('non-existent-id')).toBeUndefined();
+    });
+
+    it('should keep every revision, diff and roll back', () => {
+      const created = promptService.createTemplate({
+        name: 'Versioned',
+        description: 'Versioned template',
+        userPrompt: 'Line 1\nLine 2'
+      }, 'alice');
+
+      try {
+        promptService.updateTemplate(created.id, { userPrompt: 'Line 1\nLine 2 changed' }, 'bob');
+        const updated = promptService.updateTemplate(created.id, { name: 'Versioned v3' }, 'carol');
+        expect(updated?.version).toBe(3);
+
+        const versions = promptService.getTemplateVersions(created.id)!;
+        expect(versions.map(v => [v.version, v.author])).toEqual([[3, 'carol'], [2, 'bob'], [1, 'alice']]);
+
+        const diff = promptService.diffTemplateVersions(created.id, 1, 3)!;
+        expect(diff.changes.map(change => change.field)).toEqual(['name', 'userPrompt']);
+        expect(diff.changes[1].lines).toEqual([
+          { type: 'unchanged', text: 'Line 1' },
+          { type: 'removed', text: 'Line 2' },
+          { type: 'added', text: 'Line 2 changed' }
+        ]);
+        expect(() => promptService.diffTemplateVersions(created.id, 1, 9)).toThrow('Version 9 of template');
+        expect(() => promptService.rollbackTemplate(created.id, 9)).toThrow(NotFoundError);
+
+        const restored = promptService.rollbackTemplate(created.id, 1, 'dave');
+        expect(restored).toEqual(expect.objectContaining({ name: 'Versioned', userPrompt: 'Line 1\nLine 2', version: 4 }));
+        expect(promptService.getTemplate(created.id)?.version).toBe(4);
+        expect(promptService.getTemplateVersions(created.id)![0]).toEqual(expect.objectContaining({
+          version: 4,
+          author: 'dave',
+          restoredFromVersion: 1
+        }));
+      } finally {
+        promptService.deleteTemplate(created.id);
+      }
+    });
+  });
+
   describe('Template Management', () => {
     it('should return default templates', () => {
       const templates = promptService.getAllTemplates();
@@ -186,20 +285,40 @@ describe('PromptService', () => {
       expect(result).toBe('Hello John, your balance is $100');
     });
 
-    it('should handle missing variables', () => {
+    it('should reject missing variables', () => {
       const template = 'Hello {{name}}, your balance is {{balance}}';
       const variables = {
         name: 'John'
       };
 
-      const result = promptService.applyVariables(template, variables);
-      expect(result).toBe('Hello John, your balance is {{balance}}');
+      expect(() => promptService.applyVariables(template, variables)).toThrow('Missing required variable "balance"');
     });
 
-    it('should return original template when no variables provided', () => {
-      const template = 'Hello {{name}}';
+    it('should return templates without variables unchanged', () => {
+      const template = 'Hello there';
       const result = promptService.applyVariables(template);
-      expect(result).toBe('Hello {{name}}');
+      expect(result).toBe('Hello there');
+    });
+
+    it('should apply declared types and defaults of a template', () => {
+      const template = promptService.createTemplate({
+        name: 'Budget check',
+        description: 'Typed variables',
+        userPrompt: '{{#if budget > 100}}Large{{else}}Small{{/if}} budget in {{ currency }}',
+        variables: [
+          { name: 'budget', type: 'number', required: true },
+          { name: 'currency', type: 'string', default: 'EUR' }
+        ]
+      });
+
+      try {
+        const variables = promptService.resolveVariables(template, { budget: '250' });
+        expect(variables).toEqual({ budget: 250, currency: 'EUR' });
+        expect(promptService.renderPrompt(template, variables)).toBe('Large budget in EUR');
+        expect(() => promptService.resolveVariables(template, { budget: 'lots' })).toThrow('Variable "budget" must be a number');
+      } finally {
+        promptService.deleteTemplate(template.id);
+      }
     });
 
     it('should handle multiple occurrences of same variable', () => {
@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import request from 'supertest';
+import { bearer } from './helpers/auth';
+
+const rolesFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'mymonji-roles-')), 'roles.json');
+fs.writeFileSync(rolesFile, JSON.stringify({
+  users: { vera: ['viewer'], eddie: ['editor'], olga: ['operator'], ada: ['admin'] }
+}));
+process.env.ROLES_FILE = rolesFile;
+
+import { app } from '../index';
+import { parseRoleConfig } from '../config/rbac';
+import { FirestoreRoleProvider } from '../providers/role.provider';
+
+describe('Role-based access control', () => {
+  it('should let every role read templates but not users without a role', async () => {
+    for (const uid of ['vera', 'eddie', 'olga', 'ada']) {
+      const response = await request(app).get('/api/prompts/templates').set(bearer(uid));
+      expect(response.status).toBe(200);
+    }
+
+    const response = await request(app).get('/api/prompts/templates').set(bearer('nobody'));
+    expect(response.status).toBe(403);
+    expect(response.body).toEqual({
+      success: false,
+      error: 'Missing permission "prompts:read"',
+      code: 'permission_denied',
+      permission: 'prompts:read',
+      roles: []
+    });
+  });
+
+  it('should let editors change templates but not start execute-all jobs', async () => {
+    // Invalid requests are answered by the routes themselves, so a 404 or 400 shows the permission check passed
+    const viewer = await request(app).delete('/api/prompts/templates/missing').set(bearer('vera'));
+    expect(viewer.status).toBe(403);
+    expect(viewer.body.permission).toBe('templates:write');
+    expect(viewer.body.roles).toEqual(['viewer']);
+
+    expect((await request(app).delete('/api/prompts/templates/missing').set(bearer('eddie'))).status).toBe(404);
+
+    const editor = await request(app).post('/api/prompts/templates/missing/execute-all').set(bearer('eddie')).send({ concurrency: 0 });
+    expect(editor.status).toBe(403);
+    expect(editor.body.permission).toBe('executions:run');
+
+    expect((await request(app).post('/api/prompts/templates/missing/execute-all').set(bearer('olga')).send({ concurrency: 0 })).status).toBe(400);
+  });
+
+  it('should only let editors preview templates with their own data', async () => {
+    const preview = (uid: string, userId?: string) =>
+      request(app).post('/api/prompts/templates/missing/preview').set(bearer(uid)).send({ userId });
+
+    const other = await preview('eddie', 'vera');
+    expect(other.status).toBe(403);
+    expect(other.body).toEqual({ success: false, error: 'Access to the data of user vera is not allowed' });
+
+    expect((await preview('eddie', 'eddie')).status).toBe(404);
+    expect((await preview('eddie')).status).toBe(404);
+    expect((await preview('ada', 'vera')).status).toBe(404);
+  });
+
+  it('should keep system specification changes to admins', async () => {
+    const spec = { role: 'Coach', background: 'Finance', personality: 'Calm', rules: [] };
+
+    const editor = await request(app).put('/api/prompts/system-spec').set(bearer('eddie')).send(spec);
+    expect(editor.status).toBe(403);
+    expect(editor.body.permission).toBe('system-spec:write');
+
+    expect((await request(app).put('/api/prompts/system-spec').set(bearer('ada')).send(spec)).status).toBe(200);
+  });
+
+  it('should treat the admin role like the admin claim', async () => {
+    expect((await request(app).get('/users/all').set(bearer('olga'))).status).toBe(403);
+    expect((await request(app).get('/users/all').set(bearer('ada'))).status).not.toBe(403);
+  });
+
+  it('should validate the roles file and keep every permission for admins', () => {
+    const config = parseRoleConfig({ permissions: { viewer: ['prompts:read'], admin: [] }, users: { vera: ['viewer'] } }, 'roles.json');
+
+    expect(config.permissions.viewer).toEqual(['prompts:read']);
+    expect(config.permissions.editor).toContain('templates:write');
+    expect(config.permissions.admin).toContain('system-spec:write');
+    expect(() => parseRoleConfig({ users: { vera: ['owner'] } }, 'roles.json')).toThrow('Roles of user vera in roles.json must be a list of roles');
+    expect(() => parseRoleConfig({ permissions: { viewer: ['everything'] } }, 'roles.json')).toThrow('Permissions of role "viewer"');
+  });
+
+  it('should read role assignments from Firestore', async () => {
+    const get = jest.fn().mockResolvedValue({ exists: true, data: () => ({ roles: ['operator', 'owner'] }) });
+    const firebaseService: any = { getFirestore: () => ({ collection: () => ({ doc: () => ({ get }) }) }) };
+    const provider = new FirestoreRoleProvider(firebaseService, 60000);
+
+    expect(await provider.getRoles('olga')).toEqual(['operator']);
+    expect(await provider.getRoles('olga')).toEqual(['operator']);
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,171 @@
+import { RecommendationService } from '../services/recommendation.service';
+import { OpenAIService } from '../services/openai.service';
+import { getRepositories, InMemoryStore } from '../repositories';
+
+jest.mock('../services/openai.service');
+
+process.env.DATA_SOURCE = 'memory';
+
+const MockedOpenAIService = OpenAIService as jest.MockedClass<typeof OpenAIService>;
+
+describe('RecommendationService', () => {
+  let recommendationService: RecommendationService;
+  let sendMessage: jest.Mock;
+
+  const store = InMemoryStore.getInstance();
+  const repositories = getRepositories();
+
+  // Within the default range of the last 7 days, newest first like the repository lists them
+  const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  const expenses = [
+    { amount: 40, category: 'Leisure', currencyCode: 'EUR', date: daysAgo(1), emotion: 5, name: 'Concert' },
+    { amount: 12.5, category: 'Food', currencyCode: 'EUR', date: daysAgo(2), emotion: 2, name: 'Takeout' }
+  ];
+
+  beforeAll(() => {
+    recommendationService = RecommendationService.getInstance();
+    sendMessage = MockedOpenAIService.mock.instances[0].sendMessage as jest.Mock;
+  });
+
+  beforeEach(() => {
+    store.reset({ users: [{ uid: 'user-1', profile: { name: 'Test User' }, expenses }] });
+    sendMessage.mockReset();
+  });
+
+  it('should parse JSON recommendations from the model response', async () => {
+    sendMessage.mockResolvedValue({
+      content: '```json\n{"recommendations": [{"category": "Food", "advice": "Cook at home twice a week."}]}\n```',
+      timestamp: new Date(),
+      usage: { promptTokens: 100, completionTokens: 20, totalTokens: 120 }
+    });
+
+    const listExpenses = jest.spyOn(repositories.expenses, 'listByUser');
+
+    const result = await recommendationService.generateUserRecommendations('user-1', {
+      startDate: daysAgo(3),
+      endDate: daysAgo(0)
+    });
+
+    expect(listExpenses).toHaveBeenCalledWith('user-1', { startDate: daysAgo(3), endDate: daysAgo(0) });
+    listExpenses.mockRestore();
+    expect(result).toEqual({
+      uid: 'user-1',
+      recommendations: [{ category: 'Food', advice: 'Cook at home twice a week.' }]
+    });
+    expect(await repositories.recommendations.listByUser('user-1')).toEqual([expect.objectContaining({
+      templateId: 'user-recommendations',
+      templateName: 'User Recommendations',
+      prompt: expect.stringContaining('Takeout'),
+      response: expect.any(String)
+    })]);
+  });
+
+  it('should fall back to "Category: advice" lines for non-JSON responses', async () => {
+    sendMessage.mockResolvedValue({
+      content: '1. **Food**: Plan your meals.\n2. Leisure: Keep enjoying concerts.',
+      timestamp: new Date()
+    });
+
+    const result = await recommendationService.generateUserRecommendations('user-1');
+
+    expect(result.recommendations).toEqual([
+      { category: 'Food', advice: 'Plan your meals.' },
+      { category: 'Leisure', advice: 'Keep enjoying concerts.' }
+    ]);
+  });
+
+  it('should include debug information when requested', async () => {
+    sendMessage.mockResolvedValue({
+      content: '[{"category": "Food", "advice": "Less takeout."}]',
+      timestamp: new Date(),
+      usage: { promptTokens: 100, completionTokens: 20, totalTokens: 120 }
+    });
+
+    const result = await recommendationService.generateUserRecommendations('user-1', { includeDebugInfo: true });
+
+    expect(result.debug).toEqual(expect.objectContaining({
+      firebaseUserData: { name: 'Test User' },
+      firebaseExpenseData: expenses,
+      openaiResponse: '[{"category": "Food", "advice": "Less takeout."}]',
+      openaiUsage: { promptTokens: 100, completionTokens: 20, totalTokens: 120 },
+      processingTime: expect.any(Number)
+    }));
+    expect(result.debug?.openaiInput.prompt).toContain('Concert');
+  });
+
+  it('should skip the OpenAI call when there are no expenses', async () => {
+    store.reset({ users: [{ uid: 'user-1', profile: { name: 'Test User' } }] });
+
+    const result = await recommendationService.generateUserRecommendations('user-1');
+
+    expect(result.recommendations).toEqual([]);
+    expect(sendMessage).not.toHaveBeenCalled();
+    expect(await repositories.recommendations.listByUser('user-1')).toEqual([]);
+  });
+
+  describe('batch jobs', () => {
+    const waitForJob = async (jobId: string) => {
+      for (let i = 0; i < 50; i++) {
+        const status = recommendationService.getBatchJobStatus(jobId);
+        if (status.status === 'completed' || status.status === 'failed') {
+          return status;
+        }
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      throw new Error(`Batch job ${jobId} did not finish`);
+    };
+
+    it('should generate recommendations for all users and report progress', async () => {
+      // user-2 only has expenses, without a profile document
+      store.reset({ users: [{ uid: 'user-1', profile: { name: 'Test User' }, expenses }, { uid: 'user-2', expenses }] });
+      jest.spyOn(repositories.users, 'list').mockResolvedValueOnce([{ uid: 'user-1', data: {} }, { uid: 'user-2', data: {} }]);
+      sendMessage.mockResolvedValue({
+        content: '[{"category": "Food", "advice": "Less takeout."}]',
+        timestamp: new Date(),
+        usage: { promptTokens: 100, completionTokens: 20, totalTokens: 120 }
+      });
+
+      const started = await recommendationService.startBatchJob({ startDate: daysAgo(3), endDate: daysAgo(0), includeDebugInfo: true });
+      expect(started).toEqual({ status: 'started', jobId: expect.stringMatching(/^batch_/) });
+
+      const status = await waitForJob(started.jobId);
+
+      expect(status).toEqual(expect.objectContaining({
+        jobId: started.jobId,
+        status: 'completed',
+        processedUsers: 2,
+        durationSec: expect.any(Number)
+      }));
+      expect(status.debug?.totalUsers).toBe(2);
+      expect(status.debug?.processingErrors).toEqual([expect.stringContaining('user-2')]);
+      expect(status.debug?.sampleOpenaiResponse).toBe('[{"category": "Food", "advice": "Less takeout."}]');
+      expect(status.debug?.sampleOpenaiUsage?.totalTokens).toBe(120);
+    });
+
+    it('should omit the debug sample unless requested', async () => {
+      sendMessage.mockResolvedValue({ content: '[]', timestamp: new Date() });
+
+      const started = await recommendationService.startBatchJob();
+      const status = await waitForJob(started.jobId);
+
+      expect(status.debug).toEqual({ totalUsers: 1, processingErrors: [] });
+    });
+
+    it('should forget finished jobs after a day', async () => {
+      sendMessage.mockResolvedValue({ content: '[]', timestamp: new Date() });
+      const finished = await recommendationService.startBatchJob();
+      await waitForJob(finished.jobId);
+
+      // Starting the next job a day later prunes the finished one
+      jest.spyOn(Date, 'now').mockReturnValueOnce(Date.now() + 25 * 60 * 60 * 1000);
+      const next = await recommendationService.startBatchJob();
+      await waitForJob(next.jobId);
+
+      expect(() => recommendationService.getBatchJobStatus(finished.jobId)).toThrow(`Batch job ${finished.jobId} not found`);
+    });
+
+    it('should throw for unknown jobs', () => {
+      expect(() => recommendationService.getBatchJobStatus('batch_unknown')).toThrow('Batch job batch_unknown not found');
+    });
+  });
+});
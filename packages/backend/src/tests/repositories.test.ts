@@ -0,0 +1,94 @@
+import * as path from 'path';
+import {
+  createRepositories,
+  InMemoryExpenseRepository,
+  InMemoryRecommendationRepository,
+  InMemoryStore,
+  InMemoryUserRepository
+} from '../repositories';
+
+describe('In-memory repositories', () => {
+  const store = InMemoryStore.getInstance();
+  const users = new InMemoryUserRepository(store);
+  const expenses = new InMemoryExpenseRepository(store);
+  const recommendations = new InMemoryRecommendationRepository(store);
+
+  beforeEach(() => {
+    store.reset({
+      users: [
+        {
+          uid: 'ada',
+          profile: { name: 'Ada', homeCurrency: 'EUR' },
+          expenses: [
+            { name: 'Coffee', amount: 3, category: 'Food', currencyCode: 'EUR', date: '2025-01-02', emotion: 4 },
+            { name: 'Rent', amount: 900, category: 'Housing', currencyCode: 'EUR', date: '2025-01-01', emotion: 2 },
+            { name: 'Late snack', amount: 5, category: 'Food', currencyCode: 'EUR', date: '2025-01-03', timestamp: '2025-01-03T23:30:00.000Z', emotion: 3 }
+          ]
+        }
+      ]
+    });
+  });
+
+  it('should get, list and save user profiles', async () => {
+    expect(await users.get('ada')).toEqual({ name: 'Ada', homeCurrency: 'EUR' });
+    expect(await users.get('unknown')).toBeUndefined();
+
+    await users.save('bob', { name: 'Bob' });
+    await expenses.add('carol', { name: 'Tea', amount: 2, category: 'Food', currencyCode: 'EUR', date: '2025-01-02', emotion: 3 });
+
+    // Users with only subcollections have no profile, like Firestore documents that were never written
+    expect(await users.list()).toEqual([
+      { uid: 'ada', data: { name: 'Ada', homeCurrency: 'EUR' } },
+      { uid: 'bob', data: { name: 'Bob' } }
+    ]);
+  });
+
+  it('should not share objects with the store', async () => {
+    const profile = await users.get('ada');
+    profile.name = 'Changed';
+
+    expect(await users.get('ada')).toEqual({ name: 'Ada', homeCurrency: 'EUR' });
+  });
+
+  it('should list expenses newest first within whole days of the date range', async () => {
+    expect((await expenses.listByUser('ada')).map(expense => expense.name)).toEqual(['Late snack', 'Coffee', 'Rent']);
+    expect((await expenses.listByUser('ada', { startDate: '2025-01-02', endDate: '2025-01-03' })).map(expense => expense.name))
+      .toEqual(['Late snack', 'Coffee']);
+    expect(await expenses.listByUser('ada', { endDate: '2024-12-31' })).toEqual([]);
+    expect(await expenses.listByUser('unknown')).toEqual([]);
+
+    const [latest] = await expenses.listByUser('ada');
+    expect(latest).toEqual({ name: 'Late snack', amount: 5, category: 'Food', currencyCode: 'EUR', date: '2025-01-03', emotion: 3 });
+  });
+
+  it('should save recommendations and list them newest first', async () => {
+    const firstId = await recommendations.add('ada', { templateId: 'greeting', templateName: 'Greeting', prompt: 'Hi', response: 'Hello!' });
+    const secondId = await recommendations.add('ada', {
+      templateId: 'advice',
+      templateName: 'Advice',
+      prompt: 'Advise me',
+      response: '{"tips":[]}',
+      parsed: { tips: [] },
+      templateVersion: 2
+    });
+
+    const saved = await recommendations.listByUser('ada');
+
+    expect(saved.map(recommendation => recommendation.id)).toEqual([secondId, firstId]);
+    expect(saved[0]).toEqual(expect.objectContaining({ parsed: { tips: [] }, templateVersion: 2, createdAt: expect.any(String) }));
+    expect(await recommendations.listByUser('ada', 1)).toHaveLength(1);
+    expect(await recommendations.listByUser('unknown')).toEqual([]);
+  });
+
+  it('should load the development fixture', () => {
+    const fixture = InMemoryStore.loadFixture(path.join(__dirname, '../../fixtures/dev-data.json'));
+    store.reset(fixture);
+
+    expect(store.listUsers().map(([uid]) => uid)).toEqual(fixture.users.map(user => user.uid));
+  });
+
+  it('should reject unknown data sources', () => {
+    expect(createRepositories('memory').source).toBe('memory');
+    expect(() => createRepositories('mysql')).toThrow('Unknown DATA_SOURCE "mysql"');
+  });
+});
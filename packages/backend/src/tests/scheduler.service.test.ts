@@ -0,0 +1,117 @@
+import { SchedulerService } from '../services/scheduler.service';
+import { PromptService } from '../services/prompt.service';
+import { TemplateExecutionService } from '../services/template-execution.service';
+import { AuditService } from '../services/audit.service';
+
+jest.mock('../services/template-execution.service', () => ({
+  TemplateExecutionService: {
+    getInstance: jest.fn()
+  }
+}));
+
+jest.mock('../services/audit.service', () => ({
+  ...jest.requireActual('../services/audit.service'),
+  AuditService: {
+    getInstance: jest.fn()
+  }
+}));
+
+describe('SchedulerService', () => {
+  let scheduler: SchedulerService;
+  let promptService: PromptService;
+
+  beforeEach(() => {
+    scheduler = SchedulerService.getInstance();
+    promptService = PromptService.getInstance();
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.useRealTimers();
+  });
+
+  describe('getNextRun', () => {
+    it('should calculate the next run in UTC', () => {
+      const from = new Date('2024-03-15T10:00:00.000Z');
+      const nextRun = SchedulerService.getNextRun('0 0 1 * *', 'UTC', from);
+      expect(nextRun.toISOString()).toBe('2024-04-01T00:00:00.000Z');
+    });
+
+    it('should respect the configured timezone', () => {
+      const from = new Date('2024-03-15T10:00:00.000Z');
+      const nextRun = SchedulerService.getNextRun('0 0 1 * *', 'America/New_York', from);
+      expect(nextRun.toISOString()).toBe('2024-04-01T04:00:00.000Z');
+    });
+
+    it('should reject invalid cron expressions', () => {
+      expect(() => SchedulerService.getNextRun('not a cron', 'UTC')).toThrow('Invalid cron expression');
+    });
+
+    it('should reject unknown timezones', () => {
+      expect(() => SchedulerService.getNextRun('0 0 * * *', 'Mars/Olympus')).toThrow('Invalid timezone');
+    });
+  });
+
+  describe('schedules', () => {
+    it('should schedule default templates with an enabled schedule', () => {
+      scheduler.start();
+
+      const schedules = scheduler.getSchedules();
+      const monthly = schedules.find(s => s.templateId === 'monthly-summary');
+
+      expect(monthly).toBeDefined();
+      expect(monthly?.cronExpression).toBe('0 0 1 * *');
+      expect(monthly?.nextRun).toBeInstanceOf(Date);
+      expect(schedules.find(s => s.templateId === 'greeting')).toBeUndefined();
+    });
+
+    it('should pick up created, updated and deleted templates without a restart', () => {
+      scheduler.start();
+
+      const template = promptService.createTemplate({
+        name: 'Scheduled Template',
+        description: 'Runs daily',
+        userPrompt: 'Daily prompt',
+        schedule: { enabled: true, cronExpression: '0 6 * * *', timezone: 'Europe/Berlin', runForAllUsers: true }
+      });
+
+      try {
+        expect(scheduler.getSchedules().find(s => s.templateId === template.id)?.timezone).toBe('Europe/Berlin');
+
+        promptService.updateTemplate(template.id, {
+          schedule: { enabled: true, cronExpression: 'invalid', runForAllUsers: true }
+        });
+        const invalid = scheduler.getSchedules().find(s => s.templateId === template.id);
+        expect(invalid?.nextRun).toBeUndefined();
+        expect(invalid?.error).toContain('Invalid cron expression');
+      } finally {
+        promptService.deleteTemplate(template.id);
+      }
+
+      expect(scheduler.getSchedules().find(s => s.templateId === template.id)).toBeUndefined();
+    });
+
+    it('should start a batch execution when a schedule is due', async () => {
+      jest.useFakeTimers({ now: new Date('2024-03-31T23:59:59.000Z') });
+
+      const executeTemplateForAllUsers = jest.fn().mockResolvedValue({ jobId: 'exec-1', status: 'pending', totalUsers: 2 });
+      (TemplateExecutionService.getInstance as jest.Mock).mockReturnValue({ executeTemplateForAllUsers });
+      const record = jest.fn().mockResolvedValue(undefined);
+      (AuditService.getInstance as jest.Mock).mockReturnValue({ record });
+
+      scheduler.start();
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(executeTemplateForAllUsers).toHaveBeenCalledWith('monthly-summary', 'schedule');
+      const monthly = scheduler.getSchedules().find(s => s.templateId === 'monthly-summary');
+      expect(monthly?.lastJobId).toBe('exec-1');
+      expect(monthly?.nextRun?.toISOString()).toBe('2024-05-01T00:00:00.000Z');
+      expect(record).toHaveBeenCalledWith(
+        { actor: { uid: 'system:scheduler' } },
+        'execution.start',
+        { type: 'template', id: 'monthly-summary' },
+        { after: { jobId: 'exec-1', status: 'pending', totalUsers: 2 } }
+      );
+    });
+  });
+});
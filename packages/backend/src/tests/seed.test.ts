@@ -0,0 +1,55 @@
+import { createRepositories, InMemoryStore } from '../repositories';
+import { seedRepositories } from '../scripts/seed';
+import { generateSyntheticData } from '../utils/synthetic-data';
+
+describe('Synthetic data', () => {
+  it('should generate the same data for the same seed', () => {
+    const options = { users: 3, days: 14, endDate: '2025-03-31', seed: 7 };
+
+    expect(generateSyntheticData(options)).toEqual(generateSyntheticData(options));
+    expect(generateSyntheticData({ ...options, seed: 8 })).not.toEqual(generateSyntheticData(options));
+  });
+
+  it('should generate users with profiles, expenses with emotions and recommendations', () => {
+    const { users } = generateSyntheticData({ users: 3, days: 14, endDate: '2025-03-31' });
+
+    expect(users.map(user => user.uid)).toEqual(['synthetic-user-1', 'synthetic-user-2', 'synthetic-user-3']);
+    for (const user of users) {
+      expect(user.profile.homeCurrency).toMatch(/^[A-Z]{3}$/);
+      expect(user.expenses!.length).toBeGreaterThan(0);
+      expect(user.recommendations).toHaveLength(1);
+
+      for (const expense of user.expenses!) {
+        expect(expense.date >= '2025-03-18' && expense.date <= '2025-03-31').toBe(true);
+        expect(expense.emotion).toBeGreaterThanOrEqual(1);
+        expect(expense.emotion).toBeLessThanOrEqual(5);
+        expect(expense.amount).toBeGreaterThan(0);
+      }
+    }
+  });
+
+  it('should seed the generated data into the repositories', async () => {
+    const store = InMemoryStore.getInstance();
+    store.reset();
+    const repositories = createRepositories('memory');
+    const fixture = generateSyntheticData({ users: 2, days: 10, endDate: '2025-03-31' });
+
+    const counts = await seedRepositories(repositories, fixture);
+
+    expect(counts.users).toBe(2);
+    expect(counts.expenses).toBe(fixture.users[0].expenses!.length + fixture.users[1].expenses!.length);
+    expect(counts.recommendations).toBe(2);
+    expect(await repositories.users.list()).toHaveLength(2);
+    expect(await repositories.users.get('synthetic-user-1')).toEqual(fixture.users[0].profile);
+    expect(await repositories.expenses.listByUser('synthetic-user-2', { startDate: '2025-03-22', endDate: '2025-03-31' }))
+      .toHaveLength(fixture.users[1].expenses!.length);
+    expect(await repositories.recommendations.listByUser('synthetic-user-1')).toHaveLength(1);
+
+    // Seeding again replaces the documents instead of adding duplicates
+    await seedRepositories(repositories, fixture);
+    expect(await repositories.expenses.listByUser('synthetic-user-1')).toHaveLength(fixture.users[0].expenses!.length);
+    expect(await repositories.recommendations.listByUser('synthetic-user-1')).toHaveLength(1);
+
+    store.reset();
+  });
+});
@@ -0,0 +1,9 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Keep runtime data written by tests (execution jobs etc.) out of the working tree
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'mymonji-test-'));
+
+// Route tests act as a local admin; tests of the authentication itself switch to AUTH_MODE=test
+process.env.AUTH_MODE = 'disabled';
@@ -0,0 +1,33 @@
+import { buildSchemaInstruction, parseStructuredOutput, validateOutputSchema } from '../utils/structured-output';
+
+describe('structured output', () => {
+  const objectSchema = {
+    type: 'object',
+    properties: { total: { type: 'number' } },
+    required: ['total']
+  };
+  const arraySchema = { type: 'array', items: { type: 'string' } };
+
+  it('should validate output schemas', () => {
+    expect(validateOutputSchema(undefined)).toBeUndefined();
+    expect(validateOutputSchema(objectSchema)).toBeUndefined();
+    expect(validateOutputSchema([objectSchema])).toBe('outputSchema must be a JSON Schema object');
+    expect(validateOutputSchema({ type: 'invalid-type' })).toMatch(/^outputSchema is not a valid JSON Schema/);
+  });
+
+  it('should parse object output as is', () => {
+    expect(parseStructuredOutput('{"total": 42}', objectSchema)).toEqual({ value: { total: 42 }, errors: [] });
+    expect(parseStructuredOutput('```json\n{"total": 42}\n```', objectSchema).value).toEqual({ total: 42 });
+  });
+
+  it('should unwrap schemas without an object root', () => {
+    expect(buildSchemaInstruction(arraySchema)).toContain('{"result": ...}');
+    expect(parseStructuredOutput('{"result": ["a", "b"]}', arraySchema)).toEqual({ value: ['a', 'b'], errors: [] });
+  });
+
+  it('should report validation errors', () => {
+    expect(parseStructuredOutput('{"total": "42"}', objectSchema).errors).toEqual(['/total must be number']);
+    expect(parseStructuredOutput('{}', objectSchema).errors).toEqual(["/ must have required property 'total'"]);
+    expect(parseStructuredOutput('{"total":', objectSchema).errors[0]).toMatch(/^Output is not valid JSON/);
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  renderTemplate,
+  resolveTemplateVariables,
+  validateTemplateSyntax,
+  validateVariableDefinitions
+} from '../utils/template-engine';
+import { TemplateSyntaxError, TemplateVariableError } from '../errors/template.errors';
+
+describe('Template engine', () => {
+  const expenses = [
+    { name: 'Coffee', amount: 3.5, category: 'Food', currencyCode: 'EUR' },
+    { name: 'Train', amount: 42, category: 'Transport', currencyCode: 'USD' }
+  ];
+
+  describe('renderTemplate', () => {
+    it('should output variables and nested properties', () => {
+      expect(renderTemplate('Hi {{ user.name }}, {{count}} new', { user: { name: 'Ada' }, count: 3 })).toBe('Hi Ada, 3 new');
+    });
+
+    it('should leave keys with regex characters alone', () => {
+      expect(renderTemplate('Total (USD): {{total}}', { total: '10', 'a.*': 'x' })).toBe('Total (USD): 10');
+    });
+
+    it('should apply filters with arguments', () => {
+      const context = { amount: 1234.5, name: ' ada ', tags: ['a', 'b'], date: '2024-03-05T10:00:00Z' };
+
+      expect(renderTemplate('{{ amount | currency }}', context)).toBe('$1,234.50');
+      expect(renderTemplate('{{ amount | currency: "EUR" }}', context)).toBe('€1,234.50');
+      expect(renderTemplate('{{ amount | currency: "XYZ1" }}', context)).toBe('1234.50 XYZ1');
+      expect(renderTemplate('{{ name | trim | upper }}', context)).toBe('ADA');
+      expect(renderTemplate('{{ tags | join: " / " }}', context)).toBe('a / b');
+      expect(renderTemplate('{{ date | date }}', context)).toBe('2024-03-05');
+      expect(renderTemplate('{{ missing.value | default: "n/a" }}', { missing: {} })).toBe('n/a');
+    });
+
+    it('should evaluate conditionals', () => {
+      const template = '{{#if total > 100}}high{{else if total}}low{{else}}none{{/if}}';
+
+      expect(renderTemplate(template, { total: 150 })).toBe('high');
+      expect(renderTemplate(template, { total: 20 })).toBe('low');
+      expect(renderTemplate(template, { total: 0 })).toBe('none');
+      expect(renderTemplate('{{#if !items}}empty{{/if}}', { items: [] })).toBe('empty');
+      expect(renderTemplate('{{#if mood == "happy"}}yay{{/if}}', { mood: 'happy' })).toBe('yay');
+    });
+
+    it('should loop over lists without leaving empty lines for block tags', () => {
+      const template = [
+        'Expenses:',
+        '{{#each expenses as expense}}',
+        '{{ loop.index }}. {{ expense.name }} - {{ expense.amount | currency: expense.currencyCode }}',
+        '{{else}}',
+        'No expenses',
+        '{{/each}}',
+        'Total: {{ expenses | sum: "amount" | number }}'
+      ].join('\n');
+
+      expect(renderTemplate(template, { expenses })).toBe('Expenses:\n1. Coffee - €3.50\n2. Train - $42.00\nTotal: 45.50');
+      expect(renderTemplate(template, { expenses: [] })).toBe('Expenses:\nNo expenses\nTotal: 0.00');
+    });
+
+    it('should throw naming variables that were not supplied', () => {
+      expect(() => renderTemplate('Hello {{ name }}', {})).toThrow(TemplateVariableError);
+      expect(() => renderTemplate('Hello {{ name }}', {})).toThrow('Missing required variable "name"');
+    });
+
+    it('should not expose inherited object members as variables, properties or filters', () => {
+      expect(() => renderTemplate('{{ constructor }}', {})).toThrow('Missing required variable "constructor"');
+      expect(() => renderTemplate('{{ toString }}', { name: 'Ada' })).toThrow(TemplateVariableError);
+      expect(renderTemplate('{{ user.constructor }}|{{ user.name.length }}', { user: { name: 'Ada' } })).toBe('|3');
+      expect(validateTemplateSyntax('{{ x | valueOf }}')).toContain('unknown filter "valueOf"');
+    });
+
+    it('should keep decimal places of number filters within range', () => {
+      expect(renderTemplate('{{ amount | number: 200 }}', { amount: 1.5 })).toBe((1.5).toFixed(20));
+      expect(renderTemplate('{{ amount | number: -3 }}', { amount: 1.5 })).toBe('2');
+      expect(renderTemplate('{{ share | percent: 1000 }}', { share: 0.5 })).toBe(`${(50).toFixed(20)}%`);
+    });
+
+    it('should report syntax errors with the line', () => {
+      expect(() => renderTemplate('Line one\n{{#if ready}}\nnever closed', { ready: true })).toThrow(TemplateSyntaxError);
+      expect(validateTemplateSyntax('Line one\n{{#if ready}}\nnever closed')).toBe('Template syntax error on line 2: {{#if}} is never closed with {{/if}}');
+      expect(validateTemplateSyntax('{{ amount | shout }}')).toContain('unknown filter "shout"');
+      expect(validateTemplateSyntax('{{/each}}')).toContain('without a matching block');
+      expect(validateTemplateSyntax('{{! a comment }}{{ a | currency: "EUR" }}')).toBeUndefined();
+    });
+  });
+
+  describe('declared variables', () => {
+    const definitions = [
+      { name: 'budget', type: 'number' as const, required: true },
+      { name: 'strict', type: 'boolean' as const, default: false },
+      { name: 'since', type: 'date' as const },
+      { name: 'tone', type: 'string' as const }
+    ];
+
+    it('should convert values to the declared types and apply defaults', () => {
+      const resolved = resolveTemplateVariables(definitions, { budget: '12.5', since: '2024-01-01', extra: 'kept' });
+
+      expect(resolved).toEqual({
+        budget: 12.5,
+        strict: false,
+        since: new Date('2024-01-01'),
+        tone: undefined,
+        extra: 'kept'
+      });
+      expect(renderTemplate('{{#if tone}}{{tone}}{{else}}neutral{{/if}}', resolved)).toBe('neutral');
+    });
+
+    it('should reject missing required variables and invalid values', () => {
+      expect(() => resolveTemplateVariables(definitions, {})).toThrow('Missing required variable "budget"');
+      expect(() => resolveTemplateVariables(definitions, { budget: 1, strict: 'yes' })).toThrow('Variable "strict" must be a boolean');
+
+      try {
+        resolveTemplateVariables(definitions, { budget: '' });
+      } catch (error) {
+        expect((error as TemplateVariableError).variable).toBe('budget');
+        expect((error as TemplateVariableError).statusCode).toBe(400);
+      }
+    });
+
+    it('should validate variable declarations', () => {
+      expect(validateVariableDefinitions(definitions)).toBeUndefined();
+      expect(validateVariableDefinitions({})).toBe('variables must be an array');
+      expect(validateVariableDefinitions([{ name: 'my var', type: 'string' }])).toContain('letters, digits and underscores');
+      expect(validateVariableDefinitions([{ name: 'a', type: 'string' }, { name: 'a', type: 'number' }])).toBe('Variable "a" is declared more than once');
+      expect(validateVariableDefinitions([{ name: 'a', type: 'money' }])).toContain('must have one of the types');
+      expect(validateVariableDefinitions([{ name: 'a', type: 'number', default: 'ten' }])).toBe('Default of variable "a" is not a number');
+    });
+  });
+});
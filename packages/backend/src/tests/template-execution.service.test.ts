@@ -0,0 +1,427 @@
+import { TemplateExecutionService } from '../services/template-execution.service';
+import { PromptService } from '../services/prompt.service';
+import { getLLMProvider, getNonRetryingLLMProvider } from '../providers';
+import { getRepositories, InMemoryStore } from '../repositories';
+import { OpenAIRateLimitError } from '../errors/openai.errors';
+import type { TemplateExecutionJob } from '../types';
+import type { DataFixture } from '../repositories';
+import { setTimeout as sleep } from 'timers/promises';
+
+jest.mock('../services/openai.service');
+
+process.env.DATA_SOURCE = 'memory';
+
+describe('TemplateExecutionService batch execution', () => {
+  let service: TemplateExecutionService;
+  let sendMessage: jest.Mock;
+  // Batch executions use providers without retries of their own
+  let batchSendMessage: jest.Mock;
+
+  const store = InMemoryStore.getInstance();
+  const repositories = getRepositories();
+  const users = ['user-1', 'user-2', 'user-3'].map(uid => ({ uid, profile: {} }));
+  const withUser = (uid: string, user: Omit<DataFixture['users'][number], 'uid'>) =>
+    store.reset({ users: [...users.filter(other => other.uid !== uid), { uid, ...user }] });
+
+  const waitForJob = async (jobId: string): Promise<TemplateExecutionJob> => {
+    for (let i = 0; i < 100; i++) {
+      const job = await service.getExecutionJobStatus(jobId);
+      if (job.status !== 'running' && job.status !== 'pending') {
+        return job;
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    throw new Error(`Execution job ${jobId} did not finish`);
+  };
+
+  beforeAll(() => {
+    service = TemplateExecutionService.getInstance();
+    sendMessage = getLLMProvider('openai').sendMessage as jest.Mock;
+    batchSendMessage = getNonRetryingLLMProvider('openai').sendMessage as jest.Mock;
+  });
+
+  beforeEach(() => {
+    store.reset({ users });
+    sendMessage.mockReset().mockResolvedValue({ content: 'Hello!', timestamp: new Date() });
+    batchSendMessage.mockReset().mockResolvedValue({ content: 'Hello!', timestamp: new Date() });
+  });
+
+  it('should record per-user results of a completed job', async () => {
+    const { jobId } = await service.executeTemplateForAllUsers('greeting');
+    const job = await waitForJob(jobId);
+
+    expect(job).toEqual(expect.objectContaining({
+      status: 'completed',
+      trigger: 'manual',
+      totalUsers: 3,
+      processedUsers: 3,
+      succeededUsers: 3,
+      failedUsers: 0
+    }));
+    const [saved] = await repositories.recommendations.listByUser('user-2');
+    expect(saved).toEqual(expect.objectContaining({ templateId: 'greeting', response: 'Hello!' }));
+    expect(job.userResults?.['user-2']).toEqual(expect.objectContaining({ status: 'succeeded', recommendationId: saved.id }));
+
+    const listed = await service.listExecutionJobs({ templateId: 'greeting', status: 'completed' });
+    expect(listed.map(j => j.jobId)).toContain(jobId);
+  });
+
+  it('should mark jobs with failed users as partially completed and retry only those on resume', async () => {
+    batchSendMessage.mockImplementation(async (_spec: any, message: any) => {
+      if (message.userId === 'user-2') throw new Error('OpenAI API error: Timeout');
+      return { content: 'Hello!', timestamp: new Date() };
+    });
+
+    const { jobId } = await service.executeTemplateForAllUsers('greeting');
+    const job = await waitForJob(jobId);
+
+    expect(job.status).toBe('partially_completed');
+    expect(job.failedUsers).toBe(1);
+    expect(job.userResults?.['user-2'].status).toBe('failed');
+
+    batchSendMessage.mockClear().mockResolvedValue({
+      content: 'Hello again!',
+      timestamp: new Date(),
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 }
+    });
+
+    const onTokens = jest.fn();
+    await service.resumeExecutionJob(jobId, onTokens);
+    const resumed = await waitForJob(jobId);
+
+    expect(batchSendMessage).toHaveBeenCalledTimes(1);
+    expect(onTokens).toHaveBeenCalledWith(15);
+    expect(batchSendMessage.mock.calls[0][1].userId).toBe('user-2');
+    expect(resumed).toEqual(expect.objectContaining({
+      status: 'completed',
+      resumeCount: 1,
+      processedUsers: 3,
+      succeededUsers: 3,
+      failedUsers: 0,
+      errors: []
+    }));
+  });
+
+  it('should resume a job only once when resumed concurrently', async () => {
+    batchSendMessage.mockImplementation(async (_spec: any, message: any) => {
+      if (message.userId === 'user-2') throw new Error('OpenAI API error: Timeout');
+      return { content: 'Hello!', timestamp: new Date() };
+    });
+
+    const { jobId } = await service.executeTemplateForAllUsers('greeting');
+    await waitForJob(jobId);
+    batchSendMessage.mockClear().mockResolvedValue({ content: 'Hello again!', timestamp: new Date() });
+
+    const results = await Promise.allSettled([service.resumeExecutionJob(jobId), service.resumeExecutionJob(jobId)]);
+    const resumed = await waitForJob(jobId);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(batchSendMessage).toHaveBeenCalledTimes(1);
+    expect(resumed).toEqual(expect.objectContaining({ status: 'completed', resumeCount: 1 }));
+  });
+
+  it('should cancel a running job and resume the remaining users', async () => {
+    let releaseFirstUser: () => void = () => undefined;
+    batchSendMessage.mockImplementationOnce(() => new Promise(resolve => {
+      releaseFirstUser = () => resolve({ content: 'Hello!', timestamp: new Date() });
+    }));
+
+    const { jobId } = await service.executeTemplateForAllUsers('greeting', 'manual', 1);
+    while (batchSendMessage.mock.calls.length === 0) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+
+    await service.cancelExecutionJob(jobId);
+    releaseFirstUser();
+    const cancelled = await waitForJob(jobId);
+
+    expect(cancelled.status).toBe('cancelled');
+    expect(cancelled.processedUsers).toBe(1);
+    await expect(service.cancelExecutionJob(jobId)).rejects.toThrow('cannot be cancelled');
+
+    await service.resumeExecutionJob(jobId);
+    const resumed = await waitForJob(jobId);
+
+    expect(resumed.status).toBe('completed');
+    expect(resumed.processedUsers).toBe(3);
+    expect(batchSendMessage).toHaveBeenCalledTimes(3);
+  });
+
+  it('should process users concurrently without exceeding the requested concurrency', async () => {
+    store.reset({ users: Array.from({ length: 10 }, (_, i) => ({ uid: `user-${i}`, profile: {} })) });
+
+    let active = 0;
+    let maxActive = 0;
+    batchSendMessage.mockImplementation(async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+      return { content: 'Hello!', timestamp: new Date() };
+    });
+
+    const { jobId } = await service.executeTemplateForAllUsers('greeting', 'manual', 3);
+    const job = await waitForJob(jobId);
+
+    expect(maxActive).toBe(3);
+    expect(job).toEqual(expect.objectContaining({
+      status: 'completed',
+      concurrency: 3,
+      processedUsers: 10,
+      succeededUsers: 10,
+      failedUsers: 0
+    }));
+    expect(Object.keys(job.userResults || {})).toHaveLength(10);
+  });
+
+  it('should reject invalid concurrency values', async () => {
+    await expect(service.executeTemplateForAllUsers('greeting', 'manual', 0)).rejects.toThrow('concurrency must be an integer');
+  });
+
+  it('should back off and retry users that hit the OpenAI rate limit', async () => {
+    // Start the fake clock at 0 so the shared limiter's pause has expired once real timers are back
+    jest.useFakeTimers({ now: 0, doNotFake: ['setImmediate'] });
+    const buildPrompt = jest.spyOn(service as any, 'buildPrompt');
+    try {
+      batchSendMessage.mockRejectedValueOnce(new OpenAIRateLimitError('Rate limit reached'));
+
+      const { jobId } = await service.executeTemplateForAllUsers('greeting', 'manual', 2);
+      // Let file I/O run between fake timer steps until the rate limit pause has passed
+      let job = await service.getExecutionJobStatus(jobId);
+      for (let i = 0; i < 100 && job.status === 'running'; i++) {
+        await jest.advanceTimersByTimeAsync(1000);
+        await sleep(5);
+        job = await service.getExecutionJobStatus(jobId);
+      }
+
+      expect(job).toEqual(expect.objectContaining({
+        status: 'completed',
+        succeededUsers: 3,
+        failedUsers: 0,
+        rateLimitHits: 1
+      }));
+      expect(batchSendMessage).toHaveBeenCalledTimes(4);
+      // Only the model call is retried, the user's data is fetched once
+      expect(buildPrompt).toHaveBeenCalledTimes(3);
+      expect(sendMessage).not.toHaveBeenCalled();
+    } finally {
+      buildPrompt.mockRestore();
+      jest.useRealTimers();
+    }
+  });
+
+  it('should not resume completed or unknown jobs', async () => {
+    const { jobId } = await service.executeTemplateForAllUsers('greeting');
+    await waitForJob(jobId);
+
+    await expect(service.resumeExecutionJob(jobId)).rejects.toThrow('cannot be resumed because it is completed');
+    await expect(service.resumeExecutionJob(jobId)).rejects.toMatchObject({ statusCode: 409 });
+    await expect(service.cancelExecutionJob(jobId)).rejects.toMatchObject({ statusCode: 409 });
+    await expect(service.resumeExecutionJob('exec-unknown')).rejects.toThrow('not found');
+    await expect(service.resumeExecutionJob('exec-unknown')).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('should store the parsed output of templates with an output schema', async () => {
+    const promptService = PromptService.getInstance();
+    const template = promptService.createTemplate({
+      name: 'Structured advice',
+      description: 'Advice as JSON',
+      userPrompt: 'Give me advice',
+      outputSchema: { type: 'array', items: { type: 'string' } }
+    });
+    const sendStructuredMessage = getLLMProvider('openai').sendStructuredMessage as jest.Mock;
+    sendStructuredMessage.mockResolvedValue({ content: '{"result":["Save more"]}', parsed: ['Save more'], timestamp: new Date() });
+
+    try {
+      const response = await service.executeTemplateForUser(template.id, 'user-1');
+
+      expect(response.parsed).toEqual(['Save more']);
+      expect(sendMessage).not.toHaveBeenCalled();
+      expect(sendStructuredMessage.mock.calls[0][2]).toEqual(template.outputSchema);
+      expect(await repositories.recommendations.listByUser('user-1')).toEqual([{
+        id: expect.any(String),
+        templateId: template.id,
+        templateName: 'Structured advice',
+        prompt: 'Give me advice',
+        response: '{"result":["Save more"]}',
+        parsed: ['Save more'],
+        templateVersion: 1,
+        createdAt: expect.any(String)
+      }]);
+    } finally {
+      promptService.deleteTemplate(template.id);
+    }
+  });
+
+  it('should send the system spec of the template persona', async () => {
+    const promptService = PromptService.getInstance();
+    const template = promptService.createTemplate({
+      name: 'Persona template',
+      description: 'Uses a persona',
+      userPrompt: 'Summarize my month',
+      personaId: 'terse-accountant'
+    });
+
+    try {
+      await service.executeTemplateForUser(template.id, 'user-1');
+
+      expect(sendMessage.mock.calls[0][0].role).toBe('Accountant');
+    } finally {
+      promptService.deleteTemplate(template.id);
+    }
+  });
+
+  it('should render templates with declared variables and loops over expenses', async () => {
+    const promptService = PromptService.getInstance();
+    const template = promptService.createTemplate({
+      name: 'Expense list',
+      description: 'Lists expenses',
+      userPrompt: [
+        'Budget: {{ budget | currency }}',
+        '{{#each expenses as expense}}',
+        '- {{ expense.name }}: {{ expense.amount | currency: expense.currencyCode }}',
+        '{{/each}}'
+      ].join('\n'),
+      firebaseData: { enabled: true, dateRange: { type: 'days', value: 7 } },
+      variables: [{ name: 'budget', type: 'number', required: true }]
+    });
+    withUser('user-1', {
+      profile: {},
+      expenses: [{ name: 'Coffee', amount: 3.5, currencyCode: 'EUR', category: 'Food', date: new Date().toISOString(), emotion: 3 }]
+    });
+    const listExpenses = jest.spyOn(repositories.expenses, 'listByUser');
+
+    try {
+      await expect(service.executeTemplateForUser(template.id, 'user-1')).rejects.toThrow('Missing required variable "budget"');
+      expect(listExpenses).not.toHaveBeenCalled();
+
+      await service.executeTemplateForUser(template.id, 'user-1', { budget: '200' });
+
+      expect(sendMessage.mock.calls[0][1].content).toMatch(/^Budget: \$200\.00\n- Coffee: €3\.50\n/);
+    } finally {
+      listExpenses.mockRestore();
+      promptService.deleteTemplate(template.id);
+    }
+  });
+
+  it('should send computed analytics instead of the raw expenses', async () => {
+    const promptService = PromptService.getInstance();
+    const template = promptService.createTemplate({
+      name: 'Analytics',
+      description: 'Uses analytics',
+      userPrompt: 'Top category: {{ analytics.categories | first | json }}',
+      firebaseData: {
+        enabled: true,
+        dateRange: { type: 'custom', startDate: '2024-01-01', endDate: '2024-01-07' },
+        includeEmotions: true,
+        expenseFormat: 'analytics'
+      }
+    });
+    withUser('user-1', {
+      profile: {},
+      expenses: [
+        { name: 'Coffee', amount: 3.5, currencyCode: 'EUR', category: 'Food', date: '2024-01-02', emotion: 2 },
+        { name: 'Rent', amount: 700, currencyCode: 'EUR', category: 'Housing', date: '2024-01-01', emotion: 1 }
+      ]
+    });
+
+    try {
+      const preview = await service.previewTemplate(template.id, 'user-1');
+
+      expect(preview.userPrompt).toContain('Top category: {"category":"Housing","currencyCode":"EUR","count":1,"total":700');
+      expect(preview.userPrompt).toContain('Expense Analytics (computed from 2 transactions');
+      expect(preview.userPrompt).not.toContain('Expense Data');
+      expect(preview.firebaseData?.analytics?.totals).toEqual([
+        { currencyCode: 'EUR', count: 2, total: 703.5, averageExpense: 351.75, dailyAverage: 100.5, weeklyAverage: 703.5 }
+      ]);
+    } finally {
+      promptService.deleteTemplate(template.id);
+    }
+  });
+
+  it('should convert expenses to the home currency of the user', async () => {
+    const promptService = PromptService.getInstance();
+    const template = promptService.createTemplate({
+      name: 'Home currency',
+      description: 'Totals in the home currency',
+      userPrompt: 'Spent {{ analytics.totals | first | json }} in {{ homeCurrency }}',
+      firebaseData: { enabled: true, dateRange: { type: 'days', value: 7 } }
+    });
+    const date = new Date().toISOString();
+    withUser('user-1', {
+      profile: { name: 'Ada', homeCurrency: 'USD' },
+      expenses: [
+        { name: 'Hotel', amount: 100, currencyCode: 'EUR', category: 'Travel', date, emotion: 4 },
+        { name: 'Taxi', amount: 20, currencyCode: 'USD', category: 'Travel', date, emotion: 3 }
+      ]
+    });
+
+    try {
+      const preview = await service.previewTemplate(template.id, 'user-1');
+
+      expect(preview.firebaseData?.userData).toBeNull();
+      expect(preview.firebaseData?.expenses?.[0]).toEqual(expect.objectContaining({
+        amount: 107.05,
+        currencyCode: 'USD',
+        originalAmount: 100,
+        originalCurrencyCode: 'EUR'
+      }));
+      expect(preview.userPrompt).toMatch(/^Spent \{"currencyCode":"USD","count":2,"total":127\.05,/);
+      expect(preview.userPrompt).toContain('} in USD');
+    } finally {
+      promptService.deleteTemplate(template.id);
+    }
+  });
+
+  it('should preview the rendered prompt and its cost without calling the model or saving', async () => {
+    const promptService = PromptService.getInstance();
+    const template = promptService.createTemplate({
+      name: 'Preview me',
+      description: 'Preview',
+      userPrompt: 'Review {{ expenses | length }} expenses',
+      firebaseData: { enabled: true, dateRange: { type: 'days', value: 7 }, includeUserData: true },
+      personaId: 'terse-accountant',
+      outputSchema: { type: 'object', properties: { advice: { type: 'string' } } },
+      modelConfig: { model: 'gpt-4o', maxTokens: 500 }
+    });
+    withUser('user-1', {
+      profile: { name: 'Ada' },
+      expenses: [{ name: 'Coffee', amount: 3.5, currencyCode: 'EUR', category: 'Food', date: new Date().toISOString(), emotion: 3 }]
+    });
+    const sendStructuredMessage = getLLMProvider('openai').sendStructuredMessage as jest.Mock;
+    sendStructuredMessage.mockClear();
+
+    try {
+      const preview = await service.previewTemplate(template.id, 'user-1');
+
+      expect(preview.systemMessage).toContain('Role: Accountant');
+      expect(preview.systemMessage).toContain('matches this JSON Schema');
+      expect(preview.userPrompt).toMatch(/^Review 1 expenses\n\n--- USER DATA ---/);
+      expect(preview.userPrompt).toContain('"Coffee"');
+      expect(preview.firebaseData?.userData).toEqual({ name: 'Ada' });
+      expect(preview.willCallModel).toBe(true);
+      expect(preview.promptBudget).toEqual(expect.objectContaining({ model: 'gpt-4o', tokenBudget: 128000 - 500, steps: [] }));
+      expect(preview.estimatedTokens.completion).toBe(500);
+      expect(preview.estimatedTokens.total).toBe(preview.estimatedTokens.prompt + 500);
+      expect(preview.estimatedCost?.total).toBeCloseTo((preview.estimatedTokens.prompt * 2.5 + 500 * 10) / 1_000_000);
+
+      expect(sendMessage).not.toHaveBeenCalled();
+      expect(sendStructuredMessage).not.toHaveBeenCalled();
+      expect(await repositories.recommendations.listByUser('user-1')).toEqual([]);
+
+      await expect(service.previewTemplate(template.id)).rejects.toThrow('userId is required');
+      await expect(service.previewTemplate(template.id)).rejects.toMatchObject({ statusCode: 400 });
+      await expect(service.previewTemplate(template.id, 'nobody')).rejects.toMatchObject({ statusCode: 404 });
+    } finally {
+      promptService.deleteTemplate(template.id);
+    }
+  });
+
+  it('should preview that users without expenses skip the model call', async () => {
+
+    const preview = await service.previewTemplate('last-week-average', 'user-1');
+
+    expect(preview.willCallModel).toBe(false);
+    expect(preview.estimatedTokens.total).toBe(0);
+  });
+});
@@ -0,0 +1,120 @@
+import { AdaptiveWorkerPool } from '../utils/worker-pool';
+import { RateLimiter } from '../utils/rate-limiter';
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+describe('AdaptiveWorkerPool', () => {
+  it('should never run more tasks than the concurrency limit', async () => {
+    const pool = new AdaptiveWorkerPool({ maxConcurrency: 3 });
+    let active = 0;
+    let maxActive = 0;
+    const processed: number[] = [];
+
+    await pool.run([1, 2, 3, 4, 5, 6, 7, 8], async item => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await tick();
+      processed.push(item);
+      active--;
+    });
+
+    expect(maxActive).toBe(3);
+    expect(processed.sort()).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+  });
+
+  it('should stop starting tasks once shouldStop returns true', async () => {
+    const pool = new AdaptiveWorkerPool({ maxConcurrency: 2 });
+    const processed: number[] = [];
+
+    await pool.run([1, 2, 3, 4, 5], async item => {
+      processed.push(item);
+      await tick();
+    }, () => processed.length >= 3);
+
+    expect(processed).toHaveLength(3);
+  });
+
+  it('should reject with the first task error after running tasks settle', async () => {
+    const pool = new AdaptiveWorkerPool({ maxConcurrency: 2 });
+
+    await expect(pool.run([1, 2, 3], async item => {
+      if (item === 2) throw new Error('boom');
+    })).rejects.toThrow('boom');
+  });
+
+  it('should halve concurrency when rate limited and grow back after successes', () => {
+    const pool = new AdaptiveWorkerPool({ maxConcurrency: 8, increaseAfter: 2 });
+
+    pool.reportRateLimited();
+    expect(pool.concurrency).toBe(4);
+    pool.reportRateLimited();
+    pool.reportRateLimited();
+    pool.reportRateLimited();
+    expect(pool.concurrency).toBe(1);
+
+    pool.reportSuccess();
+    pool.reportSuccess();
+    expect(pool.concurrency).toBe(2);
+  });
+});
+
+describe('RateLimiter', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should let requests through immediately without limits', async () => {
+    const limiter = new RateLimiter();
+    await limiter.acquire(1_000_000);
+  });
+
+  it('should delay requests beyond the requests per minute budget', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const limiter = new RateLimiter({ requestsPerMinute: 2 });
+
+    await limiter.acquire();
+    await limiter.acquire();
+
+    let acquired = false;
+    limiter.acquire().then(() => { acquired = true; });
+
+    await jest.advanceTimersByTimeAsync(29_000);
+    expect(acquired).toBe(false);
+    await jest.advanceTimersByTimeAsync(1_000);
+    expect(acquired).toBe(true);
+  });
+
+  it('should delay requests beyond the tokens per minute budget and credit unused tokens', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const limiter = new RateLimiter({ tokensPerMinute: 1000 });
+
+    await limiter.acquire(800);
+    limiter.recordUsage(800, 300);
+
+    let acquired = false;
+    limiter.acquire(600).then(() => { acquired = true; });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(acquired).toBe(true);
+
+    acquired = false;
+    limiter.acquire(500).then(() => { acquired = true; });
+    await jest.advanceTimersByTimeAsync(20_000);
+    expect(acquired).toBe(false);
+    await jest.advanceTimersByTimeAsync(10_000);
+    expect(acquired).toBe(true);
+  });
+
+  it('should hold back all requests while paused', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const limiter = new RateLimiter();
+    limiter.pause(5_000);
+
+    let acquired = false;
+    limiter.acquire().then(() => { acquired = true; });
+
+    await jest.advanceTimersByTimeAsync(4_999);
+    expect(acquired).toBe(false);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(acquired).toBe(true);
+  });
+});
@@ -1,11 +1,16 @@
 // Import shared types
 export {
   SystemSpecification,
+  SystemSpecVersion,
+  Persona,
+  CreatePersonaRequest,
+  UpdatePersonaRequest,
   UserMessage,
   OpenAIMessage,
   OpenAIRequest,
   OpenAIResponse,
   ApiResponse,
+  ChatStreamEvent,
   Recommendation,
   UserRecommendationsRequest,
   UserRecommendationsResponse,
@@ -14,17 +19,55 @@ export {
   BatchJobStatusResponse,
   PromptTemplate,
   PromptConfig,
+  PromptTemplateVersion,
+  DiffLine,
+  TemplateFieldChange,
+  PromptTemplateDiff,
+  TemplateVariable,
+  TemplateVariableType,
+  TemplateVariableValues,
+  TemplatePreviewRequest,
+  TemplatePreview,
+  CostEstimate,
+  PromptTrimStep,
+  PromptBudgetReport,
+  ExpenseDataFormat,
+  ExpenseAmountStats,
+  ExpenseAnalytics,
+  ExpenseEmotionStats,
+  ExchangeRates,
+  ConvertedExpenseFields,
+  Role,
+  Permission,
+  PermissionDeniedResponse,
+  AuditAction,
+  AuditEntry,
+  AuditLogFilter,
+  ApiKeyQuotas,
+  ApiKey,
+  CreateApiKeyRequest,
+  ApiKeyWithSecret,
+  ApiKeyUsage,
   CreatePromptTemplateRequest,
   UpdatePromptTemplateRequest,
   ChatWithTemplateRequest,
   FirebaseDataConfig,
   ScheduleConfig,
+  ModelConfig,
+  LLMProviderName,
+  ModelSettings,
+  JsonSchema,
+  TemplateScheduleInfo,
   ExecuteTemplateForAllUsersRequest,
-  ExecuteTemplateForAllUsersResponse
+  ExecuteTemplateForAllUsersResponse,
+  TemplateExecutionJobStatus,
+  UserExecutionResult,
+  TemplateExecutionJob,
+  ExecutionJobFilter
 } from '@mymonji/shared';
 
 // Import types for internal use
-import type { SystemSpecification, UserMessage, OpenAIResponse } from '@mymonji/shared';
+import type { SystemSpecification, UserMessage, OpenAIResponse, ApiKey } from '@mymonji/shared';
 
 // Backend-specific types
 export interface ChatSession {
@@ -59,4 +102,52 @@ export interface BatchJobStatus {
     };
     processingErrors?: string[];
   };
-}
\ No newline at end of file
+}
+// Data stored per user under /users2/{uid}
+export interface UserRecord {
+  uid: string;
+  data: any; // Profile document
+}
+
+export interface ExpenseRecord {
+  amount: number;
+  category: string;
+  currencyCode: string;
+  date: any; // Firestore Timestamp or date string
+  emotion: number;
+  name: string;
+}
+
+export interface ExpenseQuery {
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string; // YYYY-MM-DD, inclusive
+}
+
+// Model response saved to /users2/{uid}/recommendations
+export interface PromptResponseRecord {
+  id?: string;
+  templateId: string;
+  templateName: string;
+  prompt: string;
+  response: string;
+  parsed?: unknown; // Validated JSON of templates with an outputSchema
+  templateVersion?: number;
+  createdAt?: string;
+}
+
+// How ID tokens are verified: Firebase Authentication, the local test key pair, or not at all (local development)
+export type AuthMode = 'firebase' | 'test' | 'disabled';
+
+// Caller of a request, taken from its verified ID token or API key
+export interface AuthPrincipal {
+  uid: string; // api-key:<id> for API keys
+  admin: boolean; // From the admin custom claim
+  email?: string;
+  source: AuthMode | 'api-key';
+  apiKey?: Pick<ApiKey, 'id' | 'scopes' | 'quotas'>; // Set for API keys, whose scopes replace roles
+}
+
+// API key as stored: only a hash of the secret is kept
+export interface ApiKeyRecord extends ApiKey {
+  secretHash: string; // SHA-256 of the secret part, hex encoded
+}
@@ -0,0 +1,80 @@
+import type { ExchangeRates } from '../types';
+
+// Profile fields of /users2/{uid} that may hold the home currency, in order of preference
+const HOME_CURRENCY_FIELDS = ['homeCurrency', 'currencyCode', 'currency', 'defaultCurrency'];
+
+const round = (value: number, decimals: number): number => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+const toCurrencyCode = (value: unknown): string | undefined => {
+  const code = typeof value === 'string' ? value.trim().toUpperCase() : '';
+  return /^[A-Z]{3}$/.test(code) ? code : undefined;
+};
+
+/**
+ * Home currency of a user from their profile, falling back to DEFAULT_HOME_CURRENCY
+ */
+export const getHomeCurrency = (userData: any): string | undefined => {
+  for (const field of HOME_CURRENCY_FIELDS) {
+    const code = toCurrencyCode(userData?.[field]);
+    if (code) return code;
+  }
+  return toCurrencyCode(process.env.DEFAULT_HOME_CURRENCY);
+};
+
+/**
+ * Units of the target currency per unit of the source currency, undefined when either rate is unknown
+ */
+export const getExchangeRate = (from: string, to: string, rates: ExchangeRates): number | undefined => {
+  if (from === to) return 1;
+  const fromRate = rates.rates[from];
+  const toRate = rates.rates[to];
+  return fromRate && toRate ? toRate / fromRate : undefined;
+};
+
+/**
+ * Convert an amount between currencies, rounded to cents
+ */
+export const convertAmount = (amount: number, from: string, to: string, rates: ExchangeRates): number => {
+  const rate = getExchangeRate(from, to, rates);
+  if (rate === undefined) {
+    throw new Error(`No exchange rate from ${from} to ${to}`);
+  }
+  return round(amount * rate, 2);
+};
+
+export interface NormalizedExpenses {
+  expenses: any[];
+  unconvertedCurrencies: string[]; // Currencies without a rate, their expenses are left as they were
+}
+
+/**
+ * Convert expenses to the home currency, keeping the original amount and currency next to the converted ones
+ * Expenses without a currency are taken to be in the home currency
+ */
+export const normalizeExpenses = (expenses: any[], homeCurrency: string, rates: ExchangeRates): NormalizedExpenses => {
+  const unconverted = new Set<string>();
+
+  const normalized = expenses.map(expense => {
+    const currencyCode = toCurrencyCode(expense.currencyCode);
+    if (!currencyCode) return { ...expense, currencyCode: homeCurrency };
+    if (currencyCode === homeCurrency) return expense;
+
+    const rate = getExchangeRate(currencyCode, homeCurrency, rates);
+    const amount = Number(expense.amount);
+    if (rate === undefined || !Number.isFinite(amount)) {
+      unconverted.add(currencyCode);
+      return expense;
+    }
+
+    return {
+      ...expense,
+      amount: round(amount * rate, 2),
+      currencyCode: homeCurrency,
+      originalAmount: amount,
+      originalCurrencyCode: currencyCode,
+      exchangeRate: round(rate, 6)
+    };
+  });
+
+  return { expenses: normalized, unconvertedCurrencies: Array.from(unconverted) };
+};
@@ -0,0 +1,12 @@
+/**
+ * Date of a stored value: a Firestore Timestamp, its JSON form, a Date, a date string or milliseconds
+ * Missing and unparseable values give undefined
+ */
+export const toDate = (value: any): Date | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  // Firestore Timestamps, and their JSON form in exports and fixtures
+  if (typeof value.toDate === 'function') return value.toDate();
+  if (typeof value._seconds === 'number') return new Date(value._seconds * 1000);
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
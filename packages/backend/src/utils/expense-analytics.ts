@@ -0,0 +1,134 @@
+import type { ExpenseAnalytics, ExpenseDataFormat, ExpenseEmotionStats } from '../types';
+import { getExpenseDate, groupTotals, round } from './expense-summary';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_TOP_MERCHANTS = 10;
+
+export const EXPENSE_DATA_FORMATS: ExpenseDataFormat[] = ['raw', 'analytics', 'both'];
+
+export interface ExpenseAnalyticsOptions {
+  startDate?: string; // Period the expenses were fetched for (YYYY-MM-DD), widened to the expense dates
+  endDate?: string;
+  topMerchants?: number; // Number of merchants listed, 10 by default
+}
+
+const toDay = (date: Date): string => date.toISOString().split('T')[0];
+
+const percent = (part: number, whole: number): number => (whole === 0 ? 0 : round((part / whole) * 100));
+
+const average = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Pearson correlation of two series, undefined when either does not vary
+ */
+const correlation = (xs: number[], ys: number[]): number | undefined => {
+  if (xs.length < 2) return undefined;
+  const meanX = average(xs);
+  const meanY = average(ys);
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  });
+  if (varianceX === 0 || varianceY === 0) return undefined;
+  return round(covariance / Math.sqrt(varianceX * varianceY));
+};
+
+/**
+ * Period covered by the analytics: the requested range, widened to include every expense
+ */
+const getPeriod = (expenses: any[], options: ExpenseAnalyticsOptions): { from?: string; to?: string; dayCount: number } => {
+  const days = expenses
+    .map(expense => getExpenseDate(expense))
+    .filter((date): date is Date => !!date)
+    .map(toDay);
+  if (options.startDate) days.push(options.startDate);
+  if (options.endDate) days.push(options.endDate);
+  if (days.length === 0) return { dayCount: 0 };
+
+  days.sort();
+  const from = days[0];
+  const to = days[days.length - 1];
+  return { from, to, dayCount: Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS) + 1 };
+};
+
+const analyzeEmotions = (expenses: any[]): ExpenseEmotionStats | undefined => {
+  const rated = expenses.filter(expense => typeof expense.emotion === 'number');
+  if (rated.length === 0) return undefined;
+
+  const emotions = rated.map(expense => expense.emotion as number);
+  const overall = average(emotions);
+
+  const counts = new Map<number, number>();
+  for (const emotion of emotions) {
+    const value = Math.round(emotion);
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+
+  const categories = Array.from(new Set(rated.map(expense => expense.category || 'Uncategorized')));
+
+  return {
+    count: rated.length,
+    average: round(overall),
+    distribution: Array.from(counts, ([emotion, count]) => ({ emotion, count, share: percent(count, rated.length) }))
+      .sort((a, b) => a.emotion - b.emotion),
+    amountCorrelation: correlation(rated.map(expense => Number(expense.amount) || 0), emotions),
+    byCategory: categories
+      .map(category => {
+        const inCategory = rated.map(expense => ((expense.category || 'Uncategorized') === category ? 1 : 0));
+        const categoryEmotions = emotions.filter((_, i) => inCategory[i] === 1);
+        const averageEmotion = average(categoryEmotions);
+        return {
+          category,
+          count: categoryEmotions.length,
+          averageEmotion: round(averageEmotion),
+          difference: round(averageEmotion - overall),
+          correlation: correlation(inCategory, emotions)
+        };
+      })
+      .sort((a, b) => a.difference - b.difference)
+  };
+};
+
+/**
+ * Compute spending and emotion statistics from the expenses returned by ExpenseRepository.listByUser,
+ * so the model does not have to do the arithmetic itself
+ */
+export const analyzeExpenses = (expenses: any[], options: ExpenseAnalyticsOptions = {}): ExpenseAnalytics => {
+  const { from, to, dayCount } = getPeriod(expenses, options);
+
+  const totals = groupTotals(expenses, 'group', () => 'total').map(({ currencyCode, count, total }) => ({
+    ...(currencyCode ? { currencyCode } : {}),
+    count,
+    total,
+    averageExpense: round(total / count),
+    dailyAverage: dayCount ? round(total / dayCount) : 0,
+    weeklyAverage: dayCount ? round((total / dayCount) * 7) : 0
+  }));
+  const currencyTotal = (currencyCode?: string) => totals.find(entry => entry.currencyCode === currencyCode)?.total ?? 0;
+
+  const categories = groupTotals(expenses, 'category', expense => expense.category || 'Uncategorized')
+    .map(entry => ({ ...entry, share: percent(entry.total, currencyTotal(entry.currencyCode)) }))
+    .sort((a, b) => b.total - a.total);
+
+  const topMerchants = groupTotals(expenses, 'name', expense => String(expense.name ?? '').trim() || 'Unknown')
+    .sort((a, b) => b.total - a.total || b.count - a.count)
+    .slice(0, options.topMerchants ?? DEFAULT_TOP_MERCHANTS)
+    .map(({ name, currencyCode, count, total }) => ({ name, ...(currencyCode ? { currencyCode } : {}), count, total }));
+
+  const emotions = analyzeEmotions(expenses);
+
+  return {
+    expenseCount: expenses.length,
+    from,
+    to,
+    dayCount,
+    totals,
+    categories,
+    topMerchants,
+    ...(emotions ? { emotions } : {})
+  };
+};
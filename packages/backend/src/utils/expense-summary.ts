@@ -0,0 +1,86 @@
+import { toDate } from './date';
+
+/**
+ * Totals of a group of expenses, per currency since amounts in different currencies cannot be added
+ */
+export interface ExpenseTotals {
+  currencyCode?: string;
+  count: number;
+  total: number;
+  averageEmotion?: number; // Only when the expenses carry emotions
+}
+
+export interface ExpenseSummary {
+  expenseCount: number;
+  from?: string; // Date of the oldest expense (YYYY-MM-DD)
+  to?: string; // Date of the newest expense
+  byCategory: Array<{ category: string } & ExpenseTotals>;
+  byDay?: Array<{ date: string } & ExpenseTotals>;
+}
+
+/**
+ * Date of an expense, which may be a Firestore Timestamp, its JSON form or a date string
+ */
+export const getExpenseDate = (expense: any): Date | undefined => toDate(expense?.date);
+
+export const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Group expenses by a key and currency, in order of first appearance
+ */
+export const groupTotals = <K extends string>(
+  expenses: any[],
+  keyName: K,
+  getKey: (expense: any) => string
+): Array<Record<K, string> & ExpenseTotals> => {
+  const groups = new Map<string, { key: string; currencyCode?: string; count: number; total: number; emotions: number[] }>();
+
+  for (const expense of expenses) {
+    const key = getKey(expense);
+    const currencyCode = expense.currencyCode || undefined;
+    const id = `${key}\u0000${currencyCode ?? ''}`;
+    let group = groups.get(id);
+    if (!group) {
+      group = { key, currencyCode, count: 0, total: 0, emotions: [] };
+      groups.set(id, group);
+    }
+    group.count++;
+    group.total += Number(expense.amount) || 0;
+    if (typeof expense.emotion === 'number') group.emotions.push(expense.emotion);
+  }
+
+  return Array.from(groups.values(), group => ({
+    [keyName]: group.key,
+    ...(group.currencyCode ? { currencyCode: group.currencyCode } : {}),
+    count: group.count,
+    total: round(group.total),
+    ...(group.emotions.length > 0
+      ? { averageEmotion: round(group.emotions.reduce((sum, emotion) => sum + emotion, 0) / group.emotions.length) }
+      : {})
+  }) as Record<K, string> & ExpenseTotals);
+};
+
+/**
+ * Summarise expenses by category and, unless disabled, by day
+ */
+export const summarizeExpenses = (expenses: any[], options: { byDay?: boolean } = {}): ExpenseSummary => {
+  const days = expenses
+    .map(expense => getExpenseDate(expense)?.toISOString().split('T')[0])
+    .filter((day): day is string => !!day)
+    .sort();
+
+  const summary: ExpenseSummary = {
+    expenseCount: expenses.length,
+    from: days[0],
+    to: days[days.length - 1],
+    byCategory: groupTotals(expenses, 'category', expense => expense.category || 'Uncategorized')
+      .sort((a, b) => b.total - a.total)
+  };
+
+  if (options.byDay !== false) {
+    summary.byDay = groupTotals(expenses, 'date', expense => getExpenseDate(expense)?.toISOString().split('T')[0] ?? 'unknown')
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  return summary;
+};
@@ -0,0 +1,73 @@
+import * as crypto from 'crypto';
+import { AuthenticationError } from '../errors/auth.errors';
+
+export interface JwtPayload {
+  sub?: string;
+  iss?: string;
+  aud?: string;
+  iat?: number;
+  exp?: number;
+  [claim: string]: unknown;
+}
+
+const base64url = (value: string | Buffer): string => Buffer.from(value).toString('base64url');
+
+const decodeSegment = (segment: string): any => {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8'));
+  } catch {
+    throw new AuthenticationError('Malformed token');
+  }
+  // Header and payload are JSON objects; "null", numbers or arrays are not tokens
+  if (typeof decoded !== 'object' || decoded === null || Array.isArray(decoded)) {
+    throw new AuthenticationError('Malformed token');
+  }
+  return decoded;
+};
+
+/**
+ * Sign a payload as an RS256 JSON Web Token
+ */
+export const signJwt = (payload: JwtPayload, privateKey: crypto.KeyLike): string => {
+  const signingInput = `${base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }))}.${base64url(JSON.stringify(payload))}`;
+  const signature = crypto.sign('RSA-SHA256', Buffer.from(signingInput), privateKey);
+  return `${signingInput}.${base64url(signature)}`;
+};
+
+/**
+ * Verify the RS256 signature, expiry, issuer and audience of a JSON Web Token and return its payload
+ */
+export const verifyJwt = (
+  token: string,
+  publicKey: crypto.KeyLike,
+  { issuer, audience }: { issuer: string; audience: string }
+): JwtPayload => {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    throw new AuthenticationError('Malformed token');
+  }
+
+  const [header, payload, signature] = segments;
+  // Only RS256 is accepted, so a token cannot pick a weaker algorithm such as "none"
+  if (decodeSegment(header).alg !== 'RS256') {
+    throw new AuthenticationError('Token must be signed with RS256');
+  }
+  if (!crypto.verify('RSA-SHA256', Buffer.from(`${header}.${payload}`), publicKey, Buffer.from(signature, 'base64url'))) {
+    throw new AuthenticationError('Invalid token signature');
+  }
+
+  const claims: JwtPayload = decodeSegment(payload);
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== 'number' || claims.exp <= now) {
+    throw new AuthenticationError('Token has expired');
+  }
+  if (claims.iss !== issuer || claims.aud !== audience) {
+    throw new AuthenticationError('Token was issued for another project');
+  }
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new AuthenticationError('Token has no subject');
+  }
+
+  return claims;
+};
@@ -0,0 +1,131 @@
+import { PromptBudgetError } from '../errors/prompt-budget.error';
+import type { ExpenseAnalytics, PromptTrimStep } from '../types';
+import { getExpenseDate, summarizeExpenses } from './expense-summary';
+
+// Listing fewer of the newest expenses than this share is worse than summarising all of them
+const MIN_KEPT_EXPENSES_RATIO = 0.5;
+
+export interface PromptFirebaseData {
+  userData?: any;
+  expenses?: any[];
+  analytics?: ExpenseAnalytics; // Listed before the expenses
+  listExpenses?: boolean; // False when only the analytics are sent
+}
+
+export interface BudgetedPrompt {
+  prompt: string;
+  steps: PromptTrimStep[];
+  originalTokens: number;
+  finalTokens: number;
+  omittedExpenses?: number;
+}
+
+interface SectionOptions {
+  pretty: boolean;
+  truncated?: { kept: any[]; omitted: any[] }; // Only the newest expenses are listed
+  summarizeAll?: boolean;
+}
+
+const toJson = (value: unknown, pretty: boolean): string => JSON.stringify(value, null, pretty ? 2 : undefined);
+
+/**
+ * Append the Firebase data section to a prompt
+ */
+const appendFirebaseData = (prompt: string, data: PromptFirebaseData, { pretty, truncated, summarizeAll }: SectionOptions): string => {
+  const expenses = data.expenses ?? [];
+  let enrichedPrompt = prompt + '\n\n--- USER DATA ---\n';
+
+  if (data.userData) {
+    enrichedPrompt += `User Information: ${toJson(data.userData, pretty)}\n\n`;
+  }
+
+  if (expenses.length === 0) {
+    return enrichedPrompt + 'No expense data available for the specified period.';
+  }
+
+  if (data.analytics) {
+    enrichedPrompt += `Expense Analytics (computed from ${expenses.length} transactions, use these figures instead of recalculating them):\n`;
+    enrichedPrompt += toJson(data.analytics, pretty);
+    if (data.listExpenses === false) return enrichedPrompt;
+    enrichedPrompt += '\n\n';
+  }
+
+  if (summarizeAll) {
+    enrichedPrompt += `Expense Summary (${expenses.length} transactions, listed by category and day to fit the context window):\n`;
+    return enrichedPrompt + toJson(summarizeExpenses(expenses), pretty);
+  }
+
+  if (truncated) {
+    enrichedPrompt += `Expense Data (${truncated.kept.length} most recent of ${expenses.length} transactions):\n`;
+    enrichedPrompt += toJson(truncated.kept, pretty);
+    enrichedPrompt += `\n\nSummary of the ${truncated.omitted.length} older transactions by category:\n`;
+    return enrichedPrompt + toJson(summarizeExpenses(truncated.omitted, { byDay: false }).byCategory, pretty);
+  }
+
+  enrichedPrompt += `Expense Data (${expenses.length} transactions):\n`;
+  return enrichedPrompt + toJson(expenses, pretty);
+};
+
+/**
+ * Enrich a prompt with Firebase data, trimming the data until the prompt fits the token budget:
+ * first without pretty-printing, then listing only the newest expenses with a summary of the
+ * older ones, finally only totals by category and day
+ * countTokens estimates the whole request for a user prompt, including the system message
+ */
+export const enrichPromptWithinBudget = (
+  prompt: string,
+  data: PromptFirebaseData,
+  tokenBudget: number,
+  countTokens: (userPrompt: string) => number
+): BudgetedPrompt => {
+  const expenses = data.listExpenses === false ? [] : data.expenses ?? [];
+  const steps: PromptTrimStep[] = [];
+  const build = (options: SectionOptions) => {
+    const enrichedPrompt = appendFirebaseData(prompt, data, options);
+    return { prompt: enrichedPrompt, tokens: countTokens(enrichedPrompt) };
+  };
+
+  let candidate = build({ pretty: true });
+  const originalTokens = candidate.tokens;
+  const result = (omittedExpenses?: number): BudgetedPrompt => ({
+    prompt: candidate.prompt,
+    steps,
+    originalTokens,
+    finalTokens: candidate.tokens,
+    ...(omittedExpenses ? { omittedExpenses } : {})
+  });
+
+  if (candidate.tokens <= tokenBudget) return result();
+
+  steps.push('compact_json');
+  candidate = build({ pretty: false });
+  if (candidate.tokens <= tokenBudget) return result();
+  if (expenses.length === 0) throw new PromptBudgetError(tokenBudget, candidate.tokens);
+
+  // Keep as many of the newest expenses as fit
+  const newestFirst = [...expenses].sort((a, b) => (getExpenseDate(b)?.getTime() ?? 0) - (getExpenseDate(a)?.getTime() ?? 0));
+  let low = Math.ceil(expenses.length * MIN_KEPT_EXPENSES_RATIO);
+  let high = expenses.length - 1;
+  let truncated: { prompt: string; tokens: number; kept: number } | undefined;
+  while (low <= high) {
+    const kept = Math.floor((low + high) / 2);
+    const attempt = build({ pretty: false, truncated: { kept: newestFirst.slice(0, kept), omitted: newestFirst.slice(kept) } });
+    if (attempt.tokens <= tokenBudget) {
+      truncated = { ...attempt, kept };
+      low = kept + 1;
+    } else {
+      high = kept - 1;
+    }
+  }
+  if (truncated) {
+    steps.push('truncate_old_expenses');
+    candidate = truncated;
+    return result(expenses.length - truncated.kept);
+  }
+
+  steps.push('summarize_expenses');
+  candidate = build({ pretty: false, summarizeAll: true });
+  if (candidate.tokens <= tokenBudget) return result(expenses.length);
+
+  throw new PromptBudgetError(tokenBudget, candidate.tokens);
+};
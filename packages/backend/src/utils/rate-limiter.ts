@@ -0,0 +1,88 @@
+import { sleep } from './retry';
+
+const MINUTE_MS = 60 * 1000;
+
+export interface RateLimiterOptions {
+  requestsPerMinute?: number; // Unlimited when unset
+  tokensPerMinute?: number; // Unlimited when unset
+}
+
+/**
+ * Token bucket rate limiter with separate request and token budgets per minute
+ * Budgets refill continuously, so a full minute's budget can be used in a burst
+ */
+export class RateLimiter {
+  private availableRequests: number;
+  private availableTokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+
+  constructor(private options: RateLimiterOptions = {}) {
+    this.availableRequests = options.requestsPerMinute ?? Infinity;
+    this.availableTokens = options.tokensPerMinute ?? Infinity;
+  }
+
+  /**
+   * Wait until one request with the given estimated token count fits into the budgets
+   */
+  async acquire(tokens: number = 0): Promise<void> {
+    // A single request larger than the whole budget would otherwise wait forever
+    const cost = Math.min(tokens, this.options.tokensPerMinute ?? Infinity);
+
+    for (;;) {
+      this.refill();
+
+      const wait = this.getWaitTime(cost);
+      if (wait <= 0) {
+        this.availableRequests -= 1;
+        this.availableTokens -= cost;
+        return;
+      }
+
+      await sleep(wait);
+    }
+  }
+
+  /**
+   * Correct the token budget once the actual usage of a request is known
+   */
+  recordUsage(estimatedTokens: number, actualTokens: number): void {
+    const capacity = this.options.tokensPerMinute ?? Infinity;
+    this.availableTokens = Math.min(capacity, this.availableTokens + estimatedTokens - actualTokens);
+  }
+
+  /**
+   * Stop handing out budget for a while, e.g. after the API answered with 429
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    this.lastRefill = now;
+
+    const { requestsPerMinute, tokensPerMinute } = this.options;
+    if (requestsPerMinute) {
+      this.availableRequests = Math.min(requestsPerMinute, this.availableRequests + (elapsed / MINUTE_MS) * requestsPerMinute);
+    }
+    if (tokensPerMinute) {
+      this.availableTokens = Math.min(tokensPerMinute, this.availableTokens + (elapsed / MINUTE_MS) * tokensPerMinute);
+    }
+  }
+
+  private getWaitTime(tokens: number): number {
+    const { requestsPerMinute, tokensPerMinute } = this.options;
+    let wait = this.pausedUntil - Date.now();
+
+    if (requestsPerMinute && this.availableRequests < 1) {
+      wait = Math.max(wait, ((1 - this.availableRequests) / requestsPerMinute) * MINUTE_MS);
+    }
+    if (tokensPerMinute && this.availableTokens < tokens) {
+      wait = Math.max(wait, ((tokens - this.availableTokens) / tokensPerMinute) * MINUTE_MS);
+    }
+
+    return Math.ceil(wait);
+  }
+}
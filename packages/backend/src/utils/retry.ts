@@ -0,0 +1,21 @@
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Delay before the given retry (0-based) using exponential backoff with full jitter
+ * A server provided Retry-After wins over the computed delay, with a little jitter on top
+ * so parallel workers do not retry in lockstep
+ */
+export const getBackoffDelay = (attempt: number, options: RetryOptions, retryAfterMs?: number): number => {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs + Math.random() * options.baseDelayMs, options.maxDelayMs);
+  }
+
+  const ceiling = Math.min(options.baseDelayMs * 2 ** attempt, options.maxDelayMs);
+  return Math.random() * ceiling;
+};
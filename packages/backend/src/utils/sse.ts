@@ -0,0 +1,32 @@
+import type { Response } from 'express';
+import type { ChatStreamEvent } from '../types';
+
+/**
+ * Switch a response to Server-Sent Events
+ * Returns a signal that is aborted when the client disconnects before the stream ends
+ */
+export const openEventStream = (res: Response): AbortSignal => {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  // Stop reverse proxies such as nginx from buffering the stream
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+  return controller.signal;
+};
+
+/**
+ * Write a single event to an open event stream
+ */
+export const sendEvent = (res: Response, { event, data }: ChatStreamEvent): void => {
+  if (res.writableEnded) return;
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
@@ -0,0 +1,84 @@
+import Ajv, { ValidateFunction } from 'ajv';
+import type { JsonSchema } from '../types';
+
+// JSON mode only returns objects, other schema roots are wrapped in this property
+const WRAPPER_PROPERTY = 'result';
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+const validators = new Map<string, ValidateFunction>();
+
+const getValidator = (schema: JsonSchema): ValidateFunction => {
+  const key = JSON.stringify(schema);
+  let validator = validators.get(key);
+  if (!validator) {
+    validator = ajv.compile(schema);
+    validators.set(key, validator);
+  }
+  return validator;
+};
+
+const isObjectSchema = (schema: JsonSchema): boolean => schema.type === 'object';
+
+/**
+ * Check that a template's outputSchema is a usable JSON Schema, returning the problem if not
+ */
+export const validateOutputSchema = (schema: unknown): string | undefined => {
+  if (schema === undefined || schema === null) return undefined;
+  if (typeof schema !== 'object' || Array.isArray(schema)) {
+    return 'outputSchema must be a JSON Schema object';
+  }
+
+  try {
+    getValidator(schema as JsonSchema);
+    return undefined;
+  } catch (error) {
+    return `outputSchema is not a valid JSON Schema: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+};
+
+/**
+ * System prompt rule telling the model which JSON to produce
+ */
+export const buildSchemaInstruction = (schema: JsonSchema): string => {
+  if (isObjectSchema(schema)) {
+    return `Respond only with a JSON object that matches this JSON Schema: ${JSON.stringify(schema)}`;
+  }
+  return `Respond only with a JSON object of the form {"${WRAPPER_PROPERTY}": ...} where the value of "${WRAPPER_PROPERTY}" matches this JSON Schema: ${JSON.stringify(schema)}`;
+};
+
+/**
+ * Prompt asking the model to fix output that failed validation
+ */
+export const buildRepairPrompt = (originalPrompt: string, output: string, errors: string[]): string => [
+  originalPrompt,
+  '',
+  'Your previous answer was:',
+  output,
+  '',
+  'It does not match the required JSON Schema:',
+  ...errors.map(error => `- ${error}`),
+  '',
+  'Answer again with corrected JSON only.'
+].join('\n');
+
+/**
+ * Parse and validate model output against a schema
+ */
+export const parseStructuredOutput = (content: string, schema: JsonSchema): { value?: unknown; errors: string[] } => {
+  let parsed: any;
+  try {
+    // Tolerate code fences even though JSON mode should not produce them
+    parsed = JSON.parse(content.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, ''));
+  } catch (error) {
+    return { errors: [`Output is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`] };
+  }
+
+  const value = isObjectSchema(schema) ? parsed : parsed?.[WRAPPER_PROPERTY];
+  const validate = getValidator(schema);
+  if (validate(value)) {
+    return { value, errors: [] };
+  }
+
+  const errors = (validate.errors || []).map(error => `${error.instancePath || '/'} ${error.message}`);
+  return { errors: errors.length > 0 ? errors : ['Output does not match the schema'] };
+};
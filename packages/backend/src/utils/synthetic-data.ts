@@ -0,0 +1,101 @@
+import type { DataFixture } from '../repositories/in-memory.store';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SyntheticDataOptions {
+  users?: number; // 5 by default
+  days?: number; // Days of expenses per user, 30 by default
+  endDate?: string; // Last day with expenses (YYYY-MM-DD), today by default
+  seed?: number; // Same seed, same data
+}
+
+// Spending habits per category; emotion is the typical feeling (1 = very negative, 5 = very positive)
+const CATEGORIES = [
+  { category: 'Groceries', merchants: ['Supermarket', 'Farmers Market', 'Corner Shop'], min: 8, max: 90, perWeek: 3, emotion: 3 },
+  { category: 'Food', merchants: ['Coffee Bar', 'Takeout', 'Bakery', 'Pizza Place'], min: 3, max: 35, perWeek: 5, emotion: 4 },
+  { category: 'Transport', merchants: ['Train ticket', 'Taxi', 'Fuel'], min: 2.5, max: 60, perWeek: 3, emotion: 2 },
+  { category: 'Leisure', merchants: ['Cinema', 'Concert', 'Bookshop'], min: 10, max: 80, perWeek: 1, emotion: 5 },
+  { category: 'Shopping', merchants: ['Online shop', 'Clothing store', 'Electronics'], min: 15, max: 200, perWeek: 1, emotion: 2 },
+  { category: 'Utilities', merchants: ['Electricity', 'Phone bill', 'Internet'], min: 20, max: 120, perWeek: 0.5, emotion: 1 }
+];
+
+const NAMES = ['Alex Demo', 'Sam Sample', 'Robin Test', 'Charlie Example', 'Jamie Synthetic', 'Kim Fixture', 'Taylor Mock'];
+const HOME_CURRENCIES = ['EUR', 'EUR', 'GBP', 'USD', 'CHF'];
+// Currencies of expenses made abroad
+const FOREIGN_CURRENCIES = ['EUR', 'USD', 'GBP'];
+const FOREIGN_SHARE = 0.1;
+
+/**
+ * Deterministic pseudo random numbers in [0, 1) (mulberry32)
+ */
+const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Generate users with profiles, expenses with emotions and saved recommendations for local development
+ */
+export const generateSyntheticData = (options: SyntheticDataOptions = {}): DataFixture => {
+  const { users = 5, days = 30, seed = 42 } = options;
+  const random = createRandom(seed);
+  const pick = <T>(values: T[]): T => values[Math.floor(random() * values.length)];
+  const end = Date.parse((options.endDate ?? new Date().toISOString().split('T')[0]) + 'T00:00:00.000Z');
+
+  return {
+    users: Array.from({ length: users }, (_, index) => {
+      const uid = `synthetic-user-${index + 1}`;
+      const homeCurrency = HOME_CURRENCIES[index % HOME_CURRENCIES.length];
+      const expenses: NonNullable<DataFixture['users'][number]['expenses']> = [];
+
+      for (let day = days - 1; day >= 0; day--) {
+        const date = new Date(end - day * DAY_MS).toISOString().split('T')[0];
+
+        for (const habit of CATEGORIES) {
+          if (random() >= habit.perWeek / 7) continue;
+
+          const foreign = random() < FOREIGN_SHARE;
+          const hour = String(7 + Math.floor(random() * 15)).padStart(2, '0');
+          expenses.push({
+            name: pick(habit.merchants),
+            amount: round(habit.min + random() * (habit.max - habit.min)),
+            category: habit.category,
+            currencyCode: foreign ? pick(FOREIGN_CURRENCIES.filter(currency => currency !== homeCurrency)) : homeCurrency,
+            date,
+            timestamp: `${date}T${hour}:00:00.000Z`,
+            emotion: Math.min(5, Math.max(1, habit.emotion + Math.round(random() * 2 - 1)))
+          });
+        }
+      }
+
+      const lastDay = new Date(end).toISOString();
+      return {
+        uid,
+        profile: {
+          name: NAMES[index % NAMES.length],
+          email: `${uid}@example.com`,
+          homeCurrency,
+          createdAt: new Date(end - (days + 30) * DAY_MS).toISOString()
+        },
+        expenses,
+        recommendations: [{
+          templateId: 'user-recommendations',
+          templateName: 'User Recommendations',
+          prompt: `Here are my expenses of the last ${days} days (${expenses.length} transactions).`,
+          response: JSON.stringify({
+            recommendations: [{ category: 'Food', advice: 'Bring coffee from home on two workdays a week.' }]
+          }),
+          createdAt: lastDay
+        }]
+      };
+    })
+  };
+};
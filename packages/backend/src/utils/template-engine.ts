@@ -0,0 +1,544 @@
+import { TemplateSyntaxError, TemplateVariableError } from '../errors/template.errors';
+import { toDate } from './date';
+import type { TemplateVariable, TemplateVariableType, TemplateVariableValues } from '../types';
+
+/*
+ * Template language of prompt templates
+ *
+ *   {{ name }}                              output a variable
+ *   {{ expense.amount | currency: "EUR" }}  filters, with optional arguments
+ *   {{#if total > 100}} ... {{else if total}} ... {{else}} ... {{/if}}
+ *   {{#each expenses as expense}} {{ loop.index }}. {{ expense.name }} {{else}} none {{/each}}
+ *   {{! comment }}
+ *
+ * Referencing a variable that was not supplied is an error, a block tag alone on
+ * its line does not leave an empty line behind.
+ */
+
+export const TEMPLATE_VARIABLE_TYPES: TemplateVariableType[] = ['string', 'number', 'boolean', 'date'];
+
+type Operand = { type: 'literal'; value: unknown } | { type: 'path'; path: string[] };
+
+interface Expression {
+  operand: Operand;
+  filters: Array<{ name: string; args: Operand[] }>;
+}
+
+interface Condition {
+  negate: boolean;
+  left: Expression;
+  comparison?: { operator: ComparisonOperator; right: Expression };
+}
+
+type ComparisonOperator = '==' | '!=' | '>' | '>=' | '<' | '<=';
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'output'; expression: Expression }
+  | { type: 'if'; branches: Array<{ condition: Condition; body: TemplateNode[] }>; otherwise: TemplateNode[] }
+  | { type: 'each'; list: Expression; item: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+type Scope = Record<string, unknown>;
+
+type Filter = (value: any, ...args: any[]) => unknown;
+
+const toNumber = (value: unknown): number => {
+  const number = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(number) ? number : 0;
+};
+
+// Decimal places of the number filters, within what toFixed accepts
+const MAX_DECIMALS = 20;
+const toDecimals = (value: unknown): number => Math.min(Math.max(Math.trunc(toNumber(value)), 0), MAX_DECIMALS);
+
+// Only own properties, so templates cannot reach Object.prototype members such as constructor
+const hasOwn = (object: object, key: string): boolean => Object.prototype.hasOwnProperty.call(object, key);
+
+const FILTERS: Record<string, Filter> = {
+  currency: (value, currencyCode = 'USD') => {
+    const amount = toNumber(value);
+    try {
+      return new Intl.NumberFormat('en-US', { style: 'currency', currency: String(currencyCode) }).format(amount);
+    } catch {
+      // Unknown currency codes, e.g. from expense data
+      return `${amount.toFixed(2)} ${currencyCode}`;
+    }
+  },
+  number: (value, decimals = 2) => toNumber(value).toFixed(toDecimals(decimals)),
+  round: value => Math.round(toNumber(value)),
+  percent: (value, decimals = 0) => `${(toNumber(value) * 100).toFixed(toDecimals(decimals))}%`,
+  date: (value, style = 'iso') => {
+    const date = toDate(value);
+    if (!date) return '';
+    if (style === 'iso') return date.toISOString().split('T')[0];
+    return date.toLocaleDateString('en-US', { dateStyle: style === 'long' ? 'long' : 'medium', timeZone: 'UTC' });
+  },
+  upper: value => String(value ?? '').toUpperCase(),
+  lower: value => String(value ?? '').toLowerCase(),
+  trim: value => String(value ?? '').trim(),
+  default: (value, fallback = '') => (value === undefined || value === null || value === '' ? fallback : value),
+  json: value => JSON.stringify(value ?? null),
+  length: value => (Array.isArray(value) || typeof value === 'string' ? value.length : 0),
+  join: (value, separator = ', ') => (Array.isArray(value) ? value.join(String(separator)) : value),
+  first: value => (Array.isArray(value) ? value[0] : value),
+  last: value => (Array.isArray(value) ? value[value.length - 1] : value),
+  limit: (value, count) => (Array.isArray(value) ? value.slice(0, toNumber(count)) : value),
+  sum: (value, field?: string) =>
+    Array.isArray(value) ? value.reduce((total, item) => total + toNumber(field ? item?.[field] : item), 0) : toNumber(value)
+};
+
+export const TEMPLATE_FILTERS = Object.keys(FILTERS);
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+const TAG_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+const TOKEN_PATTERN = /\s*(?:("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|(-?\d+(?:\.\d+)?)(?![\w.])|(==|!=|>=|<=|>|<|\||:|,|!)|([A-Za-z_][\w]*(?:\.[\w]+)*))/y;
+const IDENTIFIER_PATTERN = /^[A-Za-z_]\w*$/;
+
+type ExpressionToken = { kind: 'string' | 'number' | 'operator' | 'identifier'; text: string };
+
+const tokenizeExpression = (source: string, line: number): ExpressionToken[] => {
+  const tokens: ExpressionToken[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while (source.slice(TOKEN_PATTERN.lastIndex).trim()) {
+    const match = TOKEN_PATTERN.exec(source);
+    if (!match) {
+      throw new TemplateSyntaxError(`unexpected "${source.slice(TOKEN_PATTERN.lastIndex).trim()}" in "${source.trim()}"`, line);
+    }
+    if (match[1] !== undefined) tokens.push({ kind: 'string', text: match[1] });
+    else if (match[2] !== undefined) tokens.push({ kind: 'number', text: match[2] });
+    else if (match[3] !== undefined) tokens.push({ kind: 'operator', text: match[3] });
+    else tokens.push({ kind: 'identifier', text: match[4] });
+  }
+
+  return tokens;
+};
+
+/**
+ * Parser for the expressions inside tags, e.g. `expense.amount | currency: "EUR"`
+ */
+class ExpressionParser {
+  private position = 0;
+
+  constructor(private readonly tokens: ExpressionToken[], private readonly source: string, private readonly line: number) {}
+
+  parseCondition(): Condition {
+    const negate = this.accept('!');
+    const left = this.parseExpression();
+    const operator = this.peek();
+    if (operator?.kind === 'operator' && ['==', '!=', '>', '>=', '<', '<='].includes(operator.text)) {
+      this.position++;
+      return { negate, left, comparison: { operator: operator.text as ComparisonOperator, right: this.parseExpression() } };
+    }
+    return { negate, left };
+  }
+
+  parseExpression(): Expression {
+    const operand = this.parseOperand();
+    const filters: Expression['filters'] = [];
+
+    while (this.accept('|')) {
+      const name = this.next();
+      if (name?.kind !== 'identifier' || !hasOwn(FILTERS, name.text)) {
+        throw this.error(name ? `unknown filter "${name.text}"` : 'missing filter name');
+      }
+      const args: Operand[] = [];
+      if (this.accept(':')) {
+        do {
+          args.push(this.parseOperand());
+        } while (this.accept(','));
+      }
+      filters.push({ name: name.text, args });
+    }
+
+    return { operand, filters };
+  }
+
+  expectEnd(): void {
+    const token = this.peek();
+    if (token) throw this.error(`unexpected "${token.text}"`);
+  }
+
+  private parseOperand(): Operand {
+    const token = this.next();
+    if (!token) throw this.error('missing value');
+
+    switch (token.kind) {
+      case 'string':
+        return { type: 'literal', value: token.text.slice(1, -1).replace(/\\(.)/g, '$1') };
+      case 'number':
+        return { type: 'literal', value: Number(token.text) };
+      case 'identifier':
+        if (token.text === 'true' || token.text === 'false') return { type: 'literal', value: token.text === 'true' };
+        if (token.text === 'null') return { type: 'literal', value: null };
+        return { type: 'path', path: token.text.split('.') };
+      default:
+        throw this.error(`unexpected "${token.text}"`);
+    }
+  }
+
+  private peek(): ExpressionToken | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): ExpressionToken | undefined {
+    return this.tokens[this.position++];
+  }
+
+  private accept(operator: string): boolean {
+    const token = this.peek();
+    if (token?.kind === 'operator' && token.text === operator) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private error(message: string): TemplateSyntaxError {
+    return new TemplateSyntaxError(`${message} in "${this.source.trim()}"`, this.line);
+  }
+}
+
+const parseExpression = (source: string, line: number): Expression => {
+  const parser = new ExpressionParser(tokenizeExpression(source, line), source, line);
+  const expression = parser.parseExpression();
+  parser.expectEnd();
+  return expression;
+};
+
+const parseCondition = (source: string, line: number): Condition => {
+  const parser = new ExpressionParser(tokenizeExpression(source, line), source, line);
+  const condition = parser.parseCondition();
+  parser.expectEnd();
+  return condition;
+};
+
+type Tag =
+  | { kind: 'text'; value: string }
+  | { kind: 'output' | 'if' | 'else-if' | 'each'; content: string; line: number }
+  | { kind: 'else' | 'end-if' | 'end-each'; line: number };
+
+const classifyTag = (content: string, line: number): Tag | undefined => {
+  const trimmed = content.trim();
+  if (trimmed.startsWith('!')) return undefined;
+  if (trimmed.startsWith('#if ')) return { kind: 'if', content: trimmed.slice(4), line };
+  if (trimmed.startsWith('#each ')) return { kind: 'each', content: trimmed.slice(6), line };
+  if (trimmed.startsWith('else if ')) return { kind: 'else-if', content: trimmed.slice(8), line };
+  if (trimmed === 'else') return { kind: 'else', line };
+  if (trimmed === '/if') return { kind: 'end-if', line };
+  if (trimmed === '/each') return { kind: 'end-each', line };
+  if (trimmed.startsWith('#') || trimmed.startsWith('/')) {
+    throw new TemplateSyntaxError(`unknown block "${trimmed}"`, line);
+  }
+  return { kind: 'output', content: trimmed, line };
+};
+
+/**
+ * Split a template into text and tags, dropping the line of block tags that stand alone on it
+ */
+const tokenizeTemplate = (source: string): Tag[] => {
+  const tags: Tag[] = [];
+  let text = '';
+  let position = 0;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const start = match.index ?? 0;
+    const tag = classifyTag(match[1], source.slice(0, start).split('\n').length);
+    text += source.slice(position, start);
+    position = start + match[0].length;
+
+    if (!tag || tag.kind !== 'output') {
+      const lineStart = text.lastIndexOf('\n') + 1;
+      const rest = source.slice(position);
+      const lineEnd = rest.search(/\n|$/);
+      if (!text.slice(lineStart).trim() && !rest.slice(0, lineEnd).trim()) {
+        text = text.slice(0, lineStart);
+        position += lineEnd + (rest[lineEnd] === '\n' ? 1 : 0);
+      }
+    }
+
+    if (text) tags.push({ kind: 'text', value: text });
+    text = '';
+    if (tag) tags.push(tag);
+  }
+
+  text += source.slice(position);
+  if (text) tags.push({ kind: 'text', value: text });
+  return tags;
+};
+
+/**
+ * Build the node tree of a template, reporting unbalanced blocks
+ */
+const buildTree = (tags: Tag[]): TemplateNode[] => {
+  let index = 0;
+
+  const parseNodes = (until: Array<Tag['kind']>): { nodes: TemplateNode[]; end?: Tag } => {
+    const nodes: TemplateNode[] = [];
+
+    while (index < tags.length) {
+      const tag = tags[index++];
+      if (until.includes(tag.kind)) {
+        return { nodes, end: tag };
+      }
+
+      switch (tag.kind) {
+        case 'text':
+          nodes.push({ type: 'text', value: tag.value });
+          break;
+        case 'output':
+          nodes.push({ type: 'output', expression: parseExpression(tag.content, tag.line) });
+          break;
+        case 'if': {
+          const branches: Array<{ condition: Condition; body: TemplateNode[] }> = [];
+          let condition = parseCondition(tag.content, tag.line);
+          let otherwise: TemplateNode[] = [];
+
+          for (;;) {
+            const { nodes: body, end } = parseNodes(['else-if', 'else', 'end-if']);
+            branches.push({ condition, body });
+            if (!end) throw new TemplateSyntaxError('{{#if}} is never closed with {{/if}}', tag.line);
+            if (end.kind === 'else-if' && 'content' in end) {
+              condition = parseCondition(end.content, end.line);
+              continue;
+            }
+            if (end.kind === 'else') {
+              const rest = parseNodes(['end-if']);
+              if (!rest.end) throw new TemplateSyntaxError('{{#if}} is never closed with {{/if}}', tag.line);
+              otherwise = rest.nodes;
+            }
+            break;
+          }
+
+          nodes.push({ type: 'if', branches, otherwise });
+          break;
+        }
+        case 'each': {
+          const match = tag.content.match(/^(.*?)(?:\s+as\s+([A-Za-z_]\w*))?\s*$/);
+          const list = parseExpression(match?.[1] ?? '', tag.line);
+          const item = match?.[2] ?? 'item';
+          const { nodes: body, end } = parseNodes(['else', 'end-each']);
+          if (!end) throw new TemplateSyntaxError('{{#each}} is never closed with {{/each}}', tag.line);
+
+          let otherwise: TemplateNode[] = [];
+          if (end.kind === 'else') {
+            const rest = parseNodes(['end-each']);
+            if (!rest.end) throw new TemplateSyntaxError('{{#each}} is never closed with {{/each}}', tag.line);
+            otherwise = rest.nodes;
+          }
+
+          nodes.push({ type: 'each', list, item, body, otherwise });
+          break;
+        }
+        default: {
+          const name = tag.kind === 'else-if' ? 'else if' : tag.kind === 'else' ? 'else' : tag.kind === 'end-if' ? '/if' : '/each';
+          throw new TemplateSyntaxError(`{{${name}}} without a matching block`, tag.line);
+        }
+      }
+    }
+
+    return { nodes };
+  };
+
+  return parseNodes([]).nodes;
+};
+
+const parsedTemplates = new Map<string, TemplateNode[]>();
+
+const parseTemplate = (source: string): TemplateNode[] => {
+  let nodes = parsedTemplates.get(source);
+  if (!nodes) {
+    nodes = buildTree(tokenizeTemplate(source));
+    parsedTemplates.set(source, nodes);
+  }
+  return nodes;
+};
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+const evaluateOperand = (operand: Operand, scope: Scope): unknown => {
+  if (operand.type === 'literal') return operand.value;
+
+  // Scopes have no prototype besides their outer scopes, so `in` only finds variables
+  const [name, ...properties] = operand.path;
+  if (!(name in scope)) {
+    throw new TemplateVariableError(name, `Missing required variable "${name}"`);
+  }
+  return properties.reduce<any>(
+    (value, property) => (value === undefined || value === null || !hasOwn(Object(value), property) ? undefined : value[property]),
+    scope[name]
+  );
+};
+
+const evaluateExpression = (expression: Expression, scope: Scope): unknown =>
+  expression.filters.reduce(
+    (value, filter) => FILTERS[filter.name](value, ...filter.args.map(arg => evaluateOperand(arg, scope))),
+    evaluateOperand(expression.operand, scope)
+  );
+
+const isTruthy = (value: unknown): boolean => (Array.isArray(value) ? value.length > 0 : Boolean(value));
+
+const compare = (left: unknown, operator: ComparisonOperator, right: unknown): boolean => {
+  const numeric = left !== null && right !== null && left !== '' && right !== ''
+    && !isNaN(Number(left)) && !isNaN(Number(right));
+  const a = numeric ? Number(left) : String(left);
+  const b = numeric ? Number(right) : String(right);
+
+  switch (operator) {
+    case '==': return a === b;
+    case '!=': return a !== b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+    case '<': return a < b;
+    case '<=': return a <= b;
+  }
+};
+
+const evaluateCondition = (condition: Condition, scope: Scope): boolean => {
+  const left = evaluateExpression(condition.left, scope);
+  const result = condition.comparison
+    ? compare(left, condition.comparison.operator, evaluateExpression(condition.comparison.right, scope))
+    : isTruthy(left);
+  return condition.negate ? !result : result;
+};
+
+const stringify = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const renderNodes = (nodes: TemplateNode[], scope: Scope): string => nodes.map(node => {
+  switch (node.type) {
+    case 'text':
+      return node.value;
+    case 'output':
+      return stringify(evaluateExpression(node.expression, scope));
+    case 'if': {
+      const branch = node.branches.find(({ condition }) => evaluateCondition(condition, scope));
+      return renderNodes(branch ? branch.body : node.otherwise, scope);
+    }
+    case 'each': {
+      const list = evaluateExpression(node.list, scope);
+      const items = Array.isArray(list) ? list : [];
+      if (items.length === 0) return renderNodes(node.otherwise, scope);
+
+      return items.map((item, index) => {
+        // Loop variables shadow outer ones, everything else is still visible
+        const loopScope: Scope = Object.create(scope);
+        loopScope[node.item] = item;
+        loopScope.loop = { index: index + 1, first: index === 0, last: index === items.length - 1, length: items.length };
+        return renderNodes(node.body, loopScope);
+      }).join('');
+    }
+  }
+}).join('');
+
+/**
+ * Render a template with the given variables and data
+ */
+export const renderTemplate = (source: string, context: Scope): string =>
+  renderNodes(parseTemplate(source), Object.assign(Object.create(null), context));
+
+/**
+ * Check that a template parses, returning the problem if not
+ */
+export const validateTemplateSyntax = (source?: string): string | undefined => {
+  if (source === undefined) return undefined;
+  try {
+    parseTemplate(source);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid template';
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Declared variables
+// ---------------------------------------------------------------------------
+
+const coerceValue = (type: TemplateVariableType, value: unknown): unknown => {
+  switch (type) {
+    case 'string':
+      return typeof value === 'object' ? undefined : String(value);
+    case 'number': {
+      const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+      return Number.isFinite(number) ? number : undefined;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') return value === 'true';
+      return undefined;
+    case 'date':
+      return typeof value === 'string' || typeof value === 'number' ? toDate(value) : undefined;
+  }
+};
+
+/**
+ * Check the variable declarations of a template, returning the problem if they are invalid
+ */
+export const validateVariableDefinitions = (definitions: unknown): string | undefined => {
+  if (definitions === undefined) return undefined;
+  if (!Array.isArray(definitions)) return 'variables must be an array';
+
+  const names = new Set<string>();
+  for (const definition of definitions as TemplateVariable[]) {
+    if (!definition || typeof definition.name !== 'string' || !IDENTIFIER_PATTERN.test(definition.name)) {
+      return 'Every variable needs a name made of letters, digits and underscores';
+    }
+    if (names.has(definition.name)) {
+      return `Variable "${definition.name}" is declared more than once`;
+    }
+    names.add(definition.name);
+
+    if (!TEMPLATE_VARIABLE_TYPES.includes(definition.type)) {
+      return `Variable "${definition.name}" must have one of the types: ${TEMPLATE_VARIABLE_TYPES.join(', ')}`;
+    }
+    if (definition.default !== undefined && coerceValue(definition.type, definition.default) === undefined) {
+      return `Default of variable "${definition.name}" is not a ${definition.type}`;
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Convert supplied values to the declared types and apply defaults
+ * Throws a TemplateVariableError naming the variable that is missing or invalid
+ */
+export const resolveTemplateVariables = (
+  definitions: TemplateVariable[] = [],
+  values: TemplateVariableValues = {}
+): Record<string, unknown> => {
+  // Undeclared values are passed through as they are
+  const resolved: Record<string, unknown> = { ...values };
+
+  for (const definition of definitions) {
+    const value = values[definition.name];
+
+    if (value === undefined || value === null || value === '') {
+      if (definition.default !== undefined) {
+        resolved[definition.name] = coerceValue(definition.type, definition.default);
+      } else if (definition.required) {
+        throw new TemplateVariableError(definition.name, `Missing required variable "${definition.name}"`);
+      } else {
+        resolved[definition.name] = undefined;
+      }
+      continue;
+    }
+
+    const coerced = coerceValue(definition.type, value);
+    if (coerced === undefined) {
+      throw new TemplateVariableError(definition.name, `Variable "${definition.name}" must be a ${definition.type}`);
+    }
+    resolved[definition.name] = coerced;
+  }
+
+  return resolved;
+};
@@ -0,0 +1,23 @@
+import { getCharsPerToken } from '../config/models';
+
+// Chat formatting adds a few tokens per message and for priming the reply
+const TOKENS_PER_MESSAGE = 4;
+const TOKENS_PER_REPLY = 3;
+
+// Headroom for text that tokenizes worse than the model's average
+const SAFETY_MARGIN = 0.1;
+
+/**
+ * Estimate the number of tokens of a text for a model without running its tokenizer
+ */
+export const estimateTokens = (text: string, model?: string): number => {
+  return Math.ceil(text.length / getCharsPerToken(model));
+};
+
+/**
+ * Estimate the prompt tokens of a chat request with a system and a user message, with a safety margin
+ */
+export const estimatePromptTokens = (systemMessage: string, userPrompt: string, model?: string): number => {
+  const tokens = estimateTokens(systemMessage, model) + estimateTokens(userPrompt, model) + 2 * TOKENS_PER_MESSAGE + TOKENS_PER_REPLY;
+  return Math.ceil(tokens * (1 + SAFETY_MARGIN));
+};
@@ -0,0 +1,87 @@
+export interface WorkerPoolOptions {
+  maxConcurrency: number;
+  minConcurrency?: number; // Lower bound when backing off (default 1)
+  increaseAfter?: number; // Successful tasks before concurrency grows again (default 10)
+}
+
+/**
+ * Runs tasks with a bounded number of workers
+ * Concurrency is halved when the caller reports rate limiting and grows back by one
+ * after a streak of successful tasks (additive increase, multiplicative decrease)
+ */
+export class AdaptiveWorkerPool {
+  private limit: number;
+  private successStreak = 0;
+  private readonly minConcurrency: number;
+  private readonly increaseAfter: number;
+
+  constructor(private options: WorkerPoolOptions) {
+    this.limit = Math.max(1, options.maxConcurrency);
+    this.minConcurrency = Math.max(1, options.minConcurrency ?? 1);
+    this.increaseAfter = options.increaseAfter ?? 10;
+  }
+
+  /**
+   * Current number of parallel workers
+   */
+  get concurrency(): number {
+    return this.limit;
+  }
+
+  /**
+   * Process all items, starting no new work once shouldStop returns true
+   * Resolves once all started tasks are finished; rejects with the first error a task throws
+   */
+  run<T>(items: T[], task: (item: T) => Promise<void>, shouldStop: () => boolean = () => false): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let next = 0;
+      let active = 0;
+      let failure: unknown;
+
+      const launch = () => {
+        while (failure === undefined && active < this.limit && next < items.length && !shouldStop()) {
+          const item = items[next++];
+          active++;
+
+          task(item)
+            .catch(error => {
+              failure = failure ?? error;
+            })
+            .finally(() => {
+              active--;
+              launch();
+            });
+        }
+
+        if (active === 0) {
+          if (failure !== undefined) {
+            reject(failure);
+          } else {
+            resolve();
+          }
+        }
+      };
+
+      launch();
+    });
+  }
+
+  /**
+   * Report a successful task
+   */
+  reportSuccess(): void {
+    this.successStreak++;
+    if (this.successStreak >= this.increaseAfter && this.limit < this.options.maxConcurrency) {
+      this.limit++;
+      this.successStreak = 0;
+    }
+  }
+
+  /**
+   * Report that a task hit a rate limit
+   */
+  reportRateLimited(): void {
+    this.successStreak = 0;
+    this.limit = Math.max(this.minConcurrency, Math.floor(this.limit / 2));
+  }
+}
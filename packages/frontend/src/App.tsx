@@ -1,12 +1,15 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import './App.css';
 import { SystemPanel, MessageList, MessageInput, FirebaseTestPanel, PromptManager, TemplateExecutor } from './components';
 import { ApiService } from './services/api.service';
 import type { 
   SystemSpecification, 
+  SystemSpecVersion,
   ChatMessage, 
   UserMessage, 
   PromptTemplate,
+  ApiResponse,
+  OpenAIResponse,
   CreatePromptTemplateRequest,
   UpdatePromptTemplateRequest 
 } from './types/index';
@@ -27,6 +30,8 @@ function App() {
     ],
     personality: 'Friendly, professional, and knowledgeable'
   });
+  const [systemSpecHistory, setSystemSpecHistory] = useState<SystemSpecVersion[]>([]);
+  const systemSpecSaveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // State for prompt templates
   const [templates, setTemplates] = useState<PromptTemplate[]>([]);
@@ -40,8 +45,20 @@ function App() {
   // Load prompt configuration on mount
   useEffect(() => {
     loadPromptConfig();
+    loadSystemSpecHistory();
   }, []);
 
+  const loadSystemSpecHistory = async () => {
+    try {
+      const response = await ApiService.getSystemSpecHistory();
+      if (response.success && response.data) {
+        setSystemSpecHistory(response.data);
+      }
+    } catch (error) {
+      console.error('Error loading system spec history:', error);
+    }
+  };
+
   const loadPromptConfig = async () => {
     try {
       const response = await ApiService.getPromptConfig();
@@ -58,17 +75,41 @@ function App() {
   const generateId = () => `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
   // Add a message to the chat
-  const addMessage = useCallback((content: string, type: ChatMessage['type']): ChatMessage => {
+  const addMessage = useCallback((content: string, type: ChatMessage['type'], isStreaming = false): ChatMessage => {
     const newMessage: ChatMessage = {
       id: generateId(),
       content,
       type,
-      timestamp: new Date()
+      timestamp: new Date(),
+      isStreaming
     };
     setMessages(prev => [...prev, newMessage]);
     return newMessage;
   }, []);
 
+  // Stream an AI response into a new assistant message as it arrives
+  const streamAssistantMessage = useCallback(async (
+    request: (onDelta: (content: string) => void) => Promise<ApiResponse<OpenAIResponse>>
+  ) => {
+    const { id } = addMessage('', 'assistant', true);
+    const updateMessage = (update: (message: ChatMessage) => Partial<ChatMessage>) => {
+      setMessages(prev => prev.map(message => message.id === id ? { ...message, ...update(message) } : message));
+    };
+
+    const response = await request(delta => updateMessage(message => ({ content: message.content + delta })));
+
+    if (response.success && response.data) {
+      const { content, timestamp } = response.data;
+      updateMessage(() => ({ content, timestamp: new Date(timestamp), isStreaming: false }));
+    } else {
+      // Keep whatever arrived before the failure, drop the message if nothing did
+      setMessages(prev => prev
+        .filter(message => message.id !== id || message.content)
+        .map(message => message.id === id ? { ...message, isStreaming: false } : message));
+      throw new Error(response.error || 'Failed to get response from AI');
+    }
+  }, [addMessage]);
+
   // Handle sending a message
   const handleSendMessage = useCallback(async (content: string) => {
     if (!content.trim()) return;
@@ -92,18 +133,11 @@ function App() {
         timestamp: new Date()
       };
 
-      // Send to API
-      const response = await ApiService.sendMessage({
+      // Send to API and show the answer while it is generated
+      await streamAssistantMessage(onDelta => ApiService.streamMessage({
         systemSpec,
         userMessage
-      });
-
-      if (response.success && response.data) {
-        // Add AI response
-        addMessage(response.data.content, 'assistant');
-      } else {
-        throw new Error(response.error || 'Failed to get response from AI');
-      }
+      }, onDelta));
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
       setError(errorMessage);
@@ -111,7 +145,7 @@ function App() {
     } finally {
       setIsLoading(false);
     }
-  }, [systemSpec, addMessage]);
+  }, [systemSpec, addMessage, streamAssistantMessage]);
 
   // Handle sending with a template
   const handleSendWithTemplate = useCallback(async (template: PromptTemplate) => {
@@ -123,16 +157,9 @@ function App() {
 
     try {
       // Send with template
-      const response = await ApiService.sendWithTemplate({
+      await streamAssistantMessage(onDelta => ApiService.streamWithTemplate({
         templateId: template.id
-      });
-
-      if (response.success && response.data) {
-        // Add AI response
-        addMessage(response.data.content, 'assistant');
-      } else {
-        throw new Error(response.error || 'Failed to get response from AI');
-      }
+      }, onDelta));
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
       setError(errorMessage);
@@ -140,15 +167,37 @@ function App() {
     } finally {
       setIsLoading(false);
     }
-  }, [addMessage]);
+  }, [addMessage, streamAssistantMessage]);
 
   // Handle system spec update
-  const handleSystemSpecChange = useCallback(async (spec: SystemSpecification) => {
+  // Saving is debounced since every saved change becomes a version in the history
+  const handleSystemSpecChange = useCallback((spec: SystemSpecification) => {
     setSystemSpec(spec);
+    if (systemSpecSaveTimer.current) {
+      clearTimeout(systemSpecSaveTimer.current);
+    }
+    systemSpecSaveTimer.current = setTimeout(async () => {
+      try {
+        await ApiService.updateSystemSpec(spec);
+        await loadSystemSpecHistory();
+      } catch (error) {
+        console.error('Error updating system spec:', error);
+      }
+    }, 1000);
+  }, []);
+
+  const handleRestoreSystemSpec = useCallback(async (version: number) => {
+    if (systemSpecSaveTimer.current) {
+      clearTimeout(systemSpecSaveTimer.current);
+    }
     try {
-      await ApiService.updateSystemSpec(spec);
+      const response = await ApiService.restoreSystemSpec(version);
+      if (response.success && response.data) {
+        setSystemSpec(response.data);
+        await loadSystemSpecHistory();
+      }
     } catch (error) {
-      console.error('Error updating system spec:', error);
+      console.error('Error restoring system spec:', error);
     }
   }, []);
 
@@ -177,6 +226,10 @@ function App() {
     }
   }, []);
 
+  const handleTemplateRolledBack = useCallback((template: PromptTemplate) => {
+    setTemplates(prev => prev.map(t => t.id === template.id ? template : t));
+  }, []);
+
   const handleDeleteTemplate = useCallback(async (id: string) => {
     try {
       const response = await ApiService.deletePromptTemplate(id);
@@ -240,6 +293,8 @@ function App() {
             <SystemPanel
               systemSpec={systemSpec}
               onSystemSpecChange={handleSystemSpecChange}
+              history={systemSpecHistory}
+              onRestoreVersion={handleRestoreSystemSpec}
             />
             
             <div className="chat-panel">
@@ -268,6 +323,7 @@ function App() {
             onUpdateTemplate={handleUpdateTemplate}
             onDeleteTemplate={handleDeleteTemplate}
             onSelectTemplate={handleSelectTemplate}
+            onTemplateRolledBack={handleTemplateRolledBack}
             selectedTemplateId={selectedTemplate?.id}
           />
         ) : activeTab === 'executor' ? (
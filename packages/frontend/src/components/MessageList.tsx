@@ -40,9 +40,10 @@ export const MessageList: React.FC<MessageListProps> = ({ messages, isLoading })
   return (
     <div className="message-list">
       {messages.map((message) => (
-        <div key={message.id} className={`message message-${message.type}`}>
+        <div key={message.id} className={`message message-${message.type}${message.isStreaming ? ' streaming' : ''}`}>
           <div className="message-content">
             {message.content}
+            {message.isStreaming && <span className="streaming-cursor" />}
           </div>
           <div className="message-time">
             {formatTime(message.timestamp)}
@@ -50,7 +51,8 @@ export const MessageList: React.FC<MessageListProps> = ({ messages, isLoading })
         </div>
       ))}
       
-      {isLoading && (
+      {/* Streaming answers show their partial text instead of the typing indicator */}
+      {isLoading && !messages.some(message => message.isStreaming) && (
         <div className="message message-assistant loading">
           <div className="message-content">
             <div className="typing-indicator">
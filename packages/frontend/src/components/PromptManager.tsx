@@ -1,5 +1,7 @@
-import React, { useState } from 'react';
-import type { PromptTemplate, CreatePromptTemplateRequest, UpdatePromptTemplateRequest } from '../types';
+import React, { useEffect, useState } from 'react';
+import type { PromptTemplate, CreatePromptTemplateRequest, UpdatePromptTemplateRequest, ModelConfig, ModelSettings, JsonSchema, Persona, TemplateVariable, ExpenseDataFormat } from '../types';
+import { ApiService } from '../services/api.service';
+import { TemplateHistory } from './TemplateHistory';
 
 interface PromptManagerProps {
   templates: PromptTemplate[];
@@ -7,6 +9,7 @@ interface PromptManagerProps {
   onUpdateTemplate: (id: string, request: UpdatePromptTemplateRequest) => Promise<void>;
   onDeleteTemplate: (id: string) => Promise<void>;
   onSelectTemplate: (template: PromptTemplate) => void;
+  onTemplateRolledBack?: (template: PromptTemplate) => void;
   selectedTemplateId?: string;
 }
 
@@ -16,6 +19,7 @@ export const PromptManager: React.FC<PromptManagerProps> = ({
   onUpdateTemplate,
   onDeleteTemplate,
   onSelectTemplate,
+  onTemplateRolledBack,
   selectedTemplateId
 }) => {
   const [isCreating, setIsCreating] = useState(false);
@@ -36,6 +40,32 @@ export const PromptManager: React.FC<PromptManagerProps> = ({
     }
   });
 
+  const [modelSettings, setModelSettings] = useState<ModelSettings | null>(null);
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [historyTemplateId, setHistoryTemplateId] = useState<string | null>(null);
+  const [outputSchemaText, setOutputSchemaText] = useState('');
+  const [outputSchemaError, setOutputSchemaError] = useState<string | null>(null);
+  const [variablesText, setVariablesText] = useState('');
+  const [variablesError, setVariablesError] = useState<string | null>(null);
+
+  useEffect(() => {
+    ApiService.getModelSettings().then(response => {
+      if (response.success && response.data) {
+        setModelSettings(response.data);
+      }
+    });
+    ApiService.getPersonas().then(response => {
+      if (response.success && response.data) {
+        setPersonas(response.data);
+      }
+    });
+  }, []);
+
+  // Empty inputs fall back to the server defaults
+  const updateModelConfig = (changes: Partial<ModelConfig>) => {
+    setFormData({ ...formData, modelConfig: { ...formData.modelConfig, ...changes } });
+  };
+
   const resetForm = () => {
     setFormData({
       name: '',
@@ -52,14 +82,49 @@ export const PromptManager: React.FC<PromptManagerProps> = ({
         runForAllUsers: true
       }
     });
+    setOutputSchemaText('');
+    setOutputSchemaError(null);
+    setVariablesText('');
+    setVariablesError(null);
     setIsCreating(false);
     setEditingId(null);
   };
 
+  // An empty schema means plain text output; null signals invalid JSON
+  const parseOutputSchema = (): JsonSchema | undefined | null => {
+    if (!outputSchemaText.trim()) return undefined;
+    try {
+      const schema = JSON.parse(outputSchemaText);
+      setOutputSchemaError(null);
+      return schema;
+    } catch {
+      setOutputSchemaError('Output schema must be valid JSON');
+      return null;
+    }
+  };
+
+  // Empty means no declared variables; null signals invalid JSON
+  const parseVariables = (): TemplateVariable[] | undefined | null => {
+    if (!variablesText.trim()) return undefined;
+    try {
+      const variables = JSON.parse(variablesText);
+      if (!Array.isArray(variables)) throw new Error('Not an array');
+      setVariablesError(null);
+      return variables;
+    } catch {
+      setVariablesError('Variables must be a JSON array');
+      return null;
+    }
+  };
+
   const handleCreate = async (e: React.FormEvent) => {
     e.preventDefault();
+    const outputSchema = parseOutputSchema();
+    const variables = parseVariables();
+    if (outputSchema === null || variables === null) return;
+
     try {
-      await onCreateTemplate(formData);
+      await onCreateTemplate({ ...formData, outputSchema, variables });
       resetForm();
     } catch (error) {
       console.error('Error creating template:', error);
@@ -69,13 +134,21 @@ export const PromptManager: React.FC<PromptManagerProps> = ({
   const handleUpdate = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!editingId) return;
+    const outputSchema = parseOutputSchema();
+    const variables = parseVariables();
+    if (outputSchema === null || variables === null) return;
 
     try {
       const updateData: UpdatePromptTemplateRequest = {
         name: formData.name || undefined,
         description: formData.description || undefined,
         userPrompt: formData.userPrompt || undefined,
-        category: formData.category || undefined
+        category: formData.category || undefined,
+        modelConfig: formData.modelConfig || {},
+        outputSchema: outputSchema ?? null,
+        personaId: formData.personaId || null,
+        variables: variables ?? [],
+        tokenBudget: formData.tokenBudget ?? null
       };
       await onUpdateTemplate(editingId, updateData);
       resetForm();
@@ -99,8 +172,15 @@ export const PromptManager: React.FC<PromptManagerProps> = ({
       schedule: template.schedule || {
         enabled: false,
         runForAllUsers: true
-      }
+      },
+      modelConfig: template.modelConfig || {},
+      personaId: template.personaId,
+      tokenBudget: template.tokenBudget
     });
+    setOutputSchemaText(template.outputSchema ? JSON.stringify(template.outputSchema, null, 2) : '');
+    setOutputSchemaError(null);
+    setVariablesText(template.variables?.length ? JSON.stringify(template.variables, null, 2) : '');
+    setVariablesError(null);
     setIsCreating(true);
   };
 
@@ -167,7 +247,24 @@ export const PromptManager: React.FC<PromptManagerProps> = ({
               rows={4}
               required
             />
-            <small>Tip: Use {'{{'} and {'}}'}  to create variable placeholders (e.g., {'{{'} userName {'}}'} )</small>
+            <small>
+              Tip: Use {'{{'} userName {'}}'} for variables, filters like {'{{'} amount | currency: "EUR" {'}}'},
+              {' '}{'{{'}#if ...{'}}'} ... {'{{'}/if{'}}'} and {'{{'}#each expenses as expense{'}}'} ... {'{{'}/each{'}}'}.
+              {' '}Computed statistics are in analytics, e.g. {'{{'} analytics.categories | json {'}}'} or {'{{'}#each analytics.topMerchants as merchant{'}}'}
+            </small>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="template-variables">Variables (JSON)</label>
+            <textarea
+              id="template-variables"
+              value={variablesText}
+              onChange={(e) => setVariablesText(e.target.value)}
+              placeholder='[{"name": "budget", "type": "number", "required": true}, {"name": "tone", "type": "string", "default": "friendly"}]'
+              rows={3}
+            />
+            {variablesError && <small className="error-text">{variablesError}</small>}
+            <small>Types: string, number, boolean, date. Executing without a required variable is rejected</small>
           </div>
 
           <div className="form-group">
@@ -181,6 +278,21 @@ export const PromptManager: React.FC<PromptManagerProps> = ({
             />
           </div>
 
+          <div className="form-group">
+            <label htmlFor="template-persona">Persona</label>
+            <select
+              id="template-persona"
+              value={formData.personaId || ''}
+              onChange={(e) => setFormData({ ...formData, personaId: e.target.value || undefined })}
+            >
+              <option value="">Global system specification</option>
+              {personas.map(persona => (
+                <option key={persona.id} value={persona.id}>{persona.name}</option>
+              ))}
+            </select>
+            <small>The persona's system specification is used instead of the global one</small>
+          </div>
+
           {/* Firebase Data Configuration */}
           <div className="form-section">
             <h5>Firebase Data Configuration</h5>
@@ -247,10 +359,150 @@ export const PromptManager: React.FC<PromptManagerProps> = ({
                   />
                   <small>Leave dates empty to fetch all available data</small>
                 </div>
+
+                <div className="form-group">
+                  <label htmlFor="expense-format">Expenses in Prompt</label>
+                  <select
+                    id="expense-format"
+                    value={formData.firebaseData?.expenseFormat || 'raw'}
+                    onChange={(e) => setFormData({
+                      ...formData,
+                      firebaseData: {
+                        ...formData.firebaseData,
+                        enabled: true,
+                        expenseFormat: e.target.value as ExpenseDataFormat
+                      }
+                    })}
+                  >
+                    <option value="raw">Raw expense rows</option>
+                    <option value="analytics">Computed analytics only</option>
+                    <option value="both">Computed analytics and raw rows</option>
+                  </select>
+                  <small>Analytics are computed by the server: totals, daily/weekly averages, top merchants and emotion statistics</small>
+                </div>
+
+                <div className="form-group checkbox-group">
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={formData.firebaseData?.normalizeCurrency !== false}
+                      onChange={(e) => setFormData({
+                        ...formData,
+                        firebaseData: {
+                          ...formData.firebaseData,
+                          enabled: true,
+                          normalizeCurrency: e.target.checked
+                        }
+                      })}
+                    />
+                    <span>Convert amounts to the user's home currency (originals are kept)</span>
+                  </label>
+                </div>
               </>
             )}
           </div>
 
+          {/* Model Configuration */}
+          <div className="form-section">
+            <h5>Model Settings</h5>
+            <div className="form-group">
+              <label htmlFor="model-provider">Provider</label>
+              <select
+                id="model-provider"
+                value={formData.modelConfig?.provider || ''}
+                onChange={(e) => updateModelConfig({ provider: (e.target.value || undefined) as ModelConfig['provider'] })}
+              >
+                <option value="">Server default{modelSettings ? ` (${modelSettings.defaults.provider})` : ''}</option>
+                {modelSettings?.providers.map(provider => (
+                  <option key={provider} value={provider}>{provider}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="model-name">Model</label>
+              <select
+                id="model-name"
+                value={formData.modelConfig?.model || ''}
+                onChange={(e) => updateModelConfig({ model: e.target.value || undefined })}
+              >
+                <option value="">Server default{modelSettings ? ` (${modelSettings.defaults.model})` : ''}</option>
+                {modelSettings?.allowedModels.map(model => (
+                  <option key={model} value={model}>{model}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="model-temperature">Temperature (0 - 2)</label>
+              <input
+                id="model-temperature"
+                type="number"
+                min={0}
+                max={2}
+                step={0.1}
+                value={formData.modelConfig?.temperature ?? ''}
+                onChange={(e) => updateModelConfig({ temperature: e.target.value === '' ? undefined : Number(e.target.value) })}
+                placeholder={modelSettings ? `Default: ${modelSettings.defaults.temperature}` : ''}
+              />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="model-max-tokens">Max Tokens</label>
+              <input
+                id="model-max-tokens"
+                type="number"
+                min={1}
+                max={modelSettings?.maxTokensLimit}
+                step={1}
+                value={formData.modelConfig?.maxTokens ?? ''}
+                onChange={(e) => updateModelConfig({ maxTokens: e.target.value === '' ? undefined : Number(e.target.value) })}
+                placeholder={modelSettings ? `Default: ${modelSettings.defaults.maxTokens}` : ''}
+              />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="token-budget">Prompt Token Budget</label>
+              <input
+                id="token-budget"
+                type="number"
+                min={100}
+                step={1}
+                value={formData.tokenBudget ?? ''}
+                onChange={(e) => setFormData({ ...formData, tokenBudget: e.target.value === '' ? undefined : Number(e.target.value) })}
+                placeholder="Default: context window of the model"
+              />
+              <small>Firebase data is compacted, truncated or summarised to keep the prompt within this budget</small>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="model-response-format">Response Format</label>
+              <select
+                id="model-response-format"
+                value={formData.modelConfig?.responseFormat || ''}
+                onChange={(e) => updateModelConfig({ responseFormat: (e.target.value || undefined) as ModelConfig['responseFormat'] })}
+              >
+                <option value="">Server default</option>
+                <option value="text">Text</option>
+                <option value="json_object">JSON object</option>
+              </select>
+              <small>Leave fields empty to use the server defaults</small>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="output-schema">Output Schema (JSON Schema)</label>
+              <textarea
+                id="output-schema"
+                value={outputSchemaText}
+                onChange={(e) => setOutputSchemaText(e.target.value)}
+                placeholder='{"type": "array", "items": {"type": "object", "properties": {"category": {"type": "string"}}}}'
+                rows={6}
+              />
+              {outputSchemaError && <small className="error-text">{outputSchemaError}</small>}
+              <small>When set, the answer is requested as JSON and validated against this schema</small>
+            </div>
+          </div>
+
           {/* Scheduling Configuration */}
           <div className="form-section">
             <h5>Scheduling Configuration</h5>
@@ -340,7 +592,13 @@ export const PromptManager: React.FC<PromptManagerProps> = ({
             <div className="template-header">
               <div>
                 <h4>{template.name}</h4>
+                <span className="category-badge">v{template.version ?? 1}</span>
                 {template.category && <span className="category-badge">{template.category}</span>}
+                {template.personaId && (
+                  <span className="category-badge">
+                    🎭 {personas.find(persona => persona.id === template.personaId)?.name || template.personaId}
+                  </span>
+                )}
               </div>
               <div className="template-actions">
                 <button
@@ -359,6 +617,14 @@ export const PromptManager: React.FC<PromptManagerProps> = ({
                 >
                   ✏️
                 </button>
+                <button
+                  type="button"
+                  onClick={() => setHistoryTemplateId(historyTemplateId === template.id ? null : template.id)}
+                  className="edit-btn"
+                  title="Version history"
+                >
+                  🕘
+                </button>
                 <button
                   type="button"
                   onClick={() => handleDelete(template.id)}
@@ -370,6 +636,10 @@ export const PromptManager: React.FC<PromptManagerProps> = ({
               </div>
             </div>
             <p className="template-description">{template.description}</p>
+
+            {historyTemplateId === template.id && onTemplateRolledBack && (
+              <TemplateHistory template={template} onRolledBack={onTemplateRolledBack} />
+            )}
             
             {/* Firebase Data Config */}
             {template.firebaseData?.enabled && (
@@ -387,6 +657,9 @@ export const PromptManager: React.FC<PromptManagerProps> = ({
                   {template.firebaseData.dateRange?.type === 'months' && `Last ${template.firebaseData.dateRange.value} months`}
                   {!template.firebaseData.dateRange && 'All data'}
                   {template.firebaseData.includeEmotions && ' • With Emotions'}
+                  {template.firebaseData.expenseFormat === 'analytics' && ' • Analytics only'}
+                  {template.firebaseData.expenseFormat === 'both' && ' • Analytics + rows'}
+                  {template.firebaseData.normalizeCurrency === false && ' • Original currencies'}
                 </span>
               </div>
             )}
@@ -407,6 +680,37 @@ export const PromptManager: React.FC<PromptManagerProps> = ({
               </div>
             )}
 
+            {/* Model Config */}
+            {template.modelConfig && Object.keys(template.modelConfig).length > 0 && (
+              <div className="template-config">
+                <strong>🤖 Model:</strong>
+                <span className="config-badge">
+                  {template.modelConfig.provider && `${template.modelConfig.provider} • `}
+                  {template.modelConfig.model || 'Default model'}
+                  {template.modelConfig.temperature !== undefined && ` • Temperature ${template.modelConfig.temperature}`}
+                  {template.modelConfig.maxTokens !== undefined && ` • ${template.modelConfig.maxTokens} tokens`}
+                  {template.modelConfig.responseFormat === 'json_object' && ' • JSON'}
+                  {template.tokenBudget !== undefined && ` • Prompt budget ${template.tokenBudget}`}
+                </span>
+              </div>
+            )}
+
+            {template.variables && template.variables.length > 0 && (
+              <div className="template-config">
+                <strong>🔤 Variables:</strong>
+                <span className="config-badge">
+                  {template.variables.map(variable => `${variable.name}${variable.required ? '*' : ''}: ${variable.type}`).join(', ')}
+                </span>
+              </div>
+            )}
+
+            {template.outputSchema && (
+              <div className="template-config">
+                <strong>🧩 Output:</strong>
+                <span className="config-badge">JSON validated against schema</span>
+              </div>
+            )}
+
             {/* API Batch Execution Call */}
             <div className="template-config api-call">
               <strong>🔗 Batch Execution API:</strong>
@@ -510,6 +814,10 @@ export const PromptManager: React.FC<PromptManagerProps> = ({
           font-size: 12px;
         }
 
+        .form-group small.error-text {
+          color: #dc3545;
+        }
+
         .form-section {
           margin-top: 25px;
           margin-bottom: 20px;
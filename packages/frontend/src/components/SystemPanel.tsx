@@ -1,14 +1,18 @@
 import React from 'react';
-import type { SystemSpecification } from '../types';
+import type { SystemSpecification, SystemSpecVersion } from '../types';
 
 interface SystemPanelProps {
   systemSpec: SystemSpecification;
   onSystemSpecChange: (spec: SystemSpecification) => void;
+  history?: SystemSpecVersion[]; // Newest first
+  onRestoreVersion?: (version: number) => void;
 }
 
 export const SystemPanel: React.FC<SystemPanelProps> = ({
   systemSpec,
-  onSystemSpecChange
+  onSystemSpecChange,
+  history = [],
+  onRestoreVersion
 }) => {
   const handleRuleChange = (index: number, value: string) => {
     const newRules = [...systemSpec.rules];
@@ -91,6 +95,32 @@ export const SystemPanel: React.FC<SystemPanelProps> = ({
           </button>
         </div>
       </div>
+
+      {history.length > 0 && (
+        <details className="spec-history">
+          <summary>Version History ({history.length})</summary>
+          <ul>
+            {history.map((entry, index) => (
+              <li key={entry.version} className="spec-history-item">
+                <div>
+                  <strong>v{entry.version}</strong> {entry.spec.role}
+                  <small>
+                    {entry.author} • {new Date(entry.createdAt).toLocaleString()}
+                    {entry.restoredFromVersion !== undefined && ` • restored v${entry.restoredFromVersion}`}
+                  </small>
+                </div>
+                {index === 0 ? (
+                  <span className="spec-history-current">Current</span>
+                ) : onRestoreVersion && (
+                  <button type="button" onClick={() => onRestoreVersion(entry.version)}>
+                    Restore
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
     </div>
   );
 };
\ No newline at end of file
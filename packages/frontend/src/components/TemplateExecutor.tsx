@@ -1,6 +1,21 @@
 import { useState } from 'react';
 import { ApiService } from '../services/api.service';
-import type { PromptTemplate } from '../types/index';
+import type { PromptTemplate, TemplatePreview, PromptBudgetReport } from '../types/index';
+
+const TRIM_STEP_LABELS: Record<PromptBudgetReport['steps'][number], string> = {
+  compact_json: 'dropped pretty-printing',
+  truncate_old_expenses: 'truncated old expenses',
+  summarize_expenses: 'summarised expenses by category and day'
+};
+
+// One line describing whether and how the Firebase data was trimmed to fit the token budget
+const describePromptBudget = (budget: PromptBudgetReport): string => {
+  if (budget.steps.length === 0) {
+    return `~${budget.finalTokens} of ${budget.tokenBudget} tokens, nothing trimmed`;
+  }
+  const omitted = budget.omittedExpenses ? `, ${budget.omittedExpenses} expenses only summarised` : '';
+  return `~${budget.originalTokens} → ~${budget.finalTokens} of ${budget.tokenBudget} tokens: ${budget.steps.map(step => TRIM_STEP_LABELS[step]).join(', ')}${omitted}`;
+};
 
 interface ExecutionStep {
   step: string;
@@ -12,8 +27,12 @@ interface ExecutionStep {
 export function TemplateExecutor({ templates }: { templates: PromptTemplate[] }) {
   const [userId, setUserId] = useState('');
   const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [variables, setVariables] = useState<Record<string, string>>({});
   const [isExecuting, setIsExecuting] = useState(false);
   const [executionSteps, setExecutionSteps] = useState<ExecutionStep[]>([]);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [preview, setPreview] = useState<TemplatePreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
 
   // Debug: Log templates when component receives them
   console.log('🔍 [TemplateExecutor] Received templates:', templates);
@@ -68,6 +87,7 @@ export function TemplateExecutor({ templates }: { templates: PromptTemplate[] })
       const response = await ApiService.sendWithTemplate({
         templateId: selectedTemplateId,
         userId: userId,
+        variables,
         includeDebugInfo: true  // Request detailed debug information
       });
 
@@ -87,7 +107,8 @@ export function TemplateExecutor({ templates }: { templates: PromptTemplate[] })
           updateStep('Firebase Data Fetched', 'success', {
             userData: response.data.debug.firebaseData.userData,
             expenseCount: response.data.debug.firebaseData.expenses?.length || 0,
-            expenses: response.data.debug.firebaseData.expenses || []
+            expenses: response.data.debug.firebaseData.expenses || [],
+            analytics: response.data.debug.firebaseData.analytics
           });
         } else {
           console.log('⚠️ [FRONTEND DEBUG] No Firebase data in response');
@@ -98,7 +119,8 @@ export function TemplateExecutor({ templates }: { templates: PromptTemplate[] })
           console.log('🔍 [FRONTEND DEBUG] Prompt data found, creating step');
           updateStep('Prompt Sent to OpenAI', 'success', {
             prompt: response.data.debug.promptSentToOpenAI,
-            systemSpec: response.data.debug.systemSpecUsed
+            systemSpec: response.data.debug.systemSpecUsed,
+            promptBudget: response.data.debug.promptBudget
           });
         } else {
           console.log('⚠️ [FRONTEND DEBUG] No prompt data in response');
@@ -140,6 +162,32 @@ export function TemplateExecutor({ templates }: { templates: PromptTemplate[] })
     }
   };
 
+  // Renders the prompt and estimates tokens and cost without calling the model or saving anything
+  const previewTemplate = async () => {
+    if (!selectedTemplateId) {
+      alert('Please select a template');
+      return;
+    }
+
+    setIsPreviewing(true);
+    setPreview(null);
+    setPreviewError(null);
+
+    try {
+      const response = await ApiService.previewTemplate(selectedTemplateId, {
+        userId: userId.trim() || undefined,
+        variables
+      });
+      if (response.success && response.data) {
+        setPreview(response.data);
+      } else {
+        setPreviewError(response.error || 'Failed to preview template');
+      }
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
   const getStepIcon = (status: ExecutionStep['status']) => {
     switch (status) {
       case 'pending': return '⏳';
@@ -192,7 +240,10 @@ export function TemplateExecutor({ templates }: { templates: PromptTemplate[] })
         <select
           id="templateSelect"
           value={selectedTemplateId}
-          onChange={(e) => setSelectedTemplateId(e.target.value)}
+          onChange={(e) => {
+            setSelectedTemplateId(e.target.value);
+            setVariables({});
+          }}
           className="form-input"
           style={{
             width: '100%',
@@ -211,6 +262,30 @@ export function TemplateExecutor({ templates }: { templates: PromptTemplate[] })
           ))}
         </select>
       </div>
+
+      {templates.find(t => t.id === selectedTemplateId)?.variables?.map(variable => (
+        <div key={variable.name} className="form-group" style={{ marginBottom: '15px' }}>
+          <label htmlFor={`variable-${variable.name}`} style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold' }}>
+            {variable.name} ({variable.type}{variable.required ? ', required' : ''}):
+          </label>
+          <input
+            id={`variable-${variable.name}`}
+            type={variable.type === 'number' ? 'number' : variable.type === 'date' ? 'date' : 'text'}
+            value={variables[variable.name] ?? ''}
+            onChange={(e) => setVariables({ ...variables, [variable.name]: e.target.value })}
+            placeholder={variable.default !== undefined ? `Default: ${variable.default}` : variable.description}
+            className="form-input"
+            style={{
+              width: '100%',
+              padding: '8px',
+              border: '1px solid #ddd',
+              borderRadius: '4px',
+              fontSize: '14px'
+            }}
+            disabled={isExecuting}
+          />
+        </div>
+      ))}
       
       <button 
         onClick={executeTemplate} 
@@ -230,6 +305,80 @@ export function TemplateExecutor({ templates }: { templates: PromptTemplate[] })
         {isExecuting ? 'Executing...' : 'Execute Template'}
       </button>
 
+      <button
+        onClick={previewTemplate}
+        disabled={isExecuting || isPreviewing || !selectedTemplateId}
+        className="btn btn-secondary"
+        style={{
+          padding: '10px 20px',
+          marginLeft: '10px',
+          backgroundColor: 'white',
+          color: isExecuting || isPreviewing || !selectedTemplateId ? '#ccc' : '#0066cc',
+          border: `1px solid ${isExecuting || isPreviewing || !selectedTemplateId ? '#ccc' : '#0066cc'}`,
+          borderRadius: '4px',
+          fontSize: '16px',
+          cursor: isExecuting || isPreviewing || !selectedTemplateId ? 'not-allowed' : 'pointer',
+          marginBottom: '20px'
+        }}
+        title="Render the prompt and estimate its cost without calling the model"
+      >
+        {isPreviewing ? 'Previewing...' : 'Preview'}
+      </button>
+
+      {previewError && (
+        <div style={{
+          marginBottom: '20px',
+          padding: '10px',
+          backgroundColor: '#ffebee',
+          border: '1px solid #ffcdd2',
+          borderRadius: '4px',
+          color: '#c62828'
+        }}>
+          <strong>Preview failed:</strong> {previewError}
+        </div>
+      )}
+
+      {preview && (
+        <div className="template-preview" style={{
+          marginBottom: '20px',
+          padding: '15px',
+          border: '2px solid #0066cc',
+          borderRadius: '8px',
+          backgroundColor: '#f5f9ff'
+        }}>
+          <h4 style={{ marginTop: 0 }}>Preview (no model call, nothing saved)</h4>
+          <div><strong>Model:</strong> {preview.provider} • {preview.model} • template v{preview.templateVersion}</div>
+          <div>
+            <strong>Estimated tokens:</strong> {preview.estimatedTokens.prompt} prompt + up to {preview.estimatedTokens.completion} completion = {preview.estimatedTokens.total}
+          </div>
+          <div>
+            <strong>Estimated cost:</strong>{' '}
+            {preview.estimatedCost ? `$${preview.estimatedCost.total.toFixed(4)} (at most)` : 'Unknown price for this model'}
+          </div>
+          {preview.promptBudget && (
+            <div><strong>Token budget:</strong> {describePromptBudget(preview.promptBudget)}</div>
+          )}
+          {!preview.willCallModel && (
+            <div style={{ color: '#f57c00', marginTop: '5px' }}>
+              ⚠️ No expenses in the date range - executing would skip the model call
+            </div>
+          )}
+
+          <div style={{ marginTop: '10px' }}>
+            <strong>System message:</strong>
+            <pre style={{ whiteSpace: 'pre-wrap', backgroundColor: 'white', padding: '10px', border: '1px solid #ddd', borderRadius: '4px' }}>
+              {preview.systemMessage}
+            </pre>
+          </div>
+          <div>
+            <strong>User prompt:</strong>
+            <pre style={{ whiteSpace: 'pre-wrap', backgroundColor: 'white', padding: '10px', border: '1px solid #ddd', borderRadius: '4px', maxHeight: '400px', overflow: 'auto' }}>
+              {preview.userPrompt}
+            </pre>
+          </div>
+        </div>
+      )}
+
       {executionSteps.length > 0 && (
         <div className="execution-steps" style={{ marginTop: '20px' }}>
           <h4 style={{ marginBottom: '15px' }}>Execution Steps:</h4>
@@ -324,6 +473,22 @@ export function TemplateExecutor({ templates }: { templates: PromptTemplate[] })
                             </pre>
                           </div>
                         )}
+                        {step.data.analytics && (
+                          <div style={{ marginBottom: '15px' }}>
+                            <strong style={{ color: '#f57c00' }}>Computed Analytics:</strong>
+                            <pre style={{ 
+                              margin: '5px 0 0 0',
+                              whiteSpace: 'pre-wrap',
+                              fontSize: '12px',
+                              fontFamily: 'monospace',
+                              backgroundColor: '#fff',
+                              padding: '10px',
+                              borderRadius: '4px'
+                            }}>
+                              {JSON.stringify(step.data.analytics, null, 2)}
+                            </pre>
+                          </div>
+                        )}
                         <div>
                           <strong style={{ color: '#f57c00' }}>Expenses ({step.data.expenseCount}):</strong>
                           <pre style={{ 
@@ -342,6 +507,10 @@ export function TemplateExecutor({ templates }: { templates: PromptTemplate[] })
                     </details>
                   )}
 
+                  {step.step === 'Prompt Sent to OpenAI' && step.data.promptBudget && (
+                    <div><strong>Token budget:</strong> {describePromptBudget(step.data.promptBudget)}</div>
+                  )}
+
                   {step.step === 'Prompt Sent to OpenAI' && (
                     <details style={{ marginTop: '10px' }}>
                       <summary style={{ cursor: 'pointer', fontWeight: 'bold', color: '#0066cc' }}>
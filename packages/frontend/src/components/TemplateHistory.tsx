@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import type { PromptTemplate, PromptTemplateVersion, PromptTemplateDiff } from '../types';
+import { ApiService } from '../services/api.service';
+
+interface TemplateHistoryProps {
+  template: PromptTemplate;
+  onRolledBack: (template: PromptTemplate) => void;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '(none)';
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+};
+
+export const TemplateHistory: React.FC<TemplateHistoryProps> = ({ template, onRolledBack }) => {
+  const [versions, setVersions] = useState<PromptTemplateVersion[]>([]);
+  const [diff, setDiff] = useState<PromptTemplateDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    ApiService.getTemplateVersions(template.id).then(response => {
+      if (response.success && response.data) {
+        setVersions(response.data);
+      } else {
+        setError(response.error || 'Failed to load versions');
+      }
+    });
+  }, [template.id, template.version]);
+
+  const currentVersion = versions[0]?.version;
+
+  const showDiff = async (version: number) => {
+    const response = await ApiService.diffTemplateVersions(template.id, version, currentVersion);
+    if (response.success && response.data) {
+      setDiff(response.data);
+    } else {
+      setError(response.error || 'Failed to compare versions');
+    }
+  };
+
+  const rollback = async (version: number) => {
+    if (!window.confirm(`Roll back "${template.name}" to version ${version}?`)) return;
+
+    const response = await ApiService.rollbackTemplate(template.id, version);
+    if (response.success && response.data) {
+      setDiff(null);
+      onRolledBack(response.data);
+    } else {
+      setError(response.error || 'Failed to roll back');
+    }
+  };
+
+  return (
+    <div className="template-history">
+      {error && <div className="template-history-error">{error}</div>}
+
+      <ul>
+        {versions.map(entry => (
+          <li key={entry.version}>
+            <span>
+              <strong>v{entry.version}</strong> by {entry.author} • {new Date(entry.createdAt).toLocaleString()}
+              {entry.restoredFromVersion !== undefined && ` • rollback to v${entry.restoredFromVersion}`}
+            </span>
+            {entry.version === currentVersion ? (
+              <span className="template-history-current">Current</span>
+            ) : (
+              <span>
+                <button type="button" onClick={() => showDiff(entry.version)}>Diff</button>
+                <button type="button" onClick={() => rollback(entry.version)}>Rollback</button>
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {diff && (
+        <div className="template-diff">
+          <h5>Changes from v{diff.fromVersion} to v{diff.toVersion}</h5>
+          {diff.changes.length === 0 && <p>No differences</p>}
+          {diff.changes.map(change => (
+            <div key={change.field} className="template-diff-field">
+              <strong>{change.field}</strong>
+              {change.lines ? (
+                <pre>
+                  {change.lines.map((line, index) => (
+                    <div key={index} className={`diff-${line.type}`}>
+                      {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+                    </div>
+                  ))}
+                </pre>
+              ) : (
+                <pre>
+                  <div className="diff-removed">- {formatValue(change.from)}</div>
+                  <div className="diff-added">+ {formatValue(change.to)}</div>
+                </pre>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <style>{`
+        .template-history {
+          margin-top: 10px;
+          padding: 10px;
+          background: #f8f9fa;
+          border-radius: 4px;
+          font-size: 13px;
+        }
+
+        .template-history ul {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+        }
+
+        .template-history li {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          padding: 4px 0;
+          border-bottom: 1px solid #e9ecef;
+        }
+
+        .template-history button {
+          margin-left: 6px;
+          padding: 2px 8px;
+          border: 1px solid #007bff;
+          background: white;
+          color: #007bff;
+          border-radius: 4px;
+          cursor: pointer;
+        }
+
+        .template-history-current {
+          color: #28a745;
+          font-weight: 600;
+        }
+
+        .template-history-error {
+          color: #dc3545;
+          margin-bottom: 6px;
+        }
+
+        .template-diff pre {
+          margin: 4px 0 10px;
+          padding: 6px;
+          background: white;
+          border: 1px solid #e9ecef;
+          white-space: pre-wrap;
+        }
+
+        .diff-added {
+          background: #e6ffed;
+          color: #22863a;
+        }
+
+        .diff-removed {
+          background: #ffeef0;
+          color: #b31d28;
+        }
+      `}</style>
+    </div>
+  );
+};
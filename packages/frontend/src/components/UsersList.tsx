@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { getAuthHeaders } from '../services/api.service';
 
 export function UsersList() {
   const [users, setUsers] = useState<any[]>([]);
@@ -11,7 +12,9 @@ export function UsersList() {
     
     try {
       // Using the existing Firebase service endpoint
-      const response = await fetch(`${import.meta.env.VITE_API_URL || 'http://localhost:3001'}/users/all`);
+      const response = await fetch(`${import.meta.env.VITE_API_URL || 'http://localhost:3001'}/users/all`, {
+        headers: getAuthHeaders()
+      });
       
       if (!response.ok) {
         throw new Error(`Failed to fetch users: ${response.statusText}`);
@@ -6,4 +6,4 @@ export { HealthCheck } from './HealthCheck';
 export { FirebaseTestPanel } from './FirebaseTestPanel';
 export { PromptManager } from './PromptManager';
 export { UsersList } from './UsersList';
-export { TemplateExecutor } from './TemplateExecutor';
\ No newline at end of file
+export { TemplateExecutor } from './TemplateExecutor';export { TemplateHistory } from './TemplateHistory';
@@ -2,6 +2,7 @@ import type {
   OpenAIRequest, 
   OpenAIResponse, 
   ApiResponse,
+  ChatStreamEvent,
   UserRecommendationsRequest,
   UserRecommendationsResponse,
   BatchJobRequest,
@@ -9,14 +10,32 @@ import type {
   BatchJobStatusResponse,
   PromptConfig,
   PromptTemplate,
+  PromptTemplateVersion,
+  PromptTemplateDiff,
+  TemplateVariableValues,
+  TemplatePreview,
+  TemplatePreviewRequest,
   SystemSpecification,
+  SystemSpecVersion,
+  Persona,
+  CreatePersonaRequest,
+  UpdatePersonaRequest,
   CreatePromptTemplateRequest,
   UpdatePromptTemplateRequest,
   ChatWithTemplateRequest,
-  ExecuteTemplateForAllUsersResponse
+  ExecuteTemplateForAllUsersResponse,
+  TemplateScheduleInfo,
+  TemplateExecutionJob,
+  ExecutionJobFilter,
+  ModelSettings
 } from '../types/index';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+// ID token sent with every request: a Firebase ID token, or one from `yarn auth:token` for a backend with AUTH_MODE=test
+const AUTH_TOKEN = import.meta.env.VITE_AUTH_TOKEN;
+
+export const getAuthHeaders = (): Record<string, string> =>
+  AUTH_TOKEN ? { Authorization: `Bearer ${AUTH_TOKEN}` } : {};
 
 export class ApiService {
   private static async makeRequest<T>(
@@ -25,16 +44,17 @@ export class ApiService {
   ): Promise<ApiResponse<T>> {
     try {
       const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+        ...options,
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
           ...options.headers,
         },
-        ...options,
       });
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.message || `HTTP ${response.status}: ${response.statusText}`);
+        throw new Error(errorData.error || errorData.message || `HTTP ${response.status}: ${response.statusText}`);
       }
 
       const data = await response.json();
@@ -48,6 +68,78 @@ export class ApiService {
     }
   }
 
+  /**
+   * POST to a streaming endpoint and report the answer as it arrives over Server-Sent Events
+   * Resolves with the complete response from the final done event
+   */
+  private static async makeStreamRequest(
+    endpoint: string,
+    body: unknown,
+    onDelta: (content: string) => void
+  ): Promise<ApiResponse<OpenAIResponse>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
+          ...getAuthHeaders(),
+        },
+        body: JSON.stringify(body),
+      });
+
+      // Validation errors are answered with regular JSON before the stream starts
+      if (!response.ok || !response.body) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || errorData.message || `HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        buffer += value;
+        const blocks = buffer.split('\n\n');
+        buffer = blocks.pop() || '';
+
+        for (const block of blocks) {
+          const event = this.parseStreamEvent(block);
+          if (!event) continue;
+
+          if (event.event === 'delta') {
+            onDelta(event.data.content);
+          } else if (event.event === 'done') {
+            return { success: true, data: event.data };
+          } else {
+            throw new Error(event.data.error);
+          }
+        }
+      }
+
+      throw new Error('Stream ended before the response was complete');
+    } catch (error) {
+      console.error('API stream request failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Network error occurred'
+      };
+    }
+  }
+
+  private static parseStreamEvent(block: string): ChatStreamEvent | null {
+    let event = '';
+    let data = '';
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data += line.slice(5).trim();
+    }
+    if (!event || !data) return null;
+    return { event, data: JSON.parse(data) } as ChatStreamEvent;
+  }
+
   static async sendMessage(request: OpenAIRequest): Promise<ApiResponse<OpenAIResponse>> {
     return this.makeRequest<OpenAIResponse>('/api/chat/send-message', {
       method: 'POST',
@@ -55,6 +147,10 @@ export class ApiService {
     });
   }
 
+  static async streamMessage(request: OpenAIRequest, onDelta: (content: string) => void): Promise<ApiResponse<OpenAIResponse>> {
+    return this.makeStreamRequest('/api/chat/send-message/stream', request, onDelta);
+  }
+
   static async validateApiKey(apiKey: string): Promise<ApiResponse<{ valid: boolean }>> {
     return this.makeRequest<{ valid: boolean }>('/api/chat/validate-key', {
       method: 'POST',
@@ -101,6 +197,44 @@ export class ApiService {
     });
   }
 
+  static async getSystemSpecHistory(): Promise<ApiResponse<SystemSpecVersion[]>> {
+    return this.makeRequest<SystemSpecVersion[]>('/api/prompts/system-spec/history');
+  }
+
+  static async restoreSystemSpec(version: number): Promise<ApiResponse<SystemSpecification>> {
+    return this.makeRequest<SystemSpecification>(`/api/prompts/system-spec/restore/${version}`, {
+      method: 'POST',
+    });
+  }
+
+  static async getModelSettings(): Promise<ApiResponse<ModelSettings>> {
+    return this.makeRequest<ModelSettings>('/api/prompts/models');
+  }
+
+  static async getPersonas(): Promise<ApiResponse<Persona[]>> {
+    return this.makeRequest<Persona[]>('/api/prompts/personas');
+  }
+
+  static async createPersona(request: CreatePersonaRequest): Promise<ApiResponse<Persona>> {
+    return this.makeRequest<Persona>('/api/prompts/personas', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  static async updatePersona(id: string, request: UpdatePersonaRequest): Promise<ApiResponse<Persona>> {
+    return this.makeRequest<Persona>(`/api/prompts/personas/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(request),
+    });
+  }
+
+  static async deletePersona(id: string): Promise<ApiResponse<{ deleted: boolean }>> {
+    return this.makeRequest<{ deleted: boolean }>(`/api/prompts/personas/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
   static async getPromptTemplates(): Promise<ApiResponse<PromptTemplate[]>> {
     return this.makeRequest<PromptTemplate[]>('/api/prompts/templates');
   }
@@ -123,20 +257,65 @@ export class ApiService {
     });
   }
 
+  static async getTemplateVersions(id: string): Promise<ApiResponse<PromptTemplateVersion[]>> {
+    return this.makeRequest<PromptTemplateVersion[]>(`/api/prompts/templates/${id}/versions`);
+  }
+
+  static async diffTemplateVersions(id: string, from: number, to?: number): Promise<ApiResponse<PromptTemplateDiff>> {
+    const params = new URLSearchParams({ from: String(from) });
+    if (to !== undefined) params.set('to', String(to));
+    return this.makeRequest<PromptTemplateDiff>(`/api/prompts/templates/${id}/diff?${params.toString()}`);
+  }
+
+  static async rollbackTemplate(id: string, version: number): Promise<ApiResponse<PromptTemplate>> {
+    return this.makeRequest<PromptTemplate>(`/api/prompts/templates/${id}/rollback/${version}`, {
+      method: 'POST',
+    });
+  }
+
   static async deletePromptTemplate(id: string): Promise<ApiResponse<{ deleted: boolean }>> {
     return this.makeRequest<{ deleted: boolean }>(`/api/prompts/templates/${id}`, {
       method: 'DELETE',
     });
   }
 
-  static async executeTemplateForAllUsers(templateId: string): Promise<ApiResponse<ExecuteTemplateForAllUsersResponse>> {
+  static async getTemplateSchedules(): Promise<ApiResponse<TemplateScheduleInfo[]>> {
+    return this.makeRequest<TemplateScheduleInfo[]>('/api/prompts/schedules');
+  }
+
+  static async executeTemplateForAllUsers(templateId: string, concurrency?: number): Promise<ApiResponse<ExecuteTemplateForAllUsersResponse>> {
     return this.makeRequest<ExecuteTemplateForAllUsersResponse>(`/api/prompts/templates/${templateId}/execute-all`, {
       method: 'POST',
+      body: JSON.stringify({ concurrency }),
     });
   }
 
-  static async getExecutionJobStatus(jobId: string): Promise<ApiResponse<any>> {
-    return this.makeRequest<any>(`/api/prompts/executions/${jobId}`);
+  static async getExecutionJobStatus(jobId: string): Promise<ApiResponse<TemplateExecutionJob>> {
+    return this.makeRequest<TemplateExecutionJob>(`/api/prompts/executions/${jobId}`);
+  }
+
+  static async listExecutionJobs(filter: ExecutionJobFilter = {}): Promise<ApiResponse<TemplateExecutionJob[]>> {
+    const params = new URLSearchParams();
+    if (filter.status) params.set('status', filter.status);
+    if (filter.templateId) params.set('templateId', filter.templateId);
+    if (filter.from) params.set('from', filter.from.toISOString());
+    if (filter.to) params.set('to', filter.to.toISOString());
+    if (filter.limit) params.set('limit', String(filter.limit));
+
+    const query = params.toString();
+    return this.makeRequest<TemplateExecutionJob[]>(`/api/prompts/executions${query ? `?${query}` : ''}`);
+  }
+
+  static async cancelExecutionJob(jobId: string): Promise<ApiResponse<TemplateExecutionJob>> {
+    return this.makeRequest<TemplateExecutionJob>(`/api/prompts/executions/${jobId}/cancel`, {
+      method: 'POST',
+    });
+  }
+
+  static async resumeExecutionJob(jobId: string): Promise<ApiResponse<TemplateExecutionJob>> {
+    return this.makeRequest<TemplateExecutionJob>(`/api/prompts/executions/${jobId}/resume`, {
+      method: 'POST',
+    });
   }
 
   static async sendWithTemplate(request: ChatWithTemplateRequest): Promise<ApiResponse<OpenAIResponse>> {
@@ -146,10 +325,21 @@ export class ApiService {
     });
   }
 
+  static async streamWithTemplate(request: ChatWithTemplateRequest, onDelta: (content: string) => void): Promise<ApiResponse<OpenAIResponse>> {
+    return this.makeStreamRequest('/api/chat/send-with-template/stream', request, onDelta);
+  }
+
+  static async previewTemplate(templateId: string, request: TemplatePreviewRequest): Promise<ApiResponse<TemplatePreview>> {
+    return this.makeRequest<TemplatePreview>(`/api/prompts/templates/${templateId}/preview`, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
   static async executeTemplateForUser(
     templateId: string,
     userId: string,
-    variables?: Record<string, string>
+    variables?: TemplateVariableValues
   ): Promise<ApiResponse<OpenAIResponse>> {
     return this.makeRequest<OpenAIResponse>(`/api/prompts/templates/${templateId}/execute/${encodeURIComponent(userId)}`, {
       method: 'POST',
@@ -1,11 +1,16 @@
 // Import shared types
 export {
   SystemSpecification,
+  SystemSpecVersion,
+  Persona,
+  CreatePersonaRequest,
+  UpdatePersonaRequest,
   UserMessage,
   OpenAIMessage,
   OpenAIRequest,
   OpenAIResponse,
   ApiResponse,
+  ChatStreamEvent,
   Recommendation,
   UserRecommendationsRequest,
   UserRecommendationsResponse,
@@ -14,13 +19,51 @@ export {
   BatchJobStatusResponse,
   PromptTemplate,
   PromptConfig,
+  PromptTemplateVersion,
+  DiffLine,
+  TemplateFieldChange,
+  PromptTemplateDiff,
+  TemplateVariable,
+  TemplateVariableType,
+  TemplateVariableValues,
+  TemplatePreviewRequest,
+  TemplatePreview,
+  CostEstimate,
+  PromptTrimStep,
+  PromptBudgetReport,
+  ExpenseDataFormat,
+  ExpenseAmountStats,
+  ExpenseAnalytics,
+  ExpenseEmotionStats,
+  ExchangeRates,
+  ConvertedExpenseFields,
+  Role,
+  Permission,
+  PermissionDeniedResponse,
+  AuditAction,
+  AuditEntry,
+  AuditLogFilter,
+  ApiKeyQuotas,
+  ApiKey,
+  CreateApiKeyRequest,
+  ApiKeyWithSecret,
+  ApiKeyUsage,
   CreatePromptTemplateRequest,
   UpdatePromptTemplateRequest,
   ChatWithTemplateRequest,
   FirebaseDataConfig,
   ScheduleConfig,
+  ModelConfig,
+  LLMProviderName,
+  ModelSettings,
+  JsonSchema,
+  TemplateScheduleInfo,
   ExecuteTemplateForAllUsersRequest,
-  ExecuteTemplateForAllUsersResponse
+  ExecuteTemplateForAllUsersResponse,
+  TemplateExecutionJobStatus,
+  UserExecutionResult,
+  TemplateExecutionJob,
+  ExecutionJobFilter
 } from '@mymonji/shared';
 
 // Frontend-specific types
@@ -29,4 +72,5 @@ export interface ChatMessage {
   content: string;
   type: 'user' | 'assistant' | 'system';
   timestamp: Date;
+  isStreaming?: boolean; // True while the assistant answer is still arriving
 }
\ No newline at end of file
@@ -9,6 +9,37 @@ export interface SystemSpecification {
   personality: string;
 }
 
+// A saved revision of the system specification; the newest one is active
+export interface SystemSpecVersion {
+  version: number;
+  spec: SystemSpecification;
+  author: string;
+  createdAt: Date;
+  restoredFromVersion?: number; // Set when the revision restored an older version
+}
+
+// A named system specification that templates can use instead of the global one
+export interface Persona {
+  id: string;
+  name: string;
+  description?: string;
+  systemSpec: SystemSpecification;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreatePersonaRequest {
+  name: string;
+  description?: string;
+  systemSpec: SystemSpecification;
+}
+
+export interface UpdatePersonaRequest {
+  name?: string;
+  description?: string;
+  systemSpec?: SystemSpecification;
+}
+
 export interface UserMessage {
   content: string;
   timestamp: Date;
@@ -34,17 +65,32 @@ export interface OpenAIResponse {
     totalTokens: number;
   };
   model?: string;
+  parsed?: any; // Validated JSON output for templates with an outputSchema
   // Debug information - included when includeDebugInfo is true
   debug?: {
     firebaseData?: {
       userData?: any;
       expenses?: any[];
+      analytics?: ExpenseAnalytics;
     };
     promptSentToOpenAI?: string; // The exact prompt sent to OpenAI (with Firebase data)
     systemSpecUsed?: any; // The system specification used
+    promptBudget?: PromptBudgetReport; // Set when Firebase data was added to the prompt
   };
 }
 
+// How the Firebase data of a prompt was trimmed to fit the token budget, in the order applied
+export type PromptTrimStep = 'compact_json' | 'truncate_old_expenses' | 'summarize_expenses';
+
+export interface PromptBudgetReport {
+  model: string;
+  tokenBudget: number; // Prompt tokens allowed, at most the context window minus maxTokens
+  originalTokens: number; // Estimate for the untrimmed prompt
+  finalTokens: number;
+  steps: PromptTrimStep[]; // Empty when the prompt fit as it was
+  omittedExpenses?: number; // Expenses only included in a summary
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
@@ -52,6 +98,33 @@ export interface ApiResponse<T> {
   message?: string;
 }
 
+// Roles of the prompt management API and the permissions they grant
+export type Role = 'viewer' | 'editor' | 'operator' | 'admin';
+export type Permission =
+  | 'prompts:read'
+  | 'templates:write'
+  | 'personas:write'
+  | 'system-spec:write'
+  | 'executions:read'
+  | 'executions:run'
+  | 'audit:read'
+  | 'api-keys:manage';
+
+// 403 answer when the caller's roles lack the permission a route needs
+export interface PermissionDeniedResponse extends ApiResponse<never> {
+  success: false;
+  code: 'permission_denied';
+  permission: Permission;
+  roles: Role[]; // Roles the caller has
+}
+
+// Server-Sent Events emitted by the streaming chat endpoints
+// Deltas carry the next piece of the answer, done carries the complete response with usage and debug info
+export type ChatStreamEvent =
+  | { event: 'delta'; data: { content: string } }
+  | { event: 'done'; data: OpenAIResponse }
+  | { event: 'error'; data: { error: string } };
+
 // Firebase and Recommendation related types
 export interface Recommendation {
   category: string;
@@ -129,6 +202,76 @@ export interface FirebaseDataConfig {
   };
   includeEmotions?: boolean; // Include emotion data from expenses
   includeUserData?: boolean; // Include user profile data
+  expenseFormat?: ExpenseDataFormat; // How expenses are added to the prompt, 'raw' by default
+  normalizeCurrency?: boolean; // Convert amounts to the user's home currency, true by default
+}
+
+/**
+ * Units of each currency per one unit of the base currency
+ */
+export interface ExchangeRates {
+  base: string;
+  date?: string; // Day the rates were published (YYYY-MM-DD)
+  rates: Record<string, number>;
+}
+
+/**
+ * Fields added to an expense converted to the user's home currency; amount and currencyCode hold the converted values
+ */
+export interface ConvertedExpenseFields {
+  originalAmount: number;
+  originalCurrencyCode: string;
+  exchangeRate: number; // Home currency units per unit of the original currency
+}
+
+/**
+ * raw: the expense rows, analytics: statistics computed from them, both: statistics followed by the rows
+ */
+export type ExpenseDataFormat = 'raw' | 'analytics' | 'both';
+
+/**
+ * Amounts of a group of expenses; totals are kept per currency
+ */
+export interface ExpenseAmountStats {
+  currencyCode?: string;
+  count: number;
+  total: number;
+}
+
+/**
+ * Statistics computed from the expenses of a user, available to templates as the "analytics" variable
+ */
+export interface ExpenseAnalytics {
+  expenseCount: number;
+  from?: string; // First day of the period (YYYY-MM-DD)
+  to?: string; // Last day of the period
+  dayCount: number; // Days in the period, both ends included
+  totals: Array<ExpenseAmountStats & {
+    averageExpense: number;
+    dailyAverage: number;
+    weeklyAverage: number;
+  }>;
+  categories: Array<ExpenseAmountStats & {
+    category: string;
+    share: number; // Percent of the total spent in the currency
+    averageEmotion?: number;
+  }>;
+  topMerchants: Array<ExpenseAmountStats & { name: string }>;
+  emotions?: ExpenseEmotionStats; // Unset when the expenses carry no emotions
+}
+
+export interface ExpenseEmotionStats {
+  count: number; // Expenses with an emotion
+  average: number;
+  distribution: Array<{ emotion: number; count: number; share: number }>;
+  amountCorrelation?: number; // Pearson correlation between amount and emotion, unset when undefined
+  byCategory: Array<{
+    category: string;
+    count: number;
+    averageEmotion: number;
+    difference: number; // Average emotion of the category minus the overall average
+    correlation?: number; // Point-biserial correlation between being in the category and the emotion
+  }>;
 }
 
 export interface ScheduleConfig {
@@ -138,6 +281,54 @@ export interface ScheduleConfig {
   runForAllUsers?: boolean; // Run for all users or specific users
 }
 
+// Model backends: OpenAI, a self-hosted OpenAI-compatible server, or scripted canned responses
+export type LLMProviderName = 'openai' | 'openai-compatible' | 'mock';
+
+export interface ModelConfig {
+  provider?: LLMProviderName;
+  model?: string; // Must be one of the models allowed by the server
+  temperature?: number; // 0 - 2
+  maxTokens?: number; // Maximum completion tokens
+  responseFormat?: 'text' | 'json_object';
+}
+
+// JSON Schema (draft-07) describing the structured output of a template
+export type JsonSchema = Record<string, any>;
+
+// Server defaults for unset ModelConfig fields and the models templates may use
+export interface ModelSettings {
+  defaults: Required<ModelConfig>;
+  allowedModels: string[];
+  maxTokensLimit: number;
+  providers: LLMProviderName[];
+}
+
+export interface TemplateScheduleInfo {
+  templateId: string;
+  templateName: string;
+  cronExpression: string;
+  timezone: string;
+  runForAllUsers: boolean;
+  nextRun?: Date; // Unset when the schedule cannot be computed
+  lastRun?: Date;
+  lastJobId?: string; // Execution job started by the last scheduled run
+  error?: string; // Invalid cron expression/timezone or last run failure
+}
+
+// A variable a template expects, supplied when the template is executed
+export type TemplateVariableType = 'string' | 'number' | 'boolean' | 'date';
+
+export interface TemplateVariable {
+  name: string;
+  type: TemplateVariableType;
+  required?: boolean; // Executing without a value (and no default) is rejected
+  default?: string | number | boolean;
+  description?: string;
+}
+
+// Values for template variables as sent by clients, converted to the declared types
+export type TemplateVariableValues = Record<string, string | number | boolean>;
+
 export interface PromptTemplate {
   id: string;
   name: string;
@@ -146,10 +337,44 @@ export interface PromptTemplate {
   category?: string;
   firebaseData?: FirebaseDataConfig; // Configuration for Firebase data inclusion
   schedule?: ScheduleConfig; // Scheduling configuration
+  modelConfig?: ModelConfig; // Overrides the server's default model parameters
+  outputSchema?: JsonSchema; // When set the model must answer with JSON matching this schema
+  personaId?: string; // Persona whose system spec is used instead of the global one
+  variables?: TemplateVariable[]; // Variables used in userPrompt besides the Firebase data
+  tokenBudget?: number; // Maximum prompt tokens, Firebase data is trimmed to fit
+  version?: number; // Incremented on every change, unset means 1
   createdAt: Date;
   updatedAt: Date;
 }
 
+// A saved revision of a prompt template; the newest one is the current template
+export interface PromptTemplateVersion {
+  version: number;
+  template: PromptTemplate;
+  author: string;
+  createdAt: Date;
+  restoredFromVersion?: number; // Set when the revision rolled back to an older version
+}
+
+export interface DiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+export interface TemplateFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+  lines?: DiffLine[]; // Line by line diff of text fields
+}
+
+export interface PromptTemplateDiff {
+  templateId: string;
+  fromVersion: number;
+  toVersion: number;
+  changes: TemplateFieldChange[];
+}
+
 export interface PromptConfig {
   systemSpec: SystemSpecification;
   templates: PromptTemplate[];
@@ -162,6 +387,11 @@ export interface CreatePromptTemplateRequest {
   category?: string;
   firebaseData?: FirebaseDataConfig;
   schedule?: ScheduleConfig;
+  modelConfig?: ModelConfig;
+  outputSchema?: JsonSchema;
+  personaId?: string;
+  variables?: TemplateVariable[];
+  tokenBudget?: number;
 }
 
 export interface UpdatePromptTemplateRequest {
@@ -171,21 +401,182 @@ export interface UpdatePromptTemplateRequest {
   category?: string;
   firebaseData?: FirebaseDataConfig;
   schedule?: ScheduleConfig;
+  modelConfig?: ModelConfig;
+  outputSchema?: JsonSchema | null; // null removes the schema
+  personaId?: string | null; // null switches back to the global system spec
+  variables?: TemplateVariable[];
+  tokenBudget?: number | null; // null removes the budget
 }
 
 export interface ChatWithTemplateRequest {
   templateId: string;
-  variables?: Record<string, string>;
+  variables?: TemplateVariableValues;
   userId?: string; // User ID for Firebase data retrieval
   includeDebugInfo?: boolean; // Include detailed debug information in response
 }
 
+export interface TemplatePreviewRequest {
+  userId?: string; // Required for templates with Firebase data
+  variables?: TemplateVariableValues;
+}
+
+export interface CostEstimate {
+  currency: 'USD';
+  prompt: number;
+  completion: number;
+  total: number;
+}
+
+// What executing a template would send to the model, without calling it or saving anything
+export interface TemplatePreview {
+  templateId: string;
+  templateVersion: number;
+  userId?: string;
+  provider: LLMProviderName;
+  model: string;
+  systemMessage: string; // Rendered exactly as sent, including output schema instructions
+  userPrompt: string; // Rendered prompt including the enriched Firebase data
+  firebaseData?: {
+    userData?: any;
+    expenses?: any[];
+    analytics?: ExpenseAnalytics;
+  };
+  willCallModel: boolean; // False when execution would stop early, e.g. without expenses
+  promptBudget?: PromptBudgetReport;
+  estimatedTokens: {
+    prompt: number;
+    completion: number; // maxTokens of the template - the most the answer may use
+    total: number;
+  };
+  estimatedCost?: CostEstimate; // Unset when the price of the model is unknown
+}
+
 export interface ExecuteTemplateForAllUsersRequest {
   templateId: string;
+  concurrency?: number; // Users processed in parallel (server default when unset)
 }
 
 export interface ExecuteTemplateForAllUsersResponse {
   jobId: string;
   status: string;
   totalUsers: number;
-}
\ No newline at end of file
+}
+
+// Template execution job types
+export type TemplateExecutionJobStatus =
+  | 'pending'
+  | 'running'
+  | 'completed'
+  | 'partially_completed' // Finished, but some users failed
+  | 'failed'
+  | 'cancelled';
+
+export interface UserExecutionResult {
+  uid: string;
+  status: 'succeeded' | 'failed';
+  recommendationId?: string; // Document saved to /users2/{uid}/recommendations
+  error?: string;
+  finishedAt: Date;
+}
+
+export interface TemplateExecutionJob {
+  jobId: string;
+  templateId: string;
+  templateName: string;
+  status: TemplateExecutionJobStatus;
+  trigger: 'manual' | 'schedule';
+  concurrency?: number; // Maximum users processed in parallel
+  rateLimitHits?: number; // 429 responses that made the job back off
+  startTime: Date;
+  endTime?: Date;
+  totalUsers: number;
+  processedUsers: number;
+  succeededUsers: number;
+  failedUsers: number;
+  errors: string[];
+  error?: string; // Set when the job itself failed
+  resumeCount?: number; // How often the job was resumed after failing or being cancelled
+  userResults?: Record<string, UserExecutionResult>; // Omitted when listing jobs
+}
+
+export interface ExecutionJobFilter {
+  status?: TemplateExecutionJobStatus;
+  templateId?: string;
+  from?: Date; // Jobs started at or after this time
+  to?: Date; // Jobs started at or before this time
+  limit?: number;
+}
+
+// Audit trail of administrative changes and batch runs
+export type AuditAction =
+  | 'system-spec.update'
+  | 'system-spec.restore'
+  | 'template.create'
+  | 'template.update'
+  | 'template.delete'
+  | 'template.rollback'
+  | 'persona.create'
+  | 'persona.update'
+  | 'persona.delete'
+  | 'execution.start'
+  | 'execution.cancel'
+  | 'execution.resume'
+  | 'batch.start'
+  | 'api-key.create'
+  | 'api-key.rotate'
+  | 'api-key.revoke';
+
+export interface AuditEntry {
+  id: string;
+  timestamp: Date;
+  actor: { uid: string; email?: string }; // system:scheduler for scheduled runs
+  action: AuditAction;
+  target: { type: 'system-spec' | 'template' | 'persona' | 'execution' | 'batch' | 'api-key'; id?: string };
+  before?: unknown; // Snapshot before the change, absent for creations and runs
+  after?: unknown; // Snapshot after the change, absent for deletions
+  ip?: string;
+  requestId?: string;
+}
+
+export interface AuditLogFilter {
+  actor?: string; // uid or email
+  actions?: AuditAction[];
+  from?: Date; // Entries recorded at or after this time
+  to?: Date; // Entries recorded at or before this time
+  limit?: number;
+}
+
+// API keys of machine clients such as cron jobs; keys act with their scopes instead of roles
+export interface ApiKeyQuotas {
+  requestsPerMinute?: number; // Defaults to API_KEY_DEFAULT_REQUESTS_PER_MINUTE
+  tokensPerDay?: number; // OpenAI tokens per UTC day, defaults to API_KEY_DEFAULT_TOKENS_PER_DAY (unset = unlimited)
+}
+
+export interface ApiKey {
+  id: string; // Public part of the key, mk_<id>_<secret>
+  name: string;
+  scopes: Permission[];
+  quotas: ApiKeyQuotas;
+  createdAt: Date;
+  createdBy: string; // uid of the admin who created the key
+  rotatedAt?: Date;
+  revokedAt?: Date;
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: Permission[];
+  quotas?: ApiKeyQuotas;
+}
+
+// Answer of creating or rotating a key; the secret key is only ever shown here
+export interface ApiKeyWithSecret {
+  apiKey: ApiKey;
+  key: string;
+}
+
+// Usage of a key in its current quota windows
+export interface ApiKeyUsage {
+  requestsThisMinute: number;
+  tokensToday: number;
+}